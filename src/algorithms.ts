@@ -0,0 +1,1158 @@
+// Graph algorithm procedures (CALL gds.<algorithm>.stream / .write). Algorithms run over an
+// in-memory projection of the nodes and relationships selected by their configuration.
+// The executor runs them before the query is translated, as it loads LOAD CSV files, and
+// passes the result rows to the translator as a parameter.
+
+import type { GraphDatabase } from "./db.js";
+
+export type Orientation = "NATURAL" | "REVERSE" | "UNDIRECTED";
+
+export interface AlgorithmConfig {
+  /** Labels of the projected nodes; all nodes when omitted or ["*"] */
+  nodeLabels?: string[];
+  /** Types of the projected relationships; all relationships when omitted or ["*"] */
+  relationshipTypes?: string[];
+  orientation: Orientation;
+  /** Numeric relationship property used as weight; relationships without it weigh 1 */
+  relationshipWeightProperty?: string;
+  /** Iteration limit; the default depends on the algorithm */
+  maxIterations?: number;
+  /** Louvain: how many times communities may be merged into single nodes */
+  maxLevels: number;
+  dampingFactor: number;
+  tolerance: number;
+  /** Node property that write mode stores results in */
+  writeProperty?: string;
+  /** Path algorithms: id of the node paths start from (given as a node or its id) */
+  sourceNode?: string;
+  /** Path algorithms: id of the node paths end at (all reachable nodes for allShortestPaths) */
+  targetNode?: string;
+  /** A*: numeric node properties holding each node's coordinates in degrees */
+  latitudeProperty?: string;
+  longitudeProperty?: string;
+  /** Yen: number of paths to find */
+  k: number;
+  /** Node similarity: JACCARD, OVERLAP or COSINE */
+  similarityMetric: SimilarityMetric;
+  /** Node similarity and link prediction: number of pairs to return for each node */
+  topK: number;
+  /** Lowest similarity (node similarity) or score (link prediction) to return */
+  similarityCutoff: number;
+  scoreCutoff: number;
+}
+
+export type SimilarityMetric = "JACCARD" | "OVERLAP" | "COSINE";
+
+const CONFIG_KEYS = new Set([
+  "nodeLabels",
+  "relationshipTypes",
+  "orientation",
+  "relationshipWeightProperty",
+  "maxIterations",
+  "maxLevels",
+  "dampingFactor",
+  "tolerance",
+  "writeProperty",
+  "sourceNode",
+  "targetNode",
+  "latitudeProperty",
+  "longitudeProperty",
+  "k",
+  "similarityMetric",
+  "topK",
+  "similarityCutoff",
+  "scoreCutoff",
+]);
+
+/**
+ * Projected graph: nodes by index, with the relationships leaving each node in the
+ * projection's orientation (both ways for UNDIRECTED)
+ */
+export interface GraphProjection {
+  nodeIds: string[];
+  /** id is the relationship's id, which paths are built from */
+  adjacency: { target: number; weight: number; id: string }[][];
+  weighted: boolean;
+  orientation: Orientation;
+  /** [latitude, longitude] of each node, when latitudeProperty and longitudeProperty are configured */
+  coordinates?: ([number, number] | null)[];
+  /** Throws once the running query reaches its timeout; algorithms call it as they go */
+  checkInterrupt: () => void;
+}
+
+interface NodeAlgorithm {
+  /** Name of the per-node result column */
+  column: string;
+  /** Summary columns that write mode yields besides nodePropertiesWritten */
+  statsColumns: string[];
+  run(graph: GraphProjection, config: AlgorithmConfig): { values: number[]; stats?: Record<string, unknown> };
+}
+
+const NODE_ALGORITHMS: Record<string, NodeAlgorithm> = {
+  "gds.pagerank": { column: "score", statsColumns: ["ranIterations", "didConverge"], run: pageRank },
+  "gds.degree": { column: "score", statsColumns: [], run: (graph) => ({ values: degreeCentrality(graph) }) },
+  "gds.betweenness": { column: "score", statsColumns: [], run: (graph) => ({ values: betweennessCentrality(graph) }) },
+  "gds.wcc": { column: "componentId", statsColumns: ["componentCount"], run: weaklyConnectedComponents },
+  "gds.scc": { column: "componentId", statsColumns: ["componentCount"], run: stronglyConnectedComponents },
+  "gds.labelpropagation": {
+    column: "communityId",
+    statsColumns: ["communityCount", "ranIterations", "didConverge"],
+    run: labelPropagation,
+  },
+  "gds.louvain": { column: "communityId", statsColumns: ["communityCount", "modularity", "ranLevels"], run: louvain },
+};
+
+/**
+ * A path found by a path algorithm, as node indexes, the ids of the relationships between
+ * them and the total cost of reaching each node
+ */
+interface FoundPath {
+  nodes: number[];
+  edges: string[];
+  costs: number[];
+}
+
+interface PathAlgorithm {
+  /** Whether the configuration must name a targetNode (otherwise it must not) */
+  requiresTarget: boolean;
+  run(graph: GraphProjection, source: number, target: number | undefined, config: AlgorithmConfig): FoundPath[];
+}
+
+const PATH_ALGORITHMS: Record<string, PathAlgorithm> = {
+  "gds.shortestpath.dijkstra": {
+    requiresTarget: true,
+    run: (graph, source, target) => {
+      const path = dijkstra(graph, source, target).get(target!);
+      return path ? [path] : [];
+    },
+  },
+  "gds.allshortestpaths.dijkstra": {
+    requiresTarget: false,
+    run: (graph, source) => [...dijkstra(graph, source).values()],
+  },
+  "gds.shortestpath.astar": {
+    requiresTarget: true,
+    run: (graph, source, target) => {
+      const path = aStar(graph, source, target!);
+      return path ? [path] : [];
+    },
+  },
+  "gds.shortestpath.yens": { requiresTarget: true, run: (graph, source, target, config) => yen(graph, source, target!, config.k) },
+};
+
+const PATH_COLUMNS = ["index", "sourceNode", "targetNode", "totalCost", "nodeIds", "costs", "path"];
+
+/**
+ * A pair of node indexes and their similarity or link prediction score
+ */
+interface ScoredPair {
+  node1: number;
+  node2: number;
+  value: number;
+}
+
+interface PairAlgorithm {
+  /** Name of the similarity or score column */
+  column: string;
+  /** Scores of the candidate pairs, in both orders */
+  run(graph: GraphProjection, config: AlgorithmConfig): ScoredPair[];
+  cutoff(config: AlgorithmConfig): number;
+}
+
+const PAIR_ALGORITHMS: Record<string, PairAlgorithm> = {
+  "gds.nodesimilarity": { column: "similarity", run: nodeSimilarity, cutoff: (config) => config.similarityCutoff },
+  "gds.linkprediction.commonneighbors": {
+    column: "score",
+    run: (graph) => linkPrediction(graph, () => 1),
+    cutoff: (config) => config.scoreCutoff,
+  },
+  "gds.linkprediction.adamicadar": {
+    column: "score",
+    run: (graph) => linkPrediction(graph, (degree) => 1 / Math.log(degree)),
+    cutoff: (config) => config.scoreCutoff,
+  },
+};
+
+export type AlgorithmProcedure =
+  | { kind: "node"; name: string; mode: "stream" | "write"; algorithm: NodeAlgorithm }
+  | { kind: "path"; name: string; mode: "stream"; algorithm: PathAlgorithm }
+  | { kind: "pair"; name: string; mode: "stream"; algorithm: PairAlgorithm };
+
+/**
+ * The algorithm procedure called by a procedure name (in any case), if it is one
+ */
+export function algorithmProcedure(procedure: string): AlgorithmProcedure | null {
+  const dot = procedure.lastIndexOf(".");
+  const name = procedure.slice(0, dot);
+  const mode = procedure.slice(dot + 1).toLowerCase();
+  const pathAlgorithm = PATH_ALGORITHMS[name.toLowerCase()];
+  if (pathAlgorithm) {
+    return mode === "stream" ? { kind: "path", name, mode, algorithm: pathAlgorithm } : null;
+  }
+  const pairAlgorithm = PAIR_ALGORITHMS[name.toLowerCase()];
+  if (pairAlgorithm) {
+    return mode === "stream" ? { kind: "pair", name, mode, algorithm: pairAlgorithm } : null;
+  }
+  const algorithm = NODE_ALGORITHMS[name.toLowerCase()];
+  if (!algorithm || (mode !== "stream" && mode !== "write")) return null;
+  return { kind: "node", name, mode, algorithm };
+}
+
+/**
+ * Columns a procedure yields: the node and its result in stream mode, a summary in write mode,
+ * one row per path for path algorithms and per pair of nodes for pair algorithms
+ */
+export function algorithmOutputColumns(procedure: AlgorithmProcedure): string[] {
+  if (procedure.kind === "path") return PATH_COLUMNS;
+  if (procedure.kind === "pair") return ["node1", "node2", procedure.algorithm.column];
+  return procedure.mode === "stream"
+    ? ["nodeId", "node", procedure.algorithm.column]
+    : ["nodePropertiesWritten", ...procedure.algorithm.statsColumns];
+}
+
+function stringList(value: unknown, key: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const list = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(list) || !list.every((item) => typeof item === "string")) {
+    throw new Error(`${key} must be a string or a list of strings`);
+  }
+  return list.includes("*") ? undefined : list;
+}
+
+function stringOption(value: unknown, key: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new Error(`${key} must be a string`);
+  return value;
+}
+
+/** A node given as a node value or by its id */
+function nodeOption(value: unknown, key: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return value;
+  if (typeof value === "object" && !Array.isArray(value) && typeof (value as { _nf_id?: unknown })._nf_id === "string") {
+    return (value as { _nf_id: string })._nf_id;
+  }
+  throw new Error(`${key} must be a node or a node id`);
+}
+
+function numberOption(value: unknown, key: string, defaultValue: number): number;
+function numberOption(value: unknown, key: string): number | undefined;
+function numberOption(value: unknown, key: string, defaultValue?: number): number | undefined {
+  if (value === undefined || value === null) return defaultValue;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`);
+  }
+  return value;
+}
+
+function similarityMetric(value: unknown): SimilarityMetric {
+  if (value === undefined || value === null) return "JACCARD";
+  const metric = typeof value === "string" ? value.toUpperCase() : value;
+  if (metric !== "JACCARD" && metric !== "OVERLAP" && metric !== "COSINE") {
+    throw new Error("similarityMetric must be JACCARD, OVERLAP or COSINE");
+  }
+  return metric;
+}
+
+/**
+ * Check an algorithm configuration map and fill in defaults
+ */
+export function parseAlgorithmConfig(value: unknown, procedure: AlgorithmProcedure): AlgorithmConfig {
+  if (value === undefined || value === null) value = {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${procedure.name}.${procedure.mode} expects a configuration map`);
+  }
+  const map = value as Record<string, unknown>;
+  for (const key of Object.keys(map)) {
+    if (!CONFIG_KEYS.has(key)) throw new Error(`Unexpected configuration key: ${key}`);
+  }
+
+  const orientation = map.orientation ?? "NATURAL";
+  if (orientation !== "NATURAL" && orientation !== "REVERSE" && orientation !== "UNDIRECTED") {
+    throw new Error("orientation must be NATURAL, REVERSE or UNDIRECTED");
+  }
+  const writeProperty = map.writeProperty;
+  if (procedure.mode === "write" && (typeof writeProperty !== "string" || writeProperty === "")) {
+    throw new Error(`${procedure.name}.write requires a writeProperty`);
+  }
+
+  const config: AlgorithmConfig = {
+    nodeLabels: stringList(map.nodeLabels, "nodeLabels"),
+    relationshipTypes: stringList(map.relationshipTypes, "relationshipTypes"),
+    orientation,
+    relationshipWeightProperty: stringOption(map.relationshipWeightProperty, "relationshipWeightProperty"),
+    maxIterations: numberOption(map.maxIterations, "maxIterations"),
+    maxLevels: numberOption(map.maxLevels, "maxLevels", 10),
+    dampingFactor: numberOption(map.dampingFactor, "dampingFactor", 0.85),
+    tolerance: numberOption(map.tolerance, "tolerance", 1e-7),
+    writeProperty: writeProperty as string | undefined,
+    sourceNode: nodeOption(map.sourceNode, "sourceNode"),
+    targetNode: nodeOption(map.targetNode, "targetNode"),
+    latitudeProperty: stringOption(map.latitudeProperty, "latitudeProperty"),
+    longitudeProperty: stringOption(map.longitudeProperty, "longitudeProperty"),
+    k: numberOption(map.k, "k", 1),
+    similarityMetric: similarityMetric(map.similarityMetric),
+    topK: numberOption(map.topK, "topK", 10),
+    similarityCutoff: numberOption(map.similarityCutoff, "similarityCutoff", 0),
+    scoreCutoff: numberOption(map.scoreCutoff, "scoreCutoff", 0),
+  };
+  for (const key of ["maxIterations", "maxLevels", "k", "topK"] as const) {
+    const limit = config[key];
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+  }
+  if (config.dampingFactor < 0 || config.dampingFactor >= 1) {
+    throw new Error("dampingFactor must be at least 0 and less than 1");
+  }
+
+  if (procedure.kind === "path") {
+    for (const key of ["sourceNode", "targetNode"] as const) {
+      if (key in map && config[key] === undefined) throw new Error(`${key} must be a node or a node id, got null`);
+    }
+    if (config.sourceNode === undefined) throw new Error(`${procedure.name} requires a sourceNode`);
+    if (procedure.algorithm.requiresTarget && config.targetNode === undefined) {
+      throw new Error(`${procedure.name} requires a targetNode`);
+    }
+    if (!procedure.algorithm.requiresTarget && config.targetNode !== undefined) {
+      throw new Error("Unexpected configuration key: targetNode");
+    }
+  }
+  if (procedure.name.toLowerCase() === "gds.shortestpath.astar" && (!config.latitudeProperty || !config.longitudeProperty)) {
+    throw new Error(`${procedure.name} requires a latitudeProperty and a longitudeProperty`);
+  }
+  return config;
+}
+
+/**
+ * Load the nodes with any of the configured labels and the relationships of the configured
+ * types between them
+ */
+export function loadProjection(db: GraphDatabase, config: AlgorithmConfig): GraphProjection {
+  const nodeParams: unknown[] = [];
+  let nodeSql = "SELECT id FROM nodes";
+  if (config.nodeLabels) {
+    nodeSql += ` WHERE EXISTS (SELECT 1 FROM json_each(label) WHERE value IN (${config.nodeLabels.map(() => "?").join(", ")}))`;
+    nodeParams.push(...config.nodeLabels);
+  }
+  const nodeIds = db.execute(`${nodeSql} ORDER BY rowid`, nodeParams).rows.map((row) => row.id as string);
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+
+  const edgeParams: unknown[] = [];
+  const weightSql = config.relationshipWeightProperty ? "json_extract(properties, ?)" : "1";
+  if (config.relationshipWeightProperty) edgeParams.push(`$.${config.relationshipWeightProperty}`);
+  let edgeSql = `SELECT id, source_id, target_id, ${weightSql} AS weight FROM edges`;
+  if (config.relationshipTypes) {
+    edgeSql += ` WHERE type IN (${config.relationshipTypes.map(() => "?").join(", ")})`;
+    edgeParams.push(...config.relationshipTypes);
+  }
+
+  const adjacency: GraphProjection["adjacency"] = nodeIds.map(() => []);
+  for (const row of db.execute(`${edgeSql} ORDER BY rowid`, edgeParams).rows) {
+    const source = index.get(row.source_id as string);
+    const target = index.get(row.target_id as string);
+    if (source === undefined || target === undefined) continue;
+    const weight = typeof row.weight === "number" ? row.weight : 1;
+    const id = row.id as string;
+
+    if (config.orientation !== "REVERSE") adjacency[source].push({ target, weight, id });
+    if (config.orientation !== "NATURAL") adjacency[target].push({ target: source, weight, id });
+  }
+
+  const graph: GraphProjection = {
+    nodeIds,
+    adjacency,
+    weighted: config.relationshipWeightProperty !== undefined,
+    orientation: config.orientation,
+    checkInterrupt: () => db.checkInterrupt(),
+  };
+
+  if (config.latitudeProperty && config.longitudeProperty) {
+    const coordinates = new Map<string, [number, number]>();
+    const rows = db.execute(
+      "SELECT id, json_extract(properties, ?) AS latitude, json_extract(properties, ?) AS longitude FROM nodes",
+      [`$.${config.latitudeProperty}`, `$.${config.longitudeProperty}`]
+    ).rows;
+    for (const row of rows) {
+      if (typeof row.latitude === "number" && typeof row.longitude === "number") {
+        coordinates.set(row.id as string, [row.latitude, row.longitude]);
+      }
+    }
+    graph.coordinates = nodeIds.map((id) => coordinates.get(id) ?? null);
+  }
+  return graph;
+}
+
+/**
+ * Run an algorithm procedure: the result rows in stream mode; in write mode, the summary row
+ * after storing each node's result in its writeProperty
+ */
+export function runAlgorithmProcedure(
+  db: GraphDatabase,
+  procedure: AlgorithmProcedure,
+  configValue: unknown
+): Record<string, unknown>[] {
+  const config = parseAlgorithmConfig(configValue, procedure);
+  const graph = loadProjection(db, config);
+  if (procedure.kind === "path") return runPathAlgorithm(db, procedure.algorithm, graph, config);
+  if (procedure.kind === "pair") return runPairAlgorithm(procedure.algorithm, graph, config);
+
+  const { values, stats } = procedure.algorithm.run(graph, config);
+
+  if (procedure.mode === "stream") {
+    return graph.nodeIds.map((nodeId, i) => ({ nodeId, [procedure.algorithm.column]: values[i] }));
+  }
+
+  db.transaction(() => {
+    const path = `$.${config.writeProperty}`;
+    graph.nodeIds.forEach((id, i) => {
+      db.execute("UPDATE nodes SET properties = json_set(properties, ?, ?) WHERE id = ?", [path, values[i], id]);
+    });
+  });
+  return [{ nodePropertiesWritten: graph.nodeIds.length, ...stats }];
+}
+
+/**
+ * Binary min-heap of node indexes by priority. A node may be pushed again with a lower
+ * priority; callers skip the entries of nodes they have already settled.
+ */
+class MinHeap {
+  private items: { node: number; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number): void {
+    const items = this.items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.node;
+  }
+}
+
+// ============================================================================
+// Centrality
+// ============================================================================
+
+/**
+ * PageRank as computed by Neo4j GDS: every score starts at 1 - d and each iteration sets
+ * score(v) = (1 - d) + d * sum(score(u) * w(u, v) / w(u)) over the relationships u -> v,
+ * where w(u) is the total weight leaving u. Stops after maxIterations (20) or once no score
+ * changes by more than the tolerance.
+ */
+function pageRank(graph: GraphProjection, config: AlgorithmConfig): { values: number[]; stats: Record<string, unknown> } {
+  const d = config.dampingFactor;
+  const n = graph.nodeIds.length;
+  const outWeight = graph.adjacency.map((edges) => edges.reduce((sum, edge) => sum + edge.weight, 0));
+  const maxIterations = config.maxIterations ?? 20;
+  let scores = new Array<number>(n).fill(1 - d);
+  let ranIterations = 0;
+  let didConverge = false;
+
+  while (ranIterations < maxIterations && !didConverge) {
+    graph.checkInterrupt();
+    const next = new Array<number>(n).fill(1 - d);
+    graph.adjacency.forEach((edges, source) => {
+      if (outWeight[source] === 0) return;
+      for (const edge of edges) {
+        next[edge.target] += (d * scores[source] * edge.weight) / outWeight[source];
+      }
+    });
+    didConverge = next.every((score, i) => Math.abs(score - scores[i]) <= config.tolerance);
+    scores = next;
+    ranIterations++;
+  }
+
+  return { values: scores, stats: { ranIterations, didConverge } };
+}
+
+/**
+ * Number of relationships leaving each node in the projection's orientation (incoming for
+ * REVERSE, both for UNDIRECTED), or their total weight
+ */
+function degreeCentrality(graph: GraphProjection): number[] {
+  return graph.adjacency.map((edges) => edges.reduce((sum, edge) => sum + (graph.weighted ? edge.weight : 1), 0));
+}
+
+/**
+ * Brandes' betweenness centrality: for each node, the fraction of shortest paths between
+ * other pairs of nodes that pass through it, summed over the pairs. Paths are shortest by hop
+ * count, or by total weight when weighted. For UNDIRECTED each pair is counted once.
+ */
+function betweennessCentrality(graph: GraphProjection): number[] {
+  const n = graph.nodeIds.length;
+  const centrality = new Array<number>(n).fill(0);
+
+  for (let source = 0; source < n; source++) {
+    graph.checkInterrupt();
+    const order: number[] = [];
+    const predecessors: number[][] = graph.nodeIds.map(() => []);
+    const paths = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(Infinity);
+    paths[source] = 1;
+    distance[source] = 0;
+
+    if (graph.weighted) {
+      const settled = new Array<boolean>(n).fill(false);
+      const queue = new MinHeap();
+      queue.push(source, 0);
+      while (queue.size > 0) {
+        const current = queue.pop();
+        if (settled[current]) continue;
+        settled[current] = true;
+        order.push(current);
+        for (const { target, weight } of graph.adjacency[current]) {
+          const candidate = distance[current] + weight;
+          if (candidate < distance[target]) {
+            distance[target] = candidate;
+            paths[target] = paths[current];
+            predecessors[target] = [current];
+            queue.push(target, candidate);
+          } else if (candidate === distance[target]) {
+            paths[target] += paths[current];
+            predecessors[target].push(current);
+          }
+        }
+      }
+    } else {
+      const queue = [source];
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        order.push(current);
+        for (const { target } of graph.adjacency[current]) {
+          if (distance[target] === Infinity) {
+            distance[target] = distance[current] + 1;
+            queue.push(target);
+          }
+          if (distance[target] === distance[current] + 1) {
+            paths[target] += paths[current];
+            predecessors[target].push(current);
+          }
+        }
+      }
+    }
+
+    const dependency = new Array<number>(n).fill(0);
+    for (let i = order.length - 1; i >= 0; i--) {
+      const node = order[i];
+      for (const predecessor of predecessors[node]) {
+        dependency[predecessor] += (paths[predecessor] / paths[node]) * (1 + dependency[node]);
+      }
+      if (node !== source) centrality[node] += dependency[node];
+    }
+  }
+
+  return graph.orientation === "UNDIRECTED" ? centrality.map((value) => value / 2) : centrality;
+}
+
+// ============================================================================
+// Components and communities
+// ============================================================================
+
+/**
+ * Weighted neighbors of each node with relationships taken in both directions and parallel
+ * relationships merged. A self-relationship is kept as the node's own entry.
+ */
+function undirectedNeighbors(graph: GraphProjection): Map<number, number>[] {
+  const neighbors = graph.nodeIds.map(() => new Map<number, number>());
+  graph.adjacency.forEach((edges, source) => {
+    for (const { target, weight } of edges) {
+      const w = graph.weighted ? weight : 1;
+      neighbors[source].set(target, (neighbors[source].get(target) ?? 0) + w);
+      // UNDIRECTED projections already list every relationship from both ends
+      if (graph.orientation !== "UNDIRECTED" && target !== source) {
+        neighbors[target].set(source, (neighbors[target].get(source) ?? 0) + w);
+      }
+    }
+  });
+  return neighbors;
+}
+
+/**
+ * Renumber group ids 0, 1, 2... in the order the groups are first seen
+ */
+function renumber(groups: number[]): number[] {
+  const ids = new Map<number, number>();
+  return groups.map((group) => {
+    if (!ids.has(group)) ids.set(group, ids.size);
+    return ids.get(group)!;
+  });
+}
+
+/**
+ * Weakly connected components: nodes connected by relationships in either direction
+ */
+function weaklyConnectedComponents(graph: GraphProjection): { values: number[]; stats: Record<string, unknown> } {
+  const parent = graph.nodeIds.map((_, i) => i);
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+  graph.adjacency.forEach((edges, source) => {
+    for (const { target } of edges) {
+      const a = find(source);
+      const b = find(target);
+      if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+    }
+  });
+
+  const values = renumber(graph.nodeIds.map((_, i) => find(i)));
+  return { values, stats: { componentCount: new Set(values).size } };
+}
+
+/**
+ * Strongly connected components (Tarjan): nodes that can reach each other following the
+ * relationships' direction
+ */
+function stronglyConnectedComponents(graph: GraphProjection): { values: number[]; stats: Record<string, unknown> } {
+  const n = graph.nodeIds.length;
+  const index = new Array<number>(n).fill(-1);
+  const lowLink = new Array<number>(n).fill(0);
+  const onStack = new Array<boolean>(n).fill(false);
+  const component = new Array<number>(n).fill(-1);
+  const stack: number[] = [];
+  let nextIndex = 0;
+  let componentCount = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (index[root] !== -1) continue;
+    // Iterative depth-first search: each frame is a node and the next relationship to follow
+    const frames: [number, number][] = [[root, 0]];
+    index[root] = lowLink[root] = nextIndex++;
+    stack.push(root);
+    onStack[root] = true;
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const [node, edgeIndex] = frame;
+      const edges = graph.adjacency[node];
+
+      if (edgeIndex < edges.length) {
+        frame[1]++;
+        const { target } = edges[edgeIndex];
+        if (index[target] === -1) {
+          index[target] = lowLink[target] = nextIndex++;
+          stack.push(target);
+          onStack[target] = true;
+          frames.push([target, 0]);
+        } else if (onStack[target]) {
+          lowLink[node] = Math.min(lowLink[node], index[target]);
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const caller = frames[frames.length - 1][0];
+        lowLink[caller] = Math.min(lowLink[caller], lowLink[node]);
+      }
+      if (lowLink[node] === index[node]) {
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack[member] = false;
+          component[member] = componentCount;
+        } while (member !== node);
+        componentCount++;
+      }
+    }
+  }
+
+  return { values: renumber(component), stats: { componentCount } };
+}
+
+/**
+ * Label propagation: every node starts in its own community and repeatedly joins the
+ * community with the most (or the heaviest) relationships to it, ties going to the lowest
+ * community id. Nodes are visited in a fixed order, so results are deterministic. Stops
+ * once no node changes community or after maxIterations (10).
+ */
+function labelPropagation(graph: GraphProjection, config: AlgorithmConfig): { values: number[]; stats: Record<string, unknown> } {
+  const neighbors = undirectedNeighbors(graph);
+  const maxIterations = config.maxIterations ?? 10;
+  const labels = graph.nodeIds.map((_, i) => i);
+  let ranIterations = 0;
+  let didConverge = false;
+
+  while (ranIterations < maxIterations && !didConverge) {
+    graph.checkInterrupt();
+    didConverge = true;
+    neighbors.forEach((nodeNeighbors, node) => {
+      const weights = new Map<number, number>();
+      for (const [neighbor, weight] of nodeNeighbors) {
+        if (neighbor === node) continue;
+        weights.set(labels[neighbor], (weights.get(labels[neighbor]) ?? 0) + weight);
+      }
+      let best = labels[node];
+      let bestWeight = weights.get(best) ?? 0;
+      for (const [label, weight] of weights) {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      }
+      if (best !== labels[node]) {
+        labels[node] = best;
+        didConverge = false;
+      }
+    });
+    ranIterations++;
+  }
+
+  const values = renumber(labels);
+  return { values, stats: { communityCount: new Set(values).size, ranIterations, didConverge } };
+}
+
+/**
+ * Louvain modularity optimization. Each level moves nodes to the neighboring community that
+ * most increases modularity (up to maxIterations (10) passes over the nodes), then merges each
+ * community into a single node for the next level. Stops when a level moves no node or after
+ * maxLevels (10) levels.
+ */
+function louvain(graph: GraphProjection, config: AlgorithmConfig): { values: number[]; stats: Record<string, unknown> } {
+  const original = undirectedNeighbors(graph);
+  const maxIterations = config.maxIterations ?? 10;
+  // Total weight, counting each relationship once
+  let totalWeight = 0;
+  original.forEach((nodeNeighbors, node) => {
+    for (const [neighbor, weight] of nodeNeighbors) {
+      if (neighbor >= node) totalWeight += weight;
+    }
+  });
+
+  // Community of each original node at the current level
+  let membership = graph.nodeIds.map((_, i) => i);
+  let levelGraph = original;
+  let ranLevels = 0;
+
+  while (totalWeight > 0 && ranLevels < config.maxLevels) {
+    const n = levelGraph.length;
+    // Weighted degree; a self-relationship counts at both of its ends
+    const degree = levelGraph.map((nodeNeighbors, node) => {
+      let sum = 0;
+      for (const [neighbor, weight] of nodeNeighbors) sum += neighbor === node ? 2 * weight : weight;
+      return sum;
+    });
+    const community = levelGraph.map((_, i) => i);
+    const communityDegree = [...degree];
+    let moved = false;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      graph.checkInterrupt();
+      let movedThisPass = false;
+      for (let node = 0; node < n; node++) {
+        const current = community[node];
+        const links = new Map<number, number>();
+        for (const [neighbor, weight] of levelGraph[node]) {
+          if (neighbor === node) continue;
+          links.set(community[neighbor], (links.get(community[neighbor]) ?? 0) + weight);
+        }
+
+        // Modularity gain of joining a community, up to a constant factor
+        communityDegree[current] -= degree[node];
+        const gain = (target: number) =>
+          (links.get(target) ?? 0) - (communityDegree[target] * degree[node]) / (2 * totalWeight);
+        let best = current;
+        let bestGain = gain(current);
+        for (const target of links.keys()) {
+          const targetGain = gain(target);
+          if (targetGain > bestGain + 1e-12 || (Math.abs(targetGain - bestGain) <= 1e-12 && target < best)) {
+            best = target;
+            bestGain = targetGain;
+          }
+        }
+        communityDegree[best] += degree[node];
+        if (best !== current) {
+          community[node] = best;
+          movedThisPass = true;
+        }
+      }
+      if (!movedThisPass) break;
+      moved = true;
+    }
+    if (!moved) break;
+
+    // Merge each community into one node of the next level
+    const levelCommunity = renumber(community);
+    const communityCount = Math.max(...levelCommunity) + 1;
+    const merged = Array.from({ length: communityCount }, () => new Map<number, number>());
+    levelGraph.forEach((nodeNeighbors, node) => {
+      for (const [neighbor, weight] of nodeNeighbors) {
+        if (neighbor < node) continue;
+        const a = levelCommunity[node];
+        const b = levelCommunity[neighbor];
+        merged[a].set(b, (merged[a].get(b) ?? 0) + weight);
+        if (a !== b) merged[b].set(a, (merged[b].get(a) ?? 0) + weight);
+      }
+    });
+    membership = membership.map((node) => levelCommunity[node]);
+    levelGraph = merged;
+    ranLevels++;
+  }
+
+  const values = renumber(membership);
+  return {
+    values,
+    stats: { communityCount: new Set(values).size, modularity: modularity(original, values, totalWeight), ranLevels },
+  };
+}
+
+/**
+ * Modularity of a partition: the fraction of relationship weight inside communities minus
+ * the fraction expected if relationships were placed at random
+ */
+function modularity(neighbors: Map<number, number>[], communities: number[], totalWeight: number): number {
+  if (totalWeight === 0) return 0;
+  const internal = new Map<number, number>();
+  const degree = new Map<number, number>();
+  neighbors.forEach((nodeNeighbors, node) => {
+    const community = communities[node];
+    for (const [neighbor, weight] of nodeNeighbors) {
+      const ends = neighbor === node ? 2 * weight : weight;
+      degree.set(community, (degree.get(community) ?? 0) + ends);
+      if (communities[neighbor] === community) {
+        internal.set(community, (internal.get(community) ?? 0) + ends);
+      }
+    }
+  });
+
+  let q = 0;
+  for (const [community, total] of degree) {
+    q += (internal.get(community) ?? 0) / (2 * totalWeight) - (total / (2 * totalWeight)) ** 2;
+  }
+  return q;
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+function projectedNode(graph: GraphProjection, id: string, key: string): number {
+  const index = graph.nodeIds.indexOf(id);
+  if (index === -1) throw new Error(`${key} ${id} is not in the projected graph`);
+  return index;
+}
+
+/**
+ * Rows of a path procedure. Paths are returned like variable-length matches:
+ * {nodes: [properties, ...], edges: [{id, type, source_id, target_id, properties}, ...]}
+ */
+function runPathAlgorithm(
+  db: GraphDatabase,
+  algorithm: PathAlgorithm,
+  graph: GraphProjection,
+  config: AlgorithmConfig
+): Record<string, unknown>[] {
+  const source = projectedNode(graph, config.sourceNode!, "sourceNode");
+  const target = config.targetNode === undefined ? undefined : projectedNode(graph, config.targetNode, "targetNode");
+  if (graph.adjacency.some((edges) => edges.some((edge) => edge.weight < 0))) {
+    throw new Error("Path algorithms do not support negative relationship weights");
+  }
+  const paths = algorithm.run(graph, source, target, config);
+
+  const nodeIds = [...new Set(paths.flatMap((path) => path.nodes.map((node) => graph.nodeIds[node])))];
+  const edgeIds = [...new Set(paths.flatMap((path) => path.edges))];
+  const nodes = new Map(
+    db
+      .execute("SELECT id, properties FROM nodes WHERE id IN (SELECT value FROM json_each(?))", [JSON.stringify(nodeIds)])
+      .rows.map((row) => [row.id as string, parseProperties(row.properties)])
+  );
+  const edges = new Map(
+    db
+      .execute("SELECT id, type, source_id, target_id, properties FROM edges WHERE id IN (SELECT value FROM json_each(?))", [
+        JSON.stringify(edgeIds),
+      ])
+      .rows.map((row) => [row.id as string, { ...row, properties: parseProperties(row.properties) }])
+  );
+
+  return paths.map((path, index) => ({
+    index,
+    sourceNode: graph.nodeIds[path.nodes[0]],
+    targetNode: graph.nodeIds[path.nodes[path.nodes.length - 1]],
+    totalCost: path.costs[path.costs.length - 1],
+    nodeIds: path.nodes.map((node) => graph.nodeIds[node]),
+    costs: path.costs,
+    path: {
+      nodes: path.nodes.map((node) => nodes.get(graph.nodeIds[node])),
+      edges: path.edges.map((id) => edges.get(id)),
+    },
+  }));
+}
+
+function parseProperties(properties: unknown): Record<string, unknown> {
+  return typeof properties === "string" ? JSON.parse(properties) : ((properties ?? {}) as Record<string, unknown>);
+}
+
+interface PathSearchOptions {
+  /** Lower bound of the remaining cost from a node to the target (A*) */
+  heuristic?: (node: number) => number;
+  /** Nodes and relationships the search may not use (Yen) */
+  blockedNodes?: Set<number>;
+  blockedEdges?: Set<string>;
+}
+
+/**
+ * Dijkstra's algorithm from source: the cheapest path to target, or to every reachable node
+ * (in order of increasing cost) when target is undefined. With a heuristic this is A*.
+ */
+function dijkstra(
+  graph: GraphProjection,
+  source: number,
+  target?: number,
+  options: PathSearchOptions = {}
+): Map<number, FoundPath> {
+  const n = graph.nodeIds.length;
+  const cost = new Array<number>(n).fill(Infinity);
+  const previous = new Array<{ node: number; edge: string } | null>(n).fill(null);
+  const settled = new Array<boolean>(n).fill(false);
+  const order: number[] = [];
+  const queue = new MinHeap();
+  cost[source] = 0;
+  queue.push(source, options.heuristic?.(source) ?? 0);
+
+  while (queue.size > 0) {
+    graph.checkInterrupt();
+    const current = queue.pop();
+    if (settled[current]) continue;
+    settled[current] = true;
+    order.push(current);
+    if (current === target) break;
+
+    for (const { target: next, weight, id } of graph.adjacency[current]) {
+      if (settled[next] || options.blockedNodes?.has(next) || options.blockedEdges?.has(id)) continue;
+      const candidate = cost[current] + (graph.weighted ? weight : 1);
+      if (candidate < cost[next]) {
+        cost[next] = candidate;
+        previous[next] = { node: current, edge: id };
+        queue.push(next, candidate + (options.heuristic?.(next) ?? 0));
+      }
+    }
+  }
+
+  const paths = new Map<number, FoundPath>();
+  for (const end of target === undefined ? order : settled[target] ? [target] : []) {
+    const path: FoundPath = { nodes: [end], edges: [], costs: [cost[end]] };
+    for (let step = previous[end]; step; step = previous[step.node]) {
+      path.nodes.unshift(step.node);
+      path.edges.unshift(step.edge);
+      path.costs.unshift(cost[step.node]);
+    }
+    paths.set(end, path);
+  }
+  return paths;
+}
+
+// Nautical miles per radian of a great circle, as the A* heuristic of Neo4j GDS
+const EARTH_RADIUS_NAUTICAL_MILES = 3440.065;
+
+/**
+ * A*: Dijkstra guided by the great-circle distance to the target in nautical miles, which
+ * never overestimates distances in nautical miles or in (kilo)meters and (statute) miles.
+ * Nodes without coordinates get no guidance.
+ */
+function aStar(graph: GraphProjection, source: number, target: number): FoundPath | undefined {
+  const coordinates = graph.coordinates!;
+  const destination = coordinates[target];
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const heuristic = (node: number) => {
+    const position = coordinates[node];
+    if (!position || !destination) return 0;
+    const [lat1, lon1] = position.map(toRadians);
+    const [lat2, lon2] = destination.map(toRadians);
+    const h = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2;
+    return 2 * EARTH_RADIUS_NAUTICAL_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+  };
+  return dijkstra(graph, source, target, { heuristic }).get(target);
+}
+
+/**
+ * Yen's algorithm: the k cheapest loopless paths from source to target, cheapest first.
+ * Each next path leaves one of the previous path's nodes (the spur node) by a relationship
+ * that no path found so far takes from the same start.
+ */
+function yen(graph: GraphProjection, source: number, target: number, k: number): FoundPath[] {
+  const first = dijkstra(graph, source, target).get(target);
+  if (!first) return [];
+
+  const found: FoundPath[] = [first];
+  const candidates: FoundPath[] = [];
+  const seen = new Set([first.edges.join(",")]);
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+    for (let i = 0; i < previous.nodes.length - 1; i++) {
+      const rootNodes = previous.nodes.slice(0, i + 1);
+      const rootEdges = previous.edges.slice(0, i);
+      const blockedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.edges.length > i && rootEdges.every((edge, j) => path.edges[j] === edge)) {
+          blockedEdges.add(path.edges[i]);
+        }
+      }
+      const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spur = dijkstra(graph, previous.nodes[i], target, { blockedNodes, blockedEdges }).get(target);
+      if (!spur) continue;
+      const rootCost = previous.costs[i];
+      const candidate: FoundPath = {
+        nodes: [...rootNodes.slice(0, -1), ...spur.nodes],
+        edges: [...rootEdges, ...spur.edges],
+        costs: [...previous.costs.slice(0, i), ...spur.costs.map((cost) => rootCost + cost)],
+      };
+      const key = candidate.edges.join(",");
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate);
+      }
+    }
+    if (candidates.length === 0) break;
+
+    // Cheapest candidate next, fewer relationships first on equal cost
+    candidates.sort(
+      (a, b) => a.costs[a.costs.length - 1] - b.costs[b.costs.length - 1] || a.edges.length - b.edges.length
+    );
+    found.push(candidates.shift()!);
+  }
+  return found;
+}
+
+// ============================================================================
+// Similarity and link prediction
+// ============================================================================
+
+/**
+ * Rows of a pair procedure: for each node (in projection order), its topK pairs scoring at
+ * least the cutoff, highest first. Pairs scoring 0 are never returned.
+ */
+function runPairAlgorithm(algorithm: PairAlgorithm, graph: GraphProjection, config: AlgorithmConfig): Record<string, unknown>[] {
+  const cutoff = algorithm.cutoff(config);
+  const byNode = graph.nodeIds.map((): ScoredPair[] => []);
+  for (const pair of algorithm.run(graph, config)) {
+    if (pair.value > 0 && pair.value >= cutoff) byNode[pair.node1].push(pair);
+  }
+
+  return byNode.flatMap((pairs) =>
+    pairs
+      .sort((a, b) => b.value - a.value || a.node2 - b.node2)
+      .slice(0, config.topK)
+      .map((pair) => ({
+        node1: graph.nodeIds[pair.node1],
+        node2: graph.nodeIds[pair.node2],
+        [algorithm.column]: pair.value,
+      }))
+  );
+}
+
+/**
+ * Similarity of nodes by the neighbors their relationships lead to (in the projection's
+ * orientation). Only nodes sharing a neighbor are compared. With relationshipWeightProperty
+ * the neighbors are weighted: Jaccard is then sum(min) / sum(max), overlap sum(min) divided
+ * by the smaller total weight, and cosine the cosine of the weight vectors.
+ */
+function nodeSimilarity(graph: GraphProjection, config: AlgorithmConfig): ScoredPair[] {
+  const vectors = graph.adjacency.map((edges) => {
+    const vector = new Map<number, number>();
+    for (const { target, weight } of edges) {
+      vector.set(target, graph.weighted ? (vector.get(target) ?? 0) + weight : 1);
+    }
+    return vector;
+  });
+  const totals = vectors.map((vector) => [...vector.values()].reduce((sum, weight) => sum + weight, 0));
+  const norms = vectors.map((vector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0)));
+
+  // Nodes that lead to each neighbor, to find the candidates sharing one
+  const sources = graph.nodeIds.map((): number[] => []);
+  vectors.forEach((vector, node) => {
+    for (const neighbor of vector.keys()) sources[neighbor].push(node);
+  });
+
+  const pairs: ScoredPair[] = [];
+  vectors.forEach((vector, node1) => {
+    graph.checkInterrupt();
+    const candidates = new Set<number>();
+    for (const neighbor of vector.keys()) {
+      for (const node2 of sources[neighbor]) if (node2 !== node1) candidates.add(node2);
+    }
+
+    for (const node2 of candidates) {
+      const other = vectors[node2];
+      let min = 0;
+      let product = 0;
+      for (const [neighbor, weight] of vector) {
+        const otherWeight = other.get(neighbor);
+        if (otherWeight === undefined) continue;
+        min += Math.min(weight, otherWeight);
+        product += weight * otherWeight;
+      }
+
+      let value: number;
+      if (config.similarityMetric === "COSINE") {
+        value = product / (norms[node1] * norms[node2]);
+      } else if (config.similarityMetric === "OVERLAP") {
+        value = min / Math.min(totals[node1], totals[node2]);
+      } else {
+        // Sum of the maxima over the union is the total weight minus the shared minima
+        value = min / (totals[node1] + totals[node2] - min);
+      }
+      pairs.push({ node1, node2, value: Number.isFinite(value) ? value : 0 });
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Link prediction for nodes that are not connected but share neighbors (relationships taken
+ * in either direction): the sum of contribution(degree) over their common neighbors, 1 for
+ * common neighbors and 1 / log(degree) for Adamic-Adar.
+ */
+function linkPrediction(graph: GraphProjection, contribution: (degree: number) => number): ScoredPair[] {
+  const neighbors = undirectedNeighbors(graph).map((nodeNeighbors, node) => {
+    const others = new Set(nodeNeighbors.keys());
+    others.delete(node);
+    return others;
+  });
+
+  const pairs: ScoredPair[] = [];
+  neighbors.forEach((nodeNeighbors, node1) => {
+    graph.checkInterrupt();
+    const scores = new Map<number, number>();
+    for (const common of nodeNeighbors) {
+      for (const node2 of neighbors[common]) {
+        if (node2 === node1 || nodeNeighbors.has(node2)) continue;
+        scores.set(node2, (scores.get(node2) ?? 0) + contribution(neighbors[common].size));
+      }
+    }
+    for (const [node2, value] of scores) pairs.push({ node1, node2, value });
+  });
+  return pairs;
+}
@@ -104,7 +104,7 @@ export class ApiKeyStore {
  *
  * - Skips authentication for /health endpoint
  * - Requires Bearer token in Authorization header
- * - Checks project restrictions for /query endpoints
+ * - Checks project restrictions for /query, /script and /tx endpoints
  * - Requires admin flag for /admin endpoints
  */
 export function authMiddleware(store: ApiKeyStore) {
@@ -129,8 +129,14 @@ export function authMiddleware(store: ApiKeyStore) {
       );
     }
 
-    // Check Bearer format
-    if (!authHeader.startsWith("Bearer ")) {
+    // Check Bearer format; Neo4j clients send Basic credentials with the API key as password
+    let apiKey: string;
+    if (authHeader.startsWith("Bearer ")) {
+      apiKey = authHeader.slice(7); // Remove "Bearer "
+    } else if (authHeader.startsWith("Basic ") && path.startsWith("/db/")) {
+      const credentials = Buffer.from(authHeader.slice(6), "base64").toString("utf8");
+      apiKey = credentials.slice(credentials.indexOf(":") + 1);
+    } else {
       return c.json(
         {
           success: false,
@@ -140,7 +146,6 @@ export function authMiddleware(store: ApiKeyStore) {
       );
     }
 
-    const apiKey = authHeader.slice(7); // Remove "Bearer "
     const validation = store.validate(apiKey);
 
     if (!validation.valid) {
@@ -165,7 +170,7 @@ export function authMiddleware(store: ApiKeyStore) {
     }
 
     // Check project restrictions for query endpoints
-    if (path.startsWith("/query/")) {
+    if (path.startsWith("/query/") || path.startsWith("/script/") || path.startsWith("/tx/") || path.startsWith("/db/")) {
       const parts = path.split("/");
       const project = parts[2];
 
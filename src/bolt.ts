@@ -0,0 +1,613 @@
+// Bolt protocol server, so the official Neo4j drivers can connect (bolt://host:port or
+// neo4j://host:port). Speaks Bolt 4.4 and 5.0-5.4: HELLO/LOGON authentication against the
+// API keys, auto-commit queries (RUN, PULL, DISCARD) and explicit transactions (BEGIN, COMMIT,
+// ROLLBACK). The database name is the project. Explicit transactions share the HTTP server's
+// TransactionManager, so both wait for each other on the same project.
+
+import * as net from "net";
+import { DatabaseManager, GraphDatabase, queryTimeout } from "./db.js";
+import { Executor } from "./executor.js";
+import { ApiKeyStore, ValidationResult } from "./auth.js";
+import { TransactionManager, OpenTransaction } from "./transactions.js";
+import { pack, unpack, Float, Structure } from "./packstream.js";
+import { collectEntityIds, loadEntities, neo4jError, plainValue, resultColumns } from "./neo4j.js";
+import type { GraphEntities, Neo4jError } from "./neo4j.js";
+import { asPoint } from "./spatial.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BoltServerOptions {
+  dbManager: DatabaseManager;
+  /** Clients must authenticate with an API key (as the password) when the store has keys */
+  apiKeyStore?: ApiKeyStore;
+  /** Share the HTTP server's transactions so both wait for each other's */
+  transactions?: TransactionManager;
+  importPath?: string;
+  /** Database used when a client names none (default "neo4j"); keys restricted to a project use theirs */
+  defaultDatabase?: string;
+  /** Reported to clients as the server agent (default "LeanGraph") */
+  serverAgent?: string;
+  /** Longest a query may run (ms); drivers' transaction timeouts can only lower it */
+  queryTimeoutMs?: number;
+}
+
+interface BoltVersion {
+  major: number;
+  minor: number;
+}
+
+interface PendingResult {
+  records: unknown[][];
+  offset: number;
+  database: string;
+  type: "r" | "rw";
+  started: number;
+}
+
+// ============================================================================
+// Protocol constants
+// ============================================================================
+
+const MAGIC = 0x6060b017;
+
+const HELLO = 0x01;
+const GOODBYE = 0x02;
+const RESET = 0x0f;
+const RUN = 0x10;
+const BEGIN = 0x11;
+const COMMIT = 0x12;
+const ROLLBACK = 0x13;
+const DISCARD = 0x2f;
+const PULL = 0x3f;
+const TELEMETRY = 0x54;
+const ROUTE = 0x66;
+const LOGON = 0x6a;
+const LOGOFF = 0x6b;
+
+const SUCCESS = 0x70;
+const RECORD = 0x71;
+const IGNORED = 0x7e;
+const FAILURE = 0x7f;
+
+const NODE = 0x4e;
+const RELATIONSHIP = 0x52;
+const UNBOUND_RELATIONSHIP = 0x72;
+const PATH = 0x50;
+const POINT_2D = 0x58;
+const POINT_3D = 0x59;
+
+const MAX_CHUNK_SIZE = 0xffff;
+
+/**
+ * The highest supported version within one of the client's proposals: four bytes of
+ * [reserved, range, minor, major] covering major.minor down to major.(minor - range)
+ */
+function negotiateVersion(proposals: Buffer): BoltVersion | undefined {
+  for (let i = 0; i < 4; i++) {
+    const [, range, minor, major] = proposals.subarray(i * 4, i * 4 + 4);
+    if (major === 5 && minor - range <= 4) {
+      return { major: 5, minor: Math.min(minor, 4) };
+    }
+    if (major === 4 && minor >= 4 && minor - range <= 4) {
+      return { major: 4, minor: 4 };
+    }
+  }
+  return undefined;
+}
+
+function isPathValue(value: object): value is { nodes: unknown[]; edges: PathEdge[] } {
+  const path = value as Record<string, unknown>;
+  return (
+    Object.keys(path).length === 2 &&
+    Array.isArray(path.nodes) &&
+    Array.isArray(path.edges) &&
+    path.edges.every((edge) => typeof edge === "object" && edge !== null && typeof edge.source_id === "string")
+  );
+}
+
+interface PathEdge {
+  id: string;
+  source_id: string;
+  target_id: string;
+}
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+class BoltConnection {
+  private input: Buffer = Buffer.alloc(0);
+  private chunks: Buffer[] = [];
+  private version?: BoltVersion;
+  private helloReceived = false;
+  private auth?: ValidationResult;
+  private routing?: Record<string, unknown>;
+  private failed = false;
+  private transaction?: { open: OpenTransaction; database: string; timeoutMs?: number };
+  private result?: PendingResult;
+  private queries = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private socket: net.Socket,
+    private options: BoltServerOptions & { transactions: TransactionManager },
+    private connectionId: string
+  ) {
+    socket.on("data", (data) => this.receive(data));
+    socket.on("close", () => this.rollback());
+    // A reset connection also emits close, which rolls back its transaction
+    socket.on("error", () => {});
+  }
+
+  private receive(data: Buffer): void {
+    this.input = Buffer.concat([this.input, data]);
+
+    if (!this.version) {
+      if (this.input.length < 20) return;
+      if (this.input.readUInt32BE(0) !== MAGIC) {
+        this.socket.destroy();
+        return;
+      }
+      this.version = negotiateVersion(this.input.subarray(4, 20));
+      const [major, minor] = this.version ? [this.version.major, this.version.minor] : [0, 0];
+      this.socket.write(Buffer.from([0, 0, minor, major]));
+      if (!this.version) {
+        this.socket.end();
+        return;
+      }
+      this.input = this.input.subarray(20);
+    }
+
+    // Messages are sent in chunks prefixed with their size and ended by an empty chunk
+    while (this.input.length >= 2) {
+      const size = this.input.readUInt16BE(0);
+      if (this.input.length < 2 + size) break;
+      const chunk = this.input.subarray(2, 2 + size);
+      this.input = this.input.subarray(2 + size);
+
+      if (size > 0) {
+        this.chunks.push(chunk);
+      } else if (this.chunks.length > 0) {
+        const message = Buffer.concat(this.chunks);
+        this.chunks = [];
+        this.queue = this.queue.then(() => this.handle(message));
+      }
+    }
+  }
+
+  private send(tag: number, fields: unknown[]): void {
+    if (this.socket.destroyed) return;
+    const message = pack(new Structure(tag, fields));
+    for (let offset = 0; offset < message.length; offset += MAX_CHUNK_SIZE) {
+      const chunk = message.subarray(offset, offset + MAX_CHUNK_SIZE);
+      const header = Buffer.alloc(2);
+      header.writeUInt16BE(chunk.length);
+      this.socket.write(header);
+      this.socket.write(chunk);
+    }
+    this.socket.write(Buffer.alloc(2));
+  }
+
+  private success(metadata: Record<string, unknown> = {}): void {
+    this.send(SUCCESS, [metadata]);
+  }
+
+  private failure(error: Neo4jError): void {
+    this.failed = true;
+    this.send(FAILURE, [error]);
+  }
+
+  private async handle(data: Buffer): Promise<void> {
+    if (this.socket.destroyed) return;
+
+    let message: Structure;
+    try {
+      const value = unpack(data);
+      if (!(value instanceof Structure)) throw new Error("Bolt messages must be structures");
+      message = value;
+    } catch (error) {
+      this.protocolError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (message.tag === GOODBYE) {
+      this.rollback();
+      this.socket.end();
+      return;
+    }
+    if (message.tag === RESET) {
+      this.rollback();
+      this.result = undefined;
+      this.failed = false;
+      this.success();
+      return;
+    }
+    // Messages after a failure are ignored until the client resets
+    if (this.failed) {
+      this.send(IGNORED, []);
+      return;
+    }
+
+    try {
+      await this.dispatch(message);
+    } catch (error) {
+      this.failure({
+        code: "Neo.DatabaseError.General.UnknownError",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async dispatch(message: Structure): Promise<void> {
+    const [first, second, third] = message.fields as Record<string, unknown>[];
+
+    if (message.tag === HELLO) {
+      if (this.helloReceived) return this.protocolError("HELLO was already received");
+      this.helloReceived = true;
+      this.routing = first?.routing as Record<string, unknown> | undefined;
+      // Before Bolt 5.1, HELLO carries the credentials; after, LOGON does
+      if (this.usesLogon() || this.authenticate(first ?? {})) {
+        this.success({ server: this.options.serverAgent ?? "LeanGraph", connection_id: this.connectionId, hints: {} });
+      }
+      return;
+    }
+    if (!this.helloReceived) return this.protocolError("Expected HELLO");
+
+    if (message.tag === LOGON && this.usesLogon()) {
+      if (this.auth) return this.protocolError("Already authenticated");
+      if (this.authenticate(first ?? {})) this.success();
+      return;
+    }
+    if (!this.auth) {
+      return this.unauthorized("Authentication is required");
+    }
+
+    switch (message.tag) {
+      case LOGOFF:
+        this.auth = undefined;
+        return this.success();
+      case TELEMETRY:
+        return this.success();
+      case ROUTE:
+        return this.route(first ?? {}, third ?? {});
+      case RUN:
+        return this.run(message.fields[0] as string, second ?? {}, third ?? {});
+      case PULL:
+        return this.pull(first ?? {}, false);
+      case DISCARD:
+        return this.pull(first ?? {}, true);
+      case BEGIN:
+        return this.begin(first ?? {});
+      case COMMIT:
+        return this.commit();
+      case ROLLBACK:
+        this.rollback();
+        return this.success();
+      default:
+        return this.protocolError(`Unsupported message 0x${message.tag.toString(16)}`);
+    }
+  }
+
+  private usesLogon(): boolean {
+    return this.version!.major > 5 || (this.version!.major === 5 && this.version!.minor >= 1);
+  }
+
+  private protocolError(message: string): void {
+    this.failure({ code: "Neo.ClientError.Request.Invalid", message });
+    this.socket.end();
+  }
+
+  private unauthorized(message: string): void {
+    this.failure({ code: "Neo.ClientError.Security.Unauthorized", message });
+    this.socket.end();
+  }
+
+  /**
+   * Check the client's credentials: the API key is the password (basic scheme) or the token
+   * (bearer scheme); anyone may connect when no keys are configured
+   */
+  private authenticate(token: Record<string, unknown>): boolean {
+    const store = this.options.apiKeyStore;
+    if (!store || !store.hasKeys()) {
+      this.auth = { valid: true, admin: true };
+      return true;
+    }
+
+    const validation =
+      (token.scheme === "basic" || token.scheme === "bearer") && typeof token.credentials === "string"
+        ? store.validate(token.credentials)
+        : { valid: false };
+    if (!validation.valid) {
+      this.unauthorized("The client is unauthorized due to authentication failure.");
+      return false;
+    }
+    this.auth = validation;
+    return true;
+  }
+
+  /**
+   * The database for a request, if the client may use it
+   */
+  private database(name: unknown): { name: string; db: GraphDatabase } | undefined {
+    const project = typeof name === "string" && name ? name : this.auth!.project ?? this.options.defaultDatabase ?? "neo4j";
+    if (this.auth!.project && this.auth!.project !== project) {
+      this.failure({ code: "Neo.ClientError.Security.Forbidden", message: `Access denied for project: ${project}` });
+      return undefined;
+    }
+    return { name: project, db: this.options.dbManager.getDatabase(project) };
+  }
+
+  /**
+   * Routing table for neo4j:// URIs: this server does everything
+   */
+  private route(routing: Record<string, unknown>, extra: Record<string, unknown>): void {
+    const database = this.database(extra.db);
+    if (!database) return;
+    const address =
+      (routing.address as string | undefined) ??
+      (this.routing?.address as string | undefined) ??
+      `${this.socket.localAddress}:${this.socket.localPort}`;
+    this.success({
+      rt: {
+        ttl: 300,
+        db: database.name,
+        servers: ["WRITE", "READ", "ROUTE"].map((role) => ({ addresses: [address], role })),
+      },
+    });
+  }
+
+  private async run(cypher: string, params: Record<string, unknown>, extra: Record<string, unknown>): Promise<void> {
+    let database: { name: string; db: GraphDatabase } | undefined;
+    if (this.transaction) {
+      if (!this.options.transactions.get(this.transaction.open.id)) {
+        this.transaction = undefined;
+        return this.failure({
+          code: "Neo.ClientError.Transaction.TransactionNotFound",
+          message: "Transaction not found; it may have timed out",
+        });
+      }
+      database = { name: this.transaction.database, db: this.transaction.open.db };
+    } else {
+      database = this.database(extra.db);
+      if (!database) return;
+      // Auto-commit queries wait while a transaction is open on the project
+      await this.options.transactions.idle(database.db);
+    }
+
+    const { db } = database;
+    const started = Date.now();
+    const changesBefore = totalChanges(db);
+    const executor = new Executor(db, { importDirectory: this.options.importPath });
+    // A transaction's timeout, from BEGIN, applies to each of its queries
+    const requestedMs = this.transaction ? this.transaction.timeoutMs : txTimeout(extra);
+    const result = executor.execute(cypher, params, { timeoutMs: queryTimeout(requestedMs, this.options.queryTimeoutMs) });
+
+    if (!result.success) {
+      // A failed query rolls back its transaction, like on the HTTP endpoints
+      this.rollback();
+      return this.failure(neo4jError(result.error));
+    }
+
+    const columns = resultColumns(cypher, params, result.data);
+    const entities = loadEntities(db, collectEntityIds(result.data));
+    this.result = {
+      records: result.data.map((row) => columns.map((column) => this.value(row[column], entities))),
+      offset: 0,
+      database: database.name,
+      type: totalChanges(db) > changesBefore ? "rw" : "r",
+      started,
+    };
+    this.success({
+      fields: columns,
+      t_first: Date.now() - started,
+      ...(this.transaction ? { qid: this.queries++ } : {}),
+    });
+  }
+
+  private pull(extra: Record<string, unknown>, discard: boolean): void {
+    const result = this.result;
+    if (!result) {
+      return this.failure({ code: "Neo.ClientError.Request.Invalid", message: "There is no result to consume" });
+    }
+
+    const n = typeof extra.n === "number" && extra.n >= 0 ? extra.n : Infinity;
+    const end = discard ? result.records.length : Math.min(result.offset + n, result.records.length);
+    if (!discard) {
+      for (const record of result.records.slice(result.offset, end)) {
+        this.send(RECORD, [record]);
+      }
+    }
+    result.offset = end;
+
+    if (result.offset < result.records.length) {
+      return this.success({ has_more: true });
+    }
+    this.result = undefined;
+    this.success({ type: result.type, t_last: Date.now() - result.started, db: result.database });
+  }
+
+  private async begin(extra: Record<string, unknown>): Promise<void> {
+    if (this.transaction) {
+      return this.failure({ code: "Neo.ClientError.Request.Invalid", message: "A transaction is already open" });
+    }
+    const database = this.database(extra.db);
+    if (!database) return;
+
+    const open = await this.options.transactions.begin(database.db);
+    if (this.socket.destroyed) {
+      this.options.transactions.rollback(open);
+      return;
+    }
+    this.transaction = { open, database: database.name, timeoutMs: txTimeout(extra) };
+    this.queries = 0;
+    this.success();
+  }
+
+  private commit(): void {
+    const transaction = this.transaction;
+    if (!transaction) {
+      return this.failure({ code: "Neo.ClientError.Request.Invalid", message: "There is no transaction to commit" });
+    }
+    this.transaction = undefined;
+    this.result = undefined;
+
+    try {
+      this.options.transactions.commit(transaction.open);
+    } catch (error) {
+      return this.failure({
+        code: "Neo.ClientError.Transaction.TransactionCommitFailed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    this.success();
+  }
+
+  /**
+   * Roll back the connection's transaction, if it is still open
+   */
+  private rollback(): void {
+    const transaction = this.transaction;
+    this.transaction = undefined;
+    if (transaction && this.options.transactions.get(transaction.open.id)) {
+      this.options.transactions.rollback(transaction.open);
+    }
+  }
+
+  // ==========================================================================
+  // Values
+  // ==========================================================================
+
+  private value(value: unknown, entities: GraphEntities): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.value(item, entities));
+    if (typeof value !== "object" || value === null) return value;
+
+    const id = (value as Record<string, unknown>)._nf_id;
+    if (typeof id === "string") {
+      const node = this.node(id, entities);
+      if (node) return node;
+      const relationship = entities.relationships.get(id);
+      if (relationship) {
+        return new Structure(RELATIONSHIP, [
+          Number(relationship.id),
+          Number(relationship.startNode),
+          Number(relationship.endNode),
+          relationship.type,
+          this.properties(relationship.properties),
+          ...(this.version!.major >= 5
+            ? [relationship.elementId, relationship.startNodeElementId, relationship.endNodeElementId]
+            : []),
+        ]);
+      }
+      // Deleted by the query: only its properties are left
+      return this.properties(plainValue(value) as Record<string, unknown>);
+    }
+
+    const point = asPoint(value);
+    if (point) {
+      return new Structure(point.coordinates.length === 3 ? POINT_3D : POINT_2D, [
+        point.crs.srid,
+        ...point.coordinates.map((coordinate) => new Float(coordinate)),
+      ]);
+    }
+
+    if (isPathValue(value)) {
+      const path = this.path(value, entities);
+      if (path) return path;
+    }
+    return this.properties(value as Record<string, unknown>, entities);
+  }
+
+  private properties(map: Record<string, unknown>, entities?: GraphEntities): Record<string, unknown> {
+    const none: GraphEntities = { nodes: new Map(), relationships: new Map() };
+    return Object.fromEntries(Object.entries(map).map(([key, item]) => [key, this.value(item, entities ?? none)]));
+  }
+
+  private node(id: string, entities: GraphEntities): Structure | undefined {
+    const node = entities.nodes.get(id);
+    if (!node) return undefined;
+    return new Structure(NODE, [
+      Number(node.id),
+      node.labels,
+      this.properties(node.properties),
+      ...(this.version!.major >= 5 ? [node.elementId] : []),
+    ]);
+  }
+
+  /**
+   * Path structure for a variable-length path ({nodes, edges}): its distinct nodes and
+   * relationships, and the sequence through them as alternating relationship and node
+   * indexes (relationship indexes are 1-based, negative when traversed backwards)
+   */
+  private path(path: { nodes: unknown[]; edges: PathEdge[] }, entities: GraphEntities): Structure | undefined {
+    const { edges } = path;
+    if (edges.length === 0 || !edges.every((edge) => entities.relationships.has(edge.id))) return undefined;
+
+    // The start is the end of the first relationship that the second one does not touch, or for
+    // a single relationship the end whose properties are those of the first node
+    const [first, second] = edges;
+    let current = first.source_id;
+    if (second) {
+      if (first.source_id === second.source_id || first.source_id === second.target_id) current = first.target_id;
+    } else {
+      const start = JSON.stringify(plainValue(path.nodes[0]));
+      if (start !== JSON.stringify(entities.nodes.get(first.source_id)?.properties)) {
+        if (start === JSON.stringify(entities.nodes.get(first.target_id)?.properties)) current = first.target_id;
+      }
+    }
+
+    const nodeIds = [current];
+    const relationshipIds: string[] = [];
+    const indices: number[] = [];
+    for (const edge of edges) {
+      const forward = edge.source_id === current;
+      current = forward ? edge.target_id : edge.source_id;
+      if (!relationshipIds.includes(edge.id)) relationshipIds.push(edge.id);
+      if (!nodeIds.includes(current)) nodeIds.push(current);
+      const relationshipIndex = relationshipIds.indexOf(edge.id) + 1;
+      indices.push(forward ? relationshipIndex : -relationshipIndex, nodeIds.indexOf(current));
+    }
+
+    const nodes = nodeIds.map((id) => this.node(id, entities));
+    if (!nodes.every((node) => node !== undefined)) return undefined;
+    const relationships = relationshipIds.map((id) => {
+      const relationship = entities.relationships.get(id)!;
+      return new Structure(UNBOUND_RELATIONSHIP, [
+        Number(relationship.id),
+        relationship.type,
+        this.properties(relationship.properties),
+        ...(this.version!.major >= 5 ? [relationship.elementId] : []),
+      ]);
+    });
+    return new Structure(PATH, [nodes, relationships, indices]);
+  }
+}
+
+/**
+ * The tx_timeout (ms) a driver sent with RUN or BEGIN; 0 or none means the server's
+ */
+function txTimeout(extra: Record<string, unknown>): number | undefined {
+  const value = extra.tx_timeout;
+  return typeof value === "number" && value > 0 ? value : undefined;
+}
+
+function totalChanges(db: GraphDatabase): number {
+  return db.execute("SELECT total_changes() AS changes").rows[0].changes as number;
+}
+
+// ============================================================================
+// Server Factory
+// ============================================================================
+
+/**
+ * Create a Bolt server; call listen(port, host) on it to accept connections
+ */
+export function createBoltServer(options: BoltServerOptions): net.Server {
+  const transactions = options.transactions ?? new TransactionManager();
+  let connections = 0;
+
+  return net.createServer((socket) => {
+    new BoltConnection(socket, { ...options, transactions }, `bolt-${++connections}`);
+  });
+}
@@ -7,6 +7,7 @@ import * as fs from "fs";
 import * as path from "path";
 import {
   createServer,
+  createBoltServer,
   GraphDatabase,
   Executor,
   BackupManager,
@@ -45,11 +46,19 @@ program
   .option("-d, --data <path>", "Data directory for databases", "/var/data/leangraph")
   .option("-H, --host <host>", "Host to bind to", "localhost")
   .option("-b, --backup <path>", "Backup directory (enables backup endpoints)")
-  .action(async (options: { port: string; data: string; host: string; backup?: string }) => {
+  .option("-i, --import <path>", "Import directory for LOAD CSV (disabled if not set)")
+  .option("--tx-timeout <seconds>", "Roll back transactions idle for this long", "60")
+  .option("--query-timeout <seconds>", "Stop queries running longer than this (no limit by default)")
+  .option("--bolt-port <port>", "Also accept Neo4j driver connections (Bolt) on this port")
+  .action(async (options: { port: string; data: string; host: string; backup?: string; import?: string; txTimeout: string; queryTimeout?: string; boltPort?: string }) => {
     const port = parseInt(options.port, 10);
+    const boltPort = options.boltPort ? parseInt(options.boltPort, 10) : undefined;
+    const transactionTimeoutMs = parseFloat(options.txTimeout) * 1000;
+    const queryTimeoutMs = options.queryTimeout ? parseFloat(options.queryTimeout) * 1000 || undefined : undefined;
     const dataPath = path.resolve(options.data);
     const host = options.host;
     const backupPath = options.backup ? path.resolve(options.backup) : undefined;
+    const importPath = options.import ? path.resolve(options.import) : undefined;
 
     // Ensure data directory exists
     ensureDataDir(dataPath);
@@ -68,15 +77,20 @@ program
       }
     }
 
-    const { app, dbManager } = createServer({ 
+    const { app, dbManager, apiKeyStore, transactions } = createServer({ 
       port, 
       dataPath,
       backupPath,
+      importPath,
       apiKeys,
+      transactionTimeoutMs,
+      queryTimeoutMs,
     });
 
     const authStatus = apiKeys ? "enabled" : "disabled";
     const backupStatus = backupPath ? backupPath.slice(0, 30) : "disabled";
+    const importStatus = importPath ? importPath.slice(0, 43) : "disabled";
+    const boltStatus = boltPort ? `bolt://${host}:${boltPort}`.slice(0, 43) : "disabled";
 
     console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -85,10 +99,15 @@ program
 ║  Endpoint:  http://${host}:${port.toString().padEnd(5)}                         ║
 ║  Data:      ${dataPath.slice(0, 43).padEnd(43)} ║
 ║  Backups:   ${backupStatus.padEnd(43)} ║
+║  Import:    ${importStatus.padEnd(43)} ║
+║  Bolt:      ${boltStatus.padEnd(43)} ║
 ║  Auth:      ${authStatus.padEnd(43)} ║
 ║                                                           ║
 ║  Routes:                                                  ║
 ║    POST /query/:project       - Execute Cypher queries    ║
+║    POST /script/:project      - Run Cypher scripts        ║
+║    POST /tx/:project          - Begin a transaction       ║
+║    POST /db/:name/tx/commit   - Neo4j HTTP API            ║
 ║    GET  /health               - Health check              ║
 ║    GET  /admin/list           - List all projects         ║
 ║    GET  /admin/backup         - Backup status             ║
@@ -102,6 +121,17 @@ program
       hostname: host,
     });
 
+    if (boltPort) {
+      createBoltServer({
+        dbManager,
+        apiKeyStore,
+        transactions,
+        importPath,
+        queryTimeoutMs,
+        serverAgent: `LeanGraph/${VERSION}`,
+      }).listen(boltPort, host);
+    }
+
     // Handle graceful shutdown
     process.on("SIGINT", () => {
       console.log("\nShutting down...");
@@ -255,12 +285,13 @@ program
   .description("Execute a Cypher query against a project database")
   .option("-d, --data <path>", "Data directory for databases", "/var/data/leangraph")
   .option("-p, --params <json>", "Query parameters as JSON", "{}")
+  .option("-i, --import <path>", "Import directory for LOAD CSV")
   .option("--json", "Output raw JSON", false)
   .action(
     (
       project: string,
       cypher: string,
-      options: { data: string; params: string; json: boolean }
+      options: { data: string; params: string; import?: string; json: boolean }
     ) => {
       const dataPath = path.resolve(options.data);
       const dbPath = path.join(dataPath, `${project}.db`);
@@ -282,9 +313,10 @@ program
       const db = new GraphDatabase(dbPath);
       db.initialize();
 
-      const executor = new Executor(db);
+      const importDirectory = options.import ? path.resolve(options.import) : undefined;
+      const executor = new Executor(db, { importDirectory });
       const result = executor.execute(cypher, params);
-
+      
       db.close();
 
       if (!result.success) {
@@ -314,6 +346,74 @@ program
     }
   );
 
+// ============================================================================
+// run - Execute a Cypher script file
+// ============================================================================
+
+program
+  .command("run <project> <file>")
+  .description("Run a file of semicolon-separated Cypher statements in one transaction")
+  .option("-d, --data <path>", "Data directory for databases", "/var/data/leangraph")
+  .option("-p, --params <json>", "Query parameters as JSON", "{}")
+  .option("-i, --import <path>", "Import directory for LOAD CSV")
+  .option("--json", "Output raw JSON", false)
+  .action(
+    (
+      project: string,
+      file: string,
+      options: { data: string; params: string; import?: string; json: boolean }
+    ) => {
+      const dataPath = path.resolve(options.data);
+      const dbPath = path.join(dataPath, `${project}.db`);
+
+      if (!fs.existsSync(dbPath)) {
+        console.error(`Database not found: ${dbPath}`);
+        console.error(`Run 'leangraph create ${project}' first.`);
+        process.exit(1);
+      }
+
+      if (!fs.existsSync(file)) {
+        console.error(`Script not found: ${file}`);
+        process.exit(1);
+      }
+      const script = fs.readFileSync(file, "utf-8");
+
+      let params: Record<string, unknown> = {};
+      try {
+        params = JSON.parse(options.params);
+      } catch {
+        console.error("Invalid JSON in --params");
+        process.exit(1);
+      }
+
+      const db = new GraphDatabase(dbPath);
+      db.initialize();
+
+      const importDirectory = options.import ? path.resolve(options.import) : undefined;
+      const executor = new Executor(db, { importDirectory });
+      const result = executor.executeScript(script, params);
+
+      db.close();
+
+      if (!result.success) {
+        console.error(`Script failed at statement ${result.error.statement + 1}: ${result.error.message}`);
+        console.error(`  at ${file}:${result.error.line}:${result.error.column}`);
+        console.error("No changes were made.");
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`\nRan ${result.meta.count} statement(s) in ${result.meta.time_ms}ms:\n`);
+        result.results.forEach((statement, index) => {
+          console.log(`  [${index + 1}] ${statement.meta.count} rows`);
+        });
+        console.log("");
+      }
+    }
+  );
+
 // ============================================================================
 // wipe - Wipe a database
 // ============================================================================
@@ -0,0 +1,151 @@
+// Property constraints: SQL for finding violations and the messages reported for them.
+// Writes are recorded by temporary triggers and checked once a query has run (see GraphDatabase).
+
+import {
+  IndexEntityType,
+  createIndexSql,
+  labelFilterCondition,
+  propertyExpression,
+  sqlLiteral,
+} from "./indexes.js";
+
+/** KEY constraints combine UNIQUE and NOT_NULL */
+export type ConstraintKind = "UNIQUE" | "NOT_NULL" | "KEY";
+
+export interface PropertyConstraint {
+  name: string;
+  kind: ConstraintKind;
+  entityType: IndexEntityType;
+  /** Node label or relationship type */
+  labelOrType: string;
+  properties: string[];
+}
+
+export interface ConstraintViolation {
+  /** Row returned by the violation query: id plus the property values as v0, v1, ... */
+  row: Record<string, unknown>;
+  duplicate: boolean;
+}
+
+/**
+ * Default constraint name when CREATE CONSTRAINT does not give one
+ */
+export function defaultConstraintName(
+  kind: ConstraintKind,
+  entityType: IndexEntityType,
+  labelOrType: string,
+  properties: string[]
+): string {
+  const entity = entityType === "NODE" ? "node" : "rel";
+  return `constraint_${kind.toLowerCase()}_${entity}_${labelOrType}_${properties.join("_")}`;
+}
+
+/**
+ * Name of the SQLite index used to look up duplicates for UNIQUE and KEY constraints
+ */
+function sqliteConstraintIndexName(name: string): string {
+  return `"constraintidx_${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Index backing the duplicate lookup, or null for NOT NULL constraints
+ */
+export function createConstraintIndexSql(constraint: PropertyConstraint): string | null {
+  if (constraint.kind === "NOT_NULL") return null;
+  return createIndexSql(constraint, sqliteConstraintIndexName(constraint.name));
+}
+
+export function dropConstraintIndexSql(constraint: PropertyConstraint): string | null {
+  if (constraint.kind === "NOT_NULL") return null;
+  return `DROP INDEX IF EXISTS ${sqliteConstraintIndexName(constraint.name)}`;
+}
+
+/**
+ * Condition selecting the entities a constraint applies to
+ */
+function appliesTo(constraint: PropertyConstraint, alias: string): string {
+  if (constraint.entityType === "NODE") {
+    const label = constraint.labelOrType;
+    return `${labelFilterCondition(`${alias}.label`, label)} AND EXISTS (SELECT 1 FROM json_each(${alias}.label) WHERE value = ${sqlLiteral(label)})`;
+  }
+  return `${alias}.type = ${sqlLiteral(constraint.labelOrType)}`;
+}
+
+/**
+ * Queries returning at most one violating entity each.
+ * With `pendingOnly`, only entities written by the current query (temp.constraint_pending) are checked;
+ * otherwise all existing data is, which is done when the constraint is created.
+ */
+export function violationQueries(
+  constraint: PropertyConstraint,
+  pendingOnly: boolean
+): { sql: string; duplicate: boolean }[] {
+  const table = constraint.entityType === "NODE" ? "nodes" : "edges";
+  const values = constraint.properties.map((property) => propertyExpression("e.properties", property));
+  const select = `SELECT e.id AS id, ${values.map((value, i) => `${value} AS v${i}`).join(", ")} FROM ${table} e`;
+
+  const scope = [appliesTo(constraint, "e")];
+  if (pendingOnly) {
+    scope.push(`e.id IN (SELECT id FROM temp.constraint_pending WHERE entity_type = '${constraint.entityType}')`);
+  }
+
+  const queries: { sql: string; duplicate: boolean }[] = [];
+
+  if (constraint.kind !== "UNIQUE") {
+    const missing = values.map((value) => `${value} IS NULL`).join(" OR ");
+    queries.push({ sql: `${select} WHERE ${scope.join(" AND ")} AND (${missing}) LIMIT 1`, duplicate: false });
+  }
+
+  if (constraint.kind !== "NOT_NULL") {
+    const present = values.map((value) => `${value} IS NOT NULL`).join(" AND ");
+    const same = constraint.properties
+      .map((property, i) => `${propertyExpression("o.properties", property)} = ${values[i]}`)
+      .join(" AND ");
+    const duplicateExists = `EXISTS (SELECT 1 FROM ${table} o WHERE ${appliesTo(constraint, "o")} AND ${same} AND o.id != e.id)`;
+    queries.push({
+      sql: `${select} WHERE ${scope.join(" AND ")} AND ${present} AND ${duplicateExists} LIMIT 1`,
+      duplicate: true,
+    });
+  }
+
+  return queries;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? `'${value}'` : String(value);
+}
+
+/**
+ * Describe a violation, e.g.
+ * "node with label `User` and property `email` = 'alice@example.com' already exists"
+ */
+export function describeViolation(constraint: PropertyConstraint, violation: ConstraintViolation): string {
+  const entity =
+    constraint.entityType === "NODE"
+      ? `node with label \`${constraint.labelOrType}\``
+      : `relationship with type \`${constraint.labelOrType}\``;
+  const names = constraint.properties.map((property) => `\`${property}\``);
+  const noun = names.length === 1 ? "property" : "properties";
+
+  if (!violation.duplicate) {
+    return `${entity} must have the ${noun} ${names.join(", ")}`;
+  }
+
+  const assignments = names.map((name, i) => `${name} = ${formatValue(violation.row[`v${i}`])}`);
+  return `${entity} and ${noun} ${assignments.join(", ")} already exists`;
+}
+
+/**
+ * Constraint type as reported by SHOW CONSTRAINTS (Neo4j naming)
+ */
+export function constraintTypeName(constraint: PropertyConstraint): string {
+  const relationship = constraint.entityType === "RELATIONSHIP";
+  switch (constraint.kind) {
+    case "UNIQUE":
+      return relationship ? "RELATIONSHIP_UNIQUENESS" : "UNIQUENESS";
+    case "NOT_NULL":
+      return relationship ? "RELATIONSHIP_PROPERTY_EXISTENCE" : "NODE_PROPERTY_EXISTENCE";
+    case "KEY":
+      return relationship ? "RELATIONSHIP_KEY" : "NODE_KEY";
+  }
+}
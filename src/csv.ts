@@ -0,0 +1,145 @@
+// LOAD CSV support: resolving file:/// URLs and parsing CSV files
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface LoadCsvOptions {
+  withHeaders: boolean;
+  fieldTerminator?: string;
+}
+
+/**
+ * Resolve a file:/// URL to a path inside the import directory.
+ * URLs are always relative to the import directory, e.g. file:///people.csv
+ * and file:///exports/people.csv; anything resolving outside it is rejected.
+ */
+export function resolveImportPath(url: string, importDirectory: string | undefined): string {
+  if (!importDirectory) {
+    throw new Error("LOAD CSV is disabled: no import directory is configured");
+  }
+  if (!url.toLowerCase().startsWith("file:")) {
+    throw new Error(`LOAD CSV only supports file:/// URLs, got '${url}'`);
+  }
+
+  let relativePath: string;
+  try {
+    relativePath = decodeURIComponent(new URL(url).pathname);
+  } catch {
+    throw new Error(`Invalid LOAD CSV URL '${url}'`);
+  }
+
+  const root = fs.realpathSync(path.resolve(importDirectory));
+  const resolved = path.resolve(root, "." + relativePath);
+  const isInside = (candidate: string) => {
+    const relative = path.relative(root, candidate);
+    return relative !== ".." && !relative.startsWith(".." + path.sep) && !path.isAbsolute(relative);
+  };
+
+  if (!isInside(resolved)) {
+    throw new Error(`LOAD CSV cannot access '${url}': outside of the import directory`);
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Couldn't load the external resource at: ${url}`);
+  }
+
+  // Compare real paths too, so symlinks cannot point outside the import directory
+  const real = fs.realpathSync(resolved);
+  if (!isInside(real)) {
+    throw new Error(`LOAD CSV cannot access '${url}': outside of the import directory`);
+  }
+  return real;
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting).
+ * Empty unquoted fields are null, while "" is an empty string.
+ */
+export function parseCsv(text: string, fieldTerminator: string = ","): (string | null)[][] {
+  if (fieldTerminator.length !== 1) {
+    throw new Error(`FIELDTERMINATOR must be a single character, got '${fieldTerminator}'`);
+  }
+
+  const rows: (string | null)[][] = [];
+  let row: (string | null)[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(field === "" && !quoted ? null : field);
+    field = "";
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== null) rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === fieldTerminator) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+  if (field !== "" || quoted || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Read a CSV file from the import directory.
+ * Returns lists of fields, or maps keyed by the header row when withHeaders is set.
+ */
+export function loadCsvRows(
+  url: string,
+  importDirectory: string | undefined,
+  options: LoadCsvOptions
+): unknown[] {
+  const filePath = resolveImportPath(url, importDirectory);
+  const rows = parseCsv(fs.readFileSync(filePath, "utf8"), options.fieldTerminator);
+
+  if (!options.withHeaders) {
+    return rows;
+  }
+
+  const [header = [], ...records] = rows;
+  return records.map((record) => {
+    const map: Record<string, string | null> = {};
+    header.forEach((key, index) => {
+      if (key !== null) map[key] = record[index] ?? null;
+    });
+    return map;
+  });
+}
@@ -1,6 +1,29 @@
 // Database Wrapper for SQLite
 
 import Database from "better-sqlite3";
+import { cypherRegexMatch } from "./regex.js";
+import { createPoint, pointDistance, pointWithinBBox, pointProperty } from "./spatial.js";
+import {
+  UNARY_MATH_FUNCTIONS,
+  STDEV_FUNCTIONS,
+  DeviationState,
+  addDeviationValue,
+  applyUnaryMath,
+  atan2,
+  finishDeviation,
+  mathSqlFunctionName,
+  startDeviation,
+} from "./math.js";
+import { PropertyIndex, IndexEntityType, createIndexSql, sqliteIndexName } from "./indexes.js";
+import {
+  PropertyConstraint,
+  ConstraintKind,
+  createConstraintIndexSql,
+  dropConstraintIndexSql,
+  violationQueries,
+  describeViolation,
+} from "./constraints.js";
+import { FulltextIndex, createFulltextIndexSql, dropFulltextIndexSql } from "./fulltext.js";
 
 // ============================================================================
 // Types
@@ -40,6 +63,81 @@ export interface QueryResult {
   lastInsertRowid: number | bigint;
 }
 
+/**
+ * One row of SQLite's EXPLAIN QUERY PLAN output
+ */
+export interface QueryPlanStep {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+/**
+ * Statistics for one SQL statement collected while profiling.
+ * Repeated executions of the same SQL are aggregated.
+ */
+export interface StatementProfile {
+  sql: string;
+  params: unknown[]; // Parameters of the first execution
+  executions: number;
+  rows: number; // Rows returned (queries) or changed (writes)
+  time_ms: number;
+}
+
+/**
+ * Limits on how long a query may run
+ */
+export interface QueryLimits {
+  /** Stop the query once it has run for this long (ms) */
+  timeoutMs?: number;
+  /** Stop the query once this signal is aborted */
+  signal?: AbortSignal;
+}
+
+export type InterruptCode = "QUERY_TIMEOUT" | "QUERY_CANCELLED";
+
+/**
+ * Thrown when a query is stopped by its limits: code QUERY_TIMEOUT when it runs out of time,
+ * QUERY_CANCELLED when its signal is aborted
+ */
+export class QueryInterruptedError extends Error {
+  constructor(
+    public readonly code: InterruptCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "QueryInterruptedError";
+  }
+}
+
+/**
+ * The time limit of a query that asks for requestedMs where at most limitMs is allowed:
+ * the smaller of the two, or whichever is set
+ */
+export function queryTimeout(requestedMs?: number, limitMs?: number): number | undefined {
+  if (requestedMs === undefined) return limitMs;
+  return limitMs === undefined ? requestedMs : Math.min(requestedMs, limitMs);
+}
+
+/**
+ * A check that throws a QueryInterruptedError once the limits are reached, with the timeout
+ * counted from now less the time already spent; null when there are no limits
+ */
+export function interruptCheck(limits: QueryLimits = {}, spentMs = 0): (() => void) | null {
+  const { timeoutMs, signal } = limits;
+  if (timeoutMs === undefined && !signal) return null;
+
+  const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs - spentMs;
+  return () => {
+    if (signal?.aborted) {
+      throw new QueryInterruptedError("QUERY_CANCELLED", "Query was cancelled");
+    }
+    if (Date.now() > deadline) {
+      throw new QueryInterruptedError("QUERY_TIMEOUT", `Query exceeded its timeout of ${timeoutMs} ms`);
+    }
+  };
+}
+
 // ============================================================================
 // Schema
 // ============================================================================
@@ -67,6 +165,52 @@ CREATE INDEX IF NOT EXISTS idx_edges_target ON edges(target_id);
 CREATE INDEX IF NOT EXISTS idx_edges_source_type ON edges(source_id, type);
 CREATE INDEX IF NOT EXISTS idx_edges_target_type ON edges(target_id, type);
 CREATE INDEX IF NOT EXISTS idx_nodes_primary_label ON nodes(json_extract(label, '$[0]'));
+
+-- User-defined property indexes (CREATE INDEX ... FOR ... ON ...)
+CREATE TABLE IF NOT EXISTS property_indexes (
+    name TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    label_or_type TEXT NOT NULL,
+    properties JSON NOT NULL
+);
+
+-- Property constraints (CREATE CONSTRAINT ... REQUIRE ...)
+CREATE TABLE IF NOT EXISTS property_constraints (
+    name TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    label_or_type TEXT NOT NULL,
+    properties JSON NOT NULL
+);
+
+-- Full-text indexes (db.index.fulltext.createNodeIndex), each backed by an FTS5 table
+CREATE TABLE IF NOT EXISTS fulltext_indexes (
+    name TEXT PRIMARY KEY,
+    labels JSON NOT NULL,
+    properties JSON NOT NULL
+);
+`;
+
+// While constraints exist, every written node and edge is recorded so that
+// checkConstraints() only has to look at the entities a query touched
+const CONSTRAINT_TRIGGERS = `
+CREATE TEMP TABLE IF NOT EXISTS constraint_pending (entity_type TEXT NOT NULL, id TEXT NOT NULL);
+CREATE TEMP TRIGGER IF NOT EXISTS constraint_nodes_insert AFTER INSERT ON main.nodes
+  BEGIN INSERT INTO constraint_pending VALUES ('NODE', NEW.id); END;
+CREATE TEMP TRIGGER IF NOT EXISTS constraint_nodes_update AFTER UPDATE OF label, properties ON main.nodes
+  BEGIN INSERT INTO constraint_pending VALUES ('NODE', NEW.id); END;
+CREATE TEMP TRIGGER IF NOT EXISTS constraint_edges_insert AFTER INSERT ON main.edges
+  BEGIN INSERT INTO constraint_pending VALUES ('RELATIONSHIP', NEW.id); END;
+CREATE TEMP TRIGGER IF NOT EXISTS constraint_edges_update AFTER UPDATE OF type, properties ON main.edges
+  BEGIN INSERT INTO constraint_pending VALUES ('RELATIONSHIP', NEW.id); END;
+`;
+
+const DROP_CONSTRAINT_TRIGGERS = `
+DROP TRIGGER IF EXISTS temp.constraint_nodes_insert;
+DROP TRIGGER IF EXISTS temp.constraint_nodes_update;
+DROP TRIGGER IF EXISTS temp.constraint_edges_insert;
+DROP TRIGGER IF EXISTS temp.constraint_edges_update;
+DROP TABLE IF EXISTS temp.constraint_pending;
 `;
 
 // ============================================================================
@@ -441,6 +585,83 @@ function registerCypherFunctions(db: Database.Database): void {
     return valA >= valB ? 1 : 0;
   });
 
+  // cypher_regex: Java-style full-string regular expression match (=~)
+  // Returns: 1 if the whole string matches, 0 if not, null for null/non-string operands
+  db.function("cypher_regex", { deterministic: true }, (value: unknown, pattern: unknown) => {
+    const matched = cypherRegexMatch(value, pattern);
+    if (matched === null) return null;
+    return matched ? 1 : 0;
+  });
+
+  // Math functions: log(), sin(), degrees(), ... as cypher_log, cypher_sin, cypher_degrees, ...
+  for (const name of Object.keys(UNARY_MATH_FUNCTIONS)) {
+    db.function(mathSqlFunctionName(name), { deterministic: true }, (x: unknown) => applyUnaryMath(name, x));
+  }
+  db.function("cypher_atan2", { deterministic: true }, (y: unknown, x: unknown) => atan2(y, x));
+
+  // stDev() and stDevP() aggregates
+  for (const { sqlName, population } of Object.values(STDEV_FUNCTIONS)) {
+    db.aggregate(sqlName, {
+      start: startDeviation,
+      step: addDeviationValue,
+      result: (state: DeviationState) => finishDeviation(state, population),
+    });
+  }
+
+  // Spatial functions: points are passed around as JSON text
+  db.function("cypher_point", { deterministic: true }, (map: unknown) => {
+    const point = createPoint(map);
+    return point === null ? null : JSON.stringify(point);
+  });
+
+  db.function("cypher_point_distance", { deterministic: true }, (a: unknown, b: unknown) => pointDistance(a, b));
+
+  // Returns 1/0 like the other boolean functions, null when the points are not comparable
+  db.function("cypher_point_within_bbox", { deterministic: true }, (point: unknown, lowerLeft: unknown, upperRight: unknown) => {
+    const within = pointWithinBBox(point, lowerLeft, upperRight);
+    if (within === null) return null;
+    return within ? 1 : 0;
+  });
+
+  // cypher_point_property: a point component, or for maps the same value as json_extract(value, '$.key')
+  db.function("cypher_point_property", { deterministic: true }, (value: unknown, key: unknown) => {
+    const component = pointProperty(value, String(key));
+    if (component !== undefined) return component;
+    if (typeof value !== "string") return null;
+    try {
+      const entry = (JSON.parse(value) as Record<string, unknown>)?.[String(key)];
+      if (entry === undefined || entry === null) return null;
+      if (typeof entry === "boolean") return entry ? 1 : 0;
+      return typeof entry === "object" ? JSON.stringify(entry) : (entry as number | string);
+    } catch {
+      return null;
+    }
+  });
+
+  // cypher_add: The + operator when operand types are only known at runtime (reduce() steps)
+  // Lists (JSON array text) concatenate, strings concatenate, numbers add
+  db.function("cypher_add", { deterministic: true }, (a: unknown, b: unknown) => {
+    if (a === null || b === null) return null;
+    const asList = (value: unknown): unknown[] | null => {
+      if (typeof value !== "string" || !value.startsWith("[")) return null;
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : null;
+      } catch {
+        return null;
+      }
+    };
+    const listA = asList(a);
+    const listB = asList(b);
+    if (listA || listB) {
+      const left = listA ?? [a];
+      const right = listB ?? [b];
+      return JSON.stringify([...left, ...right]);
+    }
+    if (typeof a === "string" || typeof b === "string") return `${a}${b}`;
+    return (a as number) + (b as number);
+  });
+
   // cypher_equals: Null-aware deep equality for lists and maps
   db.function("cypher_equals", { deterministic: true }, (a: unknown, b: unknown) => {
     // Handle SQL NULL
@@ -550,6 +771,9 @@ export class GraphDatabase {
   private initialized: boolean = false;
   private stmtCache: Map<string, Database.Statement> = new Map();
   private readonly STMT_CACHE_MAX = 100;
+  private profile: Map<string, StatementProfile> | null = null;
+  private constraints: PropertyConstraint[] = [];
+  private interrupt: (() => void) | null = null;
 
   constructor(path: string = ":memory:") {
     this.db = new Database(path);
@@ -561,6 +785,13 @@ export class GraphDatabase {
     this.db.pragma("mmap_size = 268435456"); // 256MB memory-mapped I/O
     // Register custom Cypher functions
     registerCypherFunctions(this.db);
+    // better-sqlite3 has no progress handler, so long-running SQL (every scanned row of the
+    // generated joins and the recursive steps of variable-length paths) calls back into this
+    // to be interrupted. Arguments are ignored; they tie the call to a table's loop
+    this.db.function("cypher_interrupt", { deterministic: false, varargs: true }, () => {
+      this.checkInterrupt();
+      return 1;
+    });
   }
 
   /**
@@ -571,6 +802,7 @@ export class GraphDatabase {
 
     this.db.exec(SCHEMA);
     this.initialized = true;
+    this.loadConstraints();
   }
 
   /**
@@ -597,11 +829,34 @@ export class GraphDatabase {
     return stmt;
   }
 
+  /**
+   * Run fn with an interrupt check (from interruptCheck()) that stops it by throwing. The check
+   * runs before every statement, in the recursive steps of variable-length path queries and
+   * wherever checkInterrupt() is called.
+   */
+  interruptible<T>(check: (() => void) | null, fn: () => T): T {
+    const previous = this.interrupt;
+    this.interrupt = check;
+    try {
+      return fn();
+    } finally {
+      this.interrupt = previous;
+    }
+  }
+
+  /**
+   * Throw a QueryInterruptedError if the running query has reached its limits
+   */
+  checkInterrupt(): void {
+    this.interrupt?.();
+  }
+
   /**
    * Execute a SQL statement and return results
    */
   execute(sql: string, params: unknown[] = []): QueryResult {
     this.ensureInitialized();
+    this.checkInterrupt();
 
     // Convert large integers to BigInt for proper SQLite INTEGER binding
     const convertedParams = convertParamsForSqlite(params);
@@ -610,18 +865,82 @@ export class GraphDatabase {
     const trimmedSql = sql.trim().toUpperCase();
     // Check if it's a query (SELECT or WITH for CTEs)
     const isQuery = trimmedSql.startsWith("SELECT") || trimmedSql.startsWith("WITH");
-
+    const startTime = this.profile ? performance.now() : 0;
+    
+    let result: QueryResult;
     if (isQuery) {
       const rows = stmt.all(...convertedParams) as Record<string, unknown>[];
-      return { rows, changes: 0, lastInsertRowid: 0 };
+      result = { rows, changes: 0, lastInsertRowid: 0 };
     } else {
-      const result = stmt.run(...convertedParams);
-      return {
+      const runResult = stmt.run(...convertedParams);
+      result = {
         rows: [],
-        changes: result.changes,
-        lastInsertRowid: result.lastInsertRowid,
+        changes: runResult.changes,
+        lastInsertRowid: runResult.lastInsertRowid,
       };
     }
+    
+    if (this.profile) {
+      this.recordStatement(sql, params, isQuery ? result.rows.length : result.changes, performance.now() - startTime);
+    }
+    return result;
+  }
+  
+  /**
+   * Run a query and read its rows one at a time as the iterator advances. The connection
+   * cannot run other statements until the iterator is done or returned.
+   */
+  iterate(sql: string, params: unknown[] = []): IterableIterator<Record<string, unknown>> {
+    this.ensureInitialized();
+    return this.getCachedStatement(sql).iterate(...convertParamsForSqlite(params)) as IterableIterator<
+      Record<string, unknown>
+    >;
+  }
+
+  /**
+   * Whether a statement returns rows (a query rather than a write)
+   */
+  returnsRows(sql: string): boolean {
+    this.ensureInitialized();
+    return this.getCachedStatement(sql).reader;
+  }
+
+  /**
+   * Get SQLite's EXPLAIN QUERY PLAN output for a statement without running it
+   */
+  explainQueryPlan(sql: string, params: unknown[] = []): QueryPlanStep[] {
+    this.ensureInitialized();
+    const rows = this.db
+      .prepare(`EXPLAIN QUERY PLAN ${sql}`)
+      .all(...convertParamsForSqlite(params)) as { id: number; parent: number; detail: string }[];
+    return rows.map(({ id, parent, detail }) => ({ id, parent, detail }));
+  }
+  
+  /**
+   * Start recording timings and row counts for every statement run through execute()
+   */
+  startProfiling(): void {
+    this.profile = new Map();
+  }
+  
+  /**
+   * Stop profiling and return the recorded statements in first-execution order
+   */
+  stopProfiling(): StatementProfile[] {
+    const statements = this.profile ? [...this.profile.values()] : [];
+    this.profile = null;
+    return statements;
+  }
+  
+  private recordStatement(sql: string, params: unknown[], rows: number, timeMs: number): void {
+    const entry = this.profile!.get(sql);
+    if (entry) {
+      entry.executions++;
+      entry.rows += rows;
+      entry.time_ms += timeMs;
+    } else {
+      this.profile!.set(sql, { sql, params, executions: 1, rows, time_ms: timeMs });
+    }
   }
 
   /**
@@ -629,7 +948,38 @@ export class GraphDatabase {
    */
   transaction<T>(fn: () => T): T {
     this.ensureInitialized();
-    return this.db.transaction(fn)();
+    try {
+      return this.db.transaction(fn)();
+    } catch (error) {
+      // The rollback may have undone constraint changes made inside it
+      this.loadConstraints();
+      throw error;
+    }
+  }
+
+  /**
+   * Begin a transaction that spans several calls, ended by commit() or rollback().
+   * Statements run in between join it; transaction() nests in it as a savepoint.
+   */
+  begin(): void {
+    this.ensureInitialized();
+    this.db.exec("BEGIN IMMEDIATE");
+  }
+
+  commit(): void {
+    this.db.exec("COMMIT");
+  }
+
+  /**
+   * Roll back the open transaction, if any (SQLite may already have rolled it back after an error)
+   */
+  rollback(): void {
+    if (this.db.inTransaction) this.db.exec("ROLLBACK");
+    this.loadConstraints();
+  }
+
+  get inTransaction(): boolean {
+    return this.db.inTransaction;
   }
 
   /**
@@ -757,6 +1107,273 @@ export class GraphDatabase {
     return result.changes > 0;
   }
 
+  /**
+   * Create a property index.
+   * Returns false when ifNotExists is set and an index with the same name or schema exists.
+   */
+  createPropertyIndex(index: PropertyIndex, ifNotExists: boolean = false): boolean {
+    const existing = this.listPropertyIndexes();
+    const sameName = existing.find((other) => other.name === index.name);
+    const equivalent = existing.find(
+      (other) =>
+        other.entityType === index.entityType &&
+        other.labelOrType === index.labelOrType &&
+        JSON.stringify(other.properties) === JSON.stringify(index.properties)
+    );
+
+    if (this.constraints.some((constraint) => constraint.name === index.name)) {
+      if (ifNotExists) return false;
+      throw new Error(`There already exists a constraint called '${index.name}'`);
+    }
+    if (sameName || equivalent || this.getFulltextIndex(index.name)) {
+      if (ifNotExists) return false;
+      throw new Error(
+        equivalent && !sameName
+          ? `An equivalent index already exists: '${equivalent.name}'`
+          : `There already exists an index called '${index.name}'`
+      );
+    }
+
+    this.transaction(() => {
+      this.execute(createIndexSql(index));
+      this.execute(
+        "INSERT INTO property_indexes (name, entity_type, label_or_type, properties) VALUES (?, ?, ?, ?)",
+        [index.name, index.entityType, index.labelOrType, JSON.stringify(index.properties)]
+      );
+    });
+    return true;
+  }
+
+  /**
+   * Drop a property index by name.
+   * Returns false when ifExists is set and there is no such index.
+   */
+  dropPropertyIndex(name: string, ifExists: boolean = false): boolean {
+    const result = this.execute("SELECT name FROM property_indexes WHERE name = ?", [name]);
+    if (result.rows.length === 0) {
+      if (ifExists) return false;
+      throw new Error(`Unable to drop index called '${name}': there is no such index`);
+    }
+
+    this.transaction(() => {
+      this.execute(`DROP INDEX IF EXISTS ${sqliteIndexName(name)}`);
+      this.execute("DELETE FROM property_indexes WHERE name = ?", [name]);
+    });
+    return true;
+  }
+
+  /**
+   * List property indexes, ordered by name
+   */
+  listPropertyIndexes(): PropertyIndex[] {
+    const result = this.execute(
+      "SELECT name, entity_type, label_or_type, properties FROM property_indexes ORDER BY name"
+    );
+    return result.rows.map((row) => ({
+      name: row.name as string,
+      entityType: row.entity_type as IndexEntityType,
+      labelOrType: row.label_or_type as string,
+      properties: JSON.parse(row.properties as string),
+    }));
+  }
+
+  /**
+   * Create a full-text index over string properties of nodes with any of the given labels,
+   * including the nodes that already exist
+   */
+  createFulltextIndex(index: FulltextIndex): void {
+    const nameInUse =
+      this.getFulltextIndex(index.name) !== null ||
+      this.listPropertyIndexes().some((other) => other.name === index.name);
+    if (nameInUse) {
+      throw new Error(`There already exists an index called '${index.name}'`);
+    }
+    if (this.listConstraints().some((constraint) => constraint.name === index.name)) {
+      throw new Error(`There already exists a constraint called '${index.name}'`);
+    }
+
+    this.transaction(() => {
+      for (const sql of createFulltextIndexSql(index)) {
+        this.execute(sql);
+      }
+      this.execute("INSERT INTO fulltext_indexes (name, labels, properties) VALUES (?, ?, ?)", [
+        index.name,
+        JSON.stringify(index.labels),
+        JSON.stringify(index.properties),
+      ]);
+    });
+  }
+
+  /**
+   * Drop a full-text index by name.
+   * Returns false when ifExists is set and there is no such index.
+   */
+  dropFulltextIndex(name: string, ifExists: boolean = false): boolean {
+    if (!this.getFulltextIndex(name)) {
+      if (ifExists) return false;
+      throw new Error(`There is no such fulltext schema index: ${name}`);
+    }
+
+    this.transaction(() => {
+      for (const sql of dropFulltextIndexSql(name)) {
+        this.execute(sql);
+      }
+      this.execute("DELETE FROM fulltext_indexes WHERE name = ?", [name]);
+    });
+    return true;
+  }
+
+  getFulltextIndex(name: string): FulltextIndex | null {
+    const result = this.execute("SELECT name, labels, properties FROM fulltext_indexes WHERE name = ?", [name]);
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      name: row.name as string,
+      labels: JSON.parse(row.labels as string),
+      properties: JSON.parse(row.properties as string),
+    };
+  }
+
+  /**
+   * List full-text indexes, ordered by name
+   */
+  listFulltextIndexes(): FulltextIndex[] {
+    const result = this.execute("SELECT name, labels, properties FROM fulltext_indexes ORDER BY name");
+    return result.rows.map((row) => ({
+      name: row.name as string,
+      labels: JSON.parse(row.labels as string),
+      properties: JSON.parse(row.properties as string),
+    }));
+  }
+
+  /**
+   * Create a property constraint after checking that existing data satisfies it.
+   * Returns false when ifNotExists is set and a constraint with the same name or schema exists.
+   */
+  createConstraint(constraint: PropertyConstraint, ifNotExists: boolean = false): boolean {
+    this.ensureInitialized();
+    const sameName = this.constraints.find((other) => other.name === constraint.name);
+    const equivalent = this.constraints.find(
+      (other) =>
+        other.kind === constraint.kind &&
+        other.entityType === constraint.entityType &&
+        other.labelOrType === constraint.labelOrType &&
+        JSON.stringify(other.properties) === JSON.stringify(constraint.properties)
+    );
+    const indexName =
+      this.listPropertyIndexes().some((index) => index.name === constraint.name) ||
+      this.getFulltextIndex(constraint.name) !== null;
+
+    if (sameName || equivalent || indexName) {
+      if (ifNotExists) return false;
+      if (indexName) {
+        throw new Error(`There already exists an index called '${constraint.name}'`);
+      }
+      throw new Error(
+        sameName
+          ? `There already exists a constraint called '${constraint.name}'`
+          : `An equivalent constraint already exists: '${equivalent!.name}'`
+      );
+    }
+
+    this.transaction(() => {
+      const indexSql = createConstraintIndexSql(constraint);
+      if (indexSql) this.execute(indexSql);
+
+      const violation = this.findViolation(constraint, false);
+      if (violation) {
+        throw new Error(`Unable to create constraint '${constraint.name}': ${violation}`);
+      }
+
+      this.execute(
+        "INSERT INTO property_constraints (name, kind, entity_type, label_or_type, properties) VALUES (?, ?, ?, ?, ?)",
+        [constraint.name, constraint.kind, constraint.entityType, constraint.labelOrType, JSON.stringify(constraint.properties)]
+      );
+    });
+    this.loadConstraints();
+    return true;
+  }
+
+  /**
+   * Drop a constraint by name.
+   * Returns false when ifExists is set and there is no such constraint.
+   */
+  dropConstraint(name: string, ifExists: boolean = false): boolean {
+    this.ensureInitialized();
+    const constraint = this.constraints.find((other) => other.name === name);
+    if (!constraint) {
+      if (ifExists) return false;
+      throw new Error(`Unable to drop constraint called '${name}': there is no such constraint`);
+    }
+
+    this.transaction(() => {
+      const indexSql = dropConstraintIndexSql(constraint);
+      if (indexSql) this.execute(indexSql);
+      this.execute("DELETE FROM property_constraints WHERE name = ?", [name]);
+    });
+    this.loadConstraints();
+    return true;
+  }
+
+  /**
+   * List constraints, ordered by name
+   */
+  listConstraints(): PropertyConstraint[] {
+    this.ensureInitialized();
+    return [...this.constraints];
+  }
+
+  hasConstraints(): boolean {
+    this.ensureInitialized();
+    return this.constraints.length > 0;
+  }
+
+  /**
+   * Check the nodes and edges written since the last check against all constraints.
+   * Call inside the transaction that made the writes, so that a violation rolls them back.
+   */
+  checkConstraints(): void {
+    if (this.constraints.length === 0) return;
+    try {
+      for (const constraint of this.constraints) {
+        const violation = this.findViolation(constraint, true);
+        if (violation) {
+          throw new Error(`Constraint '${constraint.name}' violated: ${violation}`);
+        }
+      }
+    } finally {
+      this.db.exec("DELETE FROM temp.constraint_pending");
+    }
+  }
+
+  private findViolation(constraint: PropertyConstraint, pendingOnly: boolean): string | null {
+    for (const query of violationQueries(constraint, pendingOnly)) {
+      const result = this.execute(query.sql);
+      if (result.rows.length > 0) {
+        return describeViolation(constraint, { row: result.rows[0], duplicate: query.duplicate });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Load constraints and install or remove the write-recording triggers.
+   * Also called after rollbacks, so it bypasses the interrupt check.
+   */
+  private loadConstraints(): void {
+    const rows = this.getCachedStatement(
+      "SELECT name, kind, entity_type, label_or_type, properties FROM property_constraints ORDER BY name"
+    ).all() as Record<string, unknown>[];
+    this.constraints = rows.map((row) => ({
+      name: row.name as string,
+      kind: row.kind as ConstraintKind,
+      entityType: row.entity_type as IndexEntityType,
+      labelOrType: row.label_or_type as string,
+      properties: JSON.parse(row.properties as string),
+    }));
+    this.db.exec(this.constraints.length > 0 ? CONSTRAINT_TRIGGERS : DROP_CONSTRAINT_TRIGGERS);
+  }
+
   /**
    * Count nodes
    */
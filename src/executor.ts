@@ -2,6 +2,7 @@
 
 import {
   parse,
+  splitStatements,
   ParseResult,
   Query,
   Clause,
@@ -10,11 +11,15 @@ import {
   MergeClause,
   SetClause,
   DeleteClause,
+  RemoveClause,
   ReturnClause,
   WithClause,
   UnwindClause,
+  ForeachClause,
+  CallSubqueryClause,
   NodePattern,
   RelationshipPattern,
+  EdgePattern,
   PathExpression,
   SetAssignment,
   Expression,
@@ -23,9 +28,127 @@ import {
   VariableRef,
   WhereCondition,
   ReturnItem,
+  CreateIndexClause,
+  DropIndexClause,
+  ShowIndexesClause,
+  CreateConstraintClause,
+  DropConstraintClause,
+  ShowConstraintsClause,
+  CallClause,
+  LabelExpression,
+  propertyValueToExpression,
 } from "./parser.js";
-import { translate, TranslationResult, Translator } from "./translator.js";
-import { GraphDatabase } from "./db.js";
+import { translate, TranslationResult, Translator, expressionName } from "./translator.js";
+import {
+  GraphDatabase,
+  InterruptCode,
+  QueryInterruptedError,
+  QueryLimits,
+  QueryPlanStep,
+  StatementProfile,
+  interruptCheck,
+} from "./db.js";
+import { cypherRegexMatch } from "./regex.js";
+import { loadCsvRows } from "./csv.js";
+import { createPoint, pointDistance, pointWithinBBox, pointProperty } from "./spatial.js";
+import { UNARY_MATH_FUNCTIONS, applyArithmetic, applyUnaryMath, atan2, sqrt, standardDeviation } from "./math.js";
+import { labelFilterCondition, defaultIndexName, IndexEntityType } from "./indexes.js";
+import { defaultConstraintName, constraintTypeName } from "./constraints.js";
+import { FULLTEXT_SCHEMA_PROCEDURES, FULLTEXT_QUERY_PROCEDURE } from "./fulltext.js";
+import { algorithmProcedure, algorithmOutputColumns, runAlgorithmProcedure } from "./algorithms.js";
+import { isLabelExpression, labelExpressionSql, plainLabels, resolveDynamicLabels, typeExpressionSql } from "./labels.js";
+
+// ============================================================================
+// Type Conversion Helpers
+// ============================================================================
+
+/**
+ * Apply toInteger/toFloat/toBoolean/toString to a value.
+ * Values that cannot be converted (e.g. toInteger('abc')) become null.
+ */
+function convertValue(functionName: "TOINTEGER" | "TOFLOAT" | "TOBOOLEAN" | "TOSTRING", value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  
+  switch (functionName) {
+    case "TOINTEGER":
+    case "TOFLOAT": {
+      const num = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+      if (Number.isNaN(num)) return null;
+      return functionName === "TOINTEGER" ? Math.trunc(num) : num;
+    }
+    case "TOBOOLEAN": {
+      if (typeof value === "boolean") return value;
+      if (typeof value !== "string") return null;
+      const lower = value.trim().toLowerCase();
+      return lower === "true" ? true : lower === "false" ? false : null;
+    }
+    case "TOSTRING":
+      return typeof value === "object" ? null : String(value);
+  }
+}
+
+type SchemaClause =
+  | CreateIndexClause
+  | DropIndexClause
+  | ShowIndexesClause
+  | CreateConstraintClause
+  | DropConstraintClause
+  | ShowConstraintsClause
+  | CallClause;
+
+const SCHEMA_CLAUSE_TYPES = new Set<Clause["type"]>([
+  "CREATE_INDEX",
+  "DROP_INDEX",
+  "SHOW_INDEXES",
+  "CREATE_CONSTRAINT",
+  "DROP_CONSTRAINT",
+  "SHOW_CONSTRAINTS",
+]);
+
+/**
+ * The schema command a query consists of, if any. Besides the schema clauses (always alone,
+ * enforced by the parser) this includes standalone calls to the full-text index procedures.
+ */
+function schemaCommand(query: Query): SchemaClause | null {
+  const first = query.clauses[0];
+  if (SCHEMA_CLAUSE_TYPES.has(first.type)) {
+    return first as SchemaClause;
+  }
+  if (
+    query.clauses.length === 1 &&
+    first.type === "CALL" &&
+    FULLTEXT_SCHEMA_PROCEDURES.has(first.procedure.toLowerCase())
+  ) {
+    return first;
+  }
+  return null;
+}
+
+/**
+ * The failed result for an error thrown while running a query
+ */
+function executionError(error: unknown): ExecutionError {
+  return {
+    success: false,
+    error: {
+      message: error instanceof Error ? error.message : String(error),
+      ...(error instanceof QueryInterruptedError && { code: error.code }),
+    },
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string");
+}
+
+/**
+ * SQL condition for one node label (three parameters: the label, repeated).
+ * The primary label check can use idx_nodes_primary_label; the leading label filter
+ * lets SQLite use property indexes on the label.
+ */
+function labelMatchSql(label: string): string {
+  return `${labelFilterCondition("label", label)} AND (json_extract(label, '$[0]') = ? OR EXISTS (SELECT 1 FROM json_each(label) WHERE value = ? AND json_extract(label, '$[0]') != ?))`;
+}
 
 // ============================================================================
 // Timezone Helpers
@@ -132,6 +255,22 @@ function cloneContext(ctx: PhaseContext, cloneRows: boolean = true): PhaseContex
   };
 }
 
+/**
+ * A path found by a traversal, as the node IDs visited and the edges between them
+ */
+interface TraversedPath {
+  nodeIds: string[];
+  edges: TraversedEdge[];
+}
+
+interface TraversedEdge {
+  id: string;
+  type: string;
+  source_id: string;
+  target_id: string;
+  properties: string | object;
+}
+
 export interface ExecutionResult {
   success: true;
   data: Record<string, unknown>[];
@@ -139,6 +278,26 @@ export interface ExecutionResult {
     count: number;
     time_ms: number;
   };
+  /** Present for EXPLAIN and PROFILE queries */
+  plan?: QueryPlan;
+}
+
+export interface QueryPlan {
+  mode: "EXPLAIN" | "PROFILE";
+  /** Execution path chosen for the query */
+  pattern: QueryPattern;
+  statements: PlannedStatement[];
+}
+
+export interface PlannedStatement {
+  sql: string;
+  params: unknown[];
+  /** SQLite EXPLAIN QUERY PLAN output */
+  queryPlan: QueryPlanStep[];
+  // PROFILE only
+  executions?: number;
+  rows?: number;
+  time_ms?: number;
 }
 
 export interface ExecutionError {
@@ -148,11 +307,57 @@ export interface ExecutionError {
     position?: number;
     line?: number;
     column?: number;
+    /** Set when the query was stopped by its timeout or signal */
+    code?: InterruptCode;
   };
 }
 
 export type QueryResponse = ExecutionResult | ExecutionError;
 
+export interface StreamResult {
+  success: true;
+  /** Result rows; a query that fails while its rows are read throws from the iterator */
+  rows: IterableIterator<Record<string, unknown>>;
+}
+
+export type StreamResponse = StreamResult | ExecutionError;
+
+export interface ScriptResult {
+  success: true;
+  /** Result of each statement, in script order */
+  results: ExecutionResult[];
+  meta: {
+    /** Number of statements run */
+    count: number;
+    time_ms: number;
+  };
+}
+
+export interface ScriptError {
+  success: false;
+  error: {
+    message: string;
+    /** Index of the failing statement (0-based) */
+    statement: number;
+    /** Location in the script: of the error when known, else of the failing statement */
+    position: number;
+    line: number;
+    column: number;
+    /** Set when the script was stopped by its timeout or signal */
+    code?: InterruptCode;
+  };
+}
+
+export type ScriptResponse = ScriptResult | ScriptError;
+
+export interface ExecutorOptions {
+  /**
+   * Directory LOAD CSV reads from; file:///x.csv resolves to {importDirectory}/x.csv.
+   * LOAD CSV is disabled when not set.
+   */
+  importDirectory?: string;
+}
+
 // ============================================================================
 // Query Classification (Single-Pass)
 // ============================================================================
@@ -160,7 +365,7 @@ export type QueryResponse = ExecutionResult | ExecutionError;
 /**
  * Query execution patterns - determines which execution path to use
  */
-type QueryPattern =
+export type QueryPattern =
   | "PHASED"           // Complex multi-phase execution
   | "UNWIND_CREATE"    // UNWIND + CREATE (no MATCH)
   | "UNWIND_MERGE"     // UNWIND + MERGE (no MATCH, no CREATE)
@@ -170,6 +375,7 @@ type QueryPattern =
   | "BOUND_REL_LIST"   // MATCH + WITH + MATCH with bound list pattern
   | "MERGE"            // MERGE with special handling
   | "MULTI_PHASE"      // MATCH + mutations (CREATE/SET/DELETE)
+  | "SCHEMA"           // Index and constraint commands
   | "STANDARD";        // Standard SQL translation
 
 /**
@@ -183,9 +389,16 @@ interface QueryFlags {
   hasMerge: boolean;
   hasSet: boolean;
   hasDelete: boolean;
+  hasRemove: boolean;
   hasUnwind: boolean;
   hasWith: boolean;
   hasReturn: boolean;
+  hasForeach: boolean;
+  hasCallSubquery: boolean;
+  hasProcedureCall: boolean;
+  /** A graph algorithm CALL after other clauses, whose configuration may use their variables */
+  hasRowAlgorithmCall: boolean;
+  hasShortestPath: boolean;
   
   // Detailed flags
   mergeHasSetClauses: boolean;
@@ -227,13 +440,15 @@ interface QueryFlags {
 
 export class Executor {
   private db: GraphDatabase;
+  private importDirectory: string | undefined;
   private propertyCache = new Map<string, Record<string, unknown>>();
   private edgePropertyCache = new Map<string, Record<string, unknown>>();
   // Cache for full edge info (type, source_id, target_id) - populated by batchGetEdgeInfo
   private edgeInfoCache = new Map<string, { type: string; source_id: string; target_id: string }>();
 
-  constructor(db: GraphDatabase) {
+  constructor(db: GraphDatabase, options: ExecutorOptions = {}) {
     this.db = db;
+    this.importDirectory = options.importDirectory;
   }
 
   /**
@@ -336,9 +551,16 @@ export class Executor {
   }
 
   /**
-   * Execute a Cypher query and return formatted results
+   * Execute a Cypher query and return formatted results. A query that reaches its limits
+   * fails with error code QUERY_TIMEOUT or QUERY_CANCELLED, and its writes are rolled back.
    */
-  execute(cypher: string, params: Record<string, unknown> = {}): QueryResponse {
+  execute(cypher: string, params: Record<string, unknown> = {}, limits: QueryLimits = {}): QueryResponse {
+    const check = interruptCheck(limits);
+    if (!check) return this.executeQuery(cypher, params);
+    return this.db.interruptible(check, () => this.executeQuery(cypher, params));
+  }
+
+  private executeQuery(cypher: string, params: Record<string, unknown>): QueryResponse {
     const startTime = performance.now();
     // Clear property caches at start of each query execution
     this.propertyCache.clear();
@@ -346,37 +568,20 @@ export class Executor {
     this.edgeInfoCache.clear();
 
     try {
+      this.db.checkInterrupt();
+
       // 1. Parse the Cypher query
-      const parseResult = parse(cypher);
-      if (!parseResult.success) {
-        return {
-          success: false,
-          error: {
-            message: parseResult.error.message,
-            position: parseResult.error.position,
-            line: parseResult.error.line,
-            column: parseResult.error.column,
-          },
-        };
-      }
+      const query = this.parseQuery(cypher, params);
+      if ("success" in query) return query;
 
-      // 2. Classify query with single-pass and dispatch to appropriate handler
-      const { pattern, flags } = this.classifyQuery(parseResult.query);
-      
-      // 3. Run semantic validations only when relevant clauses are present
-      //    (avoids extra iteration overhead for simple queries)
-      if (flags.hasMerge) {
-        this.validateMergeVariables(parseResult.query);
-      }
-      if (flags.hasSet) {
-        this.validateSetClauseValueVariables(parseResult.query, params);
+      // LOAD CSV reads its file up front and runs as UNWIND over the loaded rows,
+      // so imports go through the same UNWIND + CREATE/MERGE execution paths
+      if (this.hasLoadCsv(query)) {
+        params = this.expandLoadCsvClauses(query, params, query.prefix !== "EXPLAIN");
       }
-      if (flags.hasWith || flags.hasReturn) {
-        this.validateOrderByVariables(parseResult.query, params);
-      }
-      
+
       // Helper to return successful result
-      const makeResult = (data: Record<string, unknown>[]): QueryResponse => {
+      const makeResult = (data: Record<string, unknown>[], plan?: QueryPlan): QueryResponse => {
         const endTime = performance.now();
         return {
           success: true,
@@ -385,99 +590,534 @@ export class Executor {
             count: data.length,
             time_ms: Math.round((endTime - startTime) * 100) / 100,
           },
+          ...(plan && { plan }),
         };
       };
-      
-      // Dispatch based on pattern (each try* method still validates and may return null)
-      switch (pattern) {
-        case "PHASED": {
-          const result = this.tryPhasedExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "UNWIND_CREATE": {
-          const result = this.tryUnwindCreateExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "UNWIND_MERGE": {
-          const result = this.tryUnwindMergeExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "COLLECT_UNWIND": {
-          const result = this.tryCollectUnwindExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "COLLECT_DELETE": {
-          const result = this.tryCollectDeleteExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "CREATE_RETURN": {
-          const result = this.tryCreateReturnExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "BOUND_REL_LIST": {
-          const result = this.tryBoundRelationshipListExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "MERGE": {
-          const result = this.tryMergeExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        case "MULTI_PHASE": {
-          const result = this.tryMultiPhaseExecution(parseResult.query, params);
-          if (result !== null) return makeResult(result);
-          break;
-        }
-        // STANDARD falls through to SQL translation below
+
+      // EXPLAIN reports the plan without running the query
+      if (query.prefix === "EXPLAIN") {
+        return makeResult([], this.explainQuery(query, params));
+      }
+
+      // PROFILE runs the query while recording every SQL statement it executes
+      if (query.prefix === "PROFILE") {
+        this.db.startProfiling();
+        let outcome: { data: Record<string, unknown>[]; pattern: QueryPattern };
+        let statements: StatementProfile[];
+        try {
+          outcome = this.runQuery(query, params);
+        } finally {
+          statements = this.db.stopProfiling();
+        }
+        return makeResult(outcome.data, {
+          mode: "PROFILE",
+          pattern: outcome.pattern,
+          statements: statements.map(stmt => ({
+            sql: stmt.sql,
+            params: stmt.params,
+            queryPlan: this.explainStatement(stmt.sql, stmt.params),
+            executions: stmt.executions,
+            rows: stmt.rows,
+            time_ms: Math.round(stmt.time_ms * 1000) / 1000,
+          })),
+        });
       }
 
-      // 3. Standard single-phase execution: Translate to SQL
-      const translator = new Translator(params);
-      const translation = translator.translate(parseResult.query);
+      return makeResult(this.runQuery(query, params).data);
+    } catch (error) {
+      return executionError(error);
+    }
+  }
 
-      // 4. Execute SQL statements
-      let rows: Record<string, unknown>[] = [];
-      const returnColumns = translation.returnColumns;
+  /**
+   * Execute a Cypher query and return an iterator over its rows. Read-only queries on the
+   * standard path read their rows from SQLite as the iterator advances, so the database
+   * connection is busy until the iterator is done or returned; other queries run in full first.
+   */
+  stream(cypher: string, params: Record<string, unknown> = {}, limits: QueryLimits = {}): StreamResponse {
+    const check = interruptCheck(limits);
+    const started = Date.now();
+    const result = this.db.interruptible(check, () => this.streamQuery(cypher, params));
+    if (!check || !result.success) return result;
+    return { success: true, rows: this.interruptibleRows(result.rows, limits, Date.now() - started) };
+  }
 
-      this.db.transaction(() => {
-        for (const stmt of translation.statements) {
-          const result = this.db.execute(stmt.sql, stmt.params);
+  private streamQuery(cypher: string, params: Record<string, unknown>): StreamResponse {
+    this.propertyCache.clear();
+    this.edgePropertyCache.clear();
+    this.edgeInfoCache.clear();
 
-          // If this is a SELECT (RETURN clause), capture the results
-          if (result.rows.length > 0 || stmt.sql.trim().toUpperCase().startsWith("SELECT")) {
-            rows = result.rows;
-          }
-        }
-      });
+    try {
+      this.db.checkInterrupt();
+      const query = this.parseQuery(cypher, params);
+      if ("success" in query) return query;
 
-      // 5. Format results
-      const formattedRows = this.formatResults(rows, returnColumns);
+      // These need the full execution path: plans, schema changes, imports, constraint checks
+      if (query.prefix || schemaCommand(query) || this.hasLoadCsv(query) || this.db.hasConstraints()) {
+        const result = this.execute(cypher, params);
+        return result.success ? { success: true, rows: result.data.values() } : result;
+      }
+
+      const prepared = this.prepareClauses(query, params);
+      if ("data" in prepared) {
+        return { success: true, rows: prepared.data.values() };
+      }
 
-      const endTime = performance.now();
+      const { statements, returnColumns } = prepared.translation;
+      if (statements.length === 1 && this.db.returnsRows(statements[0].sql)) {
+        const rows = this.db.iterate(statements[0].sql, statements[0].params);
+        return { success: true, rows: this.formatRowIterator(rows, returnColumns) };
+      }
+      return { success: true, rows: this.runTranslation(prepared.translation).values() };
+    } catch (error) {
+      return executionError(error);
+    }
+  }
 
+  /**
+   * Read rows with an interrupt check in place, so it also stops the SQL producing them.
+   * Only the time spent reading counts towards the timeout, not the time the caller takes
+   * between rows.
+   */
+  private *interruptibleRows(
+    rows: IterableIterator<Record<string, unknown>>,
+    limits: QueryLimits,
+    spentMs: number
+  ): IterableIterator<Record<string, unknown>> {
+    try {
+      for (;;) {
+        const check = interruptCheck(limits, spentMs)!;
+        const started = Date.now();
+        check();
+        const next = this.db.interruptible(check, () => rows.next());
+        spentMs += Date.now() - started;
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      rows.return?.();
+    }
+  }
+
+  /**
+   * Parse a query and resolve its dynamic labels, which take their names from the parameters
+   */
+  private parseQuery(cypher: string, params: Record<string, unknown>): Query | ExecutionError {
+    const parseResult = parse(cypher);
+    if (!parseResult.success) {
       return {
-        success: true,
-        data: formattedRows,
-        meta: {
-          count: formattedRows.length,
-          time_ms: Math.round((endTime - startTime) * 100) / 100,
+        success: false,
+        error: {
+          message: parseResult.error.message,
+          position: parseResult.error.position,
+          line: parseResult.error.line,
+          column: parseResult.error.column,
         },
       };
+    }
+    return resolveDynamicLabels(parseResult.query, params);
+  }
+
+  /**
+   * Execute a script of semicolon-separated statements in a single transaction.
+   * The first failing statement rolls back the writes of all statements.
+   */
+  executeScript(script: string, params: Record<string, unknown> = {}, limits: QueryLimits = {}): ScriptResponse {
+    const check = interruptCheck(limits);
+    if (!check) return this.executeStatements(script, params);
+    return this.db.interruptible(check, () => this.executeStatements(script, params));
+  }
+
+  private executeStatements(script: string, params: Record<string, unknown>): ScriptResponse {
+    const startTime = performance.now();
+    const statements = splitStatements(script);
+    const results: ExecutionResult[] = [];
+    let failure: ScriptError | undefined;
+
+    try {
+      this.db.transaction(() => {
+        statements.forEach((statement, index) => {
+          const result = this.execute(statement.cypher, params);
+          if (result.success) {
+            results.push(result);
+            return;
+          }
+
+          // Error locations are relative to the statement; make them relative to the script
+          const { message, position, line, column, code } = result.error;
+          failure = {
+            success: false,
+            error: {
+              message,
+              statement: index,
+              position: statement.position + (position ?? 0),
+              line: statement.line + (line ?? 1) - 1,
+              column: line === undefined || line === 1 ? statement.column + (column ?? 1) - 1 : column!,
+              ...(code && { code }),
+            },
+          };
+          throw new Error(message);
+        });
+      });
     } catch (error) {
+      if (failure) return failure;
+      const statement = statements[results.length];
       return {
         success: false,
         error: {
           message: error instanceof Error ? error.message : String(error),
+          statement: results.length,
+          position: statement?.position ?? 0,
+          line: statement?.line ?? 1,
+          column: statement?.column ?? 1,
         },
       };
     }
+
+    return {
+      success: true,
+      results,
+      meta: {
+        count: results.length,
+        time_ms: Math.round((performance.now() - startTime) * 100) / 100,
+      },
+    };
+  }
+
+  /**
+   * Run a parsed query.
+   * Returns the result rows and the execution pattern that produced them.
+   */
+  private runQuery(
+    query: Query,
+    params: Record<string, unknown>
+  ): { data: Record<string, unknown>[]; pattern: QueryPattern } {
+    const schemaClause = schemaCommand(query);
+    if (schemaClause) {
+      return { data: this.executeSchemaCommand(schemaClause, params), pattern: "SCHEMA" };
+    }
+
+    // Constraints are checked once the whole query has run, so intermediate states
+    // (e.g. MERGE ... ON CREATE SET) are allowed; a violation rolls back all of its writes
+    if (this.db.hasConstraints()) {
+      return this.db.transaction(() => {
+        const result = this.runClauses(query, params);
+        this.db.checkConstraints();
+        return result;
+      });
+    }
+
+    return this.runClauses(query, params);
+  }
+
+  /**
+   * Classify, validate and run the clauses of a query
+   */
+  private runClauses(
+    query: Query,
+    params: Record<string, unknown>
+  ): { data: Record<string, unknown>[]; pattern: QueryPattern } {
+    const prepared = this.prepareClauses(query, params);
+    if ("data" in prepared) return prepared;
+    return { data: this.runTranslation(prepared.translation), pattern: "STANDARD" };
+  }
+
+  /**
+   * Classify, validate and run the clauses of a query, except on the standard path, where
+   * the query's SQL translation is returned for the caller to run
+   */
+  private prepareClauses(
+    query: Query,
+    params: Record<string, unknown>
+  ): { data: Record<string, unknown>[]; pattern: QueryPattern } | { translation: TranslationResult } {
+    // 2. Classify query with single-pass and dispatch to appropriate handler
+    const { pattern, flags } = this.classifyQuery(query);
+
+    // 3. Run semantic validations
+    this.validateQuery(query, flags, params);
+
+    if (flags.hasProcedureCall) {
+      params = this.runAlgorithmCalls(query, params);
+    }
+
+    // Dispatch based on pattern (each try* method still validates and may return null)
+    switch (pattern) {
+      case "PHASED": {
+        const result = this.tryPhasedExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "UNWIND_CREATE": {
+        const result = this.tryUnwindCreateExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "UNWIND_MERGE": {
+        const result = this.tryUnwindMergeExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "COLLECT_UNWIND": {
+        const result = this.tryCollectUnwindExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "COLLECT_DELETE": {
+        const result = this.tryCollectDeleteExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "CREATE_RETURN": {
+        const result = this.tryCreateReturnExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "BOUND_REL_LIST": {
+        const result = this.tryBoundRelationshipListExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "MERGE": {
+        const result = this.tryMergeExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      case "MULTI_PHASE": {
+        const result = this.tryMultiPhaseExecution(query, params);
+        if (result !== null) return { data: result, pattern };
+        break;
+      }
+      // STANDARD falls through to SQL translation below
+    }
+
+    // 3. Standard single-phase execution: Translate to SQL
+    const translator = new Translator(params);
+    return { translation: translator.translate(query) };
+  }
+
+  /**
+   * Run the SQL statements of a standard query and format the rows of its RETURN
+   */
+  private runTranslation(translation: TranslationResult): Record<string, unknown>[] {
+    // 4. Execute SQL statements
+    let rows: Record<string, unknown>[] = [];
+    const returnColumns = translation.returnColumns;
+
+    this.db.transaction(() => {
+      for (const stmt of translation.statements) {
+        const result = this.db.execute(stmt.sql, stmt.params);
+
+        // If this is a SELECT (RETURN clause), capture the results
+        if (result.rows.length > 0 || stmt.sql.trim().toUpperCase().startsWith("SELECT")) {
+          rows = result.rows;
+        }
+      }
+    });
+
+    // 5. Format results
+    return this.formatResults(rows, returnColumns);
+  }
+
+  /**
+   * Run semantic validations only when relevant clauses are present
+   * (avoids extra iteration overhead for simple queries)
+   */
+  private validateQuery(query: Query, flags: QueryFlags, params: Record<string, unknown>): void {
+    if (flags.hasMerge) {
+      this.validateMergeVariables(query);
+    }
+    if (flags.hasSet) {
+      this.validateSetClauseValueVariables(query, params);
+    }
+    if (flags.hasWith || flags.hasReturn) {
+      this.validateOrderByVariables(query, params);
+    }
+    if (flags.hasProcedureCall) {
+      this.validateProcedureCalls(query, params);
+    }
+  }
+
+  /**
+   * Build the EXPLAIN plan: the chosen execution pattern and, for queries that run as
+   * translated SQL, the statements with SQLite's query plan. The other patterns generate
+   * their SQL while running, so their statements are only visible with PROFILE.
+   */
+  private explainQuery(query: Query, params: Record<string, unknown>): QueryPlan {
+    if (schemaCommand(query)) {
+      return { mode: "EXPLAIN", pattern: "SCHEMA", statements: [] };
+    }
+
+    const { pattern, flags } = this.classifyQuery(query);
+    this.validateQuery(query, flags, params);
+
+    const statements: PlannedStatement[] = [];
+    if (pattern === "STANDARD") {
+      const translation = new Translator(params).translate(query);
+      for (const stmt of translation.statements) {
+        statements.push({
+          sql: stmt.sql,
+          params: stmt.params,
+          queryPlan: this.explainStatement(stmt.sql, stmt.params),
+        });
+      }
+    }
+
+    return { mode: "EXPLAIN", pattern, statements };
+  }
+
+  /**
+   * Run an index or constraint command
+   */
+  private executeSchemaCommand(clause: SchemaClause, params: Record<string, unknown>): Record<string, unknown>[] {
+    switch (clause.type) {
+      case "CREATE_INDEX": {
+        const entityType: IndexEntityType = clause.entityType;
+        this.db.createPropertyIndex(
+          {
+            name: clause.name ?? defaultIndexName(entityType, clause.labelOrType, clause.properties),
+            entityType,
+            labelOrType: clause.labelOrType,
+            properties: clause.properties,
+          },
+          clause.ifNotExists
+        );
+        return [];
+      }
+      case "DROP_INDEX":
+        if (this.db.getFulltextIndex(clause.name)) {
+          this.db.dropFulltextIndex(clause.name);
+        } else {
+          this.db.dropPropertyIndex(clause.name, clause.ifExists);
+        }
+        return [];
+      case "SHOW_INDEXES": {
+        const rangeIndexes = this.db.listPropertyIndexes().map((index) => ({
+          name: index.name,
+          state: "ONLINE",
+          type: "RANGE",
+          entityType: index.entityType,
+          labelsOrTypes: [index.labelOrType],
+          properties: index.properties,
+        }));
+        const fulltextIndexes = this.db.listFulltextIndexes().map((index) => ({
+          name: index.name,
+          state: "ONLINE",
+          type: "FULLTEXT",
+          entityType: "NODE",
+          labelsOrTypes: index.labels,
+          properties: index.properties,
+        }));
+        return [...rangeIndexes, ...fulltextIndexes].sort((a, b) => a.name.localeCompare(b.name));
+      }
+      case "CREATE_CONSTRAINT": {
+        const entityType: IndexEntityType = clause.entityType;
+        this.db.createConstraint(
+          {
+            name: clause.name ?? defaultConstraintName(clause.kind, entityType, clause.labelOrType, clause.properties),
+            kind: clause.kind,
+            entityType,
+            labelOrType: clause.labelOrType,
+            properties: clause.properties,
+          },
+          clause.ifNotExists
+        );
+        return [];
+      }
+      case "DROP_CONSTRAINT":
+        this.db.dropConstraint(clause.name, clause.ifExists);
+        return [];
+      case "SHOW_CONSTRAINTS":
+        return this.db.listConstraints().map((constraint) => ({
+          name: constraint.name,
+          type: constraintTypeName(constraint),
+          entityType: constraint.entityType,
+          labelsOrTypes: [constraint.labelOrType],
+          properties: constraint.properties,
+        }));
+      case "CALL":
+        this.executeFulltextProcedure(clause, params);
+        return [];
+    }
+  }
+
+  /**
+   * db.index.fulltext.createNodeIndex(name, labels, properties) and db.index.fulltext.drop(name)
+   */
+  private executeFulltextProcedure(clause: CallClause, params: Record<string, unknown>): void {
+    const args = clause.args.map((arg) => this.evaluateLiteralExpression(arg, params));
+
+    if (clause.procedure.toLowerCase() === "db.index.fulltext.drop") {
+      if (args.length !== 1 || typeof args[0] !== "string") {
+        throw new Error(`${clause.procedure} expects (indexName :: STRING)`);
+      }
+      this.db.dropFulltextIndex(args[0]);
+      return;
+    }
+
+    const [name, labels, properties] = args;
+    if (args.length !== 3 || typeof name !== "string" || !isStringList(labels) || !isStringList(properties)) {
+      throw new Error(
+        `${clause.procedure} expects (indexName :: STRING, labels :: LIST<STRING>, properties :: LIST<STRING>)`
+      );
+    }
+    this.db.createFulltextIndex({ name, labels, properties });
+  }
+
+  /**
+   * Run the graph algorithms called by the query. Like LOAD CSV files, their results are
+   * computed up front: each call's configuration is replaced by a parameter holding its rows.
+   * A call after other clauses runs once per input row instead (see executeAlgorithmCallClause).
+   */
+  private runAlgorithmCalls(query: Query, params: Record<string, unknown>): Record<string, unknown> {
+    const expanded = { ...params };
+    query.clauses.forEach((clause, i) => {
+      if (clause.type !== "CALL" || i > 0) return;
+      const procedure = algorithmProcedure(clause.procedure);
+      if (!procedure || clause.args.length > 1) return;
+
+      const config = clause.args.length > 0 ? this.evaluateExpressionInRow(clause.args[0], new Map(), params) : {};
+      const paramName = `#algorithm_${i}`;
+      expanded[paramName] = runAlgorithmProcedure(this.db, procedure, config);
+      clause.args = [{ type: "parameter", name: paramName }];
+    });
+    return expanded;
+  }
+
+  /**
+   * Check that the full-text indexes queried by CALL clauses exist; the translator only knows their table names
+   */
+  private validateProcedureCalls(query: Query, params: Record<string, unknown>): void {
+    for (let i = 0; i < query.clauses.length; i++) {
+      const clause = query.clauses[i];
+      if (clause.type !== "CALL") continue;
+      const next = query.clauses[i + 1];
+      if (algorithmProcedure(clause.procedure)) {
+        if (next && next.type !== "RETURN") {
+          throw new Error(`${clause.procedure} can only be followed by RETURN`);
+        }
+        continue;
+      }
+      if (clause.procedure.toLowerCase() !== FULLTEXT_QUERY_PROCEDURE) continue;
+      if (i > 0) {
+        throw new Error(`${clause.procedure} must be the first clause of the query`);
+      }
+      if (next && next.type !== "RETURN") {
+        throw new Error(`${clause.procedure} can only be followed by RETURN`);
+      }
+      const name = clause.args.length > 0 ? this.evaluateLiteralExpression(clause.args[0], params) : null;
+      if (typeof name === "string" && !this.db.getFulltextIndex(name)) {
+        throw new Error(`There is no such fulltext schema index: ${name}`);
+      }
+    }
+  }
+
+  private explainStatement(sql: string, params: unknown[]): QueryPlanStep[] {
+    try {
+      return this.db.explainQueryPlan(sql, params);
+    } catch {
+      // Statements that depend on earlier ones (e.g. tables created in the same query) cannot be planned alone
+      return [];
+    }
   }
 
   // ============================================================================
@@ -500,9 +1140,15 @@ export class Executor {
       hasMerge: false,
       hasSet: false,
       hasDelete: false,
+      hasRemove: false,
       hasUnwind: false,
       hasWith: false,
       hasReturn: false,
+      hasForeach: false,
+      hasCallSubquery: false,
+      hasProcedureCall: false,
+      hasRowAlgorithmCall: false,
+      hasShortestPath: false,
       
       // Detailed flags
       mergeHasSetClauses: false,
@@ -549,13 +1195,19 @@ export class Executor {
           if (clause.patterns.some(p => this.isRelationshipPattern(p))) {
             flags.matchHasRelationshipPattern = true;
           }
+          if (clause.pathExpressions?.some(p => p.shortest)) {
+            flags.hasShortestPath = true;
+          }
           break;
-          
+        
         case "OPTIONAL_MATCH":
           flags.hasOptionalMatch = true;
           flags.matchCount++;
           // OPTIONAL_MATCH is stored as MatchClause with isOptional flag
           flags.matchClauses.push(clause as MatchClause);
+          if (clause.pathExpressions?.some(p => p.shortest)) {
+            flags.hasShortestPath = true;
+          }
           break;
           
         case "CREATE":
@@ -595,6 +1247,10 @@ export class Executor {
           flags.deleteClauses.push(clause);
           break;
           
+        case "REMOVE":
+          flags.hasRemove = true;
+          break;
+          
         case "UNWIND":
           flags.hasUnwind = true;
           flags.unwindClauses.push(clause);
@@ -634,11 +1290,26 @@ export class Executor {
           flags.hasReturn = true;
           flags.returnClause = clause;
           break;
+          
+        case "FOREACH":
+          flags.hasForeach = true;
+          break;
+        
+        case "CALL_SUBQUERY":
+          flags.hasCallSubquery = true;
+          break;
+
+        case "CALL":
+          flags.hasProcedureCall = true;
+          if (clause !== query.clauses[0] && algorithmProcedure(clause.procedure)) {
+            flags.hasRowAlgorithmCall = true;
+          }
+          break;
       }
     }
     
     // Derived flags
-    flags.hasMutations = flags.hasCreate || flags.hasSet || flags.hasDelete;
+    flags.hasMutations = flags.hasCreate || flags.hasSet || flags.hasDelete || flags.hasForeach;
     
     // Determine pattern using the collected flags
     const pattern = this.determineQueryPattern(query, flags);
@@ -658,7 +1329,13 @@ export class Executor {
                                        !flags.mergeHasSetClauses;
     const needsCreateWithPhasedExecution = flags.hasCreate && flags.hasWith && !flags.hasMatch;
     
-    if (phases.length > 1 || needsMergePhasedExecution || needsCreateWithPhasedExecution) {
+    // FOREACH bodies, CALL subqueries, shortest path searches, graph algorithms called after
+    // other clauses and REMOVE on matched entities run per input row, which only the
+    // row-based executor supports
+    const needsPerRowExecution = flags.hasForeach || flags.hasCallSubquery || flags.hasShortestPath ||
+                                 flags.hasRowAlgorithmCall || (flags.hasRemove && flags.hasMatch);
+    
+    if (phases.length > 1 || needsMergePhasedExecution || needsCreateWithPhasedExecution || needsPerRowExecution) {
       return "PHASED";
     }
     
@@ -760,13 +1437,22 @@ export class Executor {
     // reference the created node's data (UUID is generated at runtime)
     const needsCreateWithPhasedExecution = hasCreate && hasWithClause && !hasMatch;
     
+    // FOREACH, CALL subqueries, shortest paths, graph algorithms called after other clauses
+    // and REMOVE on matched entities are only supported by the row-based executor
+    const needsPerRowExecution = query.clauses.some((c, i) =>
+      c.type === "FOREACH" ||
+      c.type === "CALL_SUBQUERY" ||
+      (c.type === "CALL" && i > 0 && algorithmProcedure(c.procedure) !== null) ||
+      ((c.type === "MATCH" || c.type === "OPTIONAL_MATCH") && c.pathExpressions?.some(p => p.shortest))
+    ) || (hasMatch && query.clauses.some(c => c.type === "REMOVE"));
+    
     // If only one phase and no special combo, standard execution can handle it
-    if (phases.length <= 1 && !needsMergePhasedExecution && !needsCreateWithPhasedExecution) {
+    if (phases.length <= 1 && !needsMergePhasedExecution && !needsCreateWithPhasedExecution && !needsPerRowExecution) {
       return null;
     }
     
     // For MATCH/CREATE+MERGE, execute all clauses in sequence using phased execution
-    const clausesToExecute = needsMergePhasedExecution && phases.length <= 1 
+    const clausesToExecute = (needsMergePhasedExecution || needsPerRowExecution) && phases.length <= 1 
       ? [query.clauses]  // All clauses as one phase, but processed by phased executor
       : phases;
     
@@ -909,6 +1595,12 @@ export class Executor {
         for (const y of clause.yields || []) scope.add(y);
         continue;
       }
+      
+      if (clause.type === "CALL_SUBQUERY") {
+        this.validateOrderByVariablesInQuery(clause.query, params);
+        for (const v of this.getSubqueryReturnVariables(clause.query)) scope.add(v);
+        continue;
+      }
 
       if (clause.type === "WITH") {
         // Reset scope to WITH projections; `WITH *` preserves incoming scope.
@@ -995,13 +1687,19 @@ export class Executor {
         scope.add(clause.alias);
         continue;
       }
-
+      
+      if (clause.type === "CALL_SUBQUERY") {
+        this.validateSetClauseValueVariablesInQuery(clause.query, params);
+        for (const v of this.getSubqueryReturnVariables(clause.query)) scope.add(v);
+        continue;
+      }
+      
       if (clause.type === "WITH") {
         // Reset scope to WITH projections; `WITH *` preserves incoming scope.
         const hasStar = clause.items.some(
           (item) => item.expression.type === "variable" && item.expression.variable === "*" && !item.alias
         );
-
+        
         const nextScope = hasStar ? new Set(scope) : new Set<string>();
         for (const item of clause.items) {
           if (item.alias) {
@@ -1010,7 +1708,7 @@ export class Executor {
             nextScope.add(item.expression.variable);
           }
         }
-
+        
         scope = nextScope;
         continue;
       }
@@ -1028,6 +1726,20 @@ export class Executor {
     }
   }
 
+  /**
+   * Get the variables a CALL subquery adds to the outer scope (its RETURN columns)
+   */
+  private getSubqueryReturnVariables(query: Query): string[] {
+    // All UNION branches return the same columns, so the first branch is enough
+    let branch = query;
+    while (branch.clauses.length === 1 && branch.clauses[0].type === "UNION") {
+      branch = branch.clauses[0].left;
+    }
+    const returnClause = branch.clauses[branch.clauses.length - 1];
+    if (returnClause?.type !== "RETURN") return [];
+    return returnClause.items.map(item => item.alias || this.getExpressionName(item.expression));
+  }
+  
   private validateExpressionVariablesInScope(
     expression: Expression,
     scope: Set<string>,
@@ -1118,6 +1830,29 @@ export class Executor {
         return;
       }
 
+      case "reduce": {
+        if (expression.initialValue) this.validateExpressionVariablesInScope(expression.initialValue, scope, params);
+        if (expression.listExpr) this.validateExpressionVariablesInScope(expression.listExpr, scope, params);
+        const nextScope = new Set(scope);
+        if (expression.accumulator) nextScope.add(expression.accumulator);
+        if (expression.variable) nextScope.add(expression.variable);
+        if (expression.mapExpr) this.validateExpressionVariablesInScope(expression.mapExpr, nextScope, params);
+        return;
+      }
+
+      case "mapProjection": {
+        if (expression.variable && !scope.has(expression.variable)) {
+          throw new Error(`SyntaxError: Variable \`${expression.variable}\` not defined`);
+        }
+        for (const item of expression.projections || []) {
+          if (item.type === "variable" && !scope.has(item.key!)) {
+            throw new Error(`SyntaxError: Variable \`${item.key}\` not defined`);
+          }
+          if (item.value) this.validateExpressionVariablesInScope(item.value, scope, params);
+        }
+        return;
+      }
+
       case "labelPredicate": {
         if (expression.variable && !scope.has(expression.variable)) {
           throw new Error(`SyntaxError: Variable \`${expression.variable}\` not defined`);
@@ -1482,6 +2217,31 @@ export class Executor {
           }
         }
       }
+    } else if (expr.type === "reduce") {
+      // Handle reduce(acc = init, x IN list | expr): acc and x are local to the step expression
+      for (const v of this.getExpressionVariables(expr.initialValue!)) {
+        vars.add(v);
+      }
+      for (const v of this.getExpressionVariables(expr.listExpr!)) {
+        vars.add(v);
+      }
+      for (const v of this.getExpressionVariables(expr.mapExpr!)) {
+        if (v !== expr.variable && v !== expr.accumulator) {
+          vars.add(v);
+        }
+      }
+    } else if (expr.type === "mapProjection") {
+      // Handle n {.name, key: expr, other}
+      vars.add(expr.variable!);
+      for (const item of expr.projections || []) {
+        if (item.type === "variable") {
+          vars.add(item.key!);
+        } else if (item.value) {
+          for (const v of this.getExpressionVariables(item.value)) {
+            vars.add(v);
+          }
+        }
+      }
     } else if (expr.type === "case") {
       // Handle CASE WHEN ... THEN ... ELSE ... END
       if (expr.expression) {
@@ -1696,7 +2456,7 @@ export class Executor {
   private expressionHasAggregate(expr: Expression): boolean {
     if (expr.type === "function") {
       const funcName = expr.functionName?.toUpperCase();
-      if (["COLLECT", "COUNT", "SUM", "AVG", "MIN", "MAX"].includes(funcName || "")) {
+      if (["COLLECT", "COUNT", "SUM", "AVG", "MIN", "MAX", "STDEV", "STDEVP"].includes(funcName || "")) {
         return true;
       }
       // Check args recursively
@@ -1761,7 +2521,7 @@ export class Executor {
         }
       }
       return false;
-    } else if (expr.type === "listComprehension" || expr.type === "listPredicate") {
+    } else if (expr.type === "listComprehension" || expr.type === "listPredicate" || expr.type === "reduce") {
       // Check the list expression and filter condition
       if (expr.listExpr && this.expressionHasNonDeterministic(expr.listExpr)) return true;
       if (expr.filterCondition && this.whereConditionHasNonDeterministic(expr.filterCondition)) return true;
@@ -1808,6 +2568,7 @@ export class Executor {
     context: PhaseContext,
     params: Record<string, unknown>
   ): PhaseContext {
+    this.db.checkInterrupt();
     // For read-only clauses, avoid the expensive row cloning operation
     const cloneRows = !this.isReadOnlyClause(clause);
     const newContext = cloneContext(context, cloneRows);
@@ -1830,6 +2591,17 @@ export class Executor {
         return this.executeSetClause(clause, newContext, params);
       case "DELETE":
         return this.executeDeleteClause(clause, newContext, params);
+      case "REMOVE":
+        return this.executeRemoveClause(clause, newContext);
+      case "FOREACH":
+        return this.executeForeachClause(clause, newContext, params);
+      case "CALL_SUBQUERY":
+        return this.executeCallSubqueryClause(clause, newContext, params);
+      case "CALL":
+        if (algorithmProcedure(clause.procedure)) {
+          return this.executeAlgorithmCallClause(clause, newContext, params);
+        }
+        return context;
       default:
         // For unsupported clause types, return context unchanged
         return context;
@@ -1996,11 +2768,9 @@ export class Executor {
     
     // Label condition (uses primary label index with fallback for secondary labels)
     if (pattern.label) {
-      const labels = Array.isArray(pattern.label) ? pattern.label : [pattern.label];
-      for (const label of labels) {
-        conditions.push(`(json_extract(label, '$[0]') = ? OR EXISTS (SELECT 1 FROM json_each(label) WHERE value = ? AND json_extract(label, '$[0]') != ?))`);
-        conditionParams.push(label, label, label);
-      }
+      const labelCondition = this.generateLabelCondition(pattern.label);
+      conditions.push(labelCondition.sql);
+      conditionParams.push(...labelCondition.params);
     }
     
     // Property conditions
@@ -2369,6 +3139,11 @@ export class Executor {
         groups.get(groupKey)!.push(row);
       }
       
+      // Aggregating without grouping keys yields a row even when there are no input rows
+      if (groupingItems.length === 0 && groups.size === 0) {
+        groups.set("{}", []);
+      }
+      
       // For each group, compute aggregates and produce output row
       const outputRows: Array<Map<string, unknown>> = [];
       
@@ -2534,6 +3309,7 @@ export class Executor {
     const newRows: Array<Map<string, unknown>> = [];
     
     for (const row of context.rows) {
+      this.db.checkInterrupt();
       // Evaluate the list expression in this row's context
       const listValue = this.evaluateExpressionInRow(clause.expression, row, params);
       
@@ -2564,6 +3340,11 @@ export class Executor {
     context: PhaseContext,
     params: Record<string, unknown>
   ): PhaseContext {
+    // shortestPath() / allShortestPaths() are resolved with a breadth-first search
+    if (clause.pathExpressions?.some(p => p.shortest)) {
+      return this.executeShortestPathMatch(clause, context, params);
+    }
+    
     // Check for special case: variable-length pattern with pre-bound relationship list
     // e.g., MATCH (first)-[rs*]->(second) where rs is a list of relationships from WITH
     const boundRelListPattern = this.findBoundRelationshipListPattern(clause, context);
@@ -2665,7 +3446,7 @@ export class Executor {
     const newContext = cloneContext(context);
     const newRows: Array<Map<string, unknown>> = [];
     
-    // Check if WHERE references context variables (not pattern variables)
+    // Check if WHERE or pattern properties reference context variables
     const contextVarNames = new Set<string>();
     for (const inputRow of context.rows) {
       for (const [key, _] of inputRow) {
@@ -2674,16 +3455,18 @@ export class Executor {
       break; // All rows have same keys
     }
     
-    // Get variables referenced in WHERE that are context variables
-    const whereReferencesContext = clause.where ? 
-      this.whereReferencesContextVars(clause.where, contextVarNames, introducedVars) : false;
+    let referencesContext = false;
+    this.replaceContextReferences([clause.where, clause.patterns], contextVarNames, (ref) => {
+      referencesContext = true;
+      return ref;
+    });
     
-    if (boundVars.size > 0 || whereReferencesContext) {
+    if (boundVars.size > 0 || referencesContext) {
       // For complex patterns (multi-hop, anonymous nodes), use SQL translation with 
       // constraints for bound variables. This handles patterns like:
       // WITH me, you MATCH (me)-[r1:ATE]->()<-[r2:ATE]-(you) 
       // where me and you are bound but the middle node is new.
-      // Also handles: WITH x MATCH (n) WHERE n.id = x (WHERE refs context)
+      // Also handles: WITH x MATCH (n) WHERE n.id = x and WITH x MATCH (n {id: x})
       
       // Execute match for each input row using SQL with bound variable constraints
       for (const inputRow of context.rows) {
@@ -2741,31 +3524,378 @@ export class Executor {
             if (key.startsWith("_")) continue; // Skip internal columns
             outputRow.set(key, value);
           }
-          
-          newRows.push(outputRow);
+          
+          newRows.push(outputRow);
+        }
+      }
+    }
+    
+    if (newRows.length > 0) {
+      newContext.rows = newRows;
+    } else if (clause.type === "OPTIONAL_MATCH") {
+      // Optional match with no results - keep input rows but add null for new variables
+      // Add null values for introduced variables to each input row
+      newContext.rows = context.rows.map(row => {
+        const newRow = new Map(row);
+        for (const varName of introducedVars) {
+          if (!newRow.has(varName)) {
+            newRow.set(varName, null);
+          }
+        }
+        return newRow;
+      });
+    } else {
+      // Regular MATCH with no results leaves no rows
+      newContext.rows = [];
+    }
+    
+    return newContext;
+  }
+
+  /**
+   * Execute a MATCH clause containing shortestPath() or allShortestPaths()
+   *
+   * The path endpoints (and any other patterns in the clause) are matched first, then a
+   * breadth-first search runs between each pair of endpoints. WHERE predicates that
+   * reference the path are checked against the candidate paths; if none of the shortest
+   * paths pass, the search falls back to enumerating longer paths level by level.
+   */
+  private executeShortestPathMatch(
+    clause: MatchClause,
+    context: PhaseContext,
+    params: Record<string, unknown>
+  ): PhaseContext {
+    const shortestPaths = clause.pathExpressions!.filter(p => p.shortest);
+    const otherPaths = clause.pathExpressions!.filter(p => !p.shortest);
+    const boundVars = new Set(context.rows[0]?.keys() ?? []);
+    const declaredVars = new Set<string>(boundVars);
+    for (const pattern of clause.patterns) this.collectPatternVariables(pattern, declaredVars);
+    
+    // Endpoints are matched as ordinary node patterns; anonymous ones get internal variables
+    const endpointPatterns: NodePattern[] = [];
+    const searches = shortestPaths.map((pathExpr, index) => {
+      const rel = pathExpr.patterns[0] as RelationshipPattern;
+      const endpointVar = (node: NodePattern, role: string): string => {
+        const variable = node.variable ?? `_shortest_path_${role}_${index}`;
+        const isBareBoundVar = node.variable && declaredVars.has(node.variable) && !node.label && !node.properties;
+        if (!isBareBoundVar) {
+          endpointPatterns.push({ ...node, variable });
+          declaredVars.add(variable);
+        }
+        return variable;
+      };
+      return {
+        pathExpr,
+        edge: rel.edge,
+        sourceVar: endpointVar(rel.source, "source"),
+        targetVar: endpointVar(rel.target, "target"),
+      };
+    });
+    
+    // Split WHERE into endpoint predicates and predicates on the paths
+    const pathVars = new Set<string>();
+    for (const { pathExpr, edge } of searches) {
+      pathVars.add(pathExpr.variable);
+      if (edge.variable) pathVars.add(edge.variable);
+    }
+    const conjuncts = !clause.where ? [] : clause.where.type === "and" ? clause.where.conditions! : [clause.where];
+    const endpointConds: WhereCondition[] = [];
+    const pathConds: WhereCondition[] = [];
+    for (const cond of conjuncts) {
+      const referencesPath = [...this.getWhereVariables(cond)].some(v => pathVars.has(v));
+      (referencesPath ? pathConds : endpointConds).push(cond);
+    }
+    const endpointWhere = endpointConds.length > 1 ? { type: "and" as const, conditions: endpointConds } : endpointConds[0];
+    const pathWhere = pathConds.length > 1 ? { type: "and" as const, conditions: pathConds } : pathConds[0];
+    
+    let endpointContext = context;
+    const endpointMatch: MatchClause = {
+      type: clause.type,
+      patterns: [...clause.patterns, ...endpointPatterns],
+      pathExpressions: otherPaths.length > 0 ? otherPaths : undefined,
+      where: endpointWhere,
+    };
+    if (endpointMatch.patterns.length > 0) {
+      endpointContext = this.executeMatchClause(endpointMatch, context, params);
+    } else if (endpointWhere) {
+      endpointContext = cloneContext(context);
+      endpointContext.rows = context.rows.filter(row => this.evaluateWhereInRow(endpointWhere, row, params));
+    }
+    
+    // Run each search for every endpoint row (multiple searches form a Cartesian product)
+    let rows = endpointContext.rows;
+    for (const search of searches) {
+      const isLastSearch = search === searches[searches.length - 1];
+      const nextRows: Array<Map<string, unknown>> = [];
+      
+      for (const row of rows) {
+        const sourceId = this.extractNodeId(row.get(search.sourceVar));
+        const targetId = this.extractNodeId(row.get(search.targetVar));
+        const bindPath = (path: TraversedPath): Map<string, unknown> => {
+          const pathValue = this.buildTraversedPathValue(path);
+          const pathRow = new Map(row);
+          pathRow.set(search.pathExpr.variable, pathValue);
+          if (search.edge.variable) {
+            const relationships = pathValue.filter((_, i) => i % 2 === 1);
+            pathRow.set(search.edge.variable, search.edge.minHops === undefined ? relationships[0] : relationships);
+          }
+          return pathRow;
+        };
+        // Path predicates are only checked once all paths in the clause are bound
+        const accept = (pathRow: Map<string, unknown>): boolean =>
+          !pathWhere || !isLastSearch || this.evaluateWhereInRow(pathWhere, pathRow, params);
+        
+        let pathRows: Array<Map<string, unknown>> = [];
+        if (sourceId && targetId) {
+          const mode = pathWhere && isLastSearch ? "all" : search.pathExpr.shortest!;
+          pathRows = this.findShortestPaths(sourceId, targetId, search.edge, mode, params)
+            .map(bindPath)
+            .filter(accept);
+          
+          if (pathRows.length === 0 && pathWhere && isLastSearch) {
+            pathRows = this.findPathsExhaustive(sourceId, targetId, search.edge, params, path => accept(bindPath(path)))
+              .map(bindPath);
+          }
+          if (search.pathExpr.shortest === "single") {
+            pathRows = pathRows.slice(0, 1);
+          }
+        }
+        
+        if (pathRows.length > 0) {
+          nextRows.push(...pathRows);
+        } else if (clause.type === "OPTIONAL_MATCH") {
+          const nullRow = new Map(row);
+          nullRow.set(search.pathExpr.variable, null);
+          if (search.edge.variable) nullRow.set(search.edge.variable, null);
+          nextRows.push(nullRow);
+        }
+      }
+      
+      rows = nextRows;
+    }
+    
+    // Drop internal endpoint and unnamed path variables
+    for (const row of rows) {
+      for (const key of [...row.keys()]) {
+        if (key.startsWith("_shortest_path_")) row.delete(key);
+      }
+    }
+    
+    const newContext = cloneContext(endpointContext, false);
+    newContext.rows = rows;
+    return newContext;
+  }
+  
+  /**
+   * Breadth-first search for the shortest paths between two nodes.
+   * In "single" mode the search stops as soon as the target is reached; in "all"
+   * mode it finishes the target's level so every shortest path is recorded.
+   */
+  private findShortestPaths(
+    sourceId: string,
+    targetId: string,
+    edge: EdgePattern,
+    mode: "single" | "all",
+    params: Record<string, unknown>
+  ): TraversedPath[] {
+    const minHops = edge.minHops ?? 1;
+    const maxHops = edge.minHops === undefined ? 1 : edge.maxHops ?? Infinity;
+    
+    if (sourceId === targetId) {
+      return minHops === 0 ? [{ nodeIds: [sourceId], edges: [] }] : [];
+    }
+    
+    const depths = new Map<string, number>([[sourceId, 0]]);
+    const parents = new Map<string, Array<{ prev: string; edge: TraversedEdge }>>();
+    let frontier = [sourceId];
+    let depth = 0;
+    
+    search:
+    while (frontier.length > 0 && depth < maxHops && !depths.has(targetId)) {
+      this.db.checkInterrupt();
+      depth++;
+      const next: string[] = [];
+      for (const step of this.expandTraversalFrontier(frontier, edge, params)) {
+        const known = depths.get(step.to);
+        if (known === undefined) {
+          depths.set(step.to, depth);
+          parents.set(step.to, [{ prev: step.from, edge: step.edge }]);
+          next.push(step.to);
+          if (mode === "single" && step.to === targetId) break search;
+        } else if (known === depth && mode === "all") {
+          parents.get(step.to)!.push({ prev: step.from, edge: step.edge });
+        }
+      }
+      frontier = next;
+    }
+    
+    if (!depths.has(targetId)) return [];
+    
+    // Walk parent pointers back from the target
+    const paths: TraversedPath[] = [];
+    const walk = (nodeId: string, nodeIds: string[], edges: TraversedEdge[]): void => {
+      if (nodeId === sourceId) {
+        paths.push({ nodeIds: [sourceId, ...nodeIds], edges });
+        return;
+      }
+      for (const parent of parents.get(nodeId) ?? []) {
+        walk(parent.prev, [nodeId, ...nodeIds], [parent.edge, ...edges]);
+        if (mode === "single" && paths.length > 0) return;
+      }
+    };
+    walk(targetId, [], []);
+    return paths;
+  }
+  
+  /**
+   * Enumerate paths level by level (without reusing a relationship) until a level
+   * contains paths to the target that satisfy the predicate. Used when the shortest
+   * paths found by the BFS are all rejected by a WHERE predicate on the path.
+   */
+  private findPathsExhaustive(
+    sourceId: string,
+    targetId: string,
+    edge: EdgePattern,
+    params: Record<string, unknown>,
+    accept: (path: TraversedPath) => boolean
+  ): TraversedPath[] {
+    const minHops = edge.minHops ?? 1;
+    const maxHops = edge.minHops === undefined ? 1 : edge.maxHops ?? Infinity;
+    
+    let level: TraversedPath[] = [{ nodeIds: [sourceId], edges: [] }];
+    if (minHops === 0 && sourceId === targetId && accept(level[0])) {
+      return level;
+    }
+    
+    for (let depth = 1; depth <= maxHops && level.length > 0; depth++) {
+      const lastNodes = [...new Set(level.map(path => path.nodeIds[path.nodeIds.length - 1]))];
+      const stepsByNode = new Map<string, Array<{ to: string; edge: TraversedEdge }>>();
+      for (const step of this.expandTraversalFrontier(lastNodes, edge, params)) {
+        if (!stepsByNode.has(step.from)) stepsByNode.set(step.from, []);
+        stepsByNode.get(step.from)!.push(step);
+      }
+      
+      const nextLevel: TraversedPath[] = [];
+      const found: TraversedPath[] = [];
+      for (const path of level) {
+        this.db.checkInterrupt();
+        const last = path.nodeIds[path.nodeIds.length - 1];
+        for (const step of stepsByNode.get(last) ?? []) {
+          if (path.edges.some(e => e.id === step.edge.id)) continue;
+          const extended = { nodeIds: [...path.nodeIds, step.to], edges: [...path.edges, step.edge] };
+          if (step.to === targetId) {
+            if (accept(extended)) found.push(extended);
+          } else {
+            nextLevel.push(extended);
+          }
         }
       }
+      
+      if (found.length > 0) return found;
+      level = nextLevel;
     }
     
-    if (newRows.length > 0) {
-      newContext.rows = newRows;
-    } else if (clause.type === "OPTIONAL_MATCH") {
-      // Optional match with no results - keep input rows but add null for new variables
-      // Add null values for introduced variables to each input row
-      newContext.rows = context.rows.map(row => {
-        const newRow = new Map(row);
-        for (const varName of introducedVars) {
-          if (!newRow.has(varName)) {
-            newRow.set(varName, null);
+    return [];
+  }
+  
+  /**
+   * Find the relationships leaving a set of nodes that match a pattern's
+   * type, direction and property constraints
+   */
+  private expandTraversalFrontier(
+    nodeIds: string[],
+    edge: EdgePattern,
+    params: Record<string, unknown>
+  ): Array<{ from: string; to: string; edge: TraversedEdge }> {
+    const types = edge.types ?? (edge.type ? [edge.type] : []);
+    const typeExpression = edge.typeExpression ? typeExpressionSql(edge.typeExpression, "type") : null;
+    const typeCondition = typeExpression
+      ? ` AND ${typeExpression.sql}`
+      : types.length > 0 ? ` AND type IN (${types.map(() => "?").join(", ")})` : "";
+    const typeParams = typeExpression ? typeExpression.params : types;
+    const requiredProps = this.resolvePropertiesInContext(edge.properties || {}, new Map(), params);
+    const steps: Array<{ from: string; to: string; edge: TraversedEdge }> = [];
+    
+    const sides: Array<"source_id" | "target_id"> =
+      edge.direction === "right" ? ["source_id"] : edge.direction === "left" ? ["target_id"] : ["source_id", "target_id"];
+    
+    // Chunk the frontier to stay under SQLite's bound parameter limit
+    const chunkSize = 500;
+    for (let i = 0; i < nodeIds.length; i += chunkSize) {
+      const chunk = nodeIds.slice(i, i + chunkSize);
+      const placeholders = chunk.map(() => "?").join(", ");
+      
+      for (const side of sides) {
+        const result = this.db.execute(
+          `SELECT id, type, source_id, target_id, properties FROM edges WHERE ${side} IN (${placeholders})${typeCondition}`,
+          [...chunk, ...typeParams]
+        );
+        
+        for (const row of result.rows) {
+          const edgeRow = row as unknown as TraversedEdge;
+          if (Object.keys(requiredProps).length > 0) {
+            const props = this.getEdgeProperties(edgeRow.id, edgeRow.properties);
+            const matches = Object.entries(requiredProps).every(
+              ([key, value]) => JSON.stringify(props[key]) === JSON.stringify(value)
+            );
+            if (!matches) continue;
           }
+          const from = side === "source_id" ? edgeRow.source_id : edgeRow.target_id;
+          const to = side === "source_id" ? edgeRow.target_id : edgeRow.source_id;
+          steps.push({ from, to, edge: edgeRow });
         }
-        return newRow;
-      });
+      }
     }
     
-    return newContext;
+    return steps;
   }
-
+  
+  /**
+   * Build a path value (alternating node and relationship objects) from a traversal
+   */
+  private buildTraversedPathValue(path: TraversedPath): Array<Record<string, unknown>> {
+    const placeholders = path.nodeIds.map(() => "?").join(", ");
+    const result = this.db.execute(`SELECT id, properties FROM nodes WHERE id IN (${placeholders})`, path.nodeIds);
+    const nodes = new Map<string, Record<string, unknown>>();
+    for (const row of result.rows) {
+      const id = row.id as string;
+      nodes.set(id, { ...this.getNodeProperties(id, row.properties as string | object), _nf_id: id });
+    }
+    
+    const value: Array<Record<string, unknown>> = [nodes.get(path.nodeIds[0])!];
+    path.edges.forEach((edge, i) => {
+      value.push({
+        ...this.getEdgeProperties(edge.id, edge.properties),
+        _nf_id: edge.id,
+        _nf_start: edge.source_id,
+        _nf_end: edge.target_id,
+      });
+      value.push(nodes.get(path.nodeIds[i + 1])!);
+    });
+    return value;
+  }
+  
+  /**
+   * Check whether a row value is a path built by buildTraversedPathValue
+   */
+  private isTraversedPathValue(value: unknown): value is Array<Record<string, unknown>> {
+    return Array.isArray(value) &&
+      value.length % 2 === 1 &&
+      value.every((element, i) =>
+        typeof element === "object" && element !== null && "_nf_id" in element &&
+        ("_nf_start" in element) === (i % 2 === 1)
+      );
+  }
+  
+  /**
+   * Check whether a row value is a path yielded by a path-finding procedure ({nodes, edges})
+   */
+  private isAlgorithmPathValue(value: unknown): value is { nodes: unknown[]; edges: unknown[] } {
+    return typeof value === "object" && value !== null &&
+      Array.isArray((value as { nodes?: unknown }).nodes) &&
+      Array.isArray((value as { edges?: unknown }).edges);
+  }
+  
   /**
    * Execute a MATCH clause for a single input row, using bound variable values as constraints
    */
@@ -2876,15 +4006,15 @@ export class Executor {
     introducedVars: Set<string>,
     params: Record<string, unknown>
   ): Array<Map<string, unknown>> {
-    // Create a map of context variable names for quick lookup
-    const contextVarNames = new Set<string>();
-    for (const [key, _] of inputRow) {
-      contextVarNames.add(key);
+    // Create params with context values prefixed with _ctx_
+    const mergedParams: Record<string, unknown> = { ...params };
+    for (const [key, value] of inputRow) {
+      mergedParams[`_ctx_${key}`] = value;
     }
     
     // Transform the clause to substitute context variable references with parameters
     // This handles cases like: WITH x AS foo MATCH (n) WHERE n.id = foo
-    const transformedClause = this.transformClauseForContext(clause, contextVarNames);
+    const transformedClause = this.transformClauseForContext(clause, inputRow, params, mergedParams);
     
     // Build a MATCH + RETURN query for all pattern variables
     const matchQuery: Query = {
@@ -2897,12 +4027,6 @@ export class Executor {
       ],
     };
     
-    // Create params with context values prefixed with _ctx_
-    const mergedParams: Record<string, unknown> = { ...params };
-    for (const [key, value] of inputRow) {
-      mergedParams[`_ctx_${key}`] = value;
-    }
-    
     // Translate to SQL with merged parameters
     const translator = new Translator(mergedParams);
     const translation = translator.translate(matchQuery);
@@ -2980,157 +4104,60 @@ export class Executor {
 
   /**
    * Transform a MATCH clause to substitute context variable references with parameter references.
-   * This converts WHERE conditions like `n.id = foo` (where foo is from context)
-   * to `n.id = $_ctx_foo` so the translator can handle it.
+   * This converts WHERE conditions like `n.id = foo` or `n.name > p.name` and pattern properties
+   * like `{id: foo}` (where foo and p are from context) to `n.id = $_ctx_foo` and so on, so the
+   * translator can handle them. Context properties are evaluated into ctxParams.
+   *
+   * The clause is translated as a plain MATCH: the caller handles OPTIONAL MATCH rows without a match.
    */
   private transformClauseForContext(
     clause: MatchClause,
-    contextVars: Set<string>
+    row: Map<string, unknown>,
+    params: Record<string, unknown>,
+    ctxParams: Record<string, unknown>
   ): MatchClause {
-    if (!clause.where) {
-      return clause;
-    }
-    
-    // Deep clone the clause
-    const transformed: MatchClause = JSON.parse(JSON.stringify(clause));
-    
-    // Transform WHERE condition to use parameter references for context variables
-    if (transformed.where) {
-      transformed.where = this.transformWhereForContext(transformed.where, contextVars);
-    }
-    
-    return transformed;
-  }
-
-  /**
-   * Transform a WHERE condition to substitute context variable references with parameter references
-   */
-  private transformWhereForContext(
-    condition: WhereCondition,
-    contextVars: Set<string>
-  ): WhereCondition {
-    // Deep clone
-    const result: WhereCondition = JSON.parse(JSON.stringify(condition));
-    
-    // Transform based on condition type
-    if (result.type === "comparison") {
-      if (result.left) {
-        result.left = this.transformExpressionForContext(result.left, contextVars);
-      }
-      if (result.right) {
-        result.right = this.transformExpressionForContext(result.right, contextVars);
-      }
-    } else if (result.type === "and" || result.type === "or") {
-      if (result.conditions) {
-        result.conditions = result.conditions.map(c => 
-          this.transformWhereForContext(c, contextVars)
-        );
-      }
-    } else if (result.type === "not" && result.condition) {
-      result.condition = this.transformWhereForContext(result.condition, contextVars);
-    }
+    const contextVars = new Set(row.keys());
+    const [where, patterns] = this.replaceContextReferences([clause.where, clause.patterns], contextVars, (ref) => {
+      if (ref.type === "variable") {
+        return { type: "parameter", name: `_ctx_${ref.variable}` };
+      }
+      const name = `_ctx_${ref.variable}_${ref.property}`;
+      ctxParams[name] = this.evaluateExpressionInRow(ref, row, params);
+      return { type: "parameter", name };
+    });
     
-    return result;
+    return { ...clause, type: "MATCH", patterns, where };
   }
 
   /**
-   * Transform an expression to substitute context variable references with parameter references
+   * Replace references to context variables (`x` or `x.prop`) in WHERE conditions and pattern
+   * properties with what `replace` returns for them. Pattern property values name their
+   * variable in `name`; it is passed to `replace` as an expression.
    */
-  private transformExpressionForContext(
-    expr: Expression,
-    contextVars: Set<string>
-  ): Expression {
-    // If this is a variable reference to a context variable, convert to parameter
-    if (expr.type === "variable" && expr.variable && contextVars.has(expr.variable)) {
-      return {
-        type: "parameter",
-        name: `_ctx_${expr.variable}`,
-      };
+  private replaceContextReferences<T>(
+    node: T,
+    contextVars: Set<string>,
+    replace: (ref: Expression) => unknown
+  ): T {
+    if (Array.isArray(node)) {
+      return node.map(item => this.replaceContextReferences(item, contextVars, replace)) as T;
     }
+    if (typeof node !== "object" || node === null) return node;
     
-    // If this is a property access on a context variable, convert to parameter
-    if (expr.type === "property" && expr.variable && contextVars.has(expr.variable)) {
-      // Context variable with property access - this is trickier
-      // For now, return as-is and let it fail (shouldn't happen in typical usage)
-      return expr;
+    const typed = node as { type?: string; variable?: string; name?: string; property?: string };
+    const variable = typed.type === "variable" ? typed.variable ?? typed.name : undefined;
+    if (variable !== undefined && contextVars.has(variable)) {
+      return replace({ type: "variable", variable }) as T;
     }
-    
-    // Deep clone and recursively transform
-    const result: Expression = JSON.parse(JSON.stringify(expr));
-    
-    if (result.type === "binary") {
-      if (result.left) {
-        result.left = this.transformExpressionForContext(result.left, contextVars);
-      }
-      if (result.right) {
-        result.right = this.transformExpressionForContext(result.right, contextVars);
-      }
-    } else if (result.type === "function" && result.args) {
-      result.args = result.args.map(arg => 
-        this.transformExpressionForContext(arg, contextVars)
-      );
+    if (typed.type === "property" && typed.variable && contextVars.has(typed.variable)) {
+      return replace({ type: "property", variable: typed.variable, property: typed.property }) as T;
     }
     
-    return result;
-  }
-
-  /**
-   * Check if a WHERE condition references context variables
-   */
-  private whereReferencesContextVars(
-    condition: WhereCondition,
-    contextVars: Set<string>,
-    patternVars: Set<string>
-  ): boolean {
-    if (condition.type === "comparison") {
-      if (condition.left && this.expressionReferencesContextVar(condition.left, contextVars, patternVars)) {
-        return true;
-      }
-      if (condition.right && this.expressionReferencesContextVar(condition.right, contextVars, patternVars)) {
-        return true;
-      }
-    } else if (condition.type === "and" || condition.type === "or") {
-      if (condition.conditions) {
-        for (const c of condition.conditions) {
-          if (this.whereReferencesContextVars(c, contextVars, patternVars)) {
-            return true;
-          }
-        }
-      }
-    } else if (condition.type === "not" && condition.condition) {
-      return this.whereReferencesContextVars(condition.condition, contextVars, patternVars);
-    }
-    return false;
-  }
-
-  /**
-   * Check if an expression references a context variable (not a pattern variable)
-   */
-  private expressionReferencesContextVar(
-    expr: Expression,
-    contextVars: Set<string>,
-    patternVars: Set<string>
-  ): boolean {
-    if (expr.type === "variable" && expr.variable) {
-      // It's a context variable if it's in contextVars but not in patternVars
-      return contextVars.has(expr.variable) && !patternVars.has(expr.variable);
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = this.replaceContextReferences(value, contextVars, replace);
     }
-    if (expr.type === "binary") {
-      if (expr.left && this.expressionReferencesContextVar(expr.left, contextVars, patternVars)) {
-        return true;
-      }
-      if (expr.right && this.expressionReferencesContextVar(expr.right, contextVars, patternVars)) {
-        return true;
-      }
-    }
-    if (expr.type === "function" && expr.args) {
-      for (const arg of expr.args) {
-        if (this.expressionReferencesContextVar(arg, contextVars, patternVars)) {
-          return true;
-        }
-      }
-    }
-    return false;
+    return result as T;
   }
 
   /**
@@ -3377,6 +4404,8 @@ export class Executor {
     params: Record<string, unknown>
   ): PhaseContext {
     const newContext = cloneContext(context);
+    // Rows that ORDER BY expressions are evaluated against, parallel to newContext.rows
+    let sortScopes: Array<Map<string, unknown>> = [];
     
     // Check if any return item contains an aggregate function
     const hasAggregate = clause.items.some(item => 
@@ -3417,6 +4446,11 @@ export class Executor {
         groups.get(groupKey)!.push(row);
       }
       
+      // Aggregating without grouping keys yields a row even when there are no input rows
+      if (groupingItems.length === 0 && groups.size === 0) {
+        groups.set("{}", []);
+      }
+      
       // For each group, compute aggregates and produce output row
       const outputRows: Array<Map<string, unknown>> = [];
       
@@ -3439,9 +4473,11 @@ export class Executor {
       }
       
       newContext.rows = outputRows;
+      sortScopes = outputRows;
     } else {
       // Non-aggregate mode: transform each row
       const newRows: Array<Map<string, unknown>> = [];
+      const newScopes: Array<Map<string, unknown>> = [];
       
       // Check if RETURN * - pass through all variables
       const hasWildcard = clause.items.some(item => 
@@ -3470,14 +4506,17 @@ export class Executor {
         }
         
         newRows.push(outputRow);
+        // ORDER BY may reference variables that are not projected
+        newScopes.push(new Map([...row, ...outputRow]));
       }
       
       // Apply DISTINCT if requested
       if (clause.distinct) {
         const seen = new Set<string>();
         const distinctRows: Array<Map<string, unknown>> = [];
+        const distinctScopes: Array<Map<string, unknown>> = [];
         
-        for (const row of newRows) {
+        for (const [index, row] of newRows.entries()) {
           // Create a key from row values
           const keyObj: Record<string, unknown> = {};
           for (const [k, v] of row) {
@@ -3493,74 +4532,428 @@ export class Executor {
           if (!seen.has(key)) {
             seen.add(key);
             distinctRows.push(row);
+            distinctScopes.push(newScopes[index]);
           }
         }
         
         newContext.rows = distinctRows;
+        sortScopes = distinctScopes;
       } else {
         newContext.rows = newRows;
+        sortScopes = newScopes;
+      }
+    }
+    
+    // Apply ORDER BY, SKIP and LIMIT to the projected rows
+    if (clause.orderBy && clause.orderBy.length > 0) {
+      const order = this.sortRowsByOrderBy(sortScopes, clause.orderBy, params);
+      const positions = new Map(sortScopes.map((scope, index) => [scope, index]));
+      newContext.rows = order.map(scope => newContext.rows[positions.get(scope)!]);
+    }
+    if (clause.skip !== undefined) {
+      const skipValue = this.evaluateLiteralExpression(clause.skip, params);
+      if (typeof skipValue === "number" && skipValue > 0) {
+        newContext.rows = newContext.rows.slice(skipValue);
+      }
+    }
+    if (clause.limit !== undefined) {
+      const limitValue = this.evaluateLiteralExpression(clause.limit, params);
+      if (typeof limitValue === "number" && limitValue >= 0) {
+        newContext.rows = newContext.rows.slice(0, limitValue);
+      }
+    }
+    
+    return newContext;
+  }
+
+  /**
+   * Execute SET clause
+   */
+  private executeSetClause(
+    clause: SetClause,
+    context: PhaseContext,
+    params: Record<string, unknown>
+  ): PhaseContext {
+    for (const row of context.rows) {
+      for (const assignment of clause.assignments) {
+        const id = this.extractNodeId(row.get(assignment.variable));
+        if (!id) continue;
+        
+        // Handle label assignments: SET n:Label
+        if (assignment.labels && assignment.labels.length > 0) {
+          this.db.execute(
+            `UPDATE nodes SET label = (SELECT json_group_array(value) FROM (
+              SELECT DISTINCT value FROM (
+                SELECT value FROM json_each(nodes.label)
+                UNION ALL
+                SELECT value FROM json_each(?)
+              ) ORDER BY value
+            )) WHERE id = ?`,
+            [JSON.stringify(assignment.labels), id]
+          );
+          continue;
+        }
+        
+        if (!assignment.value) continue;
+        const value = this.evaluateExpressionInRow(assignment.value, row, params);
+        
+        // Handle SET n = {props} and SET n += {props}
+        if (assignment.replaceProps || assignment.mergeProps) {
+          if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            throw new Error(`Expected a map for SET ${assignment.variable}, got ${value === null ? "null" : typeof value}`);
+          }
+          const current = assignment.mergeProps ? this.getEntityProperties(id) : {};
+          for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
+            if (key.startsWith("_nf_")) continue;
+            if (val === null) {
+              delete current[key];
+            } else {
+              current[key] = val;
+            }
+          }
+          this.updateEntity("properties = ?", [JSON.stringify(current)], id);
+          continue;
+        }
+        
+        if (!assignment.property) continue;
+        
+        // Setting a property to null removes it
+        if (value === null || value === undefined) {
+          this.updateEntity(`properties = json_remove(properties, '$.${assignment.property}')`, [], id);
+        } else {
+          this.updateEntity(
+            `properties = json_set(properties, '$.${assignment.property}', json(?))`,
+            [JSON.stringify(value)],
+            id
+          );
+        }
+      }
+    }
+    
+    this.reloadRowEntities(context.rows);
+    return context;
+  }
+
+  /**
+   * Execute REMOVE clause
+   */
+  private executeRemoveClause(
+    clause: RemoveClause,
+    context: PhaseContext
+  ): PhaseContext {
+    for (const row of context.rows) {
+      for (const item of clause.items) {
+        const id = this.extractNodeId(row.get(item.variable));
+        if (!id) continue;
+        
+        if (item.labels && item.labels.length > 0) {
+          this.db.execute(
+            `UPDATE nodes SET label = (
+              SELECT json_group_array(value) FROM (
+                SELECT value FROM json_each(nodes.label)
+                WHERE value NOT IN (SELECT value FROM json_each(?))
+                ORDER BY value
+              )
+            ) WHERE id = ?`,
+            [JSON.stringify(item.labels), id]
+          );
+        } else if (item.property) {
+          this.updateEntity(`properties = json_remove(properties, '$.${item.property}')`, [], id);
+        }
+      }
+    }
+    
+    this.reloadRowEntities(context.rows);
+    return context;
+  }
+
+  /**
+   * Reload the properties of the nodes and relationships held in the rows, so that the
+   * clauses after a SET, REMOVE or FOREACH see what it wrote. Deleted entities are kept as they were.
+   */
+  private reloadRowEntities(rows: Array<Map<string, unknown>>): void {
+    const current = new Map<string, Record<string, unknown> | null>();
+    const load = (id: string): Record<string, unknown> | null => {
+      if (!current.has(id)) {
+        let result = this.db.execute("SELECT properties FROM nodes WHERE id = ?", [id]);
+        if (result.rows.length === 0) {
+          result = this.db.execute("SELECT properties FROM edges WHERE id = ?", [id]);
+        }
+        current.set(id, result.rows.length > 0 ? JSON.parse(result.rows[0].properties as string) : null);
+      }
+      return current.get(id)!;
+    };
+    
+    for (const row of rows) {
+      for (const [key, value] of row) {
+        let entity = value;
+        if (typeof value === "string" && value.startsWith("{")) {
+          try {
+            entity = JSON.parse(value);
+          } catch {
+            continue;
+          }
+        }
+        if (typeof entity !== "object" || entity === null || !("_nf_id" in entity)) continue;
+        
+        const props = load((entity as Record<string, unknown>)._nf_id as string);
+        if (!props) continue;
+        // Keep the internal fields (_nf_id, _nf_start, _nf_end) and replace the properties
+        const internal = Object.entries(entity).filter(([k]) => k.startsWith("_nf_"));
+        row.set(key, { ...props, ...Object.fromEntries(internal) });
+      }
+    }
+  }
+
+  /**
+   * Apply an UPDATE to a node, falling back to the edge with the same ID
+   */
+  private updateEntity(assignmentSql: string, assignmentParams: unknown[], id: string): void {
+    const nodeResult = this.db.execute(
+      `UPDATE nodes SET ${assignmentSql} WHERE id = ?`,
+      [...assignmentParams, id]
+    );
+    if (nodeResult.changes === 0) {
+      this.db.execute(
+        `UPDATE edges SET ${assignmentSql} WHERE id = ?`,
+        [...assignmentParams, id]
+      );
+    }
+    // Invalidate cache after UPDATE
+    this.invalidatePropertyCache(id);
+  }
+
+  /**
+   * Read the current properties of a node or edge by ID
+   */
+  private getEntityProperties(id: string): Record<string, unknown> {
+    let result = this.db.execute("SELECT properties FROM nodes WHERE id = ?", [id]);
+    if (result.rows.length === 0) {
+      result = this.db.execute("SELECT properties FROM edges WHERE id = ?", [id]);
+    }
+    if (result.rows.length === 0) return {};
+    const props = result.rows[0].properties;
+    return typeof props === "string" ? JSON.parse(props) : { ...(props as Record<string, unknown>) };
+  }
+
+  /**
+   * Execute DELETE clause
+   */
+  private executeDeleteClause(
+    clause: DeleteClause,
+    context: PhaseContext,
+    params: Record<string, unknown>
+  ): PhaseContext {
+    for (const row of context.rows) {
+      for (const variable of clause.variables) {
+        const id = this.extractNodeId(row.get(variable));
+        if (!id) continue;
+        
+        if (clause.detach) {
+          this.db.execute("DELETE FROM edges WHERE source_id = ? OR target_id = ?", [id, id]);
+        }
+        
+        // Try nodes first, then edges
+        const result = this.db.execute("DELETE FROM nodes WHERE id = ?", [id]);
+        if (result.changes === 0) {
+          this.db.execute("DELETE FROM edges WHERE id = ?", [id]);
+        }
+      }
+    }
+    
+    return context;
+  }
+
+  /**
+   * Execute FOREACH clause
+   * 
+   * The body runs once per list element for every input row. Variables bound inside
+   * the body are scoped to it, so the outer rows pass through unchanged.
+   */
+  private executeForeachClause(
+    clause: ForeachClause,
+    context: PhaseContext,
+    params: Record<string, unknown>
+  ): PhaseContext {
+    for (const row of context.rows) {
+      const list = this.evaluateExpressionInRow(clause.expression, row, params);
+      if (list === null || list === undefined) continue;
+      if (!Array.isArray(list)) {
+        throw new Error(`FOREACH expected a list but got ${typeof list}`);
+      }
+      
+      for (const element of list) {
+        let bodyContext = createEmptyContext();
+        const bodyRow = new Map(row);
+        bodyRow.set(clause.variable, element);
+        bodyContext.rows = [bodyRow];
+        
+        for (const bodyClause of clause.clauses) {
+          bodyContext = this.executeClause(bodyClause, bodyContext, params);
+        }
       }
     }
     
-    return newContext;
+    this.reloadRowEntities(context.rows);
+    return context;
   }
 
   /**
-   * Execute SET clause
+   * Execute a graph algorithm CALL that follows other clauses
+   *
+   * The configuration is evaluated and the algorithm run once per input row, so that it can
+   * name the row's nodes, e.g. {sourceNode: a}. Each result row is joined onto its input row;
+   * nodeId, node1 and node2 stay ids in the algorithm's rows and are loaded as nodes here.
    */
-  private executeSetClause(
-    clause: SetClause,
+  private executeAlgorithmCallClause(
+    clause: CallClause,
     context: PhaseContext,
     params: Record<string, unknown>
   ): PhaseContext {
+    const procedure = algorithmProcedure(clause.procedure)!;
+    if (clause.args.length > 1) {
+      throw new Error(`${clause.procedure} expects (configuration :: MAP)`);
+    }
+    const outputs = algorithmOutputColumns(procedure);
+    const yields = clause.yields || outputs;
+    for (const yieldVar of yields) {
+      if (!outputs.includes(yieldVar)) {
+        throw new Error(`Unknown procedure output: \`${yieldVar}\``);
+      }
+    }
+    const loadNode = (id: unknown): Record<string, unknown> | null => {
+      const result = this.db.execute("SELECT properties FROM nodes WHERE id = ?", [id]);
+      return result.rows.length > 0 ? { ...JSON.parse(result.rows[0].properties as string), _nf_id: id } : null;
+    };
+
+    const newContext = cloneContext(context);
+    const newRows: Array<Map<string, unknown>> = [];
     for (const row of context.rows) {
-      for (const assignment of clause.assignments) {
-        const nodeId = row.get(assignment.variable) as string;
-        if (!nodeId) continue;
-        
-        if (assignment.property && assignment.value) {
-          const value = this.evaluateExpressionInRow(assignment.value, row, params);
-          this.db.execute(
-            `UPDATE nodes SET properties = json_set(properties, '$.${assignment.property}', json(?)) WHERE id = ?`,
-            [JSON.stringify(value), nodeId]
-          );
-          // Invalidate cache after UPDATE
-          this.invalidatePropertyCache(nodeId);
+      const configExpr = clause.args[0];
+      let config: unknown = {};
+      if (configExpr?.type === "object") {
+        // Node variables are passed by id, whichever form the row holds the node in
+        config = Object.fromEntries(
+          (configExpr.properties ?? []).map(({ key, value }) => {
+            if (value.type === "variable" && row.has(value.variable!)) {
+              const nodeId = this.extractNodeId(row.get(value.variable!));
+              if (nodeId !== null) return [key, nodeId];
+            }
+            return [key, this.evaluateExpressionInRow(value, row, params)];
+          })
+        );
+      } else if (configExpr) {
+        config = this.evaluateExpressionInRow(configExpr, row, params);
+      }
+
+      for (const result of runAlgorithmProcedure(this.db, procedure, config)) {
+        const newRow = new Map(row);
+        for (const yieldVar of yields) {
+          if (yieldVar === "node") {
+            newRow.set(yieldVar, loadNode(result.nodeId));
+          } else if (yieldVar === "node1" || yieldVar === "node2") {
+            newRow.set(yieldVar, loadNode(result[yieldVar]));
+          } else {
+            newRow.set(yieldVar, result[yieldVar]);
+          }
         }
+        if (clause.where && !this.evaluateWhereInRow(clause.where, newRow, params)) continue;
+        newRows.push(newRow);
       }
     }
-    
-    return context;
+    newContext.rows = newRows;
+    return newContext;
   }
 
   /**
-   * Execute DELETE clause
+   * Execute CALL { ... } subquery
+   *
+   * The subquery runs once per input row. A leading WITH imports variables from the
+   * outer row; without one the subquery starts from an empty scope. Each returned row
+   * is joined onto its input row, so input rows without results are dropped, and a
+   * subquery without RETURN leaves the input rows unchanged.
    */
-  private executeDeleteClause(
-    clause: DeleteClause,
+  private executeCallSubqueryClause(
+    clause: CallSubqueryClause,
     context: PhaseContext,
     params: Record<string, unknown>
   ): PhaseContext {
+    const newContext = cloneContext(context);
+    const newRows: Array<Map<string, unknown>> = [];
+    
+    // Flatten UNION / UNION ALL branches
+    const branches: Query[] = [];
+    let unionAll = true;
+    let current: Query = clause.query;
+    while (current.clauses.length === 1 && current.clauses[0].type === "UNION") {
+      const union = current.clauses[0];
+      branches.push(union.left);
+      unionAll = unionAll && union.all;
+      current = union.right;
+    }
+    branches.push(current);
+    
+    const returnsRows = branches.every(b => b.clauses[b.clauses.length - 1]?.type === "RETURN");
+    
     for (const row of context.rows) {
-      for (const variable of clause.variables) {
-        const id = row.get(variable) as string;
-        if (!id) continue;
-        
-        if (clause.detach) {
-          this.db.execute("DELETE FROM edges WHERE source_id = ? OR target_id = ?", [id, id]);
-        }
-        
-        // Try nodes first, then edges
-        const result = this.db.execute("DELETE FROM nodes WHERE id = ?", [id]);
-        if (result.changes === 0) {
-          this.db.execute("DELETE FROM edges WHERE id = ?", [id]);
+      let subRows: Array<Map<string, unknown>> = [];
+      for (const branch of branches) {
+        subRows.push(...this.executeSubqueryForRow(branch, row, params));
+      }
+      
+      if (!returnsRows) {
+        newRows.push(row);
+        continue;
+      }
+      
+      if (branches.length > 1 && !unionAll) {
+        const seen = new Set<string>();
+        subRows = subRows.filter(subRow => {
+          const key = JSON.stringify([...subRow].map(([k, v]) => [k, this.deepParseJson(v)]));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      
+      for (const subRow of subRows) {
+        const outputRow = new Map(row);
+        for (const [key, value] of subRow) {
+          if (row.has(key)) {
+            throw new Error(`Variable \`${key}\` already declared in outer scope`);
+          }
+          outputRow.set(key, value);
         }
+        newRows.push(outputRow);
       }
     }
     
-    return context;
+    newContext.rows = newRows;
+    // A subquery without RETURN is run for its writes
+    if (!returnsRows) this.reloadRowEntities(newRows);
+    return newContext;
   }
-
+  
+  /**
+   * Execute the clauses of a subquery against a single outer row
+   */
+  private executeSubqueryForRow(
+    query: Query,
+    outerRow: Map<string, unknown>,
+    params: Record<string, unknown>
+  ): Array<Map<string, unknown>> {
+    // Only a leading WITH can see outer variables; it then projects the imported ones
+    const importsOuterScope = query.clauses[0]?.type === "WITH";
+    let subContext = createEmptyContext();
+    subContext.rows = [importsOuterScope ? new Map(outerRow) : new Map()];
+    
+    for (const subClause of query.clauses) {
+      subContext = this.executeClause(subClause, subContext, params);
+    }
+    
+    return subContext.rows;
+  }
+  
   /**
    * Evaluate an expression in the context of a single row
    */
@@ -3633,6 +5026,10 @@ export class Executor {
         // Handle expressions like startNode(r).id - property access on function result
         const objValue = this.evaluateExpressionInRow(expr.object!, row, params);
         if (objValue === null || objValue === undefined) return null;
+
+        // Point components (p.x, p.latitude, p.srid, ...)
+        const pointComponent = pointProperty(objValue, expr.property!);
+        if (pointComponent !== undefined) return pointComponent;
         
         // Get the property from the object
         if (typeof objValue === "object" && objValue !== null) {
@@ -3694,6 +5091,63 @@ export class Executor {
         }
         return results;
       }
+
+      case "reduce": {
+        // Evaluate reduce(acc = init, x IN list | expr)
+        const listValue = this.evaluateExpressionInRow(expr.listExpr!, row, params);
+        if (listValue === null || listValue === undefined) return null;
+        if (!Array.isArray(listValue)) {
+          throw new Error("Type mismatch: expected a list in reduce()");
+        }
+
+        let accumulator = this.evaluateExpressionInRow(expr.initialValue!, row, params);
+        for (const item of listValue) {
+          const itemRow = new Map(row);
+          itemRow.set(expr.accumulator!, accumulator);
+          itemRow.set(expr.variable!, item);
+          accumulator = this.evaluateExpressionInRow(expr.mapExpr!, itemRow, params);
+        }
+        return accumulator;
+      }
+
+      case "mapProjection": {
+        // Evaluate map projection: n {.name, .*, key: expr, other}
+        const variable = expr.variable!;
+        let entity = row.get(variable);
+        if (entity === null || entity === undefined) return null;
+        if (typeof entity === "string") {
+          const id = entity;
+          try {
+            entity = JSON.parse(id);
+          } catch {
+            // Not JSON: a node or relationship id
+            entity = this.getEntityProperties(id);
+          }
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const item of expr.projections || []) {
+          switch (item.type) {
+            case "allProperties":
+              if (typeof entity === "object" && entity !== null) {
+                for (const [key, value] of Object.entries(entity)) {
+                  if (!key.startsWith("_nf_")) result[key] = value;
+                }
+              }
+              break;
+            case "property":
+              result[item.key!] = this.evaluateExpressionInRow({ type: "property", variable, property: item.key! }, row, params);
+              break;
+            case "variable":
+              result[item.key!] = row.get(item.key!) ?? null;
+              break;
+            case "literal":
+              result[item.key!] = this.evaluateExpressionInRow(item.value!, row, params);
+              break;
+          }
+        }
+        return result;
+      }
       
       case "case": {
         // Evaluate CASE WHEN ... THEN ... ELSE ... END
@@ -3756,6 +5210,7 @@ export class Executor {
         // Evaluate comparison expression: left op right
         const left = this.evaluateExpressionInRow(expr.left!, row, params);
         const right = this.evaluateExpressionInRow(expr.right!, row, params);
+        if (expr.comparisonOperator === "=~") return cypherRegexMatch(left, right);
         return this.evaluateComparison(left, right, expr.comparisonOperator || "=");
       }
       
@@ -3829,6 +5284,29 @@ export class Executor {
         return args.map(arg => this.evaluateExpressionInRow(arg, row, params));
       }
       
+      case "LENGTH": {
+        if (args.length === 0) return null;
+        const value = this.evaluateExpressionInRow(args[0], row, params);
+        if (this.isTraversedPathValue(value)) return (value.length - 1) / 2;
+        if (this.isAlgorithmPathValue(value)) return value.edges.length;
+        if (Array.isArray(value) || typeof value === "string") return value.length;
+        return null;
+      }
+      
+      case "NODES": {
+        if (args.length === 0) return null;
+        const value = this.evaluateExpressionInRow(args[0], row, params);
+        if (this.isAlgorithmPathValue(value)) return value.nodes;
+        return this.isTraversedPathValue(value) ? value.filter((_, i) => i % 2 === 0) : null;
+      }
+      
+      case "RELATIONSHIPS": {
+        if (args.length === 0) return null;
+        const value = this.evaluateExpressionInRow(args[0], row, params);
+        if (this.isAlgorithmPathValue(value)) return value.edges;
+        return this.isTraversedPathValue(value) ? value.filter((_, i) => i % 2 === 1) : null;
+      }
+      
       case "INDEX": {
         // List indexing: list[index]
         if (args.length < 2) return null;
@@ -3842,11 +5320,8 @@ export class Executor {
       case "ID": {
         if (args.length === 0) return null;
         const nodeVal = this.evaluateExpressionInRow(args[0], row, params);
-        // Extract _nf_id from node/edge object
-        if (typeof nodeVal === "object" && nodeVal !== null && "_nf_id" in nodeVal) {
-          return (nodeVal as Record<string, unknown>)._nf_id;
-        }
-        return nodeVal;
+        // Extract _nf_id from node/edge object or its JSON text
+        return this.extractNodeId(nodeVal) ?? nodeVal;
       }
       
       case "TYPE": {
@@ -3881,6 +5356,20 @@ export class Executor {
         return null;
       }
       
+      case "LABELS": {
+        if (args.length === 0) return null;
+        const nodeVal = this.evaluateExpressionInRow(args[0], row, params);
+        if (nodeVal === null || nodeVal === undefined) return null;
+        
+        // Nodes in rows carry only their properties, so read the current labels
+        const nodeId = this.extractNodeId(nodeVal);
+        if (!nodeId) return null;
+        const result = this.db.execute("SELECT label FROM nodes WHERE id = ?", [nodeId]);
+        if (result.rows.length === 0) return null;
+        const label = this.normalizeLabelForOutput(result.rows[0].label);
+        return Array.isArray(label) ? label : [label];
+      }
+      
       case "STARTNODE": {
         if (args.length === 0) return null;
         const edgeVal = this.evaluateExpressionInRow(args[0], row, params);
@@ -3967,6 +5456,30 @@ export class Executor {
         return null;
       }
       
+      // Spatial functions
+      case "POINT": {
+        if (args.length === 0) return null;
+        return createPoint(this.evaluateExpressionInRow(args[0], row, params));
+      }
+
+      case "POINT.DISTANCE":
+      case "DISTANCE": {
+        if (args.length < 2) return null;
+        return pointDistance(
+          this.evaluateExpressionInRow(args[0], row, params),
+          this.evaluateExpressionInRow(args[1], row, params)
+        );
+      }
+
+      case "POINT.WITHINBBOX": {
+        if (args.length < 3) return null;
+        return pointWithinBBox(
+          this.evaluateExpressionInRow(args[0], row, params),
+          this.evaluateExpressionInRow(args[1], row, params),
+          this.evaluateExpressionInRow(args[2], row, params)
+        );
+      }
+      
       // Math functions
       case "ABS": {
         if (args.length === 0) return null;
@@ -4006,10 +5519,34 @@ export class Executor {
       
       case "SQRT": {
         if (args.length === 0) return null;
-        const value = this.evaluateExpressionInRow(args[0], row, params);
-        if (typeof value !== "number") return null;
-        return Math.sqrt(value);
+        return sqrt(this.evaluateExpressionInRow(args[0], row, params));
+      }
+
+      case "LOG":
+      case "LOG10":
+      case "EXP":
+      case "SIN":
+      case "COS":
+      case "TAN":
+      case "ASIN":
+      case "ACOS":
+      case "ATAN":
+      case "DEGREES":
+      case "RADIANS": {
+        if (args.length === 0) return null;
+        return applyUnaryMath(funcName, this.evaluateExpressionInRow(args[0], row, params));
+      }
+
+      case "ATAN2": {
+        if (args.length < 2) return null;
+        return atan2(this.evaluateExpressionInRow(args[0], row, params), this.evaluateExpressionInRow(args[1], row, params));
       }
+
+      case "E":
+        return Math.E;
+
+      case "PI":
+        return Math.PI;
       
       case "RAND": {
         // rand() returns a random float between 0 (inclusive) and 1 (exclusive)
@@ -4032,6 +5569,14 @@ export class Executor {
         return null;
       }
       
+      case "TOINTEGER":
+      case "TOFLOAT":
+      case "TOBOOLEAN":
+      case "TOSTRING": {
+        if (args.length === 0) return null;
+        return convertValue(funcName, this.evaluateExpressionInRow(args[0], row, params));
+      }
+      
       case "REVERSE": {
         // reverse(list) or reverse(string)
         if (args.length === 0) return null;
@@ -4141,8 +5686,42 @@ export class Executor {
         throw new Error("duration() requires an argument");
       }
       
-      default:
-        return null;
+      case "TOUPPER":
+      case "TOLOWER":
+      case "LTRIM":
+      case "RTRIM": {
+        if (args.length === 0) return null;
+        const value = this.evaluateExpressionInRow(args[0], row, params);
+        if (typeof value !== "string") return null;
+        switch (funcName) {
+          case "TOUPPER": return value.toUpperCase();
+          case "TOLOWER": return value.toLowerCase();
+          case "LTRIM": return value.trimStart();
+          default: return value.trimEnd();
+        }
+      }
+      
+      case "SUBSTRING": {
+        if (args.length < 2) return null;
+        const value = this.evaluateExpressionInRow(args[0], row, params);
+        const start = this.evaluateExpressionInRow(args[1], row, params);
+        const length = args.length > 2 ? this.evaluateExpressionInRow(args[2], row, params) : undefined;
+        if (typeof value !== "string" || typeof start !== "number") return null;
+        return typeof length === "number" ? value.substring(start, start + length) : value.substring(start);
+      }
+      
+      case "REPLACE": {
+        if (args.length < 3) return null;
+        const [value, search, replacement] = args.map(arg => this.evaluateExpressionInRow(arg, row, params));
+        if (typeof value !== "string" || typeof search !== "string" || typeof replacement !== "string") return null;
+        return value.split(search).join(replacement);
+      }
+      
+      default: {
+        // Temporal functions, trim() and split() are shared with property values; others throw
+        const values = args.map(arg => this.evaluateExpressionInRow(arg, row, params));
+        return this.evaluateFunctionInProperty(expr.functionName!, values, params, {});
+      }
     }
   }
 
@@ -4166,19 +5745,7 @@ export class Executor {
       return [...leftArr, ...rightArr];
     }
     
-    // Numeric operations
-    const leftNum = left as number;
-    const rightNum = right as number;
-    
-    switch (expr.operator) {
-      case "+": return leftNum + rightNum;
-      case "-": return leftNum - rightNum;
-      case "*": return leftNum * rightNum;
-      case "/": return leftNum / rightNum;
-      case "%": return leftNum % rightNum;
-      case "^": return Math.pow(leftNum, rightNum);
-      default: return null;
-    }
+    return applyArithmetic(expr.operator, left, right);
   }
 
   /**
@@ -4209,19 +5776,7 @@ export class Executor {
         return [...leftArr, ...rightArr];
       }
       
-      // Numeric operations
-      const leftNum = left as number;
-      const rightNum = right as number;
-      
-      switch (expr.operator) {
-        case "+": return leftNum + rightNum;
-        case "-": return leftNum - rightNum;
-        case "*": return leftNum * rightNum;
-        case "/": return leftNum / rightNum;
-        case "%": return leftNum % rightNum;
-        case "^": return Math.pow(leftNum, rightNum);
-        default: return null;
-      }
+      return applyArithmetic(expr.operator, left, right);
     }
     
     if (expr.type !== "function") return null;
@@ -4274,6 +5829,14 @@ export class Executor {
         if (values.length === 0) return null;
         return Math.max(...values.map(v => v as number));
       }
+
+      case "STDEV":
+      case "STDEVP": {
+        if (args.length === 0) return 0;
+        let values = rows.map(row => this.evaluateExpressionInRow(args[0], row, params));
+        if (expr.distinct) values = [...new Set(values)];
+        return standardDeviation(values, funcName === "STDEVP");
+      }
       
       default:
         return null;
@@ -4300,6 +5863,7 @@ export class Executor {
           case ">": return (left as number) > (right as number);
           case "<=": return (left as number) <= (right as number);
           case ">=": return (left as number) >= (right as number);
+          case "=~": return cypherRegexMatch(left, right) === true;
           default: return true;
         }
       }
@@ -4387,23 +5951,7 @@ export class Executor {
     if (typeof value !== "object" || value === null) {
       return value;
     }
-    
-    const typed = value as { type?: string; name?: string; variable?: string };
-    
-    if (typed.type === "parameter" && typed.name) {
-      return params[typed.name];
-    }
-    
-    if (typed.type === "variable" && typed.name) {
-      return row.get(typed.name);
-    }
-    
-    // Handle Expression type
-    if ("type" in typed) {
-      return this.evaluateExpressionInRow(typed as Expression, row, params);
-    }
-    
-    return value;
+    return this.evaluateExpressionInRow(propertyValueToExpression(value as PropertyValue), row, params);
   }
 
   /**
@@ -4420,6 +5968,63 @@ export class Executor {
     });
   }
 
+  private hasLoadCsv(query: Query): boolean {
+    return query.clauses.some(clause =>
+      clause.type === "LOAD_CSV" ||
+      (clause.type === "CALL_SUBQUERY" && this.hasLoadCsv(clause.query)) ||
+      (clause.type === "UNION" && (this.hasLoadCsv(clause.left) || this.hasLoadCsv(clause.right)))
+    );
+  }
+  
+  /**
+   * Replace each LOAD CSV clause with an UNWIND over a parameter holding the file's rows.
+   * Returns the parameters extended with the loaded rows; without readFiles (EXPLAIN)
+   * the files are not opened and the parameters hold no rows.
+   */
+  private expandLoadCsvClauses(
+    query: Query,
+    params: Record<string, unknown>,
+    readFiles: boolean
+  ): Record<string, unknown> {
+    const expanded = { ...params };
+    let fileIndex = 0;
+    
+    const expand = (q: Query): void => {
+      q.clauses = q.clauses.map(clause => {
+        if (clause.type === "CALL_SUBQUERY") {
+          expand(clause.query);
+        } else if (clause.type === "UNION") {
+          expand(clause.left);
+          expand(clause.right);
+        }
+        if (clause.type !== "LOAD_CSV") return clause;
+        
+        const url = this.evaluateExpressionInRow(clause.url, new Map(), params);
+        if (typeof url !== "string") {
+          throw new Error(`LOAD CSV expected a string URL but got ${url === null ? "null" : typeof url}`);
+        }
+        
+        // "#" cannot appear in a Cypher parameter name, so this never shadows the caller's parameters
+        const paramName = `#load_csv_${fileIndex++}`;
+        expanded[paramName] = readFiles
+          ? loadCsvRows(url, this.importDirectory, {
+              withHeaders: clause.withHeaders,
+              fieldTerminator: clause.fieldTerminator,
+            })
+          : [];
+        const unwind: UnwindClause = {
+          type: "UNWIND",
+          expression: { type: "parameter", name: paramName },
+          alias: clause.variable,
+        };
+        return unwind;
+      });
+    };
+    
+    expand(query);
+    return expanded;
+  }
+  
   /**
    * Handle UNWIND with CREATE pattern
    * UNWIND expands an array and executes CREATE for each element
@@ -5196,8 +6801,9 @@ export class Executor {
             
             if (nodePattern.label) {
               // Use primary label index with fallback for secondary labels
-              whereConditions.push("(json_extract(label, '$[0]') = ? OR EXISTS (SELECT 1 FROM json_each(label) WHERE value = ? AND json_extract(label, '$[0]') != ?))");
-              whereParams.push(nodePattern.label, nodePattern.label, nodePattern.label);
+              const labelMatch = this.generateLabelCondition(nodePattern.label);
+              whereConditions.push(labelMatch.sql);
+              whereParams.push(...labelMatch.params);
             }
             
             for (const [key, value] of Object.entries(props)) {
@@ -5231,9 +6837,7 @@ export class Executor {
             // Track merged node for RETURN
             if (nodePattern.variable) {
               // Normalize label to string
-              const labelStr = Array.isArray(nodePattern.label) 
-                ? nodePattern.label[0] || ""
-                : nodePattern.label || "";
+              const labelStr = plainLabels(nodePattern.label)[0] || "";
               mergedNodes.push({
                 variable: nodePattern.variable,
                 id: nodeId,
@@ -5379,7 +6983,15 @@ export class Executor {
       return params[expr.name!];
     }
     if (expr.type === "property") {
-      const obj = row[expr.variable!];
+      let obj = row[expr.variable!];
+      // Nodes bound by MATCH in the phased executor are JSON strings
+      if (typeof obj === "string" && obj.startsWith("{")) {
+        try {
+          obj = JSON.parse(obj);
+        } catch {
+          // Not JSON, leave as is
+        }
+      }
       if (obj && typeof obj === "object" && expr.property) {
         return (obj as Record<string, unknown>)[expr.property];
       }
@@ -5431,6 +7043,10 @@ export class Executor {
         resolved[key] = params[value.name];
       } else if (this.isVarRef(value)) {
         resolved[key] = row[value.name];
+      } else if (value !== null && typeof value === "object" && (value as { type?: string }).type === "function") {
+        // Function calls in property maps are PropertyValues (name + raw args), not Expressions
+        const func = value as { type: "function"; name: string; args?: unknown[] };
+        resolved[key] = this.evaluateFunctionInProperty(func.name, func.args || [], params, row);
       } else if (value !== null && typeof value === "object" && "type" in value) {
         const expr = value as Expression;
         resolved[key] = this.evaluateExpressionOnRow(expr, row, params);
@@ -5463,6 +7079,7 @@ export class Executor {
       case "<": return (left as number) < (right as number);
       case ">=": return (left as number) >= (right as number);
       case "<=": return (left as number) <= (right as number);
+      case "=~": return cypherRegexMatch(left, right) === true;
       default: return false;
     }
   }
@@ -5898,6 +7515,7 @@ export class Executor {
     return arrays.reduce<unknown[][]>((acc, curr) => {
       const result: unknown[][] = [];
       for (const a of acc) {
+        this.db.checkInterrupt();
         for (const c of curr) {
           result.push([...a, c]);
         }
@@ -6001,6 +7619,10 @@ export class Executor {
     const pad4 = (n: number): string => String(n).padStart(4, "0");
     
     switch (upperName) {
+      case "POINT": {
+        if (args.length === 0) return null;
+        return createPoint(this.resolvePropertyValueWithUnwind(args[0], params, unwindContext));
+      }
       case "DATETIME": {
         // datetime() returns current ISO datetime string
         // datetime(string) parses the string
@@ -6240,8 +7862,34 @@ export class Executor {
         // randomUUID() returns a UUID v4
         return crypto.randomUUID();
       }
+      case "COALESCE": {
+        // coalesce(a, b, ...) returns the first non-null value
+        for (const arg of args) {
+          const value = this.resolvePropertyValueWithUnwind(arg, params, unwindContext);
+          if (value !== null && value !== undefined) return value;
+        }
+        return null;
+      }
+      case "TOINTEGER":
+      case "TOFLOAT":
+      case "TOBOOLEAN":
+      case "TOSTRING": {
+        // Conversions used when importing string values, e.g. toInteger(row.age)
+        return convertValue(upperName, this.resolvePropertyValueWithUnwind(args[0], params, unwindContext));
+      }
+      case "TRIM": {
+        const arg = this.resolvePropertyValueWithUnwind(args[0], params, unwindContext);
+        return typeof arg === "string" ? arg.trim() : null;
+      }
+      case "SPLIT": {
+        // split(row.tags, '|') turns a delimited field into a list
+        const arg = this.resolvePropertyValueWithUnwind(args[0], params, unwindContext);
+        const delimiter = this.resolvePropertyValueWithUnwind(args[1], params, unwindContext);
+        if (typeof arg !== "string" || typeof delimiter !== "string") return null;
+        return arg.split(delimiter);
+      }
       default:
-        throw new Error(`Unknown function in property value: ${funcName}`);
+        throw new Error(`Unknown function: ${funcName}`);
     }
   }
 
@@ -6433,8 +8081,13 @@ export class Executor {
           
           if (nodeResult.rows.length > 0) {
             const row = nodeResult.rows[0];
-            // Neo4j 3.5 format: return properties directly
-            resultRow[alias] = this.getNodeProperties(row.id as string, row.properties as string | object);
+            // Properties with the id embedded, like MATCH output
+            resultRow[alias] = { ...this.getNodeProperties(row.id as string, row.properties as string | object), _nf_id: id };
+          } else {
+            const edgeResult = this.db.execute("SELECT properties FROM edges WHERE id = ?", [id]);
+            if (edgeResult.rows.length > 0) {
+              resultRow[alias] = { ...this.getEdgeProperties(id, edgeResult.rows[0].properties as string | object), _nf_id: id };
+            }
           }
         }
       } else if (item.expression.type === "property") {
@@ -6525,6 +8178,8 @@ export class Executor {
             }
           }
         }
+      } else if (item.expression.type === "mapProjection" || item.expression.type === "reduce") {
+        resultRow[alias] = this.evaluateExpressionInRow(item.expression, new Map(createdIds), params);
       }
     }
     
@@ -7442,9 +9097,7 @@ export class Executor {
         );
         
         if (nodePattern.variable) {
-          const labelStr = Array.isArray(nodePattern.label) 
-            ? nodePattern.label.join(":") 
-            : (nodePattern.label || "");
+          const labelStr = plainLabels(nodePattern.label).join(":");
           createdNodes.set(nodePattern.variable, {
             id,
             label: labelStr,
@@ -8466,7 +10119,7 @@ export class Executor {
         const right = this.evaluateReturnExpression(item.expression.right!, matchedNodes, params);
         const op = item.expression.comparisonOperator;
         
-        let result: boolean;
+        let result: boolean | null;
         switch (op) {
           case "=":
             result = left === right;
@@ -8486,6 +10139,9 @@ export class Executor {
           case ">=":
             result = (left as number) >= (right as number);
             break;
+          case "=~":
+            result = cypherRegexMatch(left, right);
+            break;
           default:
             result = false;
         }
@@ -8546,7 +10202,7 @@ export class Executor {
         const right = this.evaluateReturnExpression(item.expression.right!, matchedNodes, params);
         const op = item.expression.comparisonOperator;
         
-        let result: boolean;
+        let result: boolean | null;
         switch (op) {
           case "=":
             result = left === right;
@@ -8566,6 +10222,9 @@ export class Executor {
           case ">=":
             result = (left as number) >= (right as number);
             break;
+          case "=~":
+            result = cypherRegexMatch(left, right);
+            break;
           default:
             result = false;
         }
@@ -8673,44 +10332,7 @@ export class Executor {
    * Get a name for an expression (for default aliases)
    */
   private getExpressionName(expr: Expression): string {
-    switch (expr.type) {
-      case "variable":
-        return expr.variable!;
-      case "property":
-        return `${expr.variable}_${expr.property}`;
-      case "function": {
-        // Build function expression like count(a) or count(*)
-        const funcName = expr.functionName!.toLowerCase();
-        if (expr.args && expr.args.length > 0) {
-          // Special case: INDEX function should be rendered as list[index] notation
-          if (funcName === "index" && expr.args.length === 2) {
-            const listName = this.getExpressionName(expr.args[0]);
-            const indexName = this.getExpressionName(expr.args[1]);
-            return `${listName}[${indexName}]`;
-          }
-          const argNames = expr.args.map(arg => {
-            if (arg.type === "variable") return arg.variable!;
-            if (arg.type === "property") return `${arg.variable}.${arg.property}`;
-            return "?";
-          });
-          return `${funcName}(${argNames.join(", ")})`;
-        }
-        // Empty args for count(*) or similar
-        return `${funcName}(*)`;
-      }
-      case "literal": {
-        // For literals, use the string representation of the value
-        if (expr.value === null) return "NULL";
-        if (typeof expr.value === "string") return `'${expr.value}'`;
-        // For arrays/objects, use JSON.stringify to preserve nested structure
-        if (Array.isArray(expr.value) || typeof expr.value === "object") {
-          return JSON.stringify(expr.value);
-        }
-        return String(expr.value);
-      }
-      default:
-        return "expr";
-    }
+    return expressionName(expr);
   }
 
   /**
@@ -9934,6 +11556,8 @@ export class Executor {
         } else if (item.expression.type === "literal") {
           // Handle literal values like RETURN 42 AS num
           resultRow[alias] = item.expression.value;
+        } else if (item.expression.type === "mapProjection" || item.expression.type === "reduce") {
+          resultRow[alias] = this.evaluateExpressionInRow(item.expression, new Map(Object.entries(resolvedIds)), params);
         }
       }
       
@@ -10072,7 +11696,7 @@ export class Executor {
       }
 
       // Use context-aware evaluation for expressions that may reference properties
-      const value = assignment.value.type === "binary" || assignment.value.type === "property"
+      const value = assignment.value.type === "binary" || assignment.value.type === "property" || assignment.value.type === "function"
         ? this.evaluateExpressionWithContext(assignment.value, params, resolvedIds)
         : this.evaluateExpression(assignment.value, params);
 
@@ -10278,25 +11902,44 @@ export class Executor {
             if (Array.isArray(right)) {
               return [left, ...right];
             }
-            return (left as number) + (right as number);
+            return applyArithmetic(expr.operator, left, right);
           case "-":
-            return (left as number) - (right as number);
           case "*":
-            return (left as number) * (right as number);
           case "/":
-            return (left as number) / (right as number);
           case "%":
-            return (left as number) % (right as number);
           case "^":
-            return Math.pow(left as number, right as number);
+            return applyArithmetic(expr.operator, left, right);
           default:
             throw new Error(`Unknown binary operator: ${expr.operator}`);
         }
       }
+      case "object": {
+        const result: Record<string, unknown> = {};
+        for (const prop of expr.properties || []) {
+          result[prop.key] = this.evaluateExpressionWithContext(prop.value, params, resolvedIds);
+        }
+        return result;
+      }
       case "function": {
         // Evaluate function calls (e.g., datetime(), timestamp())
         const funcName = expr.functionName!.toUpperCase();
         const args = expr.args || [];
+        if (funcName === "POINT") {
+          // The point map may reference properties, e.g. point({latitude: n.lat, longitude: n.lon})
+          return createPoint(args.length > 0 ? this.evaluateExpressionWithContext(args[0], params, resolvedIds) : null);
+        }
+        if (Object.hasOwn(UNARY_MATH_FUNCTIONS, funcName)) {
+          return applyUnaryMath(funcName, args.length > 0 ? this.evaluateExpressionWithContext(args[0], params, resolvedIds) : null);
+        }
+        if (funcName === "ATAN2" && args.length === 2) {
+          return atan2(
+            this.evaluateExpressionWithContext(args[0], params, resolvedIds),
+            this.evaluateExpressionWithContext(args[1], params, resolvedIds)
+          );
+        }
+        if (funcName === "E" || funcName === "PI") {
+          return funcName === "E" ? Math.E : Math.PI;
+        }
         return this.evaluateFunctionInProperty(funcName, args, params, {});
       }
       default:
@@ -10435,18 +12078,32 @@ export class Executor {
     rows: Record<string, unknown>[],
     returnColumns?: string[]
   ): Record<string, unknown>[] {
-    return rows.map((row) => {
-      const formatted: Record<string, unknown> = {};
+    return rows.map((row) => this.formatRow(row, returnColumns));
+  }
 
-      for (const [key, value] of Object.entries(row)) {
-        // If returnColumns is specified, only include those columns
-        if (!returnColumns || returnColumns.includes(key)) {
-          formatted[key] = this.deepParseJson(value);
-        }
+  /**
+   * Format rows as they are read, for streamed results
+   */
+  private *formatRowIterator(
+    rows: Iterable<Record<string, unknown>>,
+    returnColumns?: string[]
+  ): IterableIterator<Record<string, unknown>> {
+    for (const row of rows) {
+      yield this.formatRow(row, returnColumns);
+    }
+  }
+
+  private formatRow(row: Record<string, unknown>, returnColumns?: string[]): Record<string, unknown> {
+    const formatted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(row)) {
+      // If returnColumns is specified, only include those columns
+      if (!returnColumns || returnColumns.includes(key)) {
+        formatted[key] = this.deepParseJson(value);
       }
+    }
 
-      return formatted;
-    });
+    return formatted;
   }
 
   /**
@@ -10491,12 +12148,8 @@ export class Executor {
    * Normalize label to JSON string for storage
    * Handles both single labels and multiple labels
    */
-  private normalizeLabelToJson(label: string | string[] | undefined): string {
-    if (!label) {
-      return JSON.stringify([]);
-    }
-    const labelArray = Array.isArray(label) ? label : [label];
-    return JSON.stringify(labelArray);
+  private normalizeLabelToJson(label: NodePattern["label"]): string {
+    return JSON.stringify(plainLabels(label));
   }
 
   /**
@@ -10535,17 +12188,20 @@ export class Executor {
    * Supports both single and multiple labels
    * Uses primary label index with fallback for secondary labels
    */
-  private generateLabelCondition(label: string | string[]): { sql: string; params: unknown[] } {
+  private generateLabelCondition(label: string | string[] | LabelExpression): { sql: string; params: unknown[] } {
+    if (isLabelExpression(label)) {
+      return labelExpressionSql(label, "label");
+    }
     const labels = Array.isArray(label) ? label : [label];
     
     if (labels.length === 1) {
       return {
-        sql: `(json_extract(label, '$[0]') = ? OR EXISTS (SELECT 1 FROM json_each(label) WHERE value = ? AND json_extract(label, '$[0]') != ?))`,
+        sql: labelMatchSql(labels[0]),
         params: [labels[0], labels[0], labels[0]]
       };
     } else {
       // Multiple labels: all must exist (each uses indexed primary label check with fallback)
-      const conditions = labels.map(() => `(json_extract(label, '$[0]') = ? OR EXISTS (SELECT 1 FROM json_each(label) WHERE value = ? AND json_extract(label, '$[0]') != ?))`);
+      const conditions = labels.map((l) => labelMatchSql(l));
       const params: unknown[] = [];
       for (const l of labels) {
         params.push(l, l, l);
@@ -0,0 +1,110 @@
+// Full-text indexes: FTS5 tables kept in sync with nodes by triggers, and the SQL that
+// db.index.fulltext.* procedures use to create, drop and query them.
+
+import { sqlLiteral } from "./indexes.js";
+
+export interface FulltextIndex {
+  name: string;
+  labels: string[];
+  properties: string[];
+}
+
+/**
+ * Procedures that create or drop full-text indexes (queryNodes is translated like other procedures)
+ */
+export const FULLTEXT_SCHEMA_PROCEDURES = new Set(["db.index.fulltext.createnodeindex", "db.index.fulltext.drop"]);
+
+export const FULLTEXT_QUERY_PROCEDURE = "db.index.fulltext.querynodes";
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Name of the FTS5 table backing a full-text index
+ */
+export function fulltextTableName(name: string): string {
+  return quoteIdentifier(`fulltext_${name}`);
+}
+
+/**
+ * Name of the table giving each indexed node a stable integer key, used as the FTS5 rowid.
+ * Node rowids can't be used: nodes has a TEXT primary key, so VACUUM may renumber them.
+ */
+export function fulltextKeyTableName(name: string): string {
+  return quoteIdentifier(`fulltext_${name}_keys`);
+}
+
+function triggerName(name: string, event: string): string {
+  return quoteIdentifier(`fulltext_${name}_${event}`);
+}
+
+/**
+ * Condition matching nodes with any of the index labels
+ */
+function hasIndexedLabel(index: FulltextIndex, labelColumn: string): string {
+  return `EXISTS (SELECT 1 FROM json_each(${labelColumn}) WHERE value IN (${index.labels.map(sqlLiteral).join(", ")}))`;
+}
+
+/**
+ * Indexed column values: string properties only, as other values are not searchable text
+ */
+function indexedValues(index: FulltextIndex, propertiesColumn: string): string {
+  return index.properties
+    .map((property) => {
+      const path = sqlLiteral(`$.${property}`);
+      return `CASE WHEN json_type(${propertiesColumn}, ${path}) = 'text' THEN json_extract(${propertiesColumn}, ${path}) END`;
+    })
+    .join(", ");
+}
+
+/**
+ * Statements creating the FTS5 table, its key table, its triggers and its initial contents.
+ * FTS rows use the key of the node they index as rowid, so the triggers update them without
+ * a scan and queries join nodes through the key table.
+ */
+export function createFulltextIndexSql(index: FulltextIndex): string[] {
+  const table = fulltextTableName(index.name);
+  const keys = fulltextKeyTableName(index.name);
+  const columns = index.properties.map(quoteIdentifier).join(", ");
+
+  return [
+    `CREATE VIRTUAL TABLE ${table} USING fts5(${columns}, tokenize = 'unicode61 remove_diacritics 2')`,
+    `CREATE TABLE ${keys} (key INTEGER PRIMARY KEY, node_id TEXT NOT NULL UNIQUE)`,
+    `CREATE TRIGGER ${triggerName(index.name, "insert")} AFTER INSERT ON nodes
+     WHEN ${hasIndexedLabel(index, "NEW.label")}
+     BEGIN
+       INSERT INTO ${keys} (node_id) VALUES (NEW.id);
+       INSERT INTO ${table} (rowid, ${columns})
+         SELECT key, ${indexedValues(index, "NEW.properties")} FROM ${keys} WHERE node_id = NEW.id;
+     END`,
+    `CREATE TRIGGER ${triggerName(index.name, "update")} AFTER UPDATE OF label, properties ON nodes
+     WHEN ${hasIndexedLabel(index, "OLD.label")} OR ${hasIndexedLabel(index, "NEW.label")}
+     BEGIN
+       DELETE FROM ${table} WHERE rowid = (SELECT key FROM ${keys} WHERE node_id = OLD.id);
+       DELETE FROM ${keys} WHERE node_id = OLD.id;
+       INSERT INTO ${keys} (node_id) SELECT NEW.id WHERE ${hasIndexedLabel(index, "NEW.label")};
+       INSERT INTO ${table} (rowid, ${columns})
+         SELECT key, ${indexedValues(index, "NEW.properties")} FROM ${keys} WHERE node_id = NEW.id;
+     END`,
+    `CREATE TRIGGER ${triggerName(index.name, "delete")} AFTER DELETE ON nodes
+     WHEN ${hasIndexedLabel(index, "OLD.label")}
+     BEGIN
+       DELETE FROM ${table} WHERE rowid = (SELECT key FROM ${keys} WHERE node_id = OLD.id);
+       DELETE FROM ${keys} WHERE node_id = OLD.id;
+     END`,
+    `INSERT INTO ${keys} (node_id) SELECT id FROM nodes WHERE ${hasIndexedLabel(index, "label")}`,
+    `INSERT INTO ${table} (rowid, ${columns})
+     SELECT k.key, ${indexedValues(index, "n.properties")} FROM ${keys} k JOIN nodes n ON n.id = k.node_id`,
+  ];
+}
+
+export function dropFulltextIndexSql(name: string): string[] {
+  return [
+    `DROP TRIGGER IF EXISTS ${triggerName(name, "insert")}`,
+    `DROP TRIGGER IF EXISTS ${triggerName(name, "update")}`,
+    `DROP TRIGGER IF EXISTS ${triggerName(name, "delete")}`,
+    `DROP TABLE IF EXISTS ${fulltextTableName(name)}`,
+    `DROP TABLE IF EXISTS ${fulltextKeyTableName(name)}`,
+  ];
+}
@@ -16,8 +16,11 @@ export type {
   LeanGraphOptions,
   LeanGraphClient,
   QueryResponse,
+  ScriptResponse,
   HealthResponse,
   NodeResult,
+  QueryOptions,
+  Transaction,
 } from "./types.js";
 
 export { LeanGraphError } from "./types.js";
@@ -27,7 +30,7 @@ export { LeanGraphError } from "./types.js";
 // ============================================================================
 
 // Parser
-export { parse } from "./parser.js";
+export { parse, splitStatements } from "./parser.js";
 export type {
   Query,
   Clause,
@@ -46,6 +49,7 @@ export type {
   ParameterRef,
   ParseResult,
   ParseError,
+  ScriptStatement,
 } from "./parser.js";
 
 // Translator
@@ -53,8 +57,18 @@ export { translate, Translator } from "./translator.js";
 export type { SqlStatement, TranslationResult } from "./translator.js";
 
 // Database
-export { GraphDatabase, DatabaseManager } from "./db.js";
-export type { Node, Edge, NodeRow, EdgeRow, QueryResult } from "./db.js";
+export { GraphDatabase, DatabaseManager, QueryInterruptedError, interruptCheck, queryTimeout } from "./db.js";
+export type {
+  Node,
+  Edge,
+  NodeRow,
+  EdgeRow,
+  QueryResult,
+  QueryPlanStep,
+  StatementProfile,
+  QueryLimits,
+  InterruptCode,
+} from "./db.js";
 
 // Executor
 export { Executor, executeQuery } from "./executor.js";
@@ -62,11 +76,32 @@ export type {
   ExecutionResult,
   ExecutionError,
   QueryResponse as ServerQueryResponse,
+  StreamResult,
+  StreamResponse,
+  ScriptResult,
+  ScriptError,
+  ScriptResponse as ServerScriptResponse,
+  QueryPlan,
+  PlannedStatement,
+  QueryPattern,
 } from "./executor.js";
 
 // Routes / Server
 export { createApp, createServer } from "./routes.js";
-export type { QueryRequest, ServerOptions } from "./routes.js";
+export type { QueryRequest, ScriptRequest, AppOptions, ServerOptions, Neo4jStatement, Neo4jTransactionRequest } from "./routes.js";
+
+// Neo4j HTTP API format
+export { neo4jResult, neo4jError, loadEntities } from "./neo4j.js";
+export type { Neo4jResult, Neo4jRecord, Neo4jNode, Neo4jRelationship, Neo4jMeta, Neo4jError, ResultDataContent } from "./neo4j.js";
+
+// Bolt protocol
+export { createBoltServer } from "./bolt.js";
+export type { BoltServerOptions } from "./bolt.js";
+export { pack, unpack, Float, Structure } from "./packstream.js";
+
+// Transactions
+export { TransactionManager } from "./transactions.js";
+export type { OpenTransaction, TransactionManagerOptions } from "./transactions.js";
 
 // Backup
 export { BackupManager } from "./backup.js";
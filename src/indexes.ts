@@ -0,0 +1,66 @@
+// Property indexes: SQL shared by index creation (db.ts) and query generation
+// (translator.ts, executor.ts), so that generated predicates match the indexed expressions.
+
+export type IndexEntityType = "NODE" | "RELATIONSHIP";
+
+export interface PropertyIndex {
+  name: string;
+  entityType: IndexEntityType;
+  /** Node label or relationship type */
+  labelOrType: string;
+  properties: string[];
+}
+
+/**
+ * Quote a string as an SQL literal
+ */
+export function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Indexed expression for a property, identical to the one generated for property predicates
+ * (json_extract(n0.properties, '$.email') = ?)
+ */
+export function propertyExpression(propertiesColumn: string, property: string): string {
+  return `json_extract(${propertiesColumn}, ${sqlLiteral(`$.${property}`)})`;
+}
+
+/**
+ * Cheap label pre-filter: the JSON label array contains the label as a string.
+ * Node indexes are partial indexes with this condition, and label predicates include it
+ * with the label as a literal so that SQLite can prove the partial index applies.
+ * It is always combined with the exact json_each() label check.
+ */
+export function labelFilterCondition(labelColumn: string, label: string): string {
+  return `instr(${labelColumn}, ${sqlLiteral(JSON.stringify(label))}) > 0`;
+}
+
+/**
+ * Name of the SQLite index backing a property index
+ */
+export function sqliteIndexName(name: string): string {
+  return `"propidx_${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build the CREATE INDEX statement for a property index.
+ * Node indexes are partial indexes restricted to the label; relationship indexes lead with
+ * the type column, which relationship predicates always constrain by equality.
+ */
+export function createIndexSql(index: PropertyIndex, sqlName: string = sqliteIndexName(index.name)): string {
+  const keys = index.properties.map((property) => propertyExpression("properties", property));
+
+  if (index.entityType === "NODE") {
+    return `CREATE INDEX ${sqlName} ON nodes(${keys.join(", ")}) WHERE ${labelFilterCondition("label", index.labelOrType)}`;
+  }
+  return `CREATE INDEX ${sqlName} ON edges(type, ${keys.join(", ")})`;
+}
+
+/**
+ * Default index name when CREATE INDEX does not give one
+ */
+export function defaultIndexName(entityType: IndexEntityType, labelOrType: string, properties: string[]): string {
+  const kind = entityType === "NODE" ? "node" : "rel";
+  return `index_${kind}_${labelOrType}_${properties.join("_")}`;
+}
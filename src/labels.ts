@@ -0,0 +1,236 @@
+// Label and relationship type expressions: (n:Person|Company), (n:!Archived), (n:%), [r:!FOLLOWS].
+// Plain labels stay strings in the AST; only expressions that are not a conjunction of labels
+// are compiled here, over the JSON label array of nodes or the type column of edges.
+// Dynamic labels ($(...), $any(...)) are replaced by the labels their parameters hold before
+// translation, so they reach the rest of the pipeline as ordinary labels.
+
+import { parseLabelOrType } from "./parser.js";
+import type { EdgePattern, Expression, LabelExpression, Query } from "./parser.js";
+
+export function isLabelExpression(label: unknown): label is LabelExpression {
+  return typeof label === "object" && label !== null && !Array.isArray(label);
+}
+
+/**
+ * Condition that a node's JSON label array satisfies the expression.
+ * `%` matches any node with at least one label.
+ */
+export function labelExpressionSql(expr: LabelExpression, labelColumn: string): { sql: string; params: unknown[] } {
+  switch (expr.type) {
+    case "label":
+      return { sql: `EXISTS (SELECT 1 FROM json_each(${labelColumn}) WHERE value = ?)`, params: [expr.name] };
+    case "wildcard":
+      return { sql: `json_array_length(${labelColumn}) > 0`, params: [] };
+    case "not": {
+      const operand = labelExpressionSql(expr.operand, labelColumn);
+      return { sql: `NOT (${operand.sql})`, params: operand.params };
+    }
+    case "and":
+    case "or": {
+      // Empty after resolving $([]): all of no labels always holds, any of them never does
+      if (expr.operands.length === 0) {
+        return { sql: expr.type === "and" ? "1" : "0", params: [] };
+      }
+      const operands = expr.operands.map((operand) => labelExpressionSql(operand, labelColumn));
+      return {
+        sql: `(${operands.map((operand) => operand.sql).join(` ${expr.type.toUpperCase()} `)})`,
+        params: operands.flatMap((operand) => operand.params),
+      };
+    }
+    case "dynamic":
+      throw new Error("Dynamic labels must be resolved before translation");
+  }
+}
+
+/**
+ * Condition that a relationship's type satisfies the expression. A relationship has exactly
+ * one type, so `%` always matches and `A&B` only matches when A and B are the same type.
+ */
+export function typeExpressionSql(expr: LabelExpression, typeColumn: string): { sql: string; params: unknown[] } {
+  switch (expr.type) {
+    case "label":
+      return { sql: `${typeColumn} = ?`, params: [expr.name] };
+    case "wildcard":
+      return { sql: "1", params: [] };
+    case "not": {
+      const operand = typeExpressionSql(expr.operand, typeColumn);
+      return { sql: `NOT (${operand.sql})`, params: operand.params };
+    }
+    case "and":
+    case "or": {
+      // Empty after resolving $([]): all of no labels always holds, any of them never does
+      if (expr.operands.length === 0) {
+        return { sql: expr.type === "and" ? "1" : "0", params: [] };
+      }
+      const operands = expr.operands.map((operand) => typeExpressionSql(operand, typeColumn));
+      return {
+        sql: `(${operands.map((operand) => operand.sql).join(` ${expr.type.toUpperCase()} `)})`,
+        params: operands.flatMap((operand) => operand.params),
+      };
+    }
+    case "dynamic":
+      throw new Error("Dynamic labels must be resolved before translation");
+  }
+}
+
+/**
+ * Labels to write for a node pattern. CREATE and MERGE only accept plain labels (checked by the
+ * parser), so a label expression here is an error.
+ */
+export function plainLabels(label: string | string[] | LabelExpression | undefined): string[] {
+  if (label === undefined) return [];
+  if (isLabelExpression(label)) {
+    throw new Error("Label expressions cannot be used to create nodes");
+  }
+  return Array.isArray(label) ? label : [label];
+}
+
+/**
+ * Node pattern label for an expression: a string for a single label, an array for a conjunction
+ * of labels (none for an empty one), the expression otherwise
+ */
+export function nodeLabelFromExpression(expr: LabelExpression): string | string[] | LabelExpression | undefined {
+  if (expr.type === "label") return expr.name;
+  if (expr.type === "and" && expr.operands.every((operand) => operand.type === "label")) {
+    const labels = expr.operands.map((operand) => (operand as { name: string }).name);
+    return labels.length > 0 ? labels : undefined;
+  }
+  return expr;
+}
+
+/**
+ * Relationship pattern type for an expression: type for a single type, types for a disjunction
+ * of types, typeExpression otherwise. An empty conjunction constrains nothing.
+ */
+export function edgeTypeFromExpression(expr: LabelExpression): Pick<EdgePattern, "type" | "types" | "typeExpression"> {
+  if (expr.type === "label") return { type: expr.name };
+  if (expr.type === "or" && expr.operands.length > 0 && expr.operands.every((operand) => operand.type === "label")) {
+    return { types: expr.operands.map((operand) => (operand as { name: string }).name) };
+  }
+  if (expr.type === "and" && expr.operands.length === 0) return {};
+  return { typeExpression: expr };
+}
+
+function hasDynamicLabels(expr: LabelExpression): boolean {
+  switch (expr.type) {
+    case "dynamic":
+      return true;
+    case "not":
+      return hasDynamicLabels(expr.operand);
+    case "and":
+    case "or":
+      return expr.operands.some(hasDynamicLabels);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Labels named by a dynamic label: a parameter (or literal) holding a string or a list of
+ * strings, each of which must be a valid label name
+ */
+function dynamicLabelNames(expression: Expression, params: Record<string, unknown>): string[] {
+  let value: unknown;
+  if (expression.type === "parameter") {
+    value = params[expression.name!];
+  } else if (expression.type === "literal") {
+    value = expression.value;
+  } else {
+    throw new Error("Dynamic labels and types must be given as parameters");
+  }
+
+  const names = Array.isArray(value) ? value : [value];
+  if (!names.every((name): name is string => typeof name === "string")) {
+    throw new Error("Dynamic labels and types must be strings or lists of strings");
+  }
+  return names.map(parseLabelOrType);
+}
+
+function resolveLabelExpression(expr: LabelExpression, params: Record<string, unknown>): LabelExpression {
+  switch (expr.type) {
+    case "dynamic": {
+      const names = dynamicLabelNames(expr.expression, params);
+      if (names.length === 1) return { type: "label", name: names[0] };
+      return { type: expr.mode === "all" ? "and" : "or", operands: names.map((name) => ({ type: "label", name })) };
+    }
+    case "not":
+      return { type: "not", operand: resolveLabelExpression(expr.operand, params) };
+    case "and":
+    case "or":
+      return {
+        type: expr.type,
+        // Flatten (A&$($labels)) into one conjunction so it stays a plain list of labels
+        operands: expr.operands
+          .map((operand) => resolveLabelExpression(operand, params))
+          .flatMap((operand) => (operand.type === expr.type ? operand.operands : [operand])),
+      };
+    default:
+      return expr;
+  }
+}
+
+/**
+ * Replace the dynamic labels and types of a query with the labels their parameters hold.
+ * Parts of the query without dynamic labels are shared with the parsed query, which is
+ * returned as is when it has none.
+ */
+export function resolveDynamicLabels(query: Query, params: Record<string, unknown>): Query {
+  return resolveNode(query, params) as Query;
+}
+
+function resolveNode(value: unknown, params: Record<string, unknown>): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => resolveNode(item, params));
+    return items.some((item, i) => item !== value[i]) ? items : value;
+  }
+  if (typeof value !== "object" || value === null) return value;
+
+  const original = value as Record<string, unknown>;
+  let record = original;
+  for (const [key, child] of Object.entries(original)) {
+    const resolved = resolveNode(child, params);
+    if (resolved !== child) {
+      if (record === original) record = { ...original };
+      record[key] = resolved;
+    }
+  }
+
+  // Node pattern: (n:$($label))
+  if (isLabelExpression(record.label) && hasDynamicLabels(record.label)) {
+    const label = nodeLabelFromExpression(resolveLabelExpression(record.label, params));
+    record = { ...record, label };
+    if (label === undefined) delete record.label;
+  }
+
+  // Relationship pattern: [:$($type)]
+  const typeExpression = record.typeExpression as LabelExpression | undefined;
+  if (typeExpression && hasDynamicLabels(typeExpression)) {
+    record = { ...record };
+    delete record.typeExpression;
+    Object.assign(record, edgeTypeFromExpression(resolveLabelExpression(typeExpression, params)));
+  }
+
+  // SET n:$($labels) and REMOVE n:$($labels)
+  if (Array.isArray(record.dynamicLabels)) {
+    const dynamicLabels = record.dynamicLabels as Expression[];
+    const labels = [...((record.labels as string[] | undefined) ?? [])];
+    for (const expression of dynamicLabels) {
+      labels.push(...dynamicLabelNames(expression, params));
+    }
+    record = { ...record, labels };
+    delete record.dynamicLabels;
+  }
+
+  // CREATE and MERGE write a single relationship type
+  if ((record.type === "CREATE" || record.type === "MERGE") && record !== original) {
+    const patterns = record.patterns as { edge?: EdgePattern }[];
+    const originalPatterns = original.patterns as { edge?: EdgePattern }[];
+    patterns.forEach((pattern, i) => {
+      if (pattern.edge && pattern.edge !== originalPatterns[i].edge && !pattern.edge.type) {
+        throw new Error(`Dynamic relationship types in ${record.type} must resolve to exactly one type`);
+      }
+    });
+  }
+
+  return record;
+}
@@ -3,14 +3,18 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { GraphDatabase } from "./db.js";
-import { Executor } from "./executor.js";
+import { GraphDatabase, QueryInterruptedError, QueryLimits } from "./db.js";
+import { Executor, ExecutionError, ExecutionResult } from "./executor.js";
+import { TransactionManager } from "./transactions.js";
 import type {
   LeanGraphClient,
   LeanGraphOptions,
   QueryResponse,
+  ScriptResponse,
   HealthResponse,
   NodeResult,
+  QueryOptions,
+  Transaction,
 } from "./types.js";
 import { LeanGraphError } from "./types.js";
 
@@ -42,55 +46,183 @@ export function createLocalClient(options: LeanGraphOptions = {}): LeanGraphClie
   // Create and initialize database
   const db = new GraphDatabase(dbPath);
   db.initialize();
-  const executor = new Executor(db);
+  const importDirectory = options.importPath ?? process.env.LEANGRAPH_IMPORT_PATH;
+  const executor = new Executor(db, { importDirectory });
+  const transactions = new TransactionManager();
+
+  function limits(queryOptions: QueryOptions): QueryLimits {
+    return { timeoutMs: queryOptions.timeoutMs ?? options.timeoutMs, signal: queryOptions.signal };
+  }
+
+  function queryError(error: ExecutionError["error"]): LeanGraphError {
+    return new LeanGraphError(error.message, {
+      position: error.position,
+      line: error.line,
+      column: error.column,
+      code: error.code,
+    });
+  }
+
+  function run(cypher: string, params: Record<string, unknown>, queryOptions: QueryOptions): ExecutionResult {
+    const result = executor.execute(cypher, params, limits(queryOptions));
+    if (!result.success) {
+      throw queryError(result.error);
+    }
+    return result;
+  }
+
+  function response<T>(result: ExecutionResult): QueryResponse<T> {
+    return {
+      success: true,
+      data: result.data as T[],
+      meta: result.meta,
+      ...(result.plan && { plan: result.plan }),
+    };
+  }
 
   return {
     async query<T = Record<string, unknown>>(
       cypher: string,
-      params: Record<string, unknown> = {}
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
     ): Promise<T[]> {
-      const result = executor.execute(cypher, params);
-      if (!result.success) {
-        throw new LeanGraphError(result.error.message, {
-          position: result.error.position,
-          line: result.error.line,
-          column: result.error.column,
-        });
-      }
-      return result.data as T[];
+      await transactions.idle(db);
+      return run(cypher, params, options).data as T[];
     },
 
     async queryRaw<T = Record<string, unknown>>(
       cypher: string,
-      params: Record<string, unknown> = {}
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
     ): Promise<QueryResponse<T>> {
-      const result = executor.execute(cypher, params);
-      if (!result.success) {
-        throw new LeanGraphError(result.error.message, {
-          position: result.error.position,
-          line: result.error.line,
-          column: result.error.column,
+      await transactions.idle(db);
+      return response<T>(run(cypher, params, options));
+    },
+
+    async *stream<T = Record<string, unknown>>(
+      cypher: string,
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
+    ): AsyncIterable<T> {
+      // Rows are read from the connection while the caller iterates, so nothing else may use it
+      const release = await transactions.hold(db);
+      try {
+        const result = executor.stream(cypher, params, limits(options));
+        if (!result.success) {
+          throw queryError(result.error);
+        }
+        for (const row of result.rows) {
+          yield row as T;
+        }
+      } catch (error) {
+        if (error instanceof LeanGraphError) throw error;
+        throw new LeanGraphError(error instanceof Error ? error.message : String(error), {
+          code: error instanceof QueryInterruptedError ? error.code : undefined,
         });
+      } finally {
+        release();
       }
-      return {
-        success: true,
-        data: result.data as T[],
-        meta: result.meta,
-      };
     },
 
     async execute(
       cypher: string,
-      params: Record<string, unknown> = {}
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
     ): Promise<void> {
-      const result = executor.execute(cypher, params);
+      await transactions.idle(db);
+      run(cypher, params, options);
+    },
+
+    async executeScript<T = Record<string, unknown>>(
+      script: string,
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
+    ): Promise<ScriptResponse<T>> {
+      await transactions.idle(db);
+      const result = executor.executeScript(script, params, limits(options));
       if (!result.success) {
-        throw new LeanGraphError(result.error.message, {
-          position: result.error.position,
-          line: result.error.line,
-          column: result.error.column,
-        });
+        throw new LeanGraphError(result.error.message, result.error);
+      }
+      return {
+        success: true,
+        results: result.results.map((statement) => ({
+          data: statement.data as T[],
+          meta: statement.meta,
+          ...(statement.plan && { plan: statement.plan }),
+        })),
+        meta: result.meta,
+      };
+    },
+
+    async transaction<R>(work: (tx: Transaction) => Promise<R>): Promise<R> {
+      const tx = await this.beginTransaction();
+      let result: R;
+      try {
+        result = await work(tx);
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+      await tx.commit();
+      return result;
+    },
+
+    async beginTransaction(): Promise<Transaction> {
+      const transaction = await transactions.begin(db);
+      let open = true;
+
+      function inTransaction(
+        cypher: string,
+        params: Record<string, unknown>,
+        queryOptions: QueryOptions
+      ): ExecutionResult {
+        if (!open) throw new LeanGraphError("Transaction is no longer open");
+        try {
+          return run(cypher, params, queryOptions);
+        } catch (error) {
+          open = false;
+          transactions.rollback(transaction);
+          throw error;
+        }
       }
+
+      return {
+        async query<T = Record<string, unknown>>(
+          cypher: string,
+          params: Record<string, unknown> = {},
+          options: QueryOptions = {}
+        ): Promise<T[]> {
+          return inTransaction(cypher, params, options).data as T[];
+        },
+
+        async queryRaw<T = Record<string, unknown>>(
+          cypher: string,
+          params: Record<string, unknown> = {},
+          options: QueryOptions = {}
+        ): Promise<QueryResponse<T>> {
+          return response<T>(inTransaction(cypher, params, options));
+        },
+
+        async execute(cypher: string, params: Record<string, unknown> = {}, options: QueryOptions = {}): Promise<void> {
+          inTransaction(cypher, params, options);
+        },
+
+        async commit(): Promise<void> {
+          if (!open) throw new LeanGraphError("Transaction is no longer open");
+          open = false;
+          try {
+            transactions.commit(transaction);
+          } catch (error) {
+            throw new LeanGraphError(error instanceof Error ? error.message : String(error));
+          }
+        },
+
+        async rollback(): Promise<void> {
+          if (!open) return;
+          open = false;
+          transactions.rollback(transaction);
+        },
+      };
     },
 
     async createNode(
@@ -163,6 +295,7 @@ export function createLocalClient(options: LeanGraphOptions = {}): LeanGraphClie
     },
 
     close(): void {
+      transactions.rollbackAll();
       db.close();
     },
   };
@@ -0,0 +1,132 @@
+// Math functions beyond SQLite's built-ins. The same implementations back the SQL functions
+// registered on each database (db.ts) and in-memory evaluation (executor.ts), so both paths
+// agree on null handling: a null (or non-numeric) argument gives null. SQLite has no NaN and
+// stores it as NULL, so NaN results (sqrt(-1), 0.0 / 0.0) are null on both paths too.
+
+/**
+ * One-argument math functions by Cypher name; the SQL function is cypher_<lowercase name>
+ */
+export const UNARY_MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  LOG: Math.log,
+  LOG10: Math.log10,
+  EXP: Math.exp,
+  SIN: Math.sin,
+  COS: Math.cos,
+  TAN: Math.tan,
+  ASIN: Math.asin,
+  ACOS: Math.acos,
+  ATAN: Math.atan,
+  DEGREES: (x) => (x * 180) / Math.PI,
+  RADIANS: (x) => (x * Math.PI) / 180,
+};
+
+/**
+ * Aggregate functions by Cypher name: stDev is the sample, stDevP the population standard deviation
+ */
+export const STDEV_FUNCTIONS: Record<string, { sqlName: string; population: boolean }> = {
+  STDEV: { sqlName: "cypher_stdev", population: false },
+  STDEVP: { sqlName: "cypher_stdevp", population: true },
+};
+
+export function mathSqlFunctionName(name: string): string {
+  return `cypher_${name.toLowerCase()}`;
+}
+
+function withoutNaN(value: number): number | null {
+  return Number.isNaN(value) ? null : value;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  return null;
+}
+
+/**
+ * Apply a one-argument math function. Out-of-domain arguments (log(-1), asin(2)) give null.
+ */
+export function applyUnaryMath(name: string, value: unknown): number | null {
+  const x = asNumber(value);
+  if (x === null) return null;
+  return withoutNaN(UNARY_MATH_FUNCTIONS[name](x));
+}
+
+export function sqrt(value: unknown): number | null {
+  const x = asNumber(value);
+  if (x === null) return null;
+  return withoutNaN(Math.sqrt(x));
+}
+
+export function atan2(y: unknown, x: unknown): number | null {
+  const yValue = asNumber(y);
+  const xValue = asNumber(x);
+  if (yValue === null || xValue === null) return null;
+  return withoutNaN(Math.atan2(yValue, xValue));
+}
+
+/**
+ * Apply +, -, *, /, % or ^ in memory with the results SQLite gives: a null operand or dividing
+ * by zero gives null, and so does NaN (Infinity - Infinity). Other operators give null.
+ */
+export function applyArithmetic(operator: string, left: unknown, right: unknown): unknown {
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+  const l = left as number;
+  const r = right as number;
+  switch (operator) {
+    case "+": {
+      // Strings concatenate
+      const sum = l + r;
+      return typeof sum === "number" ? withoutNaN(sum) : sum;
+    }
+    case "-": return withoutNaN(l - r);
+    case "*": return withoutNaN(l * r);
+    case "/": return r === 0 ? null : withoutNaN(l / r);
+    case "%": return r === 0 ? null : withoutNaN(l % r);
+    case "^": return withoutNaN(Math.pow(l, r));
+    default: return null;
+  }
+}
+
+/**
+ * Running state of a standard deviation: the count, mean and sum of squared differences from
+ * the mean of the values so far, updated one value at a time with Welford's algorithm
+ */
+export interface DeviationState {
+  count: number;
+  mean: number;
+  squares: number;
+}
+
+export function startDeviation(): DeviationState {
+  return { count: 0, mean: 0, squares: 0 };
+}
+
+/**
+ * Add a value to a standard deviation, ignoring nulls and other non-numeric values
+ */
+export function addDeviationValue(state: DeviationState, value: unknown): DeviationState {
+  const x = asNumber(value);
+  if (x === null) return state;
+  state.count++;
+  const delta = x - state.mean;
+  state.mean += delta / state.count;
+  state.squares += delta * (x - state.mean);
+  return state;
+}
+
+/**
+ * Like Neo4j, fewer values than the estimator needs (none, or one for the sample deviation) give 0
+ */
+export function finishDeviation(state: DeviationState, population: boolean): number | null {
+  if (state.count === 0 || (!population && state.count === 1)) return 0;
+  return withoutNaN(Math.sqrt(state.squares / (population ? state.count : state.count - 1)));
+}
+
+/**
+ * Standard deviation of the numeric values, ignoring nulls
+ */
+export function standardDeviation(values: Iterable<unknown>, population: boolean): number | null {
+  let state = startDeviation();
+  for (const value of values) state = addDeviationValue(state, value);
+  return finishDeviation(state, population);
+}
@@ -0,0 +1,226 @@
+// Neo4j result formats (HTTP API and Bolt). Query results carry nodes and relationships as
+// property maps tagged with their id (_nf_id); the Neo4j formats need their labels, type and
+// end nodes too, so those are loaded from the database for the entities a result contains.
+// Element ids are LeanGraph's ids; the legacy integer ids Neo4j clients also expect are rowids.
+
+import type { GraphDatabase } from "./db.js";
+import type { ExecutionError } from "./executor.js";
+import { parse } from "./parser.js";
+import { translate } from "./translator.js";
+
+export interface Neo4jNode {
+  /** Legacy integer id, as a string like Neo4j's graph results */
+  id: string;
+  elementId: string;
+  labels: string[];
+  properties: Record<string, unknown>;
+}
+
+export interface Neo4jRelationship {
+  id: string;
+  elementId: string;
+  type: string;
+  startNode: string;
+  endNode: string;
+  startNodeElementId: string;
+  endNodeElementId: string;
+  properties: Record<string, unknown>;
+}
+
+export interface Neo4jEntityMeta {
+  id: number;
+  elementId: string;
+  type: "node" | "relationship";
+  deleted: boolean;
+}
+
+export type Neo4jMeta = Neo4jEntityMeta | null | Neo4jMeta[];
+
+export interface Neo4jRecord {
+  row?: unknown[];
+  meta?: Neo4jMeta[];
+  graph?: { nodes: Neo4jNode[]; relationships: Neo4jRelationship[] };
+}
+
+export interface Neo4jResult {
+  columns: string[];
+  data: Neo4jRecord[];
+}
+
+export interface Neo4jError {
+  code: string;
+  message: string;
+}
+
+export type ResultDataContent = "row" | "graph";
+
+/**
+ * Nodes and relationships by id
+ */
+export interface GraphEntities {
+  nodes: Map<string, Neo4jNode>;
+  relationships: Map<string, Neo4jRelationship>;
+}
+
+const INTERNAL_KEYS = new Set(["_nf_id", "_nf_start", "_nf_end"]);
+
+function entityId(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const id = (value as Record<string, unknown>)._nf_id;
+  return typeof id === "string" ? id : undefined;
+}
+
+/**
+ * Ids of the nodes and relationships anywhere in a value, including the edges of
+ * variable-length paths ({id, type, source_id, target_id, properties})
+ */
+export function collectEntityIds(value: unknown, ids: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectEntityIds(item, ids);
+  } else if (typeof value === "object" && value !== null) {
+    const id = entityId(value);
+    if (id) ids.add(id);
+    const edge = value as Record<string, unknown>;
+    if (typeof edge.id === "string" && typeof edge.source_id === "string" && typeof edge.target_id === "string") {
+      ids.add(edge.id).add(edge.source_id).add(edge.target_id);
+    }
+    for (const item of Object.values(value)) collectEntityIds(item, ids);
+  }
+  return ids;
+}
+
+/**
+ * Load the nodes and relationships with these ids; ids of deleted entities are left out
+ */
+export function loadEntities(db: GraphDatabase, ids: Iterable<string>): GraphEntities {
+  const idList = JSON.stringify([...ids]);
+  const nodes = new Map<string, Neo4jNode>();
+  const relationships = new Map<string, Neo4jRelationship>();
+
+  for (const row of db.execute(
+    "SELECT rowid, id, label, properties FROM nodes WHERE id IN (SELECT value FROM json_each(?))",
+    [idList]
+  ).rows) {
+    const id = row.id as string;
+    nodes.set(id, {
+      id: String(row.rowid),
+      elementId: id,
+      labels: JSON.parse(row.label as string),
+      properties: JSON.parse(row.properties as string),
+    });
+  }
+  for (const row of db.execute(
+    `SELECT e.rowid AS rowid, e.id AS id, e.type AS type, e.source_id AS source_id, e.target_id AS target_id,
+       s.rowid AS source_rowid, t.rowid AS target_rowid, e.properties AS properties
+     FROM edges e JOIN nodes s ON s.id = e.source_id JOIN nodes t ON t.id = e.target_id
+     WHERE e.id IN (SELECT value FROM json_each(?))`,
+    [idList]
+  ).rows) {
+    const id = row.id as string;
+    relationships.set(id, {
+      id: String(row.rowid),
+      elementId: id,
+      type: row.type as string,
+      startNode: String(row.source_rowid),
+      endNode: String(row.target_rowid),
+      startNodeElementId: row.source_id as string,
+      endNodeElementId: row.target_id as string,
+      properties: JSON.parse(row.properties as string),
+    });
+  }
+  return { nodes, relationships };
+}
+
+/**
+ * A value as Neo4j returns it in rows: nodes and relationships become their property maps
+ */
+export function plainValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(plainValue);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => !INTERNAL_KEYS.has(key))
+      .map(([key, item]) => [key, plainValue(item)])
+  );
+}
+
+function metaFor(value: unknown, entities: GraphEntities): Neo4jMeta {
+  if (Array.isArray(value)) return value.map((item) => metaFor(item, entities));
+  const elementId = entityId(value);
+  if (!elementId) return null;
+  const node = entities.nodes.get(elementId);
+  if (node) return { id: Number(node.id), elementId, type: "node", deleted: false };
+  const relationship = entities.relationships.get(elementId);
+  if (relationship) return { id: Number(relationship.id), elementId, type: "relationship", deleted: false };
+  // Deleted by the query, so there is no legacy id left: relationships carry their end nodes, nodes do not
+  const type = "_nf_start" in (value as Record<string, unknown>) ? "relationship" : "node";
+  return { id: -1, elementId, type, deleted: true };
+}
+
+/**
+ * Column names of a result, from its rows or, without rows, from the query
+ */
+export function resultColumns(cypher: string, params: Record<string, unknown>, rows: Record<string, unknown>[]): string[] {
+  if (rows.length > 0) return Object.keys(rows[0]);
+  try {
+    const parsed = parse(cypher);
+    if (!parsed.success) return [];
+    return translate(parsed.query, params).returnColumns ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Format executed rows as a Neo4j result with the requested data contents
+ */
+export function neo4jResult(
+  db: GraphDatabase,
+  statement: { cypher: string; params: Record<string, unknown> },
+  rows: Record<string, unknown>[],
+  contents: ResultDataContent[] = ["row"]
+): Neo4jResult {
+  const columns = resultColumns(statement.cypher, statement.params, rows);
+  const entities = loadEntities(db, collectEntityIds(rows));
+
+  const data = rows.map((row) => {
+    const values = columns.map((column) => row[column]);
+    const record: Neo4jRecord = {};
+    if (contents.includes("row")) {
+      record.row = values.map(plainValue);
+      record.meta = values.map((value) => metaFor(value, entities));
+    }
+    if (contents.includes("graph")) {
+      const ids = collectEntityIds(values);
+      const relationships = [...ids].flatMap((id) => entities.relationships.get(id) ?? []);
+      // A relationship's end nodes are part of the graph even when not returned
+      for (const relationship of relationships) ids.add(relationship.startNodeElementId).add(relationship.endNodeElementId);
+      const missing = [...ids].filter((id) => !entities.nodes.has(id) && !entities.relationships.has(id));
+      const endNodes = missing.length > 0 ? loadEntities(db, missing).nodes : new Map<string, Neo4jNode>();
+      record.graph = {
+        nodes: [...ids].flatMap((id) => entities.nodes.get(id) ?? endNodes.get(id) ?? []),
+        relationships,
+      };
+    }
+    return record;
+  });
+
+  return { columns, data };
+}
+
+/**
+ * Neo4j status code for a failed query: parse errors carry a position
+ */
+export function neo4jError(error: ExecutionError["error"]): Neo4jError {
+  let code = "Neo.ClientError.Statement.ExecutionFailed";
+  if (error.code === "QUERY_TIMEOUT") {
+    code = "Neo.ClientError.Transaction.TransactionTimedOut";
+  } else if (error.code === "QUERY_CANCELLED") {
+    code = "Neo.TransientError.Transaction.Terminated";
+  } else if (error.position !== undefined) {
+    code = "Neo.ClientError.Statement.SyntaxError";
+  } else if (error.message.startsWith("Constraint ")) {
+    code = "Neo.ClientError.Schema.ConstraintValidationFailed";
+  }
+  return { code, message: error.message };
+}
@@ -0,0 +1,234 @@
+// PackStream, the binary serialization format of the Bolt protocol: null, booleans, integers,
+// floats, bytes, strings, lists, maps and tagged structures (nodes, relationships, paths,
+// points and Bolt messages). Whole numbers are packed as integers, other numbers as floats
+// (wrap a number in Float to pack it as a float anyway); integers beyond
+// Number.MAX_SAFE_INTEGER are unpacked with the usual loss of precision.
+
+/**
+ * A tagged structure: a Bolt message or a value such as a node
+ */
+export class Structure {
+  constructor(
+    public readonly tag: number,
+    public readonly fields: unknown[]
+  ) {}
+}
+
+/**
+ * A number packed as a float even when it is whole, such as a point coordinate
+ */
+export class Float {
+  constructor(public readonly value: number) {}
+}
+
+class Packer {
+  private buffer: Buffer = Buffer.alloc(256);
+  private length = 0;
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const grown = Buffer.alloc(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(grown, 0, 0, this.length);
+    this.buffer = grown;
+  }
+
+  private byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  private bytes(value: Uint8Array): void {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  private header(size: number, tiny: number, markers: [number, number, number], what: string): void {
+    if (size < 16 && tiny !== 0) {
+      this.byte(tiny + size);
+    } else if (size < 0x100) {
+      this.byte(markers[0]);
+      this.byte(size);
+    } else if (size < 0x10000) {
+      this.byte(markers[1]);
+      this.reserve(2);
+      this.length = this.buffer.writeUInt16BE(size, this.length);
+    } else if (size < 0x100000000) {
+      this.byte(markers[2]);
+      this.reserve(4);
+      this.length = this.buffer.writeUInt32BE(size, this.length);
+    } else {
+      throw new Error(`PackStream ${what} too large`);
+    }
+  }
+
+  private integer(value: bigint): void {
+    if (value >= -16n && value < 128n) {
+      this.byte(Number(value) & 0xff);
+    } else if (value >= -128n && value < 128n) {
+      this.byte(0xc8);
+      this.byte(Number(value) & 0xff);
+    } else if (value >= -0x8000n && value < 0x8000n) {
+      this.byte(0xc9);
+      this.reserve(2);
+      this.length = this.buffer.writeInt16BE(Number(value), this.length);
+    } else if (value >= -0x80000000n && value < 0x80000000n) {
+      this.byte(0xca);
+      this.reserve(4);
+      this.length = this.buffer.writeInt32BE(Number(value), this.length);
+    } else {
+      this.byte(0xcb);
+      this.reserve(8);
+      this.length = this.buffer.writeBigInt64BE(BigInt.asIntN(64, value), this.length);
+    }
+  }
+
+  pack(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.byte(0xc0);
+    } else if (typeof value === "boolean") {
+      this.byte(value ? 0xc3 : 0xc2);
+    } else if (typeof value === "bigint") {
+      this.integer(value);
+    } else if (typeof value === "number" && Number.isSafeInteger(value)) {
+      this.integer(BigInt(value));
+    } else if (typeof value === "number" || value instanceof Float) {
+      this.byte(0xc1);
+      this.reserve(8);
+      this.length = this.buffer.writeDoubleBE(typeof value === "number" ? value : value.value, this.length);
+    } else if (typeof value === "string") {
+      const encoded = Buffer.from(value, "utf8");
+      this.header(encoded.length, 0x80, [0xd0, 0xd1, 0xd2], "string");
+      this.bytes(encoded);
+    } else if (value instanceof Uint8Array) {
+      this.header(value.length, 0, [0xcc, 0xcd, 0xce], "byte array");
+      this.bytes(value);
+    } else if (Array.isArray(value)) {
+      this.header(value.length, 0x90, [0xd4, 0xd5, 0xd6], "list");
+      for (const item of value) this.pack(item);
+    } else if (value instanceof Structure) {
+      if (value.fields.length >= 16) throw new Error("PackStream structures have at most 15 fields");
+      this.byte(0xb0 + value.fields.length);
+      this.byte(value.tag);
+      for (const field of value.fields) this.pack(field);
+    } else if (typeof value === "object") {
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.header(entries.length, 0xa0, [0xd8, 0xd9, 0xda], "map");
+      for (const [key, item] of entries) {
+        this.pack(key);
+        this.pack(item);
+      }
+    } else {
+      throw new Error(`Cannot pack a value of type ${typeof value}`);
+    }
+  }
+
+  result(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+class Unpacker {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  private take(size: number): number {
+    if (this.offset + size > this.buffer.length) {
+      throw new Error("Unexpected end of PackStream data");
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+
+  private size(marker: number, tinyBase: number, markers: [number, number, number]): number | undefined {
+    if (marker >= tinyBase && marker < tinyBase + 16) return marker - tinyBase;
+    if (marker === markers[0]) return this.buffer.readUInt8(this.take(1));
+    if (marker === markers[1]) return this.buffer.readUInt16BE(this.take(2));
+    if (marker === markers[2]) return this.buffer.readUInt32BE(this.take(4));
+    return undefined;
+  }
+
+  unpack(): unknown {
+    const marker = this.buffer.readUInt8(this.take(1));
+
+    if (marker < 0x80) return marker;
+    if (marker >= 0xf0) return marker - 0x100;
+    switch (marker) {
+      case 0xc0:
+        return null;
+      case 0xc1:
+        return this.buffer.readDoubleBE(this.take(8));
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc8:
+        return this.buffer.readInt8(this.take(1));
+      case 0xc9:
+        return this.buffer.readInt16BE(this.take(2));
+      case 0xca:
+        return this.buffer.readInt32BE(this.take(4));
+      case 0xcb:
+        return Number(this.buffer.readBigInt64BE(this.take(8)));
+    }
+
+    const bytes = marker >= 0xcc && marker <= 0xce ? this.size(marker, 0x100, [0xcc, 0xcd, 0xce]) : undefined;
+    if (bytes !== undefined) {
+      const start = this.take(bytes);
+      return Buffer.from(this.buffer.subarray(start, start + bytes));
+    }
+
+    const stringLength = this.size(marker, 0x80, [0xd0, 0xd1, 0xd2]);
+    if (stringLength !== undefined) {
+      const start = this.take(stringLength);
+      return this.buffer.toString("utf8", start, start + stringLength);
+    }
+
+    const listLength = this.size(marker, 0x90, [0xd4, 0xd5, 0xd6]);
+    if (listLength !== undefined) {
+      return Array.from({ length: listLength }, () => this.unpack());
+    }
+
+    const mapSize = this.size(marker, 0xa0, [0xd8, 0xd9, 0xda]);
+    if (mapSize !== undefined) {
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < mapSize; i++) {
+        const key = this.unpack();
+        if (typeof key !== "string") throw new Error("PackStream map keys must be strings");
+        map[key] = this.unpack();
+      }
+      return map;
+    }
+
+    if (marker >= 0xb0 && marker < 0xc0) {
+      const tag = this.buffer.readUInt8(this.take(1));
+      return new Structure(tag, Array.from({ length: marker - 0xb0 }, () => this.unpack()));
+    }
+
+    throw new Error(`Unknown PackStream marker 0x${marker.toString(16)}`);
+  }
+
+  done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+}
+
+export function pack(value: unknown): Buffer {
+  const packer = new Packer();
+  packer.pack(value);
+  return packer.result();
+}
+
+/**
+ * Unpack a single value that fills the whole buffer
+ */
+export function unpack(buffer: Buffer): unknown {
+  const unpacker = new Unpacker(buffer);
+  const value = unpacker.unpack();
+  if (!unpacker.done()) {
+    throw new Error("Unexpected data after PackStream value");
+  }
+  return value;
+}
@@ -1,12 +1,27 @@
 // Cypher Parser - Types and Implementation
 
+import { edgeTypeFromExpression, nodeLabelFromExpression } from "./labels.js";
+
 // ============================================================================
 // AST Types
 // ============================================================================
 
+/**
+ * Label expression: (n:Person|Company), (n:!Archived), (n:%), (n:(A&B)|C).
+ * Conjunctions of plain labels are kept as label strings; only other expressions use this form.
+ * Dynamic labels (n:$($label)), (n:$any($labels)) hold the parameter naming the labels until
+ * the executor resolves them with resolveDynamicLabels() (labels.ts).
+ */
+export type LabelExpression =
+  | { type: "label"; name: string }
+  | { type: "wildcard" }
+  | { type: "not"; operand: LabelExpression }
+  | { type: "and" | "or"; operands: LabelExpression[] }
+  | { type: "dynamic"; mode: "all" | "any"; expression: Expression };
+
 export interface NodePattern {
   variable?: string;
-  label?: string | string[]; // Support both single label (backward compat) and multiple labels
+  label?: string | string[] | LabelExpression; // Single label, labels that must all be present, or a label expression
   properties?: Record<string, PropertyValue>;
 }
 
@@ -14,6 +29,7 @@ export interface EdgePattern {
   variable?: string;
   type?: string;
   types?: string[]; // For multiple relationship types: [:TYPE1|TYPE2]
+  typeExpression?: LabelExpression; // For other type expressions: [:!TYPE], [:%]
   properties?: Record<string, PropertyValue>;
   direction: "left" | "right" | "none";
   minHops?: number;
@@ -30,6 +46,7 @@ export interface PathExpression {
   type: "path";
   variable: string;
   patterns: (NodePattern | RelationshipPattern)[];
+  shortest?: "single" | "all"; // shortestPath(...) / allShortestPaths(...)
 }
 
 export interface ParameterRef {
@@ -83,7 +100,7 @@ export interface WhereCondition {
   type: "comparison" | "and" | "or" | "not" | "contains" | "startsWith" | "endsWith" | "isNull" | "isNotNull" | "exists" | "in" | "listPredicate" | "patternMatch" | "expression";
   left?: Expression;
   right?: Expression;
-  operator?: "=" | "<>" | "<" | ">" | "<=" | ">=";
+  operator?: "=" | "<>" | "<" | ">" | "<=" | ">=" | "=~";
   conditions?: WhereCondition[];
   condition?: WhereCondition;
   // For EXISTS pattern and pattern conditions
@@ -115,8 +132,18 @@ export interface ObjectProperty {
   value: Expression;
 }
 
+/**
+ * Map projection item: .name (property), .* (all properties), key: expr (literal entry)
+ * or a bare variable (entry keyed by the variable name)
+ */
+export interface MapProjectionItem {
+  type: "property" | "allProperties" | "literal" | "variable";
+  key?: string;
+  value?: Expression;
+}
+
 export interface Expression {
-  type: "property" | "literal" | "parameter" | "variable" | "function" | "case" | "binary" | "object" | "comparison" | "listComprehension" | "listPredicate" | "patternComprehension" | "unary" | "labelPredicate" | "propertyAccess" | "indexAccess" | "in" | "stringOp";
+  type: "property" | "literal" | "parameter" | "variable" | "function" | "case" | "binary" | "object" | "comparison" | "listComprehension" | "listPredicate" | "patternComprehension" | "unary" | "labelPredicate" | "propertyAccess" | "indexAccess" | "in" | "stringOp" | "reduce" | "mapProjection" | "subquery";
   variable?: string;
   property?: string;
   value?: PropertyValue;
@@ -138,7 +165,7 @@ export interface Expression {
   // Unary operation fields
   operand?: Expression;
   // Comparison expression fields
-  comparisonOperator?: "=" | "<>" | "<" | ">" | "<=" | ">=" | "IS NULL" | "IS NOT NULL";
+  comparisonOperator?: "=" | "<>" | "<" | ">" | "<=" | ">=" | "=~" | "IS NULL" | "IS NOT NULL";
   // Object literal fields
   properties?: ObjectProperty[];
   // List comprehension fields: [var IN listExpr WHERE filterCondition | mapExpr]
@@ -147,6 +174,14 @@ export interface Expression {
   mapExpr?: Expression;
   // List predicate fields: ALL/ANY/NONE/SINGLE(var IN list WHERE cond)
   predicateType?: "ALL" | "ANY" | "NONE" | "SINGLE";
+  // Reduce fields: reduce(accumulator = initialValue, variable IN listExpr | mapExpr)
+  accumulator?: string;
+  initialValue?: Expression;
+  // Map projection fields: variable {.name, .*, key: expr, otherVariable}
+  projections?: MapProjectionItem[];
+  // Subquery expression fields: EXISTS { ... }, COUNT { ... }, COLLECT { ... }
+  subqueryType?: "EXISTS" | "COUNT" | "COLLECT";
+  query?: Query;
   // Pattern comprehension fields: [(pattern) WHERE filterCondition | mapExpr]
   // Or with named path: [p = (pattern) | p]
   patterns?: (NodePattern | RelationshipPattern)[];
@@ -176,6 +211,7 @@ export interface SetAssignment {
   property?: string;  // For property assignments: SET n.prop = value
   value?: Expression;
   labels?: string[];  // For label assignments: SET n:Label1:Label2
+  dynamicLabels?: Expression[];  // For dynamic label assignments: SET n:$($labels)
   replaceProps?: boolean;  // For SET n = {props} - replace all properties
   mergeProps?: boolean;    // For SET n += {props} - merge properties
 }
@@ -217,6 +253,7 @@ export interface RemoveItem {
   variable: string;
   property?: string;  // For REMOVE n.prop
   labels?: string[];  // For REMOVE n:Label1:Label2
+  dynamicLabels?: Expression[];  // For REMOVE n:$($labels)
 }
 
 export interface RemoveClause {
@@ -264,6 +301,67 @@ export interface CallClause {
   where?: WhereCondition; // Optional WHERE filter after YIELD
 }
 
+export interface CallSubqueryClause {
+  type: "CALL_SUBQUERY";
+  query: Query; // Inner query, may be a UNION; a leading WITH imports outer variables
+}
+
+export interface ForeachClause {
+  type: "FOREACH";
+  variable: string; // Loop variable bound to each list element
+  expression: Expression; // List to iterate over
+  clauses: Clause[]; // Update clauses executed per element (CREATE, MERGE, SET, DELETE, REMOVE, FOREACH)
+}
+
+export interface LoadCsvClause {
+  type: "LOAD_CSV";
+  withHeaders: boolean; // Rows are maps keyed by the header row instead of lists
+  url: Expression; // file:/// URL, resolved against the import directory
+  variable: string;
+  fieldTerminator?: string;
+}
+
+export interface CreateIndexClause {
+  type: "CREATE_INDEX";
+  name?: string; // Generated from the schema when omitted
+  ifNotExists: boolean;
+  entityType: "NODE" | "RELATIONSHIP";
+  variable: string;
+  labelOrType: string;
+  properties: string[];
+}
+
+export interface DropIndexClause {
+  type: "DROP_INDEX";
+  name: string;
+  ifExists: boolean;
+}
+
+export interface ShowIndexesClause {
+  type: "SHOW_INDEXES";
+}
+
+export interface CreateConstraintClause {
+  type: "CREATE_CONSTRAINT";
+  name?: string; // Generated from the schema when omitted
+  ifNotExists: boolean;
+  kind: "UNIQUE" | "NOT_NULL" | "KEY"; // KEY = unique and not null
+  entityType: "NODE" | "RELATIONSHIP";
+  variable: string;
+  labelOrType: string;
+  properties: string[];
+}
+
+export interface DropConstraintClause {
+  type: "DROP_CONSTRAINT";
+  name: string;
+  ifExists: boolean;
+}
+
+export interface ShowConstraintsClause {
+  type: "SHOW_CONSTRAINTS";
+}
+
 export type Clause =
   | CreateClause
   | MatchClause
@@ -275,10 +373,31 @@ export type Clause =
   | WithClause
   | UnwindClause
   | UnionClause
-  | CallClause;
+  | CallClause
+  | CallSubqueryClause
+  | ForeachClause
+  | LoadCsvClause
+  | CreateIndexClause
+  | DropIndexClause
+  | ShowIndexesClause
+  | CreateConstraintClause
+  | DropConstraintClause
+  | ShowConstraintsClause;
+
+// Schema commands must be the only clause in their query
+const SCHEMA_CLAUSE_TYPES = new Set([
+  "CREATE_INDEX",
+  "DROP_INDEX",
+  "SHOW_INDEXES",
+  "CREATE_CONSTRAINT",
+  "DROP_CONSTRAINT",
+  "SHOW_CONSTRAINTS",
+]);
 
 export interface Query {
   clauses: Clause[];
+  /** EXPLAIN reports the plan without running the query; PROFILE runs it and reports the plan */
+  prefix?: "EXPLAIN" | "PROFILE";
 }
 
 export interface ParseError {
@@ -320,12 +439,15 @@ type TokenType =
   | "CARET"
   | "EQUALS"
   | "NOT_EQUALS"
+  | "REGEX_MATCH"
   | "LT"
   | "GT"
   | "LTE"
   | "GTE"
   | "STAR"
   | "PIPE"
+  | "BANG"
+  | "AMPERSAND"
   | "EOF";
 
 interface Token {
@@ -387,8 +509,13 @@ const KEYWORDS = new Set([
   "CALL",
   "YIELD",
   "REMOVE",
+  "FOREACH",
+  "LOAD",
 ]);
 
+// Clause keywords allowed inside a FOREACH body
+const FOREACH_BODY_KEYWORDS = new Set(["CREATE", "MERGE", "SET", "DELETE", "DETACH", "REMOVE", "FOREACH"]);
+
 class Tokenizer {
   private input: string;
   private pos: number = 0;
@@ -414,6 +541,7 @@ class Tokenizer {
       case "COLON":
       case "EQUALS":
       case "NOT_EQUALS":
+      case "REGEX_MATCH":
       case "LT":
       case "LTE":
       case "GT":
@@ -569,6 +697,11 @@ class Tokenizer {
         this.column += 2;
         return { type: "NOT_EQUALS", value: "<>", position: startPos, line: startLine, column: startColumn };
       }
+      if (twoChars === "=~") {
+        this.pos += 2;
+        this.column += 2;
+        return { type: "REGEX_MATCH", value: "=~", position: startPos, line: startLine, column: startColumn };
+      }
       if (twoChars === "<=") {
         this.pos += 2;
         this.column += 2;
@@ -602,6 +735,8 @@ class Tokenizer {
       ">": "GT",
       "*": "STAR",
       "|": "PIPE",
+      "!": "BANG",
+      "&": "AMPERSAND",
     };
 
     // Number - includes floats starting with . like .5
@@ -925,6 +1060,7 @@ const INT64_MIN = BigInt("-9223372036854775808");
 export class Parser {
   private tokens: Token[] = [];
   private pos: number = 0;
+  private subqueryDepth: number = 0; // Nesting level of CALL { } subqueries being parsed
   private anonVarCounter: number = 0;
 
   /**
@@ -969,17 +1105,38 @@ export class Parser {
     return floatVal;
   }
 
+  parseLabelOrType(input: string): string {
+    try {
+      this.tokens = new Tokenizer(input).tokenize();
+      this.pos = 0;
+      const name = this.expectLabelOrType();
+      if (this.isAtEnd() && name === input) {
+        return name;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid label or relationship type: '${input}'`);
+  }
+
   parse(input: string): ParseResult {
     try {
       const tokenizer = new Tokenizer(input);
       this.tokens = tokenizer.tokenize();
       this.pos = 0;
 
+      const prefix = this.parseQueryPrefix();
       const query = this.parseQuery();
 
       if (query.clauses.length === 0) {
         return this.error("Empty query");
       }
+      if (query.clauses.length > 1 && query.clauses.some((clause) => SCHEMA_CLAUSE_TYPES.has(clause.type))) {
+        throw new Error("Schema commands cannot be combined with other clauses");
+      }
+      if (prefix) {
+        query.prefix = prefix;
+      }
 
       return { success: true, query };
     } catch (e) {
@@ -996,11 +1153,28 @@ export class Parser {
     }
   }
 
+  /**
+   * EXPLAIN and PROFILE are only recognised in front of a clause keyword,
+   * so they stay usable as identifiers elsewhere.
+   */
+  private parseQueryPrefix(): "EXPLAIN" | "PROFILE" | undefined {
+    const token = this.peek();
+    if (token.type !== "IDENTIFIER" || this.tokens[this.pos + 1]?.type !== "KEYWORD") {
+      return undefined;
+    }
+    const word = token.value.toUpperCase();
+    if (word !== "EXPLAIN" && word !== "PROFILE") {
+      return undefined;
+    }
+    this.advance();
+    return word;
+  }
+
   private parseQuery(): Query {
     // Parse clauses until we hit UNION or end
     const clauses: Clause[] = [];
 
-    while (!this.isAtEnd() && !this.checkKeyword("UNION")) {
+    while (!this.isAtEnd() && !this.checkKeyword("UNION") && !(this.subqueryDepth > 0 && this.check("RBRACE"))) {
       const clause = this.parseClause();
       if (clause) {
         clauses.push(clause);
@@ -1062,12 +1236,25 @@ export class Parser {
 
     if (token.type === "EOF") return null;
 
+    // DROP and SHOW are not reserved, so they stay usable as identifiers
+    if (token.type === "IDENTIFIER") {
+      const word = token.value.toUpperCase();
+      if (word === "DROP") return this.parseDrop();
+      if (word === "SHOW") return this.parseShow();
+    }
+
     if (token.type !== "KEYWORD") {
       throw new Error(`Unexpected token '${token.value}', expected a clause keyword like CREATE, MATCH, MERGE, SET, DELETE, or RETURN`);
     }
 
     switch (token.value) {
       case "CREATE":
+        switch (this.schemaObjectAfterCreate()) {
+          case "INDEX":
+            return this.parseCreateIndex();
+          case "CONSTRAINT":
+            return this.parseCreateConstraint();
+        }
         return this.parseCreate();
       case "MATCH":
         return this.parseMatch(false);
@@ -1090,6 +1277,10 @@ export class Parser {
         return this.parseUnwind();
       case "CALL":
         return this.parseCall();
+      case "FOREACH":
+        return this.parseForeach();
+      case "LOAD":
+        return this.parseLoadCsv();
       default:
         throw new Error(`Unexpected keyword '${token.value}'`);
     }
@@ -1106,11 +1297,13 @@ export class Parser {
       patterns.push(...this.parsePatternChain());
     }
 
+    this.validateNoLabelExpressions(patterns, "CREATE");
+
     // Validate: CREATE requires relationship type and direction
     for (const pattern of patterns) {
       if ("edge" in pattern) {
         // This is a RelationshipPattern
-        if (!pattern.edge.type && !pattern.edge.types) {
+        if (!pattern.edge.type && !pattern.edge.types && !pattern.edge.typeExpression) {
           throw new Error("A relationship type is required to create a relationship");
         }
         if (pattern.edge.direction === "none") {
@@ -1132,6 +1325,13 @@ export class Parser {
 
   private parseMatch(optional: boolean = false): MatchClause {
     this.expect("KEYWORD", "MATCH");
+    return this.parseMatchPatterns(optional);
+  }
+
+  /**
+   * Parse the patterns and optional WHERE of a MATCH, after the MATCH keyword
+   */
+  private parseMatchPatterns(optional: boolean = false): MatchClause {
     const patterns: (NodePattern | RelationshipPattern)[] = [];
     const pathExpressions: PathExpression[] = [];
 
@@ -1183,6 +1383,9 @@ export class Parser {
       if (this.check("EQUALS")) {
         // This is a path expression: p = (a)-[r]->(b)
         this.advance(); // consume "="
+        if (this.isShortestPathFunction()) {
+          return this.parseShortestPath(identifier);
+        }
         const patterns = this.parsePatternChain();
         return {
           type: "path",
@@ -1195,9 +1398,49 @@ export class Parser {
       }
     }
     
+    // Unnamed shortestPath((a)-[*]-(b)) gets an internal path variable
+    if (this.isShortestPathFunction()) {
+      return this.parseShortestPath(`_shortest_path_${this.pos}`);
+    }
+    
     // Regular pattern chain
     return this.parsePatternChain();
   }
+  
+  private isShortestPathFunction(): boolean {
+    const token = this.peek();
+    if (token.type !== "IDENTIFIER") return false;
+    const name = token.value.toUpperCase();
+    return (name === "SHORTESTPATH" || name === "ALLSHORTESTPATHS") &&
+      this.tokens[this.pos + 1]?.type === "LPAREN";
+  }
+  
+  /**
+   * Parse shortestPath((a)-[:TYPE*..n]-(b)) or allShortestPaths(...)
+   */
+  private parseShortestPath(variable: string): PathExpression {
+    const name = this.advance().value.toUpperCase();
+    this.expect("LPAREN");
+    const patterns = this.parsePatternChain();
+    this.expect("RPAREN");
+    
+    if (patterns.length !== 1 || !("edge" in patterns[0])) {
+      throw new Error(`${name === "SHORTESTPATH" ? "shortestPath" : "allShortestPaths"}(...) requires a pattern containing a single relationship`);
+    }
+    
+    // A plain relationship (no *) is a path of exactly one hop
+    const edge = patterns[0].edge;
+    if (edge.minHops !== undefined && edge.minHops > 1) {
+      throw new Error("shortestPath(...) does not support a minimal length different from 0 or 1");
+    }
+    
+    return {
+      type: "path",
+      variable,
+      patterns,
+      shortest: name === "SHORTESTPATH" ? "single" : "all",
+    };
+  }
 
   private parseOptionalMatch(): MatchClause {
     this.expect("KEYWORD", "OPTIONAL");
@@ -1261,6 +1504,31 @@ export class Parser {
     }
   }
 
+  /**
+   * CREATE and MERGE write the labels and type they are given, so they only accept plain ones
+   * and dynamic labels taken as a whole ($(...) or $all(...), not $any(...))
+   */
+  private validateNoLabelExpressions(patterns: (NodePattern | RelationshipPattern)[], clause: string): void {
+    const isWritable = (expr: LabelExpression): boolean =>
+      expr.type === "label" ||
+      (expr.type === "dynamic" && expr.mode === "all") ||
+      (expr.type === "and" && expr.operands.every(isWritable));
+    const isExpression = (node: NodePattern) =>
+      typeof node.label === "object" && !Array.isArray(node.label) && !isWritable(node.label);
+    for (const pattern of patterns) {
+      const typeExpression = "edge" in pattern ? pattern.edge.typeExpression : undefined;
+      const invalid =
+        "edge" in pattern
+          ? (typeExpression !== undefined && !(typeExpression.type === "dynamic" && typeExpression.mode === "all")) ||
+            isExpression(pattern.source) ||
+            isExpression(pattern.target)
+          : isExpression(pattern);
+      if (invalid) {
+        throw new Error(`Label expressions are not allowed in ${clause}`);
+      }
+    }
+  }
+
   private parseMerge(): MergeClause {
     this.expect("KEYWORD", "MERGE");
     
@@ -1278,6 +1546,8 @@ export class Parser {
       patterns = patternOrPath as (NodePattern | RelationshipPattern)[];
     }
 
+    this.validateNoLabelExpressions(patterns, "MERGE");
+
     // Validate patterns - variable-length relationships are not allowed in MERGE
     for (const pattern of patterns) {
       if ("edge" in pattern) {
@@ -1334,13 +1604,19 @@ export class Parser {
       
       // Check for label assignment: SET n:Label or SET n :Label (with whitespace)
       if (this.check("COLON")) {
-        // Label assignment: SET n:Label1:Label2
+        // Label assignment: SET n:Label1:Label2 or SET n:$($labels)
         const labels: string[] = [];
+        const dynamicLabels: Expression[] = [];
         while (this.check("COLON")) {
           this.advance(); // consume ":"
-          labels.push(this.expectLabelOrType());
+          const dynamic = this.parseDynamicLabel();
+          if (dynamic) {
+            dynamicLabels.push(dynamic.expression);
+          } else {
+            labels.push(this.expectLabelOrType());
+          }
         }
-        assignments.push({ variable, labels });
+        assignments.push({ variable, labels, ...(dynamicLabels.length > 0 && { dynamicLabels }) });
       } else if (this.check("PLUS")) {
         // Property merge: SET n += {props}
         this.advance(); // consume "+"
@@ -1379,11 +1655,17 @@ export class Parser {
       // Check for label removal: REMOVE n:Label or REMOVE n:Label1:Label2
       if (this.check("COLON")) {
         const labels: string[] = [];
+        const dynamicLabels: Expression[] = [];
         while (this.check("COLON")) {
           this.advance(); // consume ":"
-          labels.push(this.expectLabelOrType());
+          const dynamic = this.parseDynamicLabel();
+          if (dynamic) {
+            dynamicLabels.push(dynamic.expression);
+          } else {
+            labels.push(this.expectLabelOrType());
+          }
         }
-        items.push({ variable, labels });
+        items.push({ variable, labels, ...(dynamicLabels.length > 0 && { dynamicLabels }) });
       } else {
         // Property removal: REMOVE n.prop
         this.expect("DOT");
@@ -1717,9 +1999,14 @@ export class Parser {
     throw new Error(`Expected array, parameter, or variable in UNWIND, got ${token.type} '${token.value}'`);
   }
 
-  private parseCall(): CallClause {
+  private parseCall(): CallClause | CallSubqueryClause {
     this.expect("KEYWORD", "CALL");
 
+    // CALL { ... } subquery
+    if (this.check("LBRACE")) {
+      return this.parseCallSubquery();
+    }
+
     // Parse procedure name (e.g., "db.labels" or "db.relationshipTypes")
     // Procedure names can have dots, so we parse identifier.identifier...
     let procedureName = this.expectIdentifier();
@@ -1767,6 +2054,296 @@ export class Parser {
     return { type: "CALL", procedure: procedureName, args, yields, where };
   }
 
+  private parseCallSubquery(): CallSubqueryClause {
+    this.expect("LBRACE");
+
+    this.subqueryDepth++;
+    let query: Query;
+    try {
+      query = this.parseQuery();
+    } finally {
+      this.subqueryDepth--;
+    }
+
+    if (query.clauses.length === 0) {
+      throw new Error("CALL subquery cannot be empty");
+    }
+    this.expect("RBRACE");
+
+    return { type: "CALL_SUBQUERY", query };
+  }
+
+  /**
+   * Parse LOAD CSV [WITH HEADERS] FROM url AS row [FIELDTERMINATOR ';']
+   */
+  private parseLoadCsv(): LoadCsvClause {
+    this.expect("KEYWORD", "LOAD");
+    this.expectWord("CSV");
+    
+    let withHeaders = false;
+    if (this.checkKeyword("WITH")) {
+      this.advance();
+      this.expectWord("HEADERS");
+      withHeaders = true;
+    }
+    
+    this.expectWord("FROM");
+    const url = this.parseExpression();
+    this.expect("KEYWORD", "AS");
+    const variable = this.expectIdentifier();
+    
+    const clause: LoadCsvClause = { type: "LOAD_CSV", withHeaders, url, variable };
+    
+    if (this.peek().value.toUpperCase() === "FIELDTERMINATOR") {
+      this.advance();
+      const terminator = this.expect("STRING").value;
+      if (terminator.length !== 1) {
+        throw new Error(`FIELDTERMINATOR must be a single character, got '${terminator}'`);
+      }
+      clause.fieldTerminator = terminator;
+    }
+    
+    return clause;
+  }
+  
+  /**
+   * The schema object after CREATE: CREATE [RANGE] INDEX or CREATE CONSTRAINT
+   */
+  private schemaObjectAfterCreate(): "INDEX" | "CONSTRAINT" | null {
+    const words = [this.tokens[this.pos + 1], this.tokens[this.pos + 2]].map((token) =>
+      token?.type === "IDENTIFIER" ? token.value.toUpperCase() : ""
+    );
+    if (words[0] === "INDEX" || (words[0] === "RANGE" && words[1] === "INDEX")) return "INDEX";
+    if (words[0] === "CONSTRAINT") return "CONSTRAINT";
+    return null;
+  }
+
+  /**
+   * CREATE [RANGE] INDEX [name] [IF NOT EXISTS] FOR (n:Label) ON (n.prop [, n.prop2])
+   * CREATE [RANGE] INDEX [name] [IF NOT EXISTS] FOR ()-[r:TYPE]-() ON (r.prop [, r.prop2])
+   */
+  private parseCreateIndex(): CreateIndexClause {
+    this.expect("KEYWORD", "CREATE");
+    if (this.peek().value.toUpperCase() === "RANGE") {
+      this.advance();
+    }
+    this.expectWord("INDEX");
+
+    const { name, ifNotExists } = this.parseSchemaNameAndIfNotExists();
+    const { entityType, variable, labelOrType } = this.parseSchemaEntity();
+
+    this.expect("KEYWORD", "ON");
+    this.expect("LPAREN");
+    const properties = this.parseSchemaProperties(variable);
+    this.expect("RPAREN");
+
+    return { type: "CREATE_INDEX", ...(name !== undefined && { name }), ifNotExists, entityType, variable, labelOrType, properties };
+  }
+
+  /**
+   * CREATE CONSTRAINT [name] [IF NOT EXISTS] FOR (n:Label) REQUIRE n.prop IS UNIQUE
+   * ... REQUIRE (n.prop, n.prop2) IS UNIQUE
+   * ... REQUIRE n.prop IS NOT NULL
+   * ... REQUIRE (n.prop, n.prop2) IS NODE KEY
+   * and the same FOR ()-[r:TYPE]-() with IS [RELATIONSHIP] UNIQUE / IS RELATIONSHIP KEY
+   */
+  private parseCreateConstraint(): CreateConstraintClause {
+    this.expect("KEYWORD", "CREATE");
+    this.expectWord("CONSTRAINT");
+
+    const { name, ifNotExists } = this.parseSchemaNameAndIfNotExists();
+    const { entityType, variable, labelOrType } = this.parseSchemaEntity();
+
+    this.expectWord("REQUIRE");
+    let properties: string[];
+    if (this.check("LPAREN")) {
+      this.advance();
+      properties = this.parseSchemaProperties(variable);
+      this.expect("RPAREN");
+    } else {
+      properties = this.parseSchemaProperties(variable, false);
+    }
+
+    this.expect("KEYWORD", "IS");
+    let kind: CreateConstraintClause["kind"];
+    if (this.checkKeyword("NOT")) {
+      this.advance();
+      this.expect("KEYWORD", "NULL");
+      kind = "NOT_NULL";
+    } else {
+      // Optional NODE / RELATIONSHIP qualifier, which must match the pattern
+      const qualifier = this.peek().value.toUpperCase();
+      if (qualifier === "NODE" || qualifier === "RELATIONSHIP") {
+        if ((qualifier === "NODE") !== (entityType === "NODE")) {
+          throw new Error(`'IS ${qualifier} ...' does not match the ${entityType === "NODE" ? "node" : "relationship"} pattern`);
+        }
+        this.advance();
+      }
+      const word = this.peek().value.toUpperCase();
+      if (word !== "UNIQUE" && word !== "KEY") {
+        throw new Error(`Expected UNIQUE, KEY or NOT NULL, got ${this.peek().type} '${this.peek().value}'`);
+      }
+      this.advance();
+      kind = word;
+    }
+
+    if (kind === "NOT_NULL" && properties.length > 1) {
+      throw new Error("IS NOT NULL constraints apply to a single property");
+    }
+
+    return { type: "CREATE_CONSTRAINT", ...(name !== undefined && { name }), ifNotExists, kind, entityType, variable, labelOrType, properties };
+  }
+
+  /**
+   * Optional name and IF NOT EXISTS of CREATE INDEX / CREATE CONSTRAINT
+   */
+  private parseSchemaNameAndIfNotExists(): { name?: string; ifNotExists: boolean } {
+    // The name is optional: FOR ( or IF NOT EXISTS start the rest of the command
+    let name: string | undefined;
+    const next = this.peek();
+    const startsFor = next.value.toUpperCase() === "FOR" && this.tokens[this.pos + 1]?.type === "LPAREN";
+    const startsIf = next.value.toUpperCase() === "IF" && this.tokens[this.pos + 1]?.value === "NOT";
+    if (!startsFor && !startsIf) {
+      name = this.expectIdentifier();
+    }
+
+    let ifNotExists = false;
+    if (this.peek().value.toUpperCase() === "IF") {
+      this.advance();
+      this.expect("KEYWORD", "NOT");
+      this.expect("KEYWORD", "EXISTS");
+      ifNotExists = true;
+    }
+
+    return { ...(name !== undefined && { name }), ifNotExists };
+  }
+
+  /**
+   * FOR (n:Label) or FOR ()-[r:TYPE]-(), in either direction
+   */
+  private parseSchemaEntity(): { entityType: "NODE" | "RELATIONSHIP"; variable: string; labelOrType: string } {
+    this.expectWord("FOR");
+    this.expect("LPAREN");
+
+    if (!this.check("RPAREN")) {
+      const variable = this.expectIdentifier();
+      this.expect("COLON");
+      const labelOrType = this.expectIdentifierOrKeyword();
+      this.expect("RPAREN");
+      return { entityType: "NODE", variable, labelOrType };
+    }
+
+    this.advance();
+    if (this.check("ARROW_LEFT")) this.advance();
+    else this.expect("DASH");
+    this.expect("LBRACKET");
+    const variable = this.expectIdentifier();
+    this.expect("COLON");
+    const labelOrType = this.expectIdentifierOrKeyword();
+    this.expect("RBRACKET");
+    if (this.check("ARROW_RIGHT")) this.advance();
+    else this.expect("DASH");
+    this.expect("LPAREN");
+    this.expect("RPAREN");
+    return { entityType: "RELATIONSHIP", variable, labelOrType };
+  }
+
+  /**
+   * Property list of a schema command: n.prop [, n.prop2], all on the pattern variable
+   */
+  private parseSchemaProperties(variable: string, allowList: boolean = true): string[] {
+    const properties: string[] = [];
+    do {
+      if (properties.length > 0) this.advance(); // consume comma
+      const owner = this.expectIdentifier();
+      if (owner !== variable) {
+        throw new Error(`Schema properties must belong to '${variable}', got '${owner}'`);
+      }
+      this.expect("DOT");
+      properties.push(this.expectIdentifierOrKeyword());
+    } while (allowList && this.check("COMMA"));
+
+    if (new Set(properties).size !== properties.length) {
+      throw new Error("Schema properties must be distinct");
+    }
+    return properties;
+  }
+
+  /**
+   * DROP INDEX name [IF EXISTS] / DROP CONSTRAINT name [IF EXISTS]
+   */
+  private parseDrop(): DropIndexClause | DropConstraintClause {
+    this.expectWord("DROP");
+    const object = this.peek().value.toUpperCase();
+    if (object !== "INDEX" && object !== "CONSTRAINT") {
+      throw new Error(`Expected INDEX or CONSTRAINT after DROP, got ${this.peek().type} '${this.peek().value}'`);
+    }
+    this.advance();
+    const name = this.expectIdentifier();
+
+    let ifExists = false;
+    if (this.peek().value.toUpperCase() === "IF") {
+      this.advance();
+      this.expect("KEYWORD", "EXISTS");
+      ifExists = true;
+    }
+
+    return object === "INDEX"
+      ? { type: "DROP_INDEX", name, ifExists }
+      : { type: "DROP_CONSTRAINT", name, ifExists };
+  }
+
+  /**
+   * SHOW [RANGE] INDEX[ES] / SHOW [ALL] CONSTRAINT[S]
+   */
+  private parseShow(): ShowIndexesClause | ShowConstraintsClause {
+    this.expectWord("SHOW");
+    const qualifier = this.peek().value.toUpperCase();
+    if (qualifier === "RANGE" || qualifier === "ALL") {
+      this.advance();
+    }
+    const word = this.peek().value.toUpperCase();
+    if (word === "INDEX" || word === "INDEXES") {
+      this.advance();
+      return { type: "SHOW_INDEXES" };
+    }
+    if (word === "CONSTRAINT" || word === "CONSTRAINTS") {
+      this.advance();
+      return { type: "SHOW_CONSTRAINTS" };
+    }
+    throw new Error(`Expected INDEXES or CONSTRAINTS after SHOW, got ${this.peek().type} '${this.peek().value}'`);
+  }
+
+  private parseForeach(): ForeachClause {
+    this.expect("KEYWORD", "FOREACH");
+    this.expect("LPAREN");
+
+    const variable = this.expectIdentifier();
+    this.expect("KEYWORD", "IN");
+    const expression = this.parseExpression();
+    this.expect("PIPE");
+
+    // The body may only contain updating clauses (including nested FOREACH)
+    const clauses: Clause[] = [];
+    while (!this.check("RPAREN")) {
+      const token = this.peek();
+      if (token.type === "EOF") {
+        throw new Error("Expected ')' to close FOREACH");
+      }
+      if (token.type !== "KEYWORD" || !FOREACH_BODY_KEYWORDS.has(token.value)) {
+        throw new Error(`Invalid use of '${token.value}' inside FOREACH, only CREATE, MERGE, SET, DELETE, REMOVE and FOREACH are allowed`);
+      }
+      clauses.push(this.parseClause()!);
+    }
+    this.expect("RPAREN");
+
+    if (clauses.length === 0) {
+      throw new Error("FOREACH requires at least one update clause");
+    }
+
+    return { type: "FOREACH", variable, expression, clauses };
+  }
+
   /**
    * Parse a pattern, which can be a single node or a chain of relationships.
    * For chained patterns like (a)-[:R1]->(b)-[:R2]->(c), this returns multiple
@@ -1844,15 +2421,11 @@ export class Parser {
       pattern.variable = this.advance().value;
     }
 
-    // Labels (can be multiple: :A:B:C)
+    // Labels: :A, :A:B (all of them) or a label expression such as :A|B, :!A, :%
     if (this.check("COLON")) {
-      const labels: string[] = [];
-      while (this.check("COLON")) {
-        this.advance(); // consume ":"
-        labels.push(this.expectLabelOrType());
-      }
-      // Store as array if multiple labels, string if single (for backward compatibility)
-      pattern.label = labels.length === 1 ? labels[0] : labels;
+      this.advance(); // consume ":"
+      // Stored as string if single, array if a conjunction of labels (for backward compatibility)
+      pattern.label = nodeLabelFromExpression(this.parseLabelExpression());
     }
 
     // Properties
@@ -1887,26 +2460,11 @@ export class Parser {
         edge.variable = this.advance().value;
       }
 
-      // Type (can be identifier or keyword, or multiple types separated by |)
+      // Type (can be identifier or keyword, multiple types separated by |, or a type expression)
       if (this.check("COLON")) {
         this.advance();
-        const firstType = this.expectLabelOrType();
-        
-        // Check for multiple types: [:TYPE1|TYPE2|TYPE3] or [:TYPE1|:TYPE2]
-        if (this.check("PIPE")) {
-          const types = [firstType];
-          while (this.check("PIPE")) {
-            this.advance();
-            // Some Cypher dialects allow :TYPE after the pipe, consume the optional colon
-            if (this.check("COLON")) {
-              this.advance();
-            }
-            types.push(this.expectLabelOrType());
-          }
-          edge.types = types;
-        } else {
-          edge.type = firstType;
-        }
+        // Multiple types: [:TYPE1|TYPE2|TYPE3] or [:TYPE1|:TYPE2]
+        Object.assign(edge, edgeTypeFromExpression(this.parseLabelExpression()));
       }
 
       // Variable-length pattern: *[min]..[max] or *n or *
@@ -1940,6 +2498,75 @@ export class Parser {
     return edge;
   }
 
+  /**
+   * Parse a label or relationship type expression after its colon.
+   * Precedence from lowest: | (or), & or : (and), ! (not); % is any label; parentheses group.
+   */
+  private parseLabelExpression(): LabelExpression {
+    const operands = [this.parseLabelConjunction()];
+    while (this.check("PIPE")) {
+      this.advance();
+      // Some Cypher dialects allow :TYPE after the pipe, consume the optional colon
+      if (this.check("COLON")) {
+        this.advance();
+      }
+      operands.push(this.parseLabelConjunction());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  private parseLabelConjunction(): LabelExpression {
+    const operands = [this.parseLabelNegation()];
+    while (this.check("AMPERSAND") || this.check("COLON")) {
+      this.advance();
+      operands.push(this.parseLabelNegation());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  private parseLabelNegation(): LabelExpression {
+    if (this.check("BANG")) {
+      this.advance();
+      return { type: "not", operand: this.parseLabelNegation() };
+    }
+    if (this.check("PERCENT")) {
+      this.advance();
+      return { type: "wildcard" };
+    }
+    if (this.check("LPAREN")) {
+      this.advance();
+      const expr = this.parseLabelExpression();
+      this.expect("RPAREN");
+      return expr;
+    }
+    const dynamic = this.parseDynamicLabel();
+    if (dynamic) {
+      return { type: "dynamic", ...dynamic };
+    }
+    return { type: "label", name: this.expectLabelOrType() };
+  }
+
+  /**
+   * Dynamic labels or types: $(expr) and $all(expr) stand for all the labels expr holds,
+   * $any(expr) for any of them. The tokenizer reads `$(` as a parameter with an empty name.
+   */
+  private parseDynamicLabel(): { mode: "all" | "any"; expression: Expression } | null {
+    const token = this.peek();
+    const next = this.tokens[this.pos + 1];
+    if (token.type !== "PARAMETER" || next?.type !== "LPAREN") {
+      return null;
+    }
+    const name = token.value.toLowerCase();
+    if (name !== "" && name !== "all" && name !== "any") {
+      return null;
+    }
+    this.advance();
+    this.advance(); // consume "("
+    const expression = this.parseExpression();
+    this.expect("RPAREN");
+    return { mode: name === "any" ? "any" : "all", expression };
+  }
+
   private parseVariableLengthSpec(edge: EdgePattern): void {
     // Patterns:
     // *       -> min=1, max=undefined (any length >= 1)
@@ -2249,8 +2876,8 @@ export class Parser {
    }
 
    private parsePrimaryCondition(): WhereCondition {
-     // Handle EXISTS pattern
-     if (this.checkKeyword("EXISTS")) {
+     // Handle EXISTS pattern (EXISTS { ... } subqueries are parsed as expressions)
+     if (this.checkKeyword("EXISTS") && this.tokens[this.pos + 1]?.type !== "LBRACE") {
        return this.parseExistsCondition();
      }
 
@@ -2391,9 +3018,10 @@ export class Parser {
 
     // Comparison operators - handle chained comparisons like 1 < n.num < 3
     const opToken = this.peek();
-    let operator: "=" | "<>" | "<" | ">" | "<=" | ">=" | undefined;
-
+    let operator: "=" | "<>" | "<" | ">" | "<=" | ">=" | "=~" | undefined;
+    
     if (opToken.type === "EQUALS") operator = "=";
+    else if (opToken.type === "REGEX_MATCH") operator = "=~";
     else if (opToken.type === "NOT_EQUALS") operator = "<>";
     else if (opToken.type === "LT") operator = "<";
     else if (opToken.type === "GT") operator = ">";
@@ -2528,9 +3156,10 @@ export class Parser {
 
     // Check for comparison operators
     const opToken = this.peek();
-    let comparisonOperator: "=" | "<>" | "<" | ">" | "<=" | ">=" | undefined;
-
+    let comparisonOperator: "=" | "<>" | "<" | ">" | "<=" | ">=" | "=~" | undefined;
+    
     if (opToken.type === "EQUALS") comparisonOperator = "=";
+    else if (opToken.type === "REGEX_MATCH") comparisonOperator = "=~";
     else if (opToken.type === "NOT_EQUALS") comparisonOperator = "<>";
     else if (opToken.type === "LT") comparisonOperator = "<";
     else if (opToken.type === "GT") comparisonOperator = ">";
@@ -2920,6 +3549,15 @@ export class Parser {
       return this.parseCaseExpression();
     }
 
+    // Subquery expressions: EXISTS { ... }, COUNT { ... }, COLLECT { ... }
+    if (
+      (token.type === "KEYWORD" || token.type === "IDENTIFIER") &&
+      ["EXISTS", "COUNT", "COLLECT"].includes(token.value.toUpperCase()) &&
+      this.tokens[this.pos + 1]?.type === "LBRACE"
+    ) {
+      return this.parseSubqueryExpression();
+    }
+
     // Function call: COUNT(x), id(x), count(DISTINCT x), COUNT(*)
     // Also handles list predicates: ALL(x IN list WHERE cond), ANY(...), NONE(...), SINGLE(...)
     if (token.type === "KEYWORD" || token.type === "IDENTIFIER") {
@@ -2947,6 +3585,11 @@ export class Parser {
             }
           }
         }
+
+        // reduce(acc = init, x IN list | expr)
+        if (functionName === "REDUCE" && this.check("IDENTIFIER") && this.tokens[this.pos + 1]?.type === "EQUALS") {
+          return this.parseReduce();
+        }
         
         const args: Expression[] = [];
         
@@ -3069,12 +3712,111 @@ export class Parser {
         return { type: "property", variable, property };
       }
 
+      // Map projection: n {.name, .age}
+      if (tok.type === "IDENTIFIER" && this.check("LBRACE")) {
+        return this.parseMapProjection(variable);
+      }
+
       return { type: "variable", variable };
     }
 
     throw new Error(`Expected expression, got ${token.type} '${token.value}'`);
   }
 
+  /**
+   * Parse EXISTS { ... }, COUNT { ... } or COLLECT { ... }. The body is either a pattern with
+   * an optional WHERE, e.g. COUNT { (a)-[:KNOWS]->() }, or a query, e.g. COLLECT { MATCH ... RETURN x }.
+   */
+  private parseSubqueryExpression(): Expression {
+    const subqueryType = this.advance().value.toUpperCase() as "EXISTS" | "COUNT" | "COLLECT";
+    this.expect("LBRACE");
+
+    let query: Query;
+    if (this.check("LPAREN") || (this.check("IDENTIFIER") && this.tokens[this.pos + 1]?.type === "EQUALS")) {
+      query = { clauses: [this.parseMatchPatterns()] };
+    } else {
+      this.subqueryDepth++;
+      try {
+        query = this.parseQuery();
+      } finally {
+        this.subqueryDepth--;
+      }
+    }
+
+    if (query.clauses.length === 0) {
+      throw new Error(`${subqueryType} subquery cannot be empty`);
+    }
+    this.expect("RBRACE");
+
+    if (subqueryType === "COLLECT") {
+      const last = query.clauses[query.clauses.length - 1];
+      if (last.type !== "RETURN" || last.items.length !== 1) {
+        throw new Error("COLLECT subquery must end with a RETURN of exactly one column");
+      }
+    }
+
+    return { type: "subquery", subqueryType, query };
+  }
+
+  /**
+   * Parse a map projection after its variable has been consumed.
+   * Syntax: variable {.property, .*, key: expression, otherVariable}
+   */
+  private parseMapProjection(variable: string): Expression {
+    this.expect("LBRACE");
+    const projections: MapProjectionItem[] = [];
+
+    if (!this.check("RBRACE")) {
+      do {
+        if (projections.length > 0) {
+          this.expect("COMMA");
+        }
+
+        if (this.check("DOT")) {
+          this.advance();
+          if (this.check("STAR")) {
+            this.advance();
+            projections.push({ type: "allProperties" });
+          } else {
+            projections.push({ type: "property", key: this.expectIdentifierOrKeyword() });
+          }
+          continue;
+        }
+
+        const key = this.expectIdentifierOrKeyword();
+        if (this.check("COLON")) {
+          this.advance();
+          projections.push({ type: "literal", key, value: this.parseReturnExpression() });
+        } else {
+          projections.push({ type: "variable", key });
+        }
+      } while (this.check("COMMA"));
+    }
+
+    this.expect("RBRACE");
+    return { type: "mapProjection", variable, projections };
+  }
+
+  /**
+   * Parse reduce() after "reduce(" has been consumed.
+   * Syntax: reduce(accumulator = initialValue, variable IN listExpr | mapExpr)
+   */
+  private parseReduce(): Expression {
+    const accumulator = this.advance().value;
+    this.expect("EQUALS");
+    const initialValue = this.parseExpression();
+    this.expect("COMMA");
+
+    const variable = this.expectIdentifierOrKeyword();
+    this.expect("KEYWORD", "IN");
+    const listExpr = this.parseExpression();
+    this.expect("PIPE");
+    const mapExpr = this.parseExpression();
+    this.expect("RPAREN");
+
+    return { type: "reduce", accumulator, initialValue, variable, listExpr, mapExpr };
+  }
+
   private parseCaseExpression(): Expression {
     this.expect("KEYWORD", "CASE");
     
@@ -3360,6 +4102,17 @@ export class Parser {
     return this.advance();
   }
 
+  /**
+   * Expect a word that is only a keyword in one clause (e.g. CSV, HEADERS, FROM)
+   */
+  private expectWord(word: string): void {
+    const token = this.peek();
+    if ((token.type !== "IDENTIFIER" && token.type !== "KEYWORD") || token.value.toUpperCase() !== word) {
+      throw new Error(`Expected '${word}', got ${token.type} '${token.value}'`);
+    }
+    this.advance();
+  }
+  
   private expectIdentifier(): string {
     const token = this.peek();
     if (token.type !== "IDENTIFIER") {
@@ -3395,3 +4148,130 @@ export class Parser {
 export function parse(input: string): ParseResult {
   return new Parser().parse(input);
 }
+
+/**
+ * Check that a string is a valid label or relationship type name, as written without backticks.
+ * Used for label and type values that come from parameters rather than the query text.
+ */
+export function parseLabelOrType(input: string): string {
+  return new Parser().parseLabelOrType(input);
+}
+
+/**
+ * Convert a pattern property value to the equivalent expression, so that it can be
+ * evaluated or translated like any other expression
+ */
+export function propertyValueToExpression(value: PropertyValue): Expression {
+  if (typeof value !== "object" || value === null) {
+    return { type: "literal", value };
+  }
+  if (Array.isArray(value)) {
+    return { type: "function", functionName: "LIST", args: value.map(propertyValueToExpression) };
+  }
+  switch (value.type) {
+    case "parameter":
+      return { type: "parameter", name: value.name };
+    case "variable":
+      return { type: "variable", variable: value.name };
+    case "property":
+      return { type: "property", variable: value.variable, property: value.property };
+    case "binary":
+      return {
+        type: "binary",
+        operator: value.operator,
+        left: propertyValueToExpression(value.left),
+        right: propertyValueToExpression(value.right),
+      };
+    case "function":
+      return { type: "function", functionName: value.name, args: value.args.map(propertyValueToExpression) };
+    case "map":
+      return {
+        type: "object",
+        properties: Object.entries(value.properties).map(([key, v]) => ({ key, value: propertyValueToExpression(v) })),
+      };
+    default: {
+      // Some callers put parsed expressions into pattern properties
+      const expr = value as unknown as Expression;
+      if (typeof expr.type === "string") return expr;
+      throw new Error(`Cannot evaluate property value: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+export interface ScriptStatement {
+  cypher: string;
+  /** Offset, line and column of the statement's first token in the script */
+  position: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Split a script into statements at semicolons, skipping semicolons inside strings,
+ * backtick identifiers and comments. Statements with nothing but comments are dropped.
+ */
+export function splitStatements(script: string): ScriptStatement[] {
+  const statements: ScriptStatement[] = [];
+  let current: ScriptStatement | null = null;
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  const advance = (count: number) => {
+    for (let end = Math.min(i + count, script.length); i < end; i++) {
+      if (script[i] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+  };
+
+  while (i < script.length) {
+    const char = script[i];
+    const next = script[i + 1];
+
+    if (char === "/" && next === "/") {
+      const end = script.indexOf("\n", i);
+      advance((end === -1 ? script.length : end) - i);
+      continue;
+    }
+    if (char === "/" && next === "*") {
+      const end = script.indexOf("*/", i + 2);
+      advance((end === -1 ? script.length : end + 2) - i);
+      continue;
+    }
+    if (char === ";") {
+      if (current) {
+        statements.push({ ...current, cypher: script.slice(current.position, i) });
+        current = null;
+      }
+      advance(1);
+      continue;
+    }
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    if (!current) {
+      current = { cypher: "", position: i, line, column };
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      // Strings escape with a backslash, backtick identifiers by doubling (which reads as two quoted runs)
+      let end = i + 1;
+      while (end < script.length && script[end] !== char) {
+        end += char !== "`" && script[end] === "\\" ? 2 : 1;
+      }
+      advance(end + 1 - i);
+      continue;
+    }
+    advance(1);
+  }
+
+  if (current) {
+    statements.push({ ...current, cypher: script.slice(current.position) });
+  }
+  return statements;
+}
@@ -1,9 +1,12 @@
+import { isPoint } from "./spatial.js";
+
 export function isValidPropertyValue(value: unknown): boolean {
   if (value === null || value === undefined) return false;
 
   if (typeof value === "string") return true;
   if (typeof value === "boolean") return true;
   if (typeof value === "number") return Number.isFinite(value);
+  if (isPoint(value)) return true;
 
   if (Array.isArray(value)) {
     return value.every((item) => {
@@ -0,0 +1,79 @@
+// Cypher regular expressions (=~) follow java.util.regex semantics: the whole
+// string must match, and flags are given inline, e.g. '(?i)alice.*'.
+
+const MAX_CACHED_PATTERNS = 500;
+const compiledPatterns = new Map<string, RegExp>();
+
+const JAVA_FLAGS: Record<string, string> = { i: "i", s: "s", m: "m", u: "", d: "" };
+
+/**
+ * Translate a Java regex into an anchored JavaScript RegExp.
+ * Supports leading inline flag groups, \Q...\E quoting and the \A, \z and \Z anchors.
+ */
+export function compileCypherRegex(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  let source = pattern;
+  const flags = new Set<string>();
+
+  // Leading inline flags: (?i), (?is), (?i)(?s)
+  let flagGroup = /^\(\?([a-zA-Z]+)\)/.exec(source);
+  while (flagGroup) {
+    for (const flag of flagGroup[1]) {
+      if (!(flag in JAVA_FLAGS)) {
+        throw new Error(`Invalid Regex: unsupported inline flag '${flag}' in '${pattern}'`);
+      }
+      if (JAVA_FLAGS[flag]) flags.add(JAVA_FLAGS[flag]);
+    }
+    source = source.slice(flagGroup[0].length);
+    flagGroup = /^\(\?([a-zA-Z]+)\)/.exec(source);
+  }
+
+  let translated = "";
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char !== "\\" || i + 1 >= source.length) {
+      translated += char;
+      continue;
+    }
+    const next = source[++i];
+    if (next === "Q") {
+      // \Q...\E quotes everything in between
+      const end = source.indexOf("\\E", i + 1);
+      const quoted = end === -1 ? source.slice(i + 1) : source.slice(i + 1, end);
+      translated += quoted.replace(/[.*+?^${}()|[\]\\\/-]/g, "\\$&");
+      i = end === -1 ? source.length : end + 1;
+    } else if (next === "A") {
+      translated += "(?<![\\s\\S])";
+    } else if (next === "z") {
+      translated += "(?![\\s\\S])";
+    } else if (next === "Z") {
+      translated += "(?=\\n?(?![\\s\\S]))";
+    } else {
+      translated += char + next;
+    }
+  }
+
+  let regex: RegExp;
+  try {
+    // Lookarounds instead of ^/$ so the anchoring is unaffected by the m flag
+    regex = new RegExp(`(?<![\\s\\S])(?:${translated})(?![\\s\\S])`, [...flags].join(""));
+  } catch (err) {
+    throw new Error(`Invalid Regex: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+    compiledPatterns.delete(compiledPatterns.keys().next().value!);
+  }
+  compiledPatterns.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Evaluate `value =~ pattern`. Returns null when either side is null or not a string.
+ */
+export function cypherRegexMatch(value: unknown, pattern: unknown): boolean | null {
+  if (typeof value !== "string" || typeof pattern !== "string") return null;
+  return compileCypherRegex(pattern).test(value);
+}
@@ -5,8 +5,11 @@ import type {
   LeanGraphClient,
   LeanGraphOptions,
   QueryResponse,
+  ScriptResponse,
   HealthResponse,
   NodeResult,
+  QueryOptions,
+  Transaction,
 } from "./types.js";
 import { LeanGraphError } from "./types.js";
 
@@ -25,53 +28,243 @@ export function createRemoteClient(options: LeanGraphOptions = {}): LeanGraphCli
   // Normalize URL (remove trailing slash)
   const url = rawUrl.replace(/\/$/, "");
 
+  function request(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (apiKey) {
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    return fetch(`${url}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async function post<R>(path: string, body: unknown, signal?: AbortSignal): Promise<R> {
+    try {
+      const response = await request(path, body, signal);
+      return (await response.json()) as R;
+    } catch (error) {
+      throw signal?.aborted ? cancelledError() : error;
+    }
+  }
+
+  // The time limit goes to the server, which stops the query; the signal aborts the request
+  function queryBody(body: Record<string, unknown>, queryOptions: QueryOptions): Record<string, unknown> {
+    const timeoutMs = queryOptions.timeoutMs ?? options.timeoutMs;
+    return timeoutMs === undefined ? body : { ...body, timeoutMs };
+  }
+
+  function cancelledError(): LeanGraphError {
+    return new LeanGraphError("Query was cancelled", { code: "QUERY_CANCELLED" });
+  }
+
+  function queryError(error: QueryResponse["error"]): LeanGraphError {
+    return new LeanGraphError(error?.message || "Query failed", {
+      position: error?.position,
+      line: error?.line,
+      column: error?.column,
+      code: error?.code,
+    });
+  }
+
+  async function queryAt<T>(
+    path: string,
+    cypher: string,
+    params: Record<string, unknown>,
+    queryOptions: QueryOptions
+  ): Promise<QueryResponse<T>> {
+    const data = await post<QueryResponse<T>>(path, queryBody({ cypher, params }, queryOptions), queryOptions.signal);
+
+    if (!data.success || data.error) {
+      throw queryError(data.error);
+    }
+
+    return data;
+  }
+
   return {
     async query<T = Record<string, unknown>>(
       cypher: string,
-      params: Record<string, unknown> = {}
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
     ): Promise<T[]> {
-      const response = await this.queryRaw<T>(cypher, params);
+      const response = await this.queryRaw<T>(cypher, params, options);
       return response.data;
     },
 
     async queryRaw<T = Record<string, unknown>>(
       cypher: string,
-      params: Record<string, unknown> = {}
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
     ): Promise<QueryResponse<T>> {
-      const endpoint = `${url}/query/${project}`;
+      return queryAt<T>(`/query/${project}`, cypher, params, options);
+    },
 
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
+    async *stream<T = Record<string, unknown>>(
+      cypher: string,
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
+    ): AsyncIterable<T> {
+      const { signal } = options;
+      let response: Response;
+      try {
+        response = await request(`/query/${project}/stream`, queryBody({ cypher, params }, options), signal);
+      } catch (error) {
+        throw signal?.aborted ? cancelledError() : error;
+      }
+      if (!response.ok || !response.body) {
+        const data = (await response.json()) as QueryResponse<T>;
+        throw queryError(data.error);
+      }
+
+      // One JSON object per line: {row} for each row, then {summary}, or {error} if the query fails
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      try {
+        for (;;) {
+          const { done, value } = await reader.read().catch((error) => {
+            throw signal?.aborted ? cancelledError() : error;
+          });
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split("\n");
+          buffered = lines.pop()!;
 
-      if (apiKey) {
-        headers["Authorization"] = `Bearer ${apiKey}`;
+          for (const line of lines) {
+            if (!line) continue;
+            const message = JSON.parse(line) as { row?: T; summary?: unknown; error?: QueryResponse["error"] };
+            if (message.error) throw queryError(message.error);
+            if (message.summary) return;
+            yield message.row as T;
+          }
+        }
+      } finally {
+        // Stops the server reading rows when the caller breaks out early
+        await reader.cancel().catch(() => {
+          // Already closed by an aborted signal
+        });
       }
+      throw new LeanGraphError("Query stream ended unexpectedly");
+    },
 
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ cypher, params }),
-      });
+    async execute(
+      cypher: string,
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
+    ): Promise<void> {
+      await this.queryRaw(cypher, params, options);
+    },
 
-      const data = (await response.json()) as QueryResponse<T>;
+    async executeScript<T = Record<string, unknown>>(
+      script: string,
+      params: Record<string, unknown> = {},
+      options: QueryOptions = {}
+    ): Promise<ScriptResponse<T>> {
+      const data = await post<
+        ScriptResponse<T> & {
+          error?: { message: string; statement?: number; position?: number; line?: number; column?: number; code?: string };
+        }
+      >(`/script/${project}`, queryBody({ script, params }, options), options.signal);
 
       if (!data.success || data.error) {
-        throw new LeanGraphError(data.error?.message || "Query failed", {
-          position: data.error?.position,
-          line: data.error?.line,
-          column: data.error?.column,
-        });
+        throw new LeanGraphError(data.error?.message || "Script failed", data.error);
       }
 
       return data;
     },
 
-    async execute(
-      cypher: string,
-      params: Record<string, unknown> = {}
-    ): Promise<void> {
-      await this.queryRaw(cypher, params);
+    async transaction<R>(work: (tx: Transaction) => Promise<R>): Promise<R> {
+      const tx = await this.beginTransaction();
+      let result: R;
+      try {
+        result = await work(tx);
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+      await tx.commit();
+      return result;
+    },
+
+    async beginTransaction(): Promise<Transaction> {
+      const begun = await post<{ success: boolean; data?: { id: string }; error?: { message: string } }>(
+        `/tx/${project}`,
+        {}
+      );
+      if (!begun.success || !begun.data) {
+        throw new LeanGraphError(begun.error?.message || "Could not begin transaction");
+      }
+
+      // The server rolls the transaction back when a query fails or it is idle for too long
+      const path = `/tx/${project}/${begun.data.id}`;
+      let open = true;
+
+      async function inTransaction<T>(
+        cypher: string,
+        params: Record<string, unknown>,
+        queryOptions: QueryOptions
+      ): Promise<QueryResponse<T>> {
+        if (!open) throw new LeanGraphError("Transaction is no longer open");
+        try {
+          return await queryAt<T>(`${path}/query`, cypher, params, queryOptions);
+        } catch (error) {
+          open = false;
+          throw error;
+        }
+      }
+
+      async function end(action: "commit" | "rollback"): Promise<void> {
+        open = false;
+        const data = await post<{ success: boolean; error?: { message: string } }>(`${path}/${action}`, {});
+        if (!data.success) {
+          throw new LeanGraphError(data.error?.message || `Could not ${action} transaction`);
+        }
+      }
+
+      return {
+        async query<T = Record<string, unknown>>(
+          cypher: string,
+          params: Record<string, unknown> = {},
+          options: QueryOptions = {}
+        ): Promise<T[]> {
+          return (await inTransaction<T>(cypher, params, options)).data;
+        },
+
+        async queryRaw<T = Record<string, unknown>>(
+          cypher: string,
+          params: Record<string, unknown> = {},
+          options: QueryOptions = {}
+        ): Promise<QueryResponse<T>> {
+          return inTransaction<T>(cypher, params, options);
+        },
+
+        async execute(cypher: string, params: Record<string, unknown> = {}, options: QueryOptions = {}): Promise<void> {
+          await inTransaction(cypher, params, options);
+        },
+
+        async commit(): Promise<void> {
+          if (!open) throw new LeanGraphError("Transaction is no longer open");
+          await end("commit");
+        },
+
+        async rollback(): Promise<void> {
+          if (!open) return;
+          await end("rollback").catch(() => {
+            // Already rolled back by the server, such as after its idle timeout
+          });
+        },
+      };
     },
 
     async createNode(
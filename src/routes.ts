@@ -1,10 +1,12 @@
 // HTTP Routes using Hono
 
-import { Hono } from "hono";
-import { DatabaseManager, GraphDatabase } from "./db.js";
+import { Context, Hono } from "hono";
+import { DatabaseManager, GraphDatabase, QueryInterruptedError, QueryLimits, queryTimeout } from "./db.js";
 import { Executor, QueryResponse } from "./executor.js";
 import { BackupManager, BackupStatus } from "./backup.js";
 import { ApiKeyStore, authMiddleware } from "./auth.js";
+import { TransactionManager, OpenTransaction } from "./transactions.js";
+import { neo4jError, neo4jResult, Neo4jError, Neo4jResult, ResultDataContent } from "./neo4j.js";
 
 // ============================================================================
 // Types
@@ -13,24 +15,74 @@ import { ApiKeyStore, authMiddleware } from "./auth.js";
 export interface QueryRequest {
   cypher: string;
   params?: Record<string, unknown>;
+  /** Time limit in ms, lowering the server's query timeout */
+  timeoutMs?: number;
+}
+
+export interface ScriptRequest {
+  script: string;
+  params?: Record<string, unknown>;
+  /** Time limit in ms for the whole script, lowering the server's query timeout */
+  timeoutMs?: number;
+}
+
+export interface Neo4jStatement {
+  statement: string;
+  parameters?: Record<string, unknown>;
+  resultDataContents?: ResultDataContent[];
+}
+
+export interface Neo4jTransactionRequest {
+  statements?: Neo4jStatement[];
 }
 
 export interface AppContext {
   dbManager: DatabaseManager;
 }
 
+// Rows per write when streaming query results
+const STREAM_BATCH_SIZE = 100;
+
+function isValidTimeout(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value > 0 && Number.isFinite(value));
+}
+
+const invalidTimeout = {
+  success: false,
+  error: { message: "Invalid 'timeoutMs' field; expected a positive number of milliseconds" },
+};
+
 // ============================================================================
 // Create App
 // ============================================================================
 
-export function createApp(
-  dbManager: DatabaseManager, 
-  dataPath?: string, 
-  backupManager?: BackupManager,
-  apiKeyStore?: ApiKeyStore
-): Hono {
+export interface AppOptions {
+  dataPath?: string;
+  backupManager?: BackupManager;
+  apiKeyStore?: ApiKeyStore;
+  importPath?: string; // Directory LOAD CSV reads from (disabled when unset)
+  transactionTimeoutMs?: number; // Idle time after which open transactions are rolled back (default 60s)
+  transactions?: TransactionManager; // Open transactions, e.g. shared with a Bolt server (created when unset)
+  queryTimeoutMs?: number; // Longest a query may run; requests can ask for less (no limit when unset)
+}
+
+export function createApp(dbManager: DatabaseManager, options: AppOptions = {}): Hono {
+  const {
+    dataPath,
+    backupManager,
+    apiKeyStore,
+    importPath,
+    transactionTimeoutMs = 60_000,
+    transactions = new TransactionManager({ idleTimeoutMs: transactionTimeoutMs }),
+    queryTimeoutMs,
+  } = options;
   const app = new Hono();
 
+  // Requests may ask for a shorter time limit than the server's, not a longer one
+  function queryLimits(timeoutMs?: number): QueryLimits {
+    return { timeoutMs: queryTimeout(timeoutMs, queryTimeoutMs) };
+  }
+
   // Add auth middleware if API key store is provided
   if (apiKeyStore && apiKeyStore.hasKeys()) {
     app.use("*", authMiddleware(apiKeyStore));
@@ -80,12 +132,154 @@ export function createApp(
       );
     }
 
-    // Get database for this project
+    if (!isValidTimeout(body.timeoutMs)) {
+      return c.json(invalidTimeout, 400);
+    }
+
+    // Get database for this project, once no transaction is open on it
     const db = dbManager.getDatabase(project);
+    await transactions.idle(db);
 
     // Execute query
-    const executor = new Executor(db);
-    const result = executor.execute(body.cypher, body.params || {});
+    const executor = new Executor(db, { importDirectory: importPath });
+    const result = executor.execute(body.cypher, body.params || {}, queryLimits(body.timeoutMs));
+
+    if (!result.success) {
+      return c.json(result, 400);
+    }
+
+    return c.json(result);
+  });
+
+  // Rows are written as they are read, one JSON object per line: {"row": {...}} for each row,
+  // then {"summary": {"count", "time_ms"}}, or {"error": {"message"}} if the query fails midway
+  app.post("/query/:project/stream", async (c) => {
+    const project = c.req.param("project");
+
+    let body: QueryRequest;
+    try {
+      body = await c.req.json<QueryRequest>();
+    } catch (e) {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Invalid JSON body" },
+        },
+        400
+      );
+    }
+
+    if (!body.cypher || typeof body.cypher !== "string") {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Missing or invalid 'cypher' field" },
+        },
+        400
+      );
+    }
+
+    if (!isValidTimeout(body.timeoutMs)) {
+      return c.json(invalidTimeout, 400);
+    }
+
+    // The database is held until the last row is sent or the client goes away
+    const db = dbManager.getDatabase(project);
+    const release = await transactions.hold(db);
+    const startTime = performance.now();
+
+    const executor = new Executor(db, { importDirectory: importPath });
+    const result = executor.stream(body.cypher, body.params || {}, queryLimits(body.timeoutMs));
+
+    if (!result.success) {
+      release();
+      return c.json(result, 400);
+    }
+
+    const { rows } = result;
+    const encoder = new TextEncoder();
+    let count = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        let lines = "";
+        let last: unknown;
+        try {
+          // Rows are sent in batches rather than one write per row
+          for (let i = 0; i < STREAM_BATCH_SIZE && last === undefined; i++) {
+            const next = rows.next();
+            if (next.done) {
+              last = { summary: { count, time_ms: Math.round((performance.now() - startTime) * 100) / 100 } };
+            } else {
+              count++;
+              lines += JSON.stringify({ row: next.value }) + "\n";
+            }
+          }
+        } catch (error) {
+          last = {
+            error: {
+              message: error instanceof Error ? error.message : String(error),
+              ...(error instanceof QueryInterruptedError && { code: error.code }),
+            },
+          };
+        }
+
+        if (last !== undefined) {
+          controller.enqueue(encoder.encode(lines + JSON.stringify(last) + "\n"));
+          controller.close();
+          release();
+        } else {
+          controller.enqueue(encoder.encode(lines));
+        }
+      },
+      cancel() {
+        rows.return?.();
+        release();
+      },
+    });
+
+    return c.body(stream, 200, { "Content-Type": "application/x-ndjson" });
+  });
+
+  // ============================================================================
+  // Script Endpoint
+  // ============================================================================
+
+  app.post("/script/:project", async (c) => {
+    const project = c.req.param("project");
+
+    let body: ScriptRequest;
+    try {
+      body = await c.req.json<ScriptRequest>();
+    } catch (e) {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Invalid JSON body" },
+        },
+        400
+      );
+    }
+
+    if (typeof body.script !== "string") {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Missing or invalid 'script' field" },
+        },
+        400
+      );
+    }
+
+    if (!isValidTimeout(body.timeoutMs)) {
+      return c.json(invalidTimeout, 400);
+    }
+
+    const db = dbManager.getDatabase(project);
+    await transactions.idle(db);
+
+    // All statements run in one transaction; a failure reports the statement and rolls back
+    const executor = new Executor(db, { importDirectory: importPath });
+    const result = executor.executeScript(body.script, body.params || {}, queryLimits(body.timeoutMs));
 
     if (!result.success) {
       return c.json(result, 400);
@@ -94,6 +288,283 @@ export function createApp(
     return c.json(result);
   });
 
+  // ============================================================================
+  // Transaction Endpoints
+  // ============================================================================
+
+  // Queries on the project wait while a transaction is open; it is rolled back
+  // when a query in it fails or when it is idle for transactionTimeoutMs
+  app.post("/tx/:project", async (c) => {
+    const db = dbManager.getDatabase(c.req.param("project"));
+    const transaction = await transactions.begin(db);
+
+    return c.json({
+      success: true,
+      data: {
+        id: transaction.id,
+        expires: new Date(transaction.expires!).toISOString(),
+      },
+    });
+  });
+
+  function openTransaction(project: string, id: string) {
+    const transaction = transactions.get(id);
+    return transaction && transaction.db === dbManager.getDatabase(project) ? transaction : undefined;
+  }
+
+  const transactionNotFound = {
+    success: false,
+    error: { message: "Transaction not found; it may have been committed, rolled back or timed out" },
+  };
+
+  app.post("/tx/:project/:id/query", async (c) => {
+    const transaction = openTransaction(c.req.param("project"), c.req.param("id"));
+    if (!transaction) {
+      return c.json(transactionNotFound, 404);
+    }
+
+    let body: QueryRequest;
+    try {
+      body = await c.req.json<QueryRequest>();
+    } catch (e) {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Invalid JSON body" },
+        },
+        400
+      );
+    }
+
+    if (!body.cypher || typeof body.cypher !== "string") {
+      return c.json(
+        {
+          success: false,
+          error: { message: "Missing or invalid 'cypher' field" },
+        },
+        400
+      );
+    }
+
+    if (!isValidTimeout(body.timeoutMs)) {
+      return c.json(invalidTimeout, 400);
+    }
+
+    const executor = new Executor(transaction.db, { importDirectory: importPath });
+    const result = executor.execute(body.cypher, body.params || {}, queryLimits(body.timeoutMs));
+
+    if (!result.success) {
+      transactions.rollback(transaction);
+      return c.json(result, 400);
+    }
+
+    return c.json(result);
+  });
+
+  app.post("/tx/:project/:id/commit", (c) => {
+    const transaction = openTransaction(c.req.param("project"), c.req.param("id"));
+    if (!transaction) {
+      return c.json(transactionNotFound, 404);
+    }
+
+    try {
+      transactions.commit(transaction);
+    } catch (error) {
+      return c.json(
+        {
+          success: false,
+          error: { message: error instanceof Error ? error.message : String(error) },
+        },
+        400
+      );
+    }
+
+    return c.json({ success: true });
+  });
+
+  app.post("/tx/:project/:id/rollback", (c) => {
+    const transaction = openTransaction(c.req.param("project"), c.req.param("id"));
+    if (!transaction) {
+      return c.json(transactionNotFound, 404);
+    }
+
+    transactions.rollback(transaction);
+    return c.json({ success: true });
+  });
+
+  // ============================================================================
+  // Neo4j HTTP API
+  // ============================================================================
+
+  // Neo4j's transactional endpoint, so Neo4j HTTP clients can use LeanGraph: {name} is the
+  // project. Statement errors are reported in the errors array with status 200, as Neo4j does,
+  // and roll back the transaction.
+
+  async function neo4jStatements(c: Context): Promise<Neo4jStatement[] | Neo4jError> {
+    let body: Neo4jTransactionRequest;
+    try {
+      const text = await c.req.text();
+      body = text.trim() ? JSON.parse(text) : {};
+    } catch (e) {
+      return { code: "Neo.ClientError.Request.InvalidFormat", message: "Invalid JSON body" };
+    }
+
+    const statements = body?.statements ?? [];
+    if (!Array.isArray(statements) || !statements.every((s) => s && typeof s.statement === "string")) {
+      return { code: "Neo.ClientError.Request.InvalidFormat", message: "Missing or invalid 'statements' field" };
+    }
+    return statements;
+  }
+
+  /**
+   * Run statements until one fails
+   */
+  function runNeo4jStatements(db: GraphDatabase, statements: Neo4jStatement[]) {
+    const results: Neo4jResult[] = [];
+    const errors: Neo4jError[] = [];
+    const executor = new Executor(db, { importDirectory: importPath });
+
+    for (const statement of statements) {
+      const params = statement.parameters ?? {};
+      const result = executor.execute(statement.statement, params, queryLimits());
+      if (!result.success) {
+        errors.push(neo4jError(result.error));
+        break;
+      }
+      results.push(neo4jResult(db, { cypher: statement.statement, params }, result.data, statement.resultDataContents));
+    }
+    return { results, errors };
+  }
+
+  function neo4jTransactionBody(c: Context, name: string, transaction: OpenTransaction) {
+    const url = `${new URL(c.req.url).origin}/db/${name}/tx/${transaction.id}`;
+    return {
+      url,
+      commit: `${url}/commit`,
+      transaction: { expires: new Date(transaction.expires ?? Date.now()).toUTCString() },
+    };
+  }
+
+  function neo4jTransaction(name: string, id: string) {
+    const transaction = transactions.get(id);
+    return transaction && transaction.db === dbManager.getDatabase(name) ? transaction : undefined;
+  }
+
+  const neo4jTransactionNotFound = {
+    results: [],
+    errors: [
+      {
+        code: "Neo.ClientError.Transaction.TransactionNotFound",
+        message: "Transaction not found; it may have been committed, rolled back or timed out",
+      },
+    ],
+  };
+
+  // Registered before /tx/:id so "commit" is not taken for a transaction id
+  app.post("/db/:name/tx/commit", async (c) => {
+    const statements = await neo4jStatements(c);
+    if (!Array.isArray(statements)) {
+      return c.json({ results: [], errors: [statements] }, 400);
+    }
+
+    const db = dbManager.getDatabase(c.req.param("name"));
+    await transactions.idle(db);
+
+    // Throwing out of the transaction rolls back the statements that ran before the error
+    const rollback = new Error("Statement failed");
+    let response!: ReturnType<typeof runNeo4jStatements>;
+    try {
+      db.transaction(() => {
+        response = runNeo4jStatements(db, statements);
+        if (response.errors.length > 0) throw rollback;
+      });
+    } catch (error) {
+      if (error !== rollback) throw error;
+    }
+
+    return c.json(response);
+  });
+
+  app.post("/db/:name/tx", async (c) => {
+    const statements = await neo4jStatements(c);
+    if (!Array.isArray(statements)) {
+      return c.json({ results: [], errors: [statements] }, 400);
+    }
+
+    const name = c.req.param("name");
+    const transaction = await transactions.begin(dbManager.getDatabase(name));
+    const response = runNeo4jStatements(transaction.db, statements);
+    if (response.errors.length > 0) {
+      transactions.rollback(transaction);
+      return c.json(response);
+    }
+
+    const { url, ...body } = neo4jTransactionBody(c, name, transaction);
+    c.header("Location", url);
+    return c.json({ ...body, ...response }, 201);
+  });
+
+  app.post("/db/:name/tx/:id", async (c) => {
+    const name = c.req.param("name");
+    const transaction = neo4jTransaction(name, c.req.param("id"));
+    if (!transaction) {
+      return c.json(neo4jTransactionNotFound, 404);
+    }
+
+    const statements = await neo4jStatements(c);
+    if (!Array.isArray(statements)) {
+      transactions.rollback(transaction);
+      return c.json({ results: [], errors: [statements] }, 400);
+    }
+
+    const response = runNeo4jStatements(transaction.db, statements);
+    if (response.errors.length > 0) {
+      transactions.rollback(transaction);
+      return c.json(response);
+    }
+
+    const { url, ...body } = neo4jTransactionBody(c, name, transaction);
+    return c.json({ ...body, ...response });
+  });
+
+  app.post("/db/:name/tx/:id/commit", async (c) => {
+    const transaction = neo4jTransaction(c.req.param("name"), c.req.param("id"));
+    if (!transaction) {
+      return c.json(neo4jTransactionNotFound, 404);
+    }
+
+    const statements = await neo4jStatements(c);
+    if (!Array.isArray(statements)) {
+      transactions.rollback(transaction);
+      return c.json({ results: [], errors: [statements] }, 400);
+    }
+
+    const response = runNeo4jStatements(transaction.db, statements);
+    if (response.errors.length > 0) {
+      transactions.rollback(transaction);
+      return c.json(response);
+    }
+
+    try {
+      transactions.commit(transaction);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.json({ results: response.results, errors: [neo4jError({ message })] });
+    }
+
+    return c.json(response);
+  });
+
+  app.delete("/db/:name/tx/:id", (c) => {
+    const transaction = neo4jTransaction(c.req.param("name"), c.req.param("id"));
+    if (!transaction) {
+      return c.json(neo4jTransactionNotFound, 404);
+    }
+
+    transactions.rollback(transaction);
+    return c.json({ results: [], errors: [] });
+  });
+
   // ============================================================================
   // Admin Endpoints
   // ============================================================================
@@ -119,10 +590,11 @@ export function createApp(
     });
   });
 
-  app.post("/admin/wipe/:project", (c) => {
+  app.post("/admin/wipe/:project", async (c) => {
     const project = c.req.param("project");
 
     const db = dbManager.getDatabase(project);
+    await transactions.idle(db);
 
     // Clear all data
     db.execute("DELETE FROM edges");
@@ -233,11 +705,22 @@ export interface ServerOptions {
   port?: number;
   dataPath?: string;
   backupPath?: string;
+  importPath?: string; // Directory LOAD CSV reads from (disabled when unset)
+  transactionTimeoutMs?: number; // Idle time after which open transactions are rolled back (default 60s)
+  queryTimeoutMs?: number; // Longest a query may run; requests can ask for less (no limit when unset)
   apiKeys?: Record<string, { project?: string; admin?: boolean }>;
 }
 
 export function createServer(options: ServerOptions = {}) {
-  const { port = 3000, dataPath = ":memory:", backupPath, apiKeys } = options;
+  const {
+    port = 3000,
+    dataPath = ":memory:",
+    backupPath,
+    importPath,
+    apiKeys,
+    transactionTimeoutMs = 60_000,
+    queryTimeoutMs,
+  } = options;
 
   const dbManager = new DatabaseManager(dataPath);
   const backupManager = backupPath ? new BackupManager(backupPath) : undefined;
@@ -249,13 +732,24 @@ export function createServer(options: ServerOptions = {}) {
     apiKeyStore.loadKeys(apiKeys);
   }
 
-  const app = createApp(dbManager, dataPath, backupManager, apiKeyStore);
+  // Shared with a Bolt server on the same databases (createBoltServer)
+  const transactions = new TransactionManager({ idleTimeoutMs: transactionTimeoutMs });
+  const app = createApp(dbManager, {
+    dataPath,
+    backupManager,
+    apiKeyStore,
+    importPath,
+    transactionTimeoutMs,
+    transactions,
+    queryTimeoutMs,
+  });
 
   return {
     app,
     dbManager,
     backupManager,
     apiKeyStore,
+    transactions,
     port,
     fetch: app.fetch,
   };
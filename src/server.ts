@@ -25,13 +25,21 @@ export { translate, Translator } from "./translator.js";
 export type { SqlStatement, TranslationResult } from "./translator.js";
 
 export { GraphDatabase, DatabaseManager } from "./db.js";
-export type { Node, Edge, NodeRow, EdgeRow, QueryResult } from "./db.js";
+export type { Node, Edge, NodeRow, EdgeRow, QueryResult, QueryPlanStep, StatementProfile } from "./db.js";
 
 export { Executor, executeQuery } from "./executor.js";
-export type { ExecutionResult, ExecutionError, QueryResponse } from "./executor.js";
+export type {
+  ExecutionResult,
+  ExecutionError,
+  QueryResponse,
+  ExecutorOptions,
+  QueryPlan,
+  PlannedStatement,
+  QueryPattern,
+} from "./executor.js";
 
 export { createApp, createServer } from "./routes.js";
-export type { QueryRequest, ServerOptions } from "./routes.js";
+export type { QueryRequest, AppOptions, ServerOptions } from "./routes.js";
 
 export { BackupManager } from "./backup.js";
 export type { BackupResult, BackupStatus, BackupAllOptions } from "./backup.js";
@@ -48,8 +56,9 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 
   const port = parseInt(process.env.PORT || "3000", 10);
   const dataPath = process.env.LEANGRAPH_DATA_PATH || "./data";
-
-  const { app, dbManager } = createServer({ port, dataPath });
+  const importPath = process.env.LEANGRAPH_IMPORT_PATH;
+  
+  const { app, dbManager } = createServer({ port, dataPath, importPath });
 
   console.log(`LeanGraph Server v${VERSION}`);
   console.log(`Starting on http://localhost:${port}`);
@@ -0,0 +1,214 @@
+// Spatial point values. Points are stored and returned in the GeoJSON-style form that
+// Neo4j's HTTP API uses, so they round-trip through JSON properties unchanged:
+// {"type":"Point","coordinates":[x,y],"crs":{"srid":7203,"name":"cartesian",...}}
+
+export interface CypherPoint {
+  type: "Point";
+  coordinates: number[];
+  crs: {
+    srid: number;
+    name: string;
+    type: "link";
+    properties: { href: string; type: "ogcwkt" };
+  };
+}
+
+interface CoordinateSystem {
+  srid: number;
+  name: string;
+  href: string;
+  geographic: boolean;
+  dimensions: 2 | 3;
+}
+
+const COORDINATE_SYSTEMS: CoordinateSystem[] = [
+  { srid: 7203, name: "cartesian", href: "http://spatialreference.org/ref/sr-org/7203/ogcwkt/", geographic: false, dimensions: 2 },
+  { srid: 9157, name: "cartesian-3d", href: "http://spatialreference.org/ref/sr-org/9157/ogcwkt/", geographic: false, dimensions: 3 },
+  { srid: 4326, name: "wgs-84", href: "http://spatialreference.org/ref/epsg/4326/ogcwkt/", geographic: true, dimensions: 2 },
+  { srid: 4979, name: "wgs-84-3d", href: "http://spatialreference.org/ref/epsg/4979/ogcwkt/", geographic: true, dimensions: 3 },
+];
+
+// Mean earth radius used by Neo4j for WGS-84 distances
+const EARTH_RADIUS_METERS = 6378140.0;
+
+function coordinateSystem(point: CypherPoint): CoordinateSystem {
+  return COORDINATE_SYSTEMS.find((crs) => crs.srid === point.crs.srid)!;
+}
+
+/**
+ * Parse a point from its object form or JSON text (as it comes out of SQLite).
+ * Returns null for anything that is not a point.
+ */
+export function asPoint(value: unknown): CypherPoint | null {
+  let candidate = value;
+  if (typeof value === "string") {
+    if (!value.startsWith("{")) return null;
+    try {
+      candidate = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof candidate !== "object" || candidate === null || Array.isArray(candidate)) return null;
+
+  const point = candidate as Partial<CypherPoint>;
+  if (point.type !== "Point" || !Array.isArray(point.coordinates) || typeof point.crs?.srid !== "number") return null;
+  const crs = COORDINATE_SYSTEMS.find((system) => system.srid === point.crs!.srid);
+  if (!crs || point.coordinates.length !== crs.dimensions) return null;
+  if (!point.coordinates.every((coordinate) => typeof coordinate === "number" && Number.isFinite(coordinate))) return null;
+  return point as CypherPoint;
+}
+
+export function isPoint(value: unknown): boolean {
+  return typeof value === "object" && asPoint(value) !== null;
+}
+
+function makePoint(crs: CoordinateSystem, coordinates: number[]): CypherPoint {
+  return {
+    type: "Point",
+    coordinates,
+    crs: { srid: crs.srid, name: crs.name, type: "link", properties: { href: crs.href, type: "ogcwkt" } },
+  };
+}
+
+/**
+ * point({x, y[, z]}) or point({longitude, latitude[, height]}), optionally with crs or srid.
+ * Returns null for a null map.
+ */
+export function createPoint(value: unknown): CypherPoint | null {
+  let map = value;
+  if (typeof value === "string") {
+    try {
+      map = JSON.parse(value);
+    } catch {
+      map = value;
+    }
+  }
+  if (map === null || map === undefined) return null;
+  if (typeof map !== "object" || Array.isArray(map)) {
+    throw new Error("Type mismatch: point() expects a map");
+  }
+
+  const entries = new Map(Object.entries(map as Record<string, unknown>).map(([key, v]) => [key.toLowerCase(), v]));
+  const geographicKeys = entries.has("longitude") || entries.has("latitude");
+  const first = geographicKeys ? entries.get("longitude") : entries.get("x");
+  const second = geographicKeys ? entries.get("latitude") : entries.get("y");
+  const third = geographicKeys ? entries.get("height") : entries.get("z");
+
+  if (first === null || first === undefined || second === null || second === undefined) {
+    throw new Error("A point must contain either 'x' and 'y' or 'latitude' and 'longitude'");
+  }
+  const coordinates = [first, second, ...(third === undefined || third === null ? [] : [third])];
+  if (!coordinates.every((coordinate) => typeof coordinate === "number" && Number.isFinite(coordinate))) {
+    throw new Error("Type mismatch: point coordinates must be numbers");
+  }
+
+  let crs: CoordinateSystem | undefined;
+  const crsName = entries.get("crs");
+  const srid = entries.get("srid");
+  if (crsName !== undefined && crsName !== null) {
+    crs = COORDINATE_SYSTEMS.find((system) => system.name === String(crsName).toLowerCase());
+    if (!crs) throw new Error(`Unknown coordinate reference system: ${crsName}`);
+  } else if (srid !== undefined && srid !== null) {
+    crs = COORDINATE_SYSTEMS.find((system) => system.srid === srid);
+    if (!crs) throw new Error(`Unknown coordinate reference system: ${srid}`);
+  } else {
+    crs = COORDINATE_SYSTEMS.find(
+      (system) => system.geographic === geographicKeys && system.dimensions === coordinates.length
+    );
+  }
+
+  if (!crs || crs.dimensions !== coordinates.length) {
+    throw new Error(`Cannot create point with ${coordinates.length} coordinates in coordinate reference system ${crs?.name}`);
+  }
+  if (crs.geographic && Math.abs(coordinates[1] as number) > 90) {
+    throw new Error(`Cannot create WGS84 point with invalid coordinate: [${coordinates.join(", ")}]`);
+  }
+
+  return makePoint(crs, coordinates as number[]);
+}
+
+/**
+ * Distance between two points in the same coordinate reference system: Euclidean for
+ * cartesian points, great-circle (haversine) meters for WGS-84 points, combined with the
+ * height difference for 3D points. Null if either point is null or the systems differ.
+ */
+export function pointDistance(a: unknown, b: unknown): number | null {
+  const p = asPoint(a);
+  const q = asPoint(b);
+  if (!p || !q || p.crs.srid !== q.crs.srid) return null;
+
+  if (!coordinateSystem(p).geographic) {
+    return Math.sqrt(p.coordinates.reduce((sum, coordinate, i) => sum + (coordinate - q.coordinates[i]) ** 2, 0));
+  }
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const [lon1, lat1] = p.coordinates.map(toRadians);
+  const [lon2, lat2] = q.coordinates.map(toRadians);
+  const h =
+    Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2;
+  const surface = 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+
+  if (p.coordinates.length === 3) {
+    return Math.sqrt(surface ** 2 + (p.coordinates[2] - q.coordinates[2]) ** 2);
+  }
+  return surface;
+}
+
+/**
+ * Whether a point lies within the box spanned by lowerLeft and upperRight (inclusive).
+ * For WGS-84, a lowerLeft longitude greater than the upperRight one means the box crosses
+ * the date line. Null if any point is null or the coordinate systems differ.
+ */
+export function pointWithinBBox(point: unknown, lowerLeft: unknown, upperRight: unknown): boolean | null {
+  const p = asPoint(point);
+  const low = asPoint(lowerLeft);
+  const high = asPoint(upperRight);
+  if (!p || !low || !high) return null;
+  if (p.crs.srid !== low.crs.srid || p.crs.srid !== high.crs.srid) return null;
+
+  return p.coordinates.every((coordinate, i) => {
+    const min = low.coordinates[i];
+    const max = high.coordinates[i];
+    if (i === 0 && coordinateSystem(p).geographic && min > max) {
+      return coordinate >= min || coordinate <= max;
+    }
+    return coordinate >= min && coordinate <= max;
+  });
+}
+
+/**
+ * Point accessors: x, y, z, longitude, latitude, height, srid and crs.
+ * Returns undefined when the value is not a point or has no such component.
+ */
+export function pointProperty(value: unknown, key: string): number | string | undefined {
+  const point = asPoint(value);
+  if (!point) return undefined;
+  const crs = coordinateSystem(point);
+
+  switch (key) {
+    case "x":
+      return point.coordinates[0];
+    case "y":
+      return point.coordinates[1];
+    case "z":
+      return point.coordinates[2];
+    case "longitude":
+      return crs.geographic ? point.coordinates[0] : undefined;
+    case "latitude":
+      return crs.geographic ? point.coordinates[1] : undefined;
+    case "height":
+      return crs.geographic ? point.coordinates[2] : undefined;
+    case "srid":
+      return crs.srid;
+    case "crs":
+      return crs.name;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Property names that are point accessors
+ */
+export const POINT_ACCESSORS = new Set(["x", "y", "z", "longitude", "latitude", "height", "srid", "crs"]);
@@ -0,0 +1,142 @@
+// Explicit transactions that span several queries. A database connection runs one explicit
+// transaction at a time: other work on the same database (and other transactions) waits
+// until it is committed or rolled back.
+
+import * as crypto from "crypto";
+import type { GraphDatabase } from "./db.js";
+
+export interface OpenTransaction {
+  id: string;
+  db: GraphDatabase;
+  /** When the transaction is rolled back unless it is used again (ms since epoch) */
+  expires?: number;
+  /** Resolves once the transaction is committed or rolled back */
+  done: Promise<void>;
+}
+
+interface TransactionState extends OpenTransaction {
+  finish: () => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export interface TransactionManagerOptions {
+  /**
+   * Roll back transactions that are not used for this long (ms). Transactions never expire when unset.
+   */
+  idleTimeoutMs?: number;
+}
+
+export class TransactionManager {
+  private byId: Map<string, TransactionState> = new Map();
+  private byDatabase: Map<GraphDatabase, TransactionState> = new Map();
+  private idleTimeoutMs?: number;
+
+  constructor(options: TransactionManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs;
+  }
+
+  /**
+   * Wait until no explicit transaction is open on the database
+   */
+  async idle(db: GraphDatabase): Promise<void> {
+    while (this.byDatabase.has(db)) {
+      await this.byDatabase.get(db)!.done;
+    }
+  }
+
+  /**
+   * Begin a transaction once the database is idle
+   */
+  async begin(db: GraphDatabase): Promise<OpenTransaction> {
+    await this.idle(db);
+    db.begin();
+
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => (finish = resolve));
+    const transaction: TransactionState = { id: crypto.randomUUID(), db, done, finish };
+    this.byId.set(transaction.id, transaction);
+    this.byDatabase.set(db, transaction);
+    this.touch(transaction);
+    return transaction;
+  }
+
+  /**
+   * Hold the database without a transaction once it is idle, such as while a result streams
+   * from it: other work waits as for a transaction until the returned function releases it.
+   * A hold does not time out.
+   */
+  async hold(db: GraphDatabase): Promise<() => void> {
+    await this.idle(db);
+
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => (finish = resolve));
+    const hold: TransactionState = { id: crypto.randomUUID(), db, done, finish };
+    this.byDatabase.set(db, hold);
+    return () => {
+      if (this.byDatabase.get(db) === hold) {
+        this.byDatabase.delete(db);
+        finish();
+      }
+    };
+  }
+
+  /**
+   * The open transaction with this id, with its idle timeout restarted
+   */
+  get(id: string): OpenTransaction | undefined {
+    const transaction = this.byId.get(id);
+    if (transaction) this.touch(transaction);
+    return transaction;
+  }
+
+  commit(transaction: OpenTransaction): void {
+    const state = this.end(transaction);
+    try {
+      state.db.commit();
+    } catch (error) {
+      // SQLite keeps the transaction open when COMMIT fails
+      state.db.rollback();
+      throw error;
+    } finally {
+      state.finish();
+    }
+  }
+
+  rollback(transaction: OpenTransaction): void {
+    const state = this.end(transaction);
+    try {
+      state.db.rollback();
+    } finally {
+      state.finish();
+    }
+  }
+
+  /**
+   * Roll back every open transaction, such as before closing the databases
+   */
+  rollbackAll(): void {
+    for (const transaction of [...this.byId.values()]) {
+      this.rollback(transaction);
+    }
+  }
+
+  private end(transaction: OpenTransaction): TransactionState {
+    const state = this.byId.get(transaction.id);
+    if (!state) {
+      throw new Error("Transaction is no longer open");
+    }
+    clearTimeout(state.timer);
+    this.byId.delete(state.id);
+    this.byDatabase.delete(state.db);
+    return state;
+  }
+
+  private touch(transaction: TransactionState): void {
+    if (this.idleTimeoutMs === undefined) return;
+    clearTimeout(transaction.timer);
+    transaction.expires = Date.now() + this.idleTimeoutMs;
+    transaction.timer = setTimeout(() => this.rollback(transaction), this.idleTimeoutMs);
+    // An idle transaction should not keep the process alive
+    transaction.timer.unref?.();
+  }
+}
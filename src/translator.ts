@@ -27,9 +27,17 @@ import {
   SetAssignment,
   ReturnItem,
   CaseWhen,
+  LabelExpression,
   parse,
+  propertyValueToExpression,
 } from "./parser.js";
 import { assertValidPropertyValue, isValidPropertyValue } from "./property-value.js";
+import { labelFilterCondition } from "./indexes.js";
+import { isLabelExpression, labelExpressionSql, plainLabels, typeExpressionSql } from "./labels.js";
+import { FULLTEXT_QUERY_PROCEDURE, FULLTEXT_SCHEMA_PROCEDURES, fulltextKeyTableName, fulltextTableName } from "./fulltext.js";
+import { AlgorithmProcedure, algorithmOutputColumns, algorithmProcedure } from "./algorithms.js";
+import { POINT_ACCESSORS, createPoint } from "./spatial.js";
+import { STDEV_FUNCTIONS, UNARY_MATH_FUNCTIONS, mathSqlFunctionName } from "./math.js";
 
 // ============================================================================
 // Helper Functions
@@ -160,15 +168,28 @@ export class Translator {
       yields: string[];
       returnColumn: string;
       tableName: string;
+      tableParams?: unknown[];
       columnName: string;
       where?: WhereCondition;
+      columns?: { name: string; sql: string }[];
+      filter?: SqlStatement;
+      defaultOrderBy?: string;
     } | undefined;
 
     if (callClause && statements.length === 0) {
-      // Generate SQL for standalone CALL
+      // Generate SQL for standalone CALL, returning the yielded columns
       const params: unknown[] = [];
-      let sql = `SELECT DISTINCT ${callClause.columnName} AS "${callClause.returnColumn}" FROM ${callClause.tableName}`;
+      const columns = (callClause.columns ?? [{ name: callClause.returnColumn, sql: callClause.columnName }]).filter(
+        (column) => callClause.columns === undefined || callClause.yields.includes(column.name)
+      );
+      let sql = `SELECT DISTINCT ${columns.map((column) => `${column.sql} AS "${column.name}"`).join(", ")} FROM ${callClause.tableName}`;
+      params.push(...(callClause.tableParams ?? []));
       sql += ` WHERE ${callClause.columnName} IS NOT NULL AND ${callClause.columnName} <> ''`;
+
+      if (callClause.filter) {
+        sql += ` AND ${callClause.filter.sql}`;
+        params.push(...callClause.filter.params);
+      }
       
       // Add WHERE from CALL...YIELD...WHERE
       if (callClause.where) {
@@ -178,8 +199,12 @@ export class Translator {
         params.push(...whereResult.params);
       }
 
+      if (callClause.defaultOrderBy) {
+        sql += ` ORDER BY ${callClause.defaultOrderBy}`;
+      }
+
       statements.push({ sql, params });
-      returnColumns = [callClause.returnColumn];
+      returnColumns = columns.map((column) => column.name);
     }
 
     return { statements, returnColumns };
@@ -208,6 +233,27 @@ export class Translator {
     return { sql, params };
   }
 
+  /**
+   * Build timeout checks for the nodes, edges and UNWIND sources of a SELECT.
+   * Each check references its source's columns so SQLite evaluates it in that
+   * source's loop, once per scanned row, rather than once per query
+   */
+  private interruptConditions(sources: string[]): string[] {
+    const conditions: string[] = [];
+    for (const source of sources) {
+      const tableMatch = /^(?:(?:LEFT |CROSS )?JOIN )?(?:nodes|edges) (\w+)/.exec(source);
+      if (tableMatch) {
+        conditions.push(`cypher_interrupt(${tableMatch[1]}.id)`);
+        continue;
+      }
+      const unwindMatch = /^(?:CROSS JOIN )?json_each\(.*\) (\w+)$/s.exec(source);
+      if (unwindMatch) {
+        conditions.push(`cypher_interrupt(${unwindMatch[1]}.key)`);
+      }
+    }
+    return conditions;
+  }
+
   private translateClause(clause: Clause): { statements?: SqlStatement[]; returnColumns?: string[] } {
     switch (clause.type) {
       case "CREATE":
@@ -273,10 +319,7 @@ export class Translator {
   private translateCreateNode(node: NodePattern): SqlStatement {
     const id = this.generateId();
     // Normalize label to JSON array format
-    const labelArray = node.label 
-      ? (Array.isArray(node.label) ? node.label : [node.label])
-      : [];
-    const labelJson = JSON.stringify(labelArray);
+    const labelJson = this.normalizeLabelToJson(node.label);
     const properties = this.serializeProperties(node.properties || {});
 
     if (node.variable) {
@@ -757,6 +800,9 @@ export class Translator {
     
     // Check if this is a variable-length pattern
     const isVariableLength = rel.edge.minHops !== undefined || rel.edge.maxHops !== undefined;
+    if (isVariableLength && rel.edge.typeExpression) {
+      throw new Error("Relationship type expressions are not supported on variable-length relationships");
+    }
     
     // For variable-length patterns, mark the edge variable specially
     if (isVariableLength && rel.edge.variable && edgeIsNew) {
@@ -845,7 +891,7 @@ export class Translator {
 
     // Build condition to find existing node
     const labelCondition = this.generateLabelMatchCondition("", label);
-    const conditions: string[] = [labelCondition.sql.replace(/^[^.]+\./, "")]; // Remove alias prefix
+    const conditions: string[] = [labelCondition.sql];
     const params: unknown[] = [...labelCondition.params];
 
     const withAliases = (this.ctx as any).withAliases as Map<string, Expression> | undefined;
@@ -1219,8 +1265,12 @@ export class Translator {
       yields: string[];
       returnColumn: string;
       tableName: string;
+      tableParams?: unknown[];
       columnName: string;
       where?: WhereCondition;
+      columns?: { name: string; sql: string }[];
+      filter?: SqlStatement;
+      defaultOrderBy?: string;
     } | undefined;
 
     if (callClause) {
@@ -1480,7 +1530,7 @@ export class Translator {
       sourceAlias: string;
       targetAlias: string;
       edgeAlias: string;
-      edge: { type?: string; types?: string[]; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
+      edge: { type?: string; types?: string[]; typeExpression?: LabelExpression; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
       optional?: boolean;
       sourceIsNew?: boolean;
       targetIsNew?: boolean;
@@ -1812,23 +1862,15 @@ export class Translator {
         }
 
         // For optional patterns, add type filter to ON clause instead of WHERE
-        if (relPattern.edge.type) {
-          if (isOptional) {
-            edgeOnConditions.push(`${relPattern.edgeAlias}.type = ?`);
-            edgeOnParams.push(relPattern.edge.type);
-          } else {
-            whereParts.push(`${relPattern.edgeAlias}.type = ?`);
-            whereParams.push(relPattern.edge.type);
-          }
-        } else if (relPattern.edge.types && relPattern.edge.types.length > 0) {
-          // Multiple relationship types: [:TYPE1|TYPE2]
-          const placeholders = relPattern.edge.types.map(() => "?").join(", ");
+        // Covers [:TYPE], [:TYPE1|TYPE2] and type expressions such as [:!TYPE]
+        const typeCondition = this.generateEdgeTypeCondition(relPattern.edgeAlias, relPattern.edge);
+        if (typeCondition) {
           if (isOptional) {
-            edgeOnConditions.push(`${relPattern.edgeAlias}.type IN (${placeholders})`);
-            edgeOnParams.push(...relPattern.edge.types);
+            edgeOnConditions.push(typeCondition.sql);
+            edgeOnParams.push(...typeCondition.params);
           } else {
-            whereParts.push(`${relPattern.edgeAlias}.type IN (${placeholders})`);
-            whereParams.push(...relPattern.edge.types);
+            whereParts.push(typeCondition.sql);
+            whereParams.push(...typeCondition.params);
           }
         }
 
@@ -2518,7 +2560,7 @@ export class Translator {
       sourceAlias: string;
       targetAlias: string;
       edgeAlias: string;
-      edge: { type?: string; types?: string[]; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
+      edge: { type?: string; types?: string[]; typeExpression?: LabelExpression; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
       optional?: boolean;
       sourceIsNew?: boolean;
       targetIsNew?: boolean;
@@ -2614,6 +2656,7 @@ export class Translator {
       if (joinParts.length > 0) {
         innerSql += ` ${joinParts.join(" ")}`;
       }
+      whereParts.unshift(...this.interruptConditions([...fromParts, ...joinParts]));
       if (whereParts.length > 0) {
         innerSql += ` WHERE ${whereParts.join(" AND ")}`;
       }
@@ -2672,6 +2715,7 @@ export class Translator {
         if (joinParts.length > 0) {
           sql += ` ${joinParts.join(" ")}`;
         }
+        whereParts.unshift(...this.interruptConditions([...fromParts, ...joinParts]));
         if (whereParts.length > 0) {
           sql += ` WHERE ${whereParts.join(" AND ")}`;
         }
@@ -2681,6 +2725,7 @@ export class Translator {
       // This happens with OPTIONAL MATCH without a prior MATCH
       sql += ` FROM (SELECT 1) __dummy__`;
       sql += ` ${joinParts.join(" ")}`;
+      whereParts.unshift(...this.interruptConditions(joinParts));
       if (whereParts.length > 0) {
         sql += ` WHERE ${whereParts.join(" AND ")}`;
       }
@@ -3201,8 +3246,12 @@ export class Translator {
       yields: string[];
       returnColumn: string;
       tableName: string;
+      tableParams?: unknown[];
       columnName: string;
       where?: WhereCondition;
+      columns?: { name: string; sql: string }[];
+      filter?: SqlStatement;
+      defaultOrderBy?: string;
     }
   ): { statements: SqlStatement[]; returnColumns: string[] } {
     const params: unknown[] = [];
@@ -3233,6 +3282,7 @@ export class Translator {
 
     // Build base query
     let sql = `SELECT DISTINCT ${selectParts.join(", ")} FROM ${callClause.tableName}`;
+    params.push(...(callClause.tableParams ?? []));
     
     // Add WHERE conditions
     const whereParts: string[] = [];
@@ -3240,6 +3290,12 @@ export class Translator {
     // Base condition: exclude null/empty values
     whereParts.push(`${callClause.columnName} IS NOT NULL`);
     whereParts.push(`${callClause.columnName} <> ''`);
+
+    // Procedure-specific filter (e.g. the full-text MATCH)
+    if (callClause.filter) {
+      whereParts.push(callClause.filter.sql);
+      params.push(...callClause.filter.params);
+    }
     
     // Add WHERE from CALL...YIELD...WHERE
     if (callClause.where) {
@@ -3260,6 +3316,8 @@ export class Translator {
           const yieldRef = (this.ctx as any)[`call_yield_${order.expression.variable}`];
           if (yieldRef) {
             orderSql = yieldRef;
+          } else if (returnColumns.includes(order.expression.variable!)) {
+            orderSql = this.quoteAlias(order.expression.variable!);
           } else {
             throw new Error(`Unknown variable: ${order.expression.variable}`);
           }
@@ -3271,6 +3329,8 @@ export class Translator {
         orderParts.push(`${orderSql} ${order.direction}`);
       }
       sql += ` ORDER BY ${orderParts.join(", ")}`;
+    } else if (callClause.defaultOrderBy) {
+      sql += ` ORDER BY ${callClause.defaultOrderBy}`;
     }
 
     // Handle SKIP
@@ -3303,7 +3363,7 @@ export class Translator {
       sourceAlias: string;
       targetAlias: string;
       edgeAlias: string;
-      edge: { variable?: string; type?: string; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
+      edge: { variable?: string; type?: string; types?: string[]; typeExpression?: LabelExpression; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
       optional?: boolean;
       sourceIsNew?: boolean;
       targetIsNew?: boolean;
@@ -3325,8 +3385,9 @@ export class Translator {
     //   UNION ALL
     //   SELECT p.start_id, e.target_id, p.depth + 1
     //   FROM path p JOIN edges e ON p.end_id = e.source_id
-    //   WHERE p.depth < max_depth
+    //   WHERE cypher_interrupt() AND p.depth < max_depth
     // )
+    // cypher_interrupt() stops the recursion once the query reaches its timeout
     // SELECT ... FROM nodes n0, path, nodes n1 WHERE n0.id = path.start_id AND n1.id = path.end_id ...
 
     // Find the index of the variable-length pattern
@@ -3482,7 +3543,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
           allParams.push(...sourceFilterParams); // for base case
           allParams.push(maxHops, edgeType, earlyTerminationLimit);
@@ -3493,7 +3554,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
           allParams.push(...sourceFilterParams); // for base case
           allParams.push(maxHops, earlyTerminationLimit);
@@ -3505,7 +3566,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ?${edgeType ? " AND e.type = ?" : ""} AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ?${edgeType ? " AND e.type = ?" : ""} AND p.row_num < ?
 )`;
         allParams.push(...sourceFilterParams); // for base case
         allParams.push(maxHops);
@@ -3536,7 +3597,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
           allParams.push(...sourceFilterParams); // for forward base case
           allParams.push(edgeType); // for reverse base case
@@ -3551,7 +3612,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
           allParams.push(...sourceFilterParams); // for forward base case
           allParams.push(...sourceFilterParams); // for reverse base case
@@ -3564,7 +3625,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ?${edgeType ? " AND e.type = ?" : ""}${recursivePropCondition} AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ?${edgeType ? " AND e.type = ?" : ""}${recursivePropCondition} AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
         // For maxHops=2, we need depth to reach 2, so recursion limit should be maxHops
         allParams.push(...edgePropParams); // for base case
@@ -3671,13 +3732,14 @@ export class Translator {
         
         // For optional patterns, add edge type filter to ON clause
         // For non-optional, add to WHERE (deferred)
-        if (pattern.edge.type) {
+        const typeCondition = this.generateEdgeTypeCondition(pattern.edgeAlias, pattern.edge);
+        if (typeCondition) {
           if (isOptional) {
-            edgeOnConditions.push(`${pattern.edgeAlias}.type = ?`);
-            joinParams.push(pattern.edge.type);
+            edgeOnConditions.push(typeCondition.sql);
+            joinParams.push(...typeCondition.params);
           } else {
-            whereParts.push(`${pattern.edgeAlias}.type = ?`);
-            deferredWhereParams.push(pattern.edge.type);
+            whereParts.push(typeCondition.sql);
+            deferredWhereParams.push(...typeCondition.params);
           }
         }
         
@@ -3949,7 +4011,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
               allParams.push(maxHops2, edgeType2, earlyTerminationLimit);
             } else {
@@ -3959,7 +4021,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
               allParams.push(maxHops2, earlyTerminationLimit);
             }
@@ -3972,7 +4034,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ? AND e.type = ? AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND p.row_num < ?
 )`;
               allParams.push(maxHops2, edgeType2, earlyTerminationLimit);
             } else {
@@ -3982,7 +4044,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ? AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND p.row_num < ?
 )`;
               allParams.push(maxHops2, earlyTerminationLimit);
             }
@@ -3999,7 +4061,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
               allParams.push(edgeType2, edgeType2, maxHops2, edgeType2, earlyTerminationLimit);
             } else {
@@ -4011,7 +4073,7 @@ export class Translator {
   SELECT p.start_id, CASE WHEN p.end_id = e.source_id THEN e.target_id ELSE e.source_id END, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON (p.end_id = e.source_id OR p.end_id = e.target_id)
-  WHERE p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND NOT EXISTS (SELECT 1 FROM json_each(p.edge_ids) WHERE json_extract(value, '$.id') = e.id) AND p.row_num < ?
 )`;
               allParams.push(maxHops2, earlyTerminationLimit);
             }
@@ -4024,7 +4086,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ? AND e.type = ? AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND e.type = ? AND p.row_num < ?
 )`;
               allParams.push(edgeType2, maxHops2, edgeType2, earlyTerminationLimit);
             } else {
@@ -4034,7 +4096,7 @@ export class Translator {
   SELECT p.start_id, e.target_id, p.depth + 1, json_insert(p.edge_ids, '$[#]', json_object('id', e.id, 'type', e.type, 'source_id', e.source_id, 'target_id', e.target_id, 'properties', json(e.properties))), p.row_num + 1
   FROM ${pathCteName2} p
   JOIN edges e ON p.end_id = e.source_id
-  WHERE p.depth < ? AND p.row_num < ?
+  WHERE cypher_interrupt() AND p.depth < ? AND p.row_num < ?
 )`;
               allParams.push(maxHops2, earlyTerminationLimit);
             }
@@ -4100,9 +4162,10 @@ export class Translator {
           addedEdgeAliases.add(pattern.edgeAlias);
           
           // Edge type filter - deferred until after all CTE params
-          if (pattern.edge.type) {
-            whereParts.push(`${pattern.edgeAlias}.type = ?`);
-            deferredWhereParams.push(pattern.edge.type);
+          const typeCondition = this.generateEdgeTypeCondition(pattern.edgeAlias, pattern.edge);
+          if (typeCondition) {
+            whereParts.push(typeCondition.sql);
+            deferredWhereParams.push(...typeCondition.params);
           }
         } else {
           // Edge already joined - this is a bound relationship from an earlier MATCH
@@ -4187,6 +4250,7 @@ export class Translator {
     if (joinParts.length > 0) {
       sql += ` ${joinParts.join(" ")}`;
     }
+    whereParts.unshift(...this.interruptConditions([...fromParts, ...joinParts]));
     
     if (whereParts.length > 0) {
       sql += ` WHERE ${whereParts.join(" AND ")}`;
@@ -4387,8 +4451,20 @@ export class Translator {
     // Supported procedures:
     // - db.labels() - returns all distinct node labels
     // - db.relationshipTypes() - returns all distinct relationship types
+    // - db.index.fulltext.queryNodes(indexName, query) - returns matching nodes and their scores
 
     const procedure = clause.procedure.toLowerCase();
+
+    const algorithm = algorithmProcedure(clause.procedure);
+    if (algorithm) {
+      return this.translateAlgorithmCall(clause, algorithm);
+    }
+    if (procedure === FULLTEXT_QUERY_PROCEDURE) {
+      return this.translateFulltextQuery(clause);
+    }
+    if (FULLTEXT_SCHEMA_PROCEDURES.has(procedure)) {
+      throw new Error(`${clause.procedure} cannot be combined with other clauses`);
+    }
     
     let tableName: string;
     let columnName: string;
@@ -4443,6 +4519,177 @@ export class Translator {
     };
   }
 
+  /**
+   * db.index.fulltext.queryNodes(indexName, query) YIELD node, score
+   * The query uses FTS5 syntax; score is the negated bm25() rank, so higher scores are better matches.
+   */
+  private translateFulltextQuery(clause: CallClause): { statements?: SqlStatement[]; returnColumns?: string[] } {
+    if (clause.args.length !== 2) {
+      throw new Error(`${clause.procedure} expects (indexName :: STRING, queryString :: STRING)`);
+    }
+    const [nameArg, queryArg] = clause.args;
+    const indexName =
+      nameArg.type === "literal" ? nameArg.value : nameArg.type === "parameter" ? this.ctx.paramValues[nameArg.name!] : undefined;
+    if (typeof indexName !== "string") {
+      throw new Error(`${clause.procedure} expects the index name as a string`);
+    }
+    const query = this.translateExpression(queryArg);
+
+    // FTS5 only accepts the table name, not an alias, on the left of MATCH and in bm25()
+    const ftsTable = fulltextTableName(indexName);
+    const keysAlias = `k${this.ctx.aliasCounter++}`;
+    const nodeAlias = `n${this.ctx.aliasCounter++}`;
+    const yields = clause.yields || ["node", "score"];
+    for (const yieldVar of yields) {
+      if (yieldVar !== "node" && yieldVar !== "score") {
+        throw new Error(`Unknown procedure output: \`${yieldVar}\``);
+      }
+    }
+
+    const nodeSql = `json_set(COALESCE(${nodeAlias}.properties, '{}'), '$._nf_id', ${nodeAlias}.id)`;
+    const scoreSql = `-bm25(${ftsTable})`;
+
+    (this.ctx as any).callClause = {
+      procedure: clause.procedure,
+      yields,
+      returnColumn: "node",
+      tableName:
+        `${ftsTable} JOIN ${fulltextKeyTableName(indexName)} ${keysAlias} ON ${keysAlias}.key = ${ftsTable}.rowid ` +
+        `JOIN nodes ${nodeAlias} ON ${nodeAlias}.id = ${keysAlias}.node_id`,
+      columnName: `${nodeAlias}.id`,
+      where: clause.where,
+      columns: [
+        { name: "node", sql: nodeSql },
+        { name: "score", sql: scoreSql },
+      ],
+      filter: { sql: `${ftsTable} MATCH ${query.sql}`, params: query.params },
+      defaultOrderBy: `${scoreSql} DESC`,
+    };
+
+    // node is also registered as a node variable so that node.property, labels(node) etc. resolve
+    if (yields.includes("node")) {
+      (this.ctx as any).call_yield_node = nodeSql;
+      this.ctx.variables.set("node", { type: "node", alias: nodeAlias });
+    }
+    if (yields.includes("score")) {
+      (this.ctx as any).call_yield_score = scoreSql;
+    }
+
+    return {
+      statements: [],
+      returnColumns: yields,
+    };
+  }
+
+  /**
+   * gds.<algorithm>.stream(config) YIELD nodeId, node, <column>, gds.<algorithm>.write(config)
+   * path procedures such as gds.shortestPath.dijkstra.stream(config) YIELD path, totalCost and
+   * pair procedures such as gds.nodeSimilarity.stream(config) YIELD node1, node2, similarity.
+   * The executor runs the algorithm and replaces the configuration with a parameter holding
+   * the result rows, which are read here with json_each().
+   */
+  private translateAlgorithmCall(
+    clause: CallClause,
+    algorithm: AlgorithmProcedure
+  ): { statements?: SqlStatement[]; returnColumns?: string[] } {
+    if (clause.args.length > 1) {
+      throw new Error(`${clause.procedure} expects (configuration :: MAP)`);
+    }
+    const rows = this.translateExpression(clause.args[0] ?? { type: "literal", value: "[]" });
+    const rowsAlias = `gds${this.ctx.aliasCounter++}`;
+    const outputs = algorithmOutputColumns(algorithm);
+    const yields = clause.yields || outputs;
+    for (const yieldVar of yields) {
+      if (!outputs.includes(yieldVar)) {
+        throw new Error(`Unknown procedure output: \`${yieldVar}\``);
+      }
+    }
+    const field = (name: string) => `json_extract(${rowsAlias}.value, '$.${name}')`;
+
+    // Summary and path rows are read as they are
+    if (algorithm.mode === "write" || algorithm.kind === "path") {
+      (this.ctx as any).callClause = {
+        procedure: clause.procedure,
+        yields,
+        returnColumn: outputs[0],
+        tableName: `json_each(${rows.sql}) AS ${rowsAlias}`,
+        tableParams: rows.params,
+        columnName: `${rowsAlias}.value`,
+        where: clause.where,
+        columns: outputs.map((name) => ({ name, sql: field(name) })),
+        defaultOrderBy: `${rowsAlias}.key`,
+      };
+      for (const yieldVar of yields) {
+        (this.ctx as any)[`call_yield_${yieldVar}`] = field(yieldVar);
+      }
+      if (algorithm.kind === "path" && yields.includes("path")) {
+        (this.ctx as any).callPathYield = field("path");
+      }
+      return { statements: [], returnColumns: yields };
+    }
+
+    // node1 and node2 are also registered as node variables so that node1.property etc. resolve
+    if (algorithm.kind === "pair") {
+      const aliases = { node1: `n${this.ctx.aliasCounter++}`, node2: `n${this.ctx.aliasCounter++}` };
+      const columnSql: Record<string, string> = {
+        node1: `json_set(COALESCE(${aliases.node1}.properties, '{}'), '$._nf_id', ${aliases.node1}.id)`,
+        node2: `json_set(COALESCE(${aliases.node2}.properties, '{}'), '$._nf_id', ${aliases.node2}.id)`,
+        [algorithm.algorithm.column]: field(algorithm.algorithm.column),
+      };
+
+      (this.ctx as any).callClause = {
+        procedure: clause.procedure,
+        yields,
+        returnColumn: "node1",
+        tableName:
+          `json_each(${rows.sql}) AS ${rowsAlias} ` +
+          `JOIN nodes ${aliases.node1} ON ${aliases.node1}.id = ${field("node1")} ` +
+          `JOIN nodes ${aliases.node2} ON ${aliases.node2}.id = ${field("node2")}`,
+        tableParams: rows.params,
+        columnName: `${aliases.node1}.id`,
+        where: clause.where,
+        columns: outputs.map((name) => ({ name, sql: columnSql[name] })),
+        defaultOrderBy: `${rowsAlias}.key`,
+      };
+      for (const yieldVar of yields) {
+        (this.ctx as any)[`call_yield_${yieldVar}`] = columnSql[yieldVar];
+        if (yieldVar === "node1" || yieldVar === "node2") {
+          this.ctx.variables.set(yieldVar, { type: "node", alias: aliases[yieldVar] });
+        }
+      }
+      return { statements: [], returnColumns: yields };
+    }
+
+    // node is also registered as a node variable so that node.property, labels(node) etc. resolve
+    const nodeAlias = `n${this.ctx.aliasCounter++}`;
+    const nodeSql = `json_set(COALESCE(${nodeAlias}.properties, '{}'), '$._nf_id', ${nodeAlias}.id)`;
+    const columnSql: Record<string, string> = {
+      nodeId: `${nodeAlias}.id`,
+      node: nodeSql,
+      [algorithm.algorithm.column]: field(algorithm.algorithm.column),
+    };
+
+    (this.ctx as any).callClause = {
+      procedure: clause.procedure,
+      yields,
+      returnColumn: "nodeId",
+      tableName: `json_each(${rows.sql}) AS ${rowsAlias} JOIN nodes ${nodeAlias} ON ${nodeAlias}.id = ${field("nodeId")}`,
+      tableParams: rows.params,
+      columnName: `${nodeAlias}.id`,
+      where: clause.where,
+      columns: outputs.map((name) => ({ name, sql: columnSql[name] })),
+      defaultOrderBy: `${rowsAlias}.key`,
+    };
+    for (const yieldVar of yields) {
+      (this.ctx as any)[`call_yield_${yieldVar}`] = columnSql[yieldVar];
+    }
+    if (yields.includes("node")) {
+      this.ctx.variables.set("node", { type: "node", alias: nodeAlias });
+    }
+
+    return { statements: [], returnColumns: yields };
+  }
+
   private translateCallWhere(condition: WhereCondition, yieldColumn: string): { sql: string; params: unknown[] } {
     const params: unknown[] = [];
 
@@ -4469,7 +4716,10 @@ export class Translator {
         } else {
           throw new Error("Missing right side of comparison");
         }
-
+        
+        if (condition.operator === "=~") {
+          return { sql: `cypher_regex(${leftSql}, ${rightSql})`, params };
+        }
         return { sql: `${leftSql} ${condition.operator} ${rightSql}`, params };
       }
 
@@ -4497,6 +4747,15 @@ export class Translator {
     }
   }
 
+  /**
+   * SQL for the path yielded by a path-finding procedure when `expr` refers to it.
+   * The path is JSON of the form {nodes: [...], edges: [...]}
+   */
+  private callPathYieldSql(expr: Expression): string | undefined {
+    if (expr.type !== "variable" || expr.variable !== "path" || this.ctx.variables.has("path")) return undefined;
+    return (this.ctx as any).callPathYield as string | undefined;
+  }
+
   private translateExpressionForCall(expr: Expression, yieldColumn: string): { sql: string; params: unknown[] } {
     const params: unknown[] = [];
 
@@ -4528,6 +4787,15 @@ export class Translator {
         }
         throw new Error(`Unsupported literal type in CALL WHERE: ${typeof expr.value}`);
 
+      case "property": {
+        // Properties of yielded nodes (e.g. node.price after a full-text query)
+        const varInfo = this.ctx.variables.get(expr.variable!);
+        if (!varInfo) {
+          throw new Error(`Unknown variable in CALL WHERE: ${expr.variable}`);
+        }
+        return { sql: `json_extract(${varInfo.alias}.properties, '$.${expr.property}')`, params };
+      }
+
       case "parameter":
         const paramValue = this.ctx.paramValues[expr.name!];
         return { sql: "?", params: [paramValue] };
@@ -4745,7 +5013,7 @@ export class Translator {
             sourceAlias: string;
             targetAlias: string;
             edgeAlias: string;
-            edge: { type?: string; types?: string[]; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
+            edge: { type?: string; types?: string[]; typeExpression?: LabelExpression; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
             optional?: boolean;
             sourceIsNew?: boolean;
             targetIsNew?: boolean;
@@ -4837,7 +5105,7 @@ export class Translator {
             sourceAlias: string;
             targetAlias: string;
             edgeAlias: string;
-            edge: { type?: string; types?: string[]; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
+            edge: { type?: string; types?: string[]; typeExpression?: LabelExpression; properties?: Record<string, PropertyValue>; minHops?: number; maxHops?: number; direction?: "left" | "right" | "none" };
             optional?: boolean;
             sourceIsNew?: boolean;
             targetIsNew?: boolean;
@@ -4940,7 +5208,7 @@ export class Translator {
                 
                 // Access property from the result using json_extract
                 return {
-                  sql: `json_extract(${objectResult.sql}, '$.${expr.property}')`,
+                  sql: this.translateMapOrPointAccess(objectResult.sql, expr.property!),
                   tables,
                   params,
                 };
@@ -4988,6 +5256,12 @@ export class Translator {
           }
         }
         
+        // Property access on a map yielded by CALL, such as the path of a path procedure
+        const callYieldRef = (this.ctx as any)[`call_yield_${expr.variable}`];
+        if (callYieldRef && !this.ctx.variables.has(expr.variable!)) {
+          return { sql: this.translateMapOrPointAccess(callYieldRef, expr.property!), tables, params };
+        }
+        
         const varInfo = this.ctx.variables.get(expr.variable!);
         if (!varInfo) {
           throw new Error(`Unknown variable: ${expr.variable}`);
@@ -5278,6 +5552,22 @@ export class Translator {
           throw new Error(`${expr.functionName} requires a property, variable, or expression argument`);
         }
         
+        // Standard deviation aggregates: STDEV (sample), STDEVP (population)
+        if (Object.hasOwn(STDEV_FUNCTIONS, expr.functionName!)) {
+          if (expr.args && expr.args.length > 0) {
+            const arg = expr.args[0];
+            if (this.containsNonDeterministicFunction(arg)) {
+              throw new Error(`SyntaxError: Can't use non-deterministic (random) functions inside of aggregate functions.`);
+            }
+            const argResult = this.translateFunctionArg(arg);
+            tables.push(...argResult.tables);
+            params.push(...argResult.params);
+            const distinctKeyword = expr.distinct ? "DISTINCT " : "";
+            return { sql: `${STDEV_FUNCTIONS[expr.functionName!].sqlName}(${distinctKeyword}${argResult.sql})`, tables, params };
+          }
+          throw new Error(`${expr.functionName!.toLowerCase()} requires an argument`);
+        }
+
         // Percentile functions: PERCENTILEDISC, PERCENTILECONT
         // percentileDisc(value, percentile) - Returns discrete value at percentile position
         // percentileCont(value, percentile) - Returns interpolated value at percentile position
@@ -5593,6 +5883,10 @@ END FROM (SELECT json_group_array(${valueExpr}) as sv))`,
         if (expr.functionName === "LENGTH") {
           if (expr.args && expr.args.length > 0) {
             const arg = expr.args[0];
+            const callPath = this.callPathYieldSql(arg);
+            if (callPath) {
+              return { sql: `json_array_length(${callPath}, '$.edges')`, tables, params };
+            }
             if (arg.type === "variable") {
               const varInfo = this.ctx.variables.get(arg.variable!);
               if (!varInfo) {
@@ -5633,6 +5927,11 @@ END FROM (SELECT json_group_array(${valueExpr}) as sv))`,
             if (arg.type === "literal" && arg.value === null) {
               return { sql: "NULL", tables, params };
             }
+
+            const callPath = this.callPathYieldSql(arg);
+            if (callPath) {
+              return { sql: `json_extract(${callPath}, '$.nodes')`, tables, params };
+            }
             
             if (arg.type === "variable") {
               const varInfo = this.ctx.variables.get(arg.variable!);
@@ -5715,6 +6014,11 @@ END FROM (SELECT json_group_array(${valueExpr}) as sv))`,
             if (arg.type === "literal" && arg.value === null) {
               return { sql: "NULL", tables, params };
             }
+
+            const callPath = this.callPathYieldSql(arg);
+            if (callPath) {
+              return { sql: `json_extract(${callPath}, '$.edges')`, tables, params };
+            }
             
             if (arg.type === "variable") {
               const varInfo = this.ctx.variables.get(arg.variable!);
@@ -6055,6 +6359,46 @@ END FROM (SELECT json_group_array(${valueExpr}) as sv))`,
           throw new Error("sqrt requires an argument");
         }
 
+        // SIGN: -1, 0 or 1
+        if (expr.functionName === "SIGN") {
+          if (expr.args && expr.args.length > 0) {
+            const argResult = this.translateFunctionArg(expr.args[0]);
+            tables.push(...argResult.tables);
+            params.push(...argResult.params);
+            return { sql: `SIGN(${argResult.sql})`, tables, params };
+          }
+          throw new Error("sign requires an argument");
+        }
+
+        // E, PI: constants
+        if (expr.functionName === "E" || expr.functionName === "PI") {
+          return { sql: String(expr.functionName === "E" ? Math.E : Math.PI), tables, params };
+        }
+
+        // LOG, LOG10, EXP, SIN, COS, TAN, ASIN, ACOS, ATAN, DEGREES, RADIANS:
+        // registered as cypher_<name> SQL functions (see math.ts)
+        if (Object.hasOwn(UNARY_MATH_FUNCTIONS, expr.functionName!)) {
+          if (expr.args && expr.args.length > 0) {
+            const argResult = this.translateFunctionArg(expr.args[0]);
+            tables.push(...argResult.tables);
+            params.push(...argResult.params);
+            return { sql: `${mathSqlFunctionName(expr.functionName!)}(${argResult.sql})`, tables, params };
+          }
+          throw new Error(`${expr.functionName!.toLowerCase()} requires an argument`);
+        }
+
+        // ATAN2: angle of the point (x, y), called as atan2(y, x)
+        if (expr.functionName === "ATAN2") {
+          if (expr.args && expr.args.length === 2) {
+            const yResult = this.translateFunctionArg(expr.args[0]);
+            const xResult = this.translateFunctionArg(expr.args[1]);
+            tables.push(...yResult.tables, ...xResult.tables);
+            params.push(...yResult.params, ...xResult.params);
+            return { sql: `cypher_atan2(${yResult.sql}, ${xResult.sql})`, tables, params };
+          }
+          throw new Error("atan2 requires two arguments");
+        }
+
         // RAND: random float between 0 and 1
         if (expr.functionName === "RAND") {
           // SQLite's RANDOM() returns integer between -9223372036854775808 and 9223372036854775807
@@ -9221,6 +9565,48 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
           }
         }
 
+        // ============================================================================
+        // Spatial functions
+        // ============================================================================
+
+        // POINT: point({x, y}) or point({longitude, latitude}), a GeoJSON-style JSON object
+        // (json() so that json_set() stores it as an object, not a string)
+        if (expr.functionName === "POINT") {
+          if (expr.args && expr.args.length === 1) {
+            const argResult = this.translateFunctionArg(expr.args[0]);
+            tables.push(...argResult.tables);
+            params.push(...argResult.params);
+            return { sql: `json(cypher_point(${argResult.sql}))`, tables, params };
+          }
+          throw new Error("point requires a map argument");
+        }
+
+        // POINT.DISTANCE (distance() before Neo4j 5): meters for WGS-84, Euclidean for cartesian
+        if (expr.functionName === "POINT.DISTANCE" || expr.functionName === "DISTANCE") {
+          if (expr.args && expr.args.length === 2) {
+            const [from, to] = expr.args.map(arg => this.translateFunctionArg(arg));
+            tables.push(...from.tables, ...to.tables);
+            params.push(...from.params, ...to.params);
+            return { sql: `cypher_point_distance(${from.sql}, ${to.sql})`, tables, params };
+          }
+          throw new Error("point.distance requires two point arguments");
+        }
+
+        // POINT.WITHINBBOX: whether a point lies within the box given by its lower-left and upper-right corners
+        if (expr.functionName === "POINT.WITHINBBOX") {
+          if (expr.args && expr.args.length === 3) {
+            const [point, lowerLeft, upperRight] = expr.args.map(arg => this.translateFunctionArg(arg));
+            tables.push(...point.tables, ...lowerLeft.tables, ...upperRight.tables);
+            params.push(...point.params, ...lowerLeft.params, ...upperRight.params);
+            return {
+              sql: `cypher_point_within_bbox(${point.sql}, ${lowerLeft.sql}, ${upperRight.sql})`,
+              tables,
+              params,
+            };
+          }
+          throw new Error("point.withinBBox requires three point arguments");
+        }
+
         // Temporal truncate functions: date.truncate(), datetime.truncate(), etc.
         const truncateFunctions = ["DATE.TRUNCATE", "TIME.TRUNCATE", "LOCALTIME.TRUNCATE",
                                    "DATETIME.TRUNCATE", "LOCALDATETIME.TRUNCATE"];
@@ -9285,6 +9671,23 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         return this.translatePatternComprehension(expr);
       }
 
+      case "reduce": {
+        return this.translateReduce(expr);
+      }
+
+      case "mapProjection": {
+        return this.translateMapProjection(expr);
+      }
+
+      case "subquery": {
+        const result = this.translateSubquery(expr);
+        if (expr.subqueryType === "EXISTS") {
+          // Wrap in CASE to return JSON boolean true/false instead of SQLite's 0/1
+          return { ...result, sql: `CASE WHEN ${result.sql} THEN json('true') ELSE json('false') END` };
+        }
+        return result;
+      }
+
       case "listPredicate": {
         return this.translateListPredicate(expr);
       }
@@ -9328,7 +9731,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         
         // Access property from the result using json_extract
         return {
-          sql: `json_extract(${objectResult.sql}, '$.${expr.property}')`,
+          sql: this.translateMapOrPointAccess(objectResult.sql, expr.property!),
           tables,
           params,
         };
@@ -10765,6 +11168,16 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     // For property access in comparisons, use json_extract for proper comparison
     let leftSql = this.wrapForComparison(expr.left!, leftResult.sql);
     let rightSql = this.wrapForComparison(expr.right!, rightResult.sql);
+    
+    // Regular expression match: null for null or non-string operands
+    // Wrap in CASE to return JSON boolean true/false instead of SQLite's 0/1
+    if (expr.comparisonOperator === "=~") {
+      return {
+        sql: `CASE cypher_regex(${leftSql}, ${rightSql}) WHEN 1 THEN json('true') WHEN 0 THEN json('false') END`,
+        tables,
+        params,
+      };
+    }
 
     // Handle boolean comparisons: when comparing expressions that produce booleans
     // (IS NULL, IS NOT NULL, other comparisons, boolean literals), ensure both sides
@@ -11020,6 +11433,120 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     return { sql, tables, params };
   }
 
+  /**
+   * Translate reduce(acc = init, x IN list | expr).
+   *
+   * Folds the list with a recursive CTE whose rows are the successive accumulator values;
+   * each step joins the list element at the current position. The list is evaluated once, in
+   * the anchor row, so it may be an aggregate such as collect():
+   * (WITH RECURSIVE __rd__(step, value, list) AS (SELECT 0, init, list UNION ALL SELECT step + 1, expr, list ...)
+   *  SELECT value FROM __rd__ ORDER BY step DESC LIMIT 1)
+   * A null list gives null.
+   */
+  private translateReduce(expr: Expression): { sql: string; tables: string[]; params: unknown[] } {
+    const tables: string[] = [];
+
+    const initResult = this.translateExpression(expr.initialValue!);
+    tables.push(...initResult.tables);
+
+    const stepResult = this.translateReduceStep(expr.mapExpr!, [
+      { variable: expr.accumulator!, tableAlias: "__rd__" },
+      { variable: expr.variable!, tableAlias: "__rd_item__" },
+    ]);
+
+    const listExpr = expr.listExpr!;
+    const listResult = this.translateExpression(listExpr);
+    tables.push(...listResult.tables);
+    let sourceExpr = listResult.sql;
+    if (listExpr.type === "property") {
+      const varInfo = this.ctx.variables.get(listExpr.variable!);
+      if (varInfo) {
+        sourceExpr = `json_extract(${varInfo.alias}.properties, '$.${listExpr.property}')`;
+      }
+    }
+
+    const sql =
+      `(WITH RECURSIVE __rd__(step, value, list) AS (` +
+      `SELECT 0, ${initResult.sql}, ${sourceExpr} ` +
+      `UNION ALL SELECT __rd__.step + 1, ${stepResult.sql}, __rd__.list FROM __rd__ ` +
+      `JOIN json_each(__rd__.list) AS __rd_item__ ON __rd_item__.key = __rd__.step` +
+      `) SELECT CASE WHEN list IS NULL THEN NULL ELSE value END FROM __rd__ ORDER BY step DESC LIMIT 1)`;
+
+    return { sql, tables, params: [...initResult.params, ...listResult.params, ...stepResult.params] };
+  }
+
+  /**
+   * Translate the step expression of reduce(). The accumulator type is only known at runtime,
+   * so + uses cypher_add(); everything else is translated like a list comprehension expression.
+   */
+  private translateReduceStep(
+    expr: Expression,
+    scopes: Array<{ variable: string; tableAlias: string }>
+  ): { sql: string; params: unknown[] } {
+    if (expr.type === "binary" && ["+", "-", "*", "/", "%"].includes(expr.operator!)) {
+      const left = this.translateReduceStep(expr.left!, scopes);
+      const right = this.translateReduceStep(expr.right!, scopes);
+      const sql = expr.operator === "+" ? `cypher_add(${left.sql}, ${right.sql})` : `(${left.sql} ${expr.operator} ${right.sql})`;
+      return { sql, params: [...left.params, ...right.params] };
+    }
+    const inner = scopes[scopes.length - 1];
+    return this.translateListComprehensionExpr(expr, inner.variable, inner.tableAlias, scopes.slice(0, -1));
+  }
+
+  /**
+   * Translate a map projection: n {.name, .*, key: expr, other}.
+   * Entries are built like a map literal; .* sets them on the entity's properties.
+   * Projecting a null node or relationship (OPTIONAL MATCH) gives null.
+   */
+  private translateMapProjection(expr: Expression): { sql: string; tables: string[]; params: unknown[] } {
+    const variable = expr.variable!;
+    const projections = expr.projections ?? [];
+
+    const properties: ObjectProperty[] = projections
+      .filter((item) => item.type !== "allProperties")
+      .map((item) => {
+        switch (item.type) {
+          case "property":
+            return { key: item.key!, value: { type: "property", variable, property: item.key! } };
+          case "variable":
+            return { key: item.key!, value: { type: "variable", variable: item.key! } };
+          default:
+            return { key: item.key!, value: item.value! };
+        }
+      });
+    const varInfo = this.ctx.variables.get(variable);
+    let sql: string;
+    const tables: string[] = [];
+    const params: unknown[] = [];
+    if (projections.some((item) => item.type === "allProperties")) {
+      const base = varInfo
+        ? this.translateExpression({ type: "function", functionName: "PROPERTIES", args: [{ type: "variable", variable }] })
+        : this.translateExpression({ type: "variable", variable });
+      tables.push(...base.tables);
+      params.push(...base.params);
+      // json_set() rather than json_patch(), which would drop the entries that are null
+      const assignments = properties.map((prop) => {
+        const value = this.translateExpression(prop.value);
+        tables.push(...value.tables);
+        params.push(`$."${prop.key}"`, ...value.params);
+        return `?, ${value.sql}`;
+      });
+      sql = assignments.length > 0 ? `json_set(${base.sql}, ${assignments.join(", ")})` : base.sql;
+    } else {
+      const entries = this.translateObjectLiteral({ type: "object", properties });
+      tables.push(...entries.tables);
+      params.push(...entries.params);
+      sql = entries.sql;
+    }
+
+    if (varInfo && (varInfo.type === "node" || varInfo.type === "edge")) {
+      tables.push(varInfo.alias);
+      sql = `CASE WHEN ${varInfo.alias}.id IS NULL THEN NULL ELSE ${sql} END`;
+    }
+
+    return { sql, tables, params };
+  }
+
   /**
    * Translate a pattern comprehension expression.
    * Syntax: [(pattern) WHERE filterCondition | mapExpr]
@@ -11093,13 +11620,12 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     const edge = relPattern.edge;
     
     // Build edge type filter (collect params separately)
-    const edgeTypes = edge.types || (edge.type ? [edge.type] : []);
     let edgeTypeFilter = "";
     const edgeTypeParams: unknown[] = [];
-    if (edgeTypes.length > 0) {
-      const typeConditions = edgeTypes.map((t: string) => `${edgeAlias}.type = ?`);
-      edgeTypeFilter = ` AND (${typeConditions.join(" OR ")})`;
-      edgeTypeParams.push(...edgeTypes);
+    const typeCondition = this.generateEdgeTypeCondition(edgeAlias, edge);
+    if (typeCondition) {
+      edgeTypeFilter = ` AND (${typeCondition.sql})`;
+      edgeTypeParams.push(...typeCondition.params);
     }
     
     // Build direction filter
@@ -11118,14 +11644,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     let targetFilter = "";
     const targetFilterParams: unknown[] = [];
     if (targetNodePattern && targetNodePattern.label) {
-      const labels = Array.isArray(targetNodePattern.label) 
-        ? targetNodePattern.label 
-        : [targetNodePattern.label];
-      const labelConditions = labels.map((l: string) => 
-        `EXISTS(SELECT 1 FROM json_each(${targetAlias}.label) WHERE value = ?)`
-      );
-      targetFilter = ` AND ${labelConditions.join(" AND ")}`;
-      targetFilterParams.push(...labels);
+      const labelMatch = this.generateLabelMatchCondition(targetAlias, targetNodePattern.label);
+      targetFilter = ` AND ${labelMatch.sql}`;
+      targetFilterParams.push(...labelMatch.params);
     }
     
     // Determine what to select (collect params separately)
@@ -11291,6 +11812,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
           condition.right!, startVar, startAlias, edgeVar, edgeAlias, targetVar, targetAlias
         );
         params.push(...left.params, ...right.params);
+        if (condition.operator === "=~") {
+          return { sql: `cypher_regex(${left.sql}, ${right.sql})`, params };
+        }
         return { sql: `${left.sql} ${condition.operator} ${right.sql}`, params };
       }
       
@@ -11319,6 +11843,176 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     }
   }
 
+  /**
+   * Translate EXISTS { ... }, COUNT { ... } or COLLECT { ... } to a correlated SQL subquery.
+   * The body's MATCH patterns get their own aliases; variables bound in the outer query refer
+   * to the outer aliases, which correlates the subquery with the current row.
+   */
+  private translateSubquery(expr: Expression): { sql: string; tables: string[]; params: unknown[] } {
+    const subqueryType = expr.subqueryType!;
+    const from: string[] = [];
+    const conditions: string[] = [];
+    const conditionParams: unknown[] = [];
+    const outerTables = new Set<string>();
+    const innerVariables = new Map<string, { type: "node" | "edge"; alias: string }>();
+    const newEdgeAliases: string[] = [];
+    let returnClause: ReturnClause | undefined;
+
+    // Values that refer to variables, such as {name: p.name}, are translated like WHERE operands
+    const propertyExpressions: Array<{ alias: string; key: string; value: PropertyValue }> = [];
+    const addPropertyConditions = (alias: string, properties: Record<string, PropertyValue> | undefined) => {
+      for (const [key, value] of Object.entries(properties ?? {})) {
+        if (typeof value === "object" && value !== null && !this.isParameterRef(value)) {
+          propertyExpressions.push({ alias, key, value });
+          continue;
+        }
+        conditions.push(`json_extract(${alias}.properties, '$.${key}') = ?`);
+        conditionParams.push(this.isParameterRef(value) ? this.ctx.paramValues[value.name] : value);
+      }
+    };
+
+    const resolveVariable = (variable: string | undefined, type: "node" | "edge"): string | undefined => {
+      if (!variable) return undefined;
+      const inner = innerVariables.get(variable);
+      if (inner) return inner.alias;
+      const outer = this.ctx.variables.get(variable);
+      if (!outer) return undefined;
+      if (outer.type !== type) {
+        throw new Error(`Type mismatch: \`${variable}\` is not a ${type === "node" ? "node" : "relationship"} in ${subqueryType} subquery`);
+      }
+      outerTables.add(outer.alias);
+      return outer.alias;
+    };
+
+    const resolveNode = (node: NodePattern): string => {
+      let alias = resolveVariable(node.variable, "node");
+      if (!alias) {
+        alias = `__sq_n${this.ctx.aliasCounter++}`;
+        from.push(`nodes ${alias}`);
+        if (node.variable) innerVariables.set(node.variable, { type: "node", alias });
+      }
+      if (node.label) {
+        const labelMatch = this.generateLabelMatchCondition(alias, node.label);
+        conditions.push(labelMatch.sql);
+        conditionParams.push(...labelMatch.params);
+      }
+      addPropertyConditions(alias, node.properties);
+      return alias;
+    };
+
+    const registerRelationship = (rel: RelationshipPattern) => {
+      const edge = rel.edge;
+      if (edge.minHops !== undefined || edge.maxHops !== undefined) {
+        throw new Error(`Variable-length relationships are not supported in ${subqueryType} subqueries`);
+      }
+      const sourceAlias = resolveNode(rel.source);
+      const targetAlias = resolveNode(rel.target);
+
+      let edgeAlias = resolveVariable(edge.variable, "edge");
+      if (!edgeAlias) {
+        edgeAlias = `__sq_e${this.ctx.aliasCounter++}`;
+        from.push(`edges ${edgeAlias}`);
+        if (edge.variable) innerVariables.set(edge.variable, { type: "edge", alias: edgeAlias });
+        // Relationships matched by the subquery are distinct from each other
+        for (const other of newEdgeAliases) {
+          conditions.push(`${edgeAlias}.id <> ${other}.id`);
+        }
+        newEdgeAliases.push(edgeAlias);
+      }
+
+      const outgoing = `${edgeAlias}.source_id = ${sourceAlias}.id AND ${edgeAlias}.target_id = ${targetAlias}.id`;
+      const incoming = `${edgeAlias}.source_id = ${targetAlias}.id AND ${edgeAlias}.target_id = ${sourceAlias}.id`;
+      if (edge.direction === "right") {
+        conditions.push(outgoing);
+      } else if (edge.direction === "left") {
+        conditions.push(incoming);
+      } else {
+        conditions.push(`((${outgoing}) OR (${incoming}))`);
+      }
+
+      const typeCondition = this.generateEdgeTypeCondition(edgeAlias, edge);
+      if (typeCondition) {
+        conditions.push(typeCondition.sql);
+        conditionParams.push(...typeCondition.params);
+      }
+      addPropertyConditions(edgeAlias, edge.properties);
+    };
+
+    const whereClauses: WhereCondition[] = [];
+    for (const clause of expr.query!.clauses) {
+      if (clause.type === "MATCH") {
+        if (clause.pathExpressions) {
+          throw new Error(`Named paths are not supported in ${subqueryType} subqueries`);
+        }
+        for (const pattern of clause.patterns) {
+          if (this.isRelationshipPattern(pattern)) {
+            registerRelationship(pattern);
+          } else {
+            resolveNode(pattern);
+          }
+        }
+        if (clause.where) whereClauses.push(clause.where);
+      } else if (clause.type === "RETURN" && clause === expr.query!.clauses[expr.query!.clauses.length - 1]) {
+        if (clause.orderBy || clause.skip || clause.limit) {
+          throw new Error(`ORDER BY, SKIP and LIMIT are not supported in ${subqueryType} subqueries`);
+        }
+        returnClause = clause;
+      } else {
+        throw new Error(`${clause.type} is not supported in ${subqueryType} subqueries`);
+      }
+    }
+
+    // WHERE and RETURN see the subquery's variables alongside the outer ones
+    const outerVariables = this.ctx.variables;
+    this.ctx.variables = new Map([...outerVariables, ...innerVariables]);
+    const innerAliases = new Set([...innerVariables.values()].map((info) => info.alias));
+    let selectSql = "1";
+    const selectParams: unknown[] = [];
+    try {
+      for (const { alias, key, value } of propertyExpressions) {
+        const result = this.translateWhereExpression(propertyValueToExpression(value));
+        conditions.push(`json_extract(${alias}.properties, '$.${key}') = ${result.sql}`);
+        conditionParams.push(...result.params);
+      }
+      for (const where of whereClauses) {
+        const result = this.translateWhere(where);
+        conditions.push(result.sql);
+        conditionParams.push(...result.params);
+      }
+
+      if (returnClause && subqueryType !== "EXISTS") {
+        const item = returnClause.items[0];
+        if (subqueryType === "COLLECT" || returnClause.distinct) {
+          const result = this.translateExpression(item.expression);
+          selectSql = result.sql;
+          selectParams.push(...result.params);
+          for (const table of result.tables) {
+            if (!innerAliases.has(table)) outerTables.add(table);
+          }
+        }
+      }
+    } finally {
+      this.ctx.variables = outerVariables;
+    }
+
+    const fromSql = from.length > 0 ? ` FROM ${from.join(", ")}` : "";
+    conditions.unshift(...this.interruptConditions(from));
+    const whereSql = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const distinct = returnClause?.distinct ? "DISTINCT " : "";
+    const params = [...selectParams, ...conditionParams];
+
+    let sql: string;
+    if (subqueryType === "EXISTS") {
+      sql = `EXISTS (SELECT 1${fromSql}${whereSql})`;
+    } else if (subqueryType === "COUNT") {
+      sql = `(SELECT COUNT(${distinct ? `DISTINCT ${selectSql}` : "*"})${fromSql}${whereSql})`;
+    } else {
+      sql = `(SELECT json_group_array(${distinct}${selectSql})${fromSql}${whereSql})`;
+    }
+
+    return { sql, tables: [...outerTables], params };
+  }
+
   /**
    * Translate an expression within a list comprehension, replacing
    * references to the comprehension variable with the json_each value column.
@@ -11430,6 +12124,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         if (funcName === "ABS") {
           return { sql: `ABS(${funcArgs[0]})`, params };
         }
+        if (funcName === "LIST") {
+          return { sql: `json_array(${funcArgs.join(", ")})`, params };
+        }
         if (funcName === "RAND") {
           // SQLite's RANDOM() returns integer, convert to 0-1 range
           return { sql: `((RANDOM() + 9223372036854775808) / 18446744073709551615.0)`, params };
@@ -11465,6 +12162,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         const left = this.translateListComprehensionExpr(condition.left!, compVar, tableAlias, scopes);
         const right = this.translateListComprehensionExpr(condition.right!, compVar, tableAlias, scopes);
         params.push(...left.params, ...right.params);
+        if (condition.operator === "=~") {
+          return { sql: `cypher_regex(${left.sql}, ${right.sql})`, params };
+        }
         const temporalOps = new Set(["<", "<=", ">", ">="]);
         if (temporalOps.has(condition.operator!)) {
           const wrapTemporal = (valueSql: string) => {
@@ -11812,7 +12512,8 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         // Some functions have known return types
         const fn = (expr.functionName || "").toUpperCase();
         const boolFunctions = ["EXISTS", "STARTSWITH", "ENDSWITH", "CONTAINS"];
-        const numFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "SIZE", "LENGTH", "ABS", "CEIL", "FLOOR", "ROUND", "SIGN", "TOINTEGER", "TOFLOAT", "TOBOOLEAN"];
+        const numFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "SIZE", "LENGTH", "ABS", "CEIL", "FLOOR", "ROUND", "SIGN", "TOINTEGER", "TOFLOAT", "TOBOOLEAN",
+          "SQRT", "EXP", "LOG", "LOG10", "SIN", "COS", "TAN", "ASIN", "ACOS", "ATAN", "ATAN2", "DEGREES", "RADIANS", "E", "PI", "STDEV", "STDEVP"];
         const strFunctions = ["TOSTRING", "TRIM", "LTRIM", "RTRIM", "REPLACE", "SUBSTRING", "TOUPPER", "TOLOWER", "LEFT", "RIGHT", "REVERSE"];
         const listFunctions = ["COLLECT", "RANGE", "KEYS", "LABELS", "TAIL", "SPLIT", "NODES", "RELATIONSHIPS"];
         
@@ -12015,6 +12716,14 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         const left = this.translateWhereExpression(condition.left!);
         const right = this.translateWhereExpression(condition.right!);
         
+        // Regular expression match: null for null or non-string operands
+        if (condition.operator === "=~") {
+          return {
+            sql: `cypher_regex(${left.sql}, ${right.sql})`,
+            params: [...left.params, ...right.params],
+          };
+        }
+        
         // For ordering operators, use Cypher-compliant type-aware comparison
         const orderingOps: Record<string, string> = {
           "<": "cypher_lt",
@@ -12211,9 +12920,10 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
       }
       
       // Filter by edge type if specified
-      if (rel.edge.type) {
-        conditions.push(`${edgeAlias}.type = ?`);
-        params.push(rel.edge.type);
+      const typeCondition = this.generateEdgeTypeCondition(edgeAlias, rel.edge);
+      if (typeCondition) {
+        conditions.push(typeCondition.sql);
+        params.push(...typeCondition.params);
       }
       
       // Check if target has a label - need to join to nodes table
@@ -12291,6 +13001,10 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
             const minHops = rel.edge.minHops ?? 1;
             const maxHops = rel.edge.maxHops ?? 10;
             
+            if (rel.edge.typeExpression) {
+              throw new Error("Relationship type expressions are not supported on variable-length relationships");
+            }
+
             // Build edge type filter - use literals in CTE to avoid parameter issues
             let edgeTypeFilterBase = "";
             let edgeTypeFilterRecursive = "";
@@ -12322,7 +13036,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT CASE WHEN e.source_id = vlp.current_id THEN e.target_id ELSE e.source_id END, vlp.hops + 1, vlp.visited_edges || e.id || ','
                     FROM var_length_path vlp
                     JOIN edges e ON (e.source_id = vlp.current_id OR e.target_id = vlp.current_id)${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops} AND vlp.visited_edges NOT LIKE '%,' || e.id || ',%'
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops} AND vlp.visited_edges NOT LIKE '%,' || e.id || ',%'
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12339,7 +13053,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT CASE WHEN e.source_id = vlp.current_id THEN e.target_id ELSE e.source_id END, vlp.hops + 1, vlp.visited_edges || e.id || ','
                     FROM var_length_path vlp
                     JOIN edges e ON (e.source_id = vlp.current_id OR e.target_id = vlp.current_id)${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops} AND vlp.visited_edges NOT LIKE '%,' || e.id || ',%'
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops} AND vlp.visited_edges NOT LIKE '%,' || e.id || ',%'
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12359,7 +13073,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT e.source_id, vlp.target_id, vlp.hops + 1
                     FROM var_length_path vlp
                     JOIN edges e ON e.target_id = vlp.source_id${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops}
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops}
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12376,7 +13090,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT e.source_id, vlp.target_id, vlp.hops + 1
                     FROM var_length_path vlp
                     JOIN edges e ON e.target_id = vlp.source_id${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops}
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops}
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12396,7 +13110,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT vlp.source_id, e.target_id, vlp.hops + 1
                     FROM var_length_path vlp
                     JOIN edges e ON vlp.target_id = e.source_id${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops}
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops}
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12413,7 +13127,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                     SELECT vlp.source_id, e.target_id, vlp.hops + 1
                     FROM var_length_path vlp
                     JOIN edges e ON vlp.target_id = e.source_id${edgeTypeFilterRecursive}
-                    WHERE vlp.hops < ${maxHops}
+                    WHERE cypher_interrupt() AND vlp.hops < ${maxHops}
                   )
                   SELECT 1
                   FROM var_length_path
@@ -12448,27 +13162,21 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
             }
             
             // Filter by edge type if specified
-            if (rel.edge.type) {
-              conditions[conditions.length - 1] += ` AND ${edgeAlias}.type = ?`;
-              params.push(rel.edge.type);
-            } else if (rel.edge.types && rel.edge.types.length > 0) {
-              const placeholders = rel.edge.types.map(() => "?").join(", ");
-              conditions[conditions.length - 1] += ` AND ${edgeAlias}.type IN (${placeholders})`;
-              params.push(...rel.edge.types);
+            const typeCondition = this.generateEdgeTypeCondition(edgeAlias, rel.edge);
+            if (typeCondition) {
+              conditions[conditions.length - 1] += ` AND ${typeCondition.sql}`;
+              params.push(...typeCondition.params);
             }
             
             // For anonymous targets with label constraints, add a join to nodes table
             if (targetIsAnonymous && rel.target.label) {
-              const labels = Array.isArray(rel.target.label) ? rel.target.label : [rel.target.label];
               const targetNodeAlias = `target_n${this.ctx.aliasCounter++}`;
-              // Remove trailing ) and add JOIN and label check
+              // Add the label check before closing the EXISTS subquery
               const existsClause = conditions[conditions.length - 1];
-              const withoutClosingParen = existsClause.slice(0, -1);
               
               // Build label check condition
-              const labelConditions = labels.map(l => 
-                `EXISTS(SELECT 1 FROM json_each(${targetNodeAlias}.label) WHERE value = '${l.replace(/'/g, "''")}')`
-              );
+              const labelMatch = this.generateLabelMatchCondition(targetNodeAlias, rel.target.label);
+              params.push(...labelMatch.params);
               
               // Determine which edge column to join on based on direction
               let joinColumn: string;
@@ -12478,7 +13186,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
                 joinColumn = `${edgeAlias}.target_id`;
               }
               
-              conditions[conditions.length - 1] = `${withoutClosingParen} AND EXISTS (SELECT 1 FROM nodes ${targetNodeAlias} WHERE ${targetNodeAlias}.id = ${joinColumn} AND (${labelConditions.join(" OR ")})))`;
+              conditions[conditions.length - 1] = `${existsClause} AND EXISTS (SELECT 1 FROM nodes ${targetNodeAlias} WHERE ${targetNodeAlias}.id = ${joinColumn} AND (${labelMatch.sql})))`;
             } else {
               conditions[conditions.length - 1] += ")";
             }
@@ -12486,12 +13194,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
           
           // Check target labels if specified (only for non-anonymous targets)
           if (!targetIsAnonymous && rel.target.label) {
-            const labels = Array.isArray(rel.target.label) ? rel.target.label : [rel.target.label];
-            // Use EXISTS with json_each to check if label is in the array
-            const labelConditions = labels.map(l => 
-              `EXISTS(SELECT 1 FROM json_each(${targetInfo!.alias}.label) WHERE value = '${l.replace(/'/g, "''")}')`
-            );
-            conditions.push(`(${labelConditions.join(" OR ")})`);
+            const labelMatch = this.generateLabelMatchCondition(targetInfo!.alias, rel.target.label);
+            conditions.push(`(${labelMatch.sql})`);
+            params.push(...labelMatch.params);
           }
        } else {
          // Node pattern only
@@ -12505,12 +13210,9 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
          
          // Check labels if specified
          if (node.label) {
-           const labels = Array.isArray(node.label) ? node.label : [node.label];
-           // Use EXISTS with json_each to check if label is in the array
-           const labelConditions = labels.map(l =>
-             `EXISTS(SELECT 1 FROM json_each(${nodeInfo.alias}.label) WHERE value = '${l.replace(/'/g, "''")}')`
-           );
-           conditions.push(`(${labelConditions.join(" OR ")})`);
+           const labelMatch = this.generateLabelMatchCondition(nodeInfo.alias, node.label);
+           conditions.push(`(${labelMatch.sql})`);
+           params.push(...labelMatch.params);
          }
        }
      }
@@ -12822,6 +13524,11 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         return this.translateOrderByComplexExpression(expr, returnAliases);
       }
 
+      case "reduce": {
+        const translated = this.translateExpression(expr);
+        return { sql: translated.sql, params: translated.params };
+      }
+
       default:
         throw new Error(`Cannot order by expression of type ${expr.type}`);
     }
@@ -13010,12 +13717,19 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
         };
       }
 
-      case "function": {
-        // Delegate to translateExpression for functions
+      case "function":
+      case "reduce": {
+        // Delegate to translateExpression for functions and reduce()
         const result = this.translateExpression(expr);
         return { sql: result.sql, params: result.params };
       }
 
+      case "subquery": {
+        // Conditions use EXISTS as is, without the conversion to a JSON boolean
+        const result = this.translateSubquery(expr);
+        return { sql: result.sql, params: result.params };
+      }
+
       case "comparison": {
         // Comparison expression like lhs < rhs
         // This can come from a WITH alias that was defined as a comparison
@@ -13036,6 +13750,12 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
             params: [...leftResult.params],
           };
         }
+        if (op === "=~") {
+          return {
+            sql: `cypher_regex(${leftResult.sql}, ${rightResult.sql})`,
+            params: [...leftResult.params, ...rightResult.params],
+          };
+        }
         
         // For ordering operators, use Cypher-compliant type-aware comparison
         const orderingOps: Record<string, string> = {
@@ -13218,6 +13938,16 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
    * and return the SQL expression to extract it from a temporal value.
    * Returns null if not a temporal accessor.
    */
+  /**
+   * Access a key of a map, or a component of a point (x, y, latitude, srid, ...)
+   */
+  private translateMapOrPointAccess(baseSql: string, propertyName: string): string {
+    if (!POINT_ACCESSORS.has(propertyName)) {
+      return `json_extract(${baseSql}, '$.${propertyName}')`;
+    }
+    return `cypher_point_property(${baseSql}, '${propertyName}')`;
+  }
+
   private translateTemporalPropertyAccess(baseSql: string, propertyName: string): string | null {
     // If baseSql uses the -> operator, we need to use json_extract to get the actual value
     // (the -> operator preserves JSON formatting with quotes)
@@ -13339,21 +14069,25 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
    * Generate SQL condition to match labels stored as JSON array.
    * For a single label "Person", checks if label array contains "Person"
    * For multiple labels ["A", "B"], checks if label array contains all of them
+   * Each label check starts with the label filter that property indexes are partial on.
    */
-  private generateLabelMatchCondition(alias: string, label: string | string[]): { sql: string; params: unknown[] } {
-    const labels = Array.isArray(label) ? label : [label];
+  private generateLabelMatchCondition(alias: string, label: string | string[] | LabelExpression): { sql: string; params: unknown[] } {
     const prefix = alias ? `${alias}.` : "";
+    if (isLabelExpression(label)) {
+      return labelExpressionSql(label, `${prefix}label`);
+    }
+    const labels = Array.isArray(label) ? label : [label];
     
     if (labels.length === 1) {
       // Single label: check if it exists in the JSON array
       return {
-        sql: `EXISTS (SELECT 1 FROM json_each(${prefix}label) WHERE value = ?)`,
+        sql: `${labelFilterCondition(`${prefix}label`, labels[0])} AND EXISTS (SELECT 1 FROM json_each(${prefix}label) WHERE value = ?)`,
         params: [labels[0]]
       };
     } else {
       // Multiple labels: check if all exist in the JSON array
-      const conditions = labels.map(() => 
-        `EXISTS (SELECT 1 FROM json_each(${prefix}label) WHERE value = ?)`
+      const conditions = labels.map((l) => 
+        `${labelFilterCondition(`${prefix}label`, l)} AND EXISTS (SELECT 1 FROM json_each(${prefix}label) WHERE value = ?)`
       );
       return {
         sql: conditions.join(" AND "),
@@ -13363,14 +14097,31 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
   }
 
   /**
-   * Normalize label to JSON array string for storage
+   * Generate SQL condition for a relationship's type: a single type, one of several types,
+   * or a type expression. Returns null when the pattern does not constrain the type.
    */
-  private normalizeLabelToJson(label: string | string[] | undefined): string {
-    if (!label) {
-      return JSON.stringify([]);
+  private generateEdgeTypeCondition(
+    alias: string,
+    edge: Pick<EdgePattern, "type" | "types" | "typeExpression">
+  ): { sql: string; params: unknown[] } | null {
+    if (edge.typeExpression) {
+      return typeExpressionSql(edge.typeExpression, `${alias}.type`);
+    }
+    const types = edge.types ?? (edge.type ? [edge.type] : []);
+    if (types.length === 0) {
+      return null;
     }
-    const labelArray = Array.isArray(label) ? label : [label];
-    return JSON.stringify(labelArray);
+    if (types.length === 1) {
+      return { sql: `${alias}.type = ?`, params: types };
+    }
+    return { sql: `${alias}.type IN (${types.map(() => "?").join(", ")})`, params: types };
+  }
+
+  /**
+   * Normalize label to JSON array string for storage
+   */
+  private normalizeLabelToJson(label: NodePattern["label"]): string {
+    return JSON.stringify(plainLabels(label));
   }
 
   /**
@@ -13607,11 +14358,11 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
   }
 
   /**
-   * Check if an expression is or contains an aggregate function (COUNT, SUM, AVG, MIN, MAX, COLLECT, PERCENTILEDISC, PERCENTILECONT)
+   * Check if an expression is or contains an aggregate function (COUNT, SUM, AVG, MIN, MAX, COLLECT, PERCENTILEDISC, PERCENTILECONT, STDEV, STDEVP)
    */
   private isAggregateExpression(expr: Expression): boolean {
     if (expr.type === "function" && expr.functionName) {
-      const aggregateFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "COLLECT", "PERCENTILEDISC", "PERCENTILECONT"];
+      const aggregateFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "COLLECT", "PERCENTILEDISC", "PERCENTILECONT", "STDEV", "STDEVP"];
       if (aggregateFunctions.includes(expr.functionName.toUpperCase())) {
         return true;
       }
@@ -13628,6 +14379,14 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
     if (expr.type === "object" && expr.properties) {
       return expr.properties.some(prop => this.isAggregateExpression(prop.value));
     }
+    // Check reduce() for aggregates in its initial value or list: reduce(s = 0, x IN collect(n.v) | s + x)
+    if (expr.type === "reduce") {
+      return this.isAggregateExpression(expr.initialValue!) || this.isAggregateExpression(expr.listExpr!);
+    }
+    // Check map projections for aggregates in literal entries: n {.name, friends: collect(f.name)}
+    if (expr.type === "mapProjection" && expr.projections) {
+      return expr.projections.some(item => item.value !== undefined && this.isAggregateExpression(item.value));
+    }
     // Check comparison expressions for aggregates (note: IS NULL/IS NOT NULL have no right operand)
     if (expr.type === "comparison") {
       const leftHasAggregate = expr.left ? this.isAggregateExpression(expr.left) : false;
@@ -13904,6 +14663,10 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
       };
 
       switch (fn) {
+        case "POINT": {
+          if (args.length !== 1) throw new Error("point requires a map argument");
+          return createPoint(this.isMapPropertyValue(args[0]) ? evalMapArg(args[0]) : this.evaluatePropertyValue(args[0]));
+        }
         case "TIMESTAMP":
           return Date.now();
         case "RANDOMUUID":
@@ -14116,85 +14879,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
   }
 
   private getExpressionName(expr: Expression): string {
-    switch (expr.type) {
-      case "variable":
-        return expr.variable!;
-      case "property":
-        return `${expr.variable}.${expr.property}`;
-      case "function": {
-        // Build full function call representation: function(args)
-        const funcName = expr.functionName!.toLowerCase();
-        if (expr.args && expr.args.length > 0) {
-          // Special case: INDEX function should be rendered as list[index] notation
-          if (funcName === "index" && expr.args.length === 2) {
-            const listName = this.getExpressionName(expr.args[0]);
-            const indexName = this.getExpressionName(expr.args[1]);
-            return `${listName}[${indexName}]`;
-          }
-          const argNames = expr.args.map(arg => this.getExpressionName(arg));
-          const distinctPrefix = expr.distinct ? "distinct " : "";
-          return `${funcName}(${distinctPrefix}${argNames.join(", ")})`;
-        }
-        // Handle COUNT(*) - the star flag indicates * was explicitly used
-        if (expr.star) {
-          return `${funcName}(*)`;
-        }
-        return `${funcName}()`;
-      }
-      case "labelPredicate": {
-        // For (n:Foo) or (n:Foo:Bar), the column name should be the full expression
-        const labels = expr.labels || (expr.label ? [expr.label] : []);
-        return `(${expr.variable}:${labels.join(':')})`;
-      }
-      case "literal": {
-        // For literals, use the string representation of the value
-        if (expr.value === null) return "NULL";
-        if (typeof expr.value === "string") return `'${expr.value}'`;
-        // For arrays/objects, use JSON.stringify to preserve nested structure
-        if (Array.isArray(expr.value) || typeof expr.value === "object") {
-          return JSON.stringify(expr.value);
-        }
-        return String(expr.value);
-      }
-      case "parameter":
-        return `$${expr.name}`;
-      case "binary":
-        // For binary expressions, try to reconstruct a readable name
-        return `${this.getExpressionName(expr.left!)} ${expr.operator} ${this.getExpressionName(expr.right!)}`;
-      case "propertyAccess": {
-        // For property access on expressions like (list[1]).name or map.key1.key2
-        const objectName = this.getExpressionName(expr.object!);
-        // Only add parentheses for complex expressions (functions, binary ops)
-        // Simple property chains like map.key1.key2 don't need parentheses
-        if (expr.object!.type === "property" || expr.object!.type === "variable") {
-          return `${objectName}.${expr.property}`;
-        }
-        return `(${objectName}).${expr.property}`;
-      }
-      case "comparison": {
-        // For comparison expressions like n.x IS NULL, n.x = 1, etc.
-        const leftName = this.getExpressionName(expr.left!);
-        const op = expr.comparisonOperator!;
-        if (op === "IS NULL" || op === "IS NOT NULL") {
-          return `${leftName} ${op}`;
-        }
-        const rightName = this.getExpressionName(expr.right!);
-        return `${leftName} ${op} ${rightName}`;
-      }
-      case "in": {
-        // For IN expressions like n.x IN [1, 2]
-        const leftName = this.getExpressionName(expr.left!);
-        const listName = this.getExpressionName(expr.list!);
-        return `${leftName} IN ${listName}`;
-      }
-      case "unary": {
-        // For unary expressions like NOT n.x
-        const operandName = this.getExpressionName(expr.operand!);
-        return `${expr.operator} ${operandName}`;
-      }
-      default:
-        return "expr";
-    }
+    return expressionName(expr);
   }
 
   /**
@@ -14338,7 +15023,7 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
   private isPureAggregateExpression(expr: Expression, availableColumns?: Set<string>, returnedExpressions?: Expression[]): boolean {
     switch (expr.type) {
       case "function": {
-        const aggregateFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "COLLECT", "PERCENTILEDISC", "PERCENTILECONT"];
+        const aggregateFunctions = ["COUNT", "SUM", "AVG", "MIN", "MAX", "COLLECT", "PERCENTILEDISC", "PERCENTILECONT", "STDEV", "STDEVP"];
         // ORDER BY may reference a projected aggregate expression (even within a larger expression)
         // by repeating it verbatim.
         if (returnedExpressions && this.expressionMatchesAny(expr, returnedExpressions)) {
@@ -15237,6 +15922,91 @@ SELECT COALESCE(json_group_array(CAST(n AS INTEGER)), json_array()) FROM r)`,
   }
 }
 
+/**
+ * The column name Cypher gives an unaliased RETURN or WITH item
+ */
+export function expressionName(expr: Expression): string {
+  switch (expr.type) {
+    case "variable":
+      return expr.variable!;
+    case "property":
+      return `${expr.variable}.${expr.property}`;
+    case "function": {
+      // Build full function call representation: function(args)
+      const funcName = expr.functionName!.toLowerCase();
+      if (expr.args && expr.args.length > 0) {
+        // Special case: INDEX function should be rendered as list[index] notation
+        if (funcName === "index" && expr.args.length === 2) {
+          const listName = expressionName(expr.args[0]);
+          const indexName = expressionName(expr.args[1]);
+          return `${listName}[${indexName}]`;
+        }
+        const argNames = expr.args.map(arg => expressionName(arg));
+        const distinctPrefix = expr.distinct ? "distinct " : "";
+        return `${funcName}(${distinctPrefix}${argNames.join(", ")})`;
+      }
+      // Handle COUNT(*) - the star flag indicates * was explicitly used
+      if (expr.star) {
+        return `${funcName}(*)`;
+      }
+      return `${funcName}()`;
+    }
+    case "labelPredicate": {
+      // For (n:Foo) or (n:Foo:Bar), the column name should be the full expression
+      const labels = expr.labels || (expr.label ? [expr.label] : []);
+      return `(${expr.variable}:${labels.join(':')})`;
+    }
+    case "literal": {
+      // For literals, use the string representation of the value
+      if (expr.value === null) return "NULL";
+      if (typeof expr.value === "string") return `'${expr.value}'`;
+      // For arrays/objects, use JSON.stringify to preserve nested structure
+      if (Array.isArray(expr.value) || typeof expr.value === "object") {
+        return JSON.stringify(expr.value);
+      }
+      return String(expr.value);
+    }
+    case "parameter":
+      return `$${expr.name}`;
+    case "binary":
+      // For binary expressions, try to reconstruct a readable name
+      return `${expressionName(expr.left!)} ${expr.operator} ${expressionName(expr.right!)}`;
+    case "propertyAccess": {
+      // For property access on expressions like (list[1]).name or map.key1.key2
+      const objectName = expressionName(expr.object!);
+      // Only add parentheses for complex expressions (functions, binary ops)
+      // Simple property chains like map.key1.key2 don't need parentheses
+      if (expr.object!.type === "property" || expr.object!.type === "variable") {
+        return `${objectName}.${expr.property}`;
+      }
+      return `(${objectName}).${expr.property}`;
+    }
+    case "comparison": {
+      // For comparison expressions like n.x IS NULL, n.x = 1, etc.
+      const leftName = expressionName(expr.left!);
+      const op = expr.comparisonOperator!;
+      if (op === "IS NULL" || op === "IS NOT NULL") {
+        return `${leftName} ${op}`;
+      }
+      const rightName = expressionName(expr.right!);
+      return `${leftName} ${op} ${rightName}`;
+    }
+    case "in": {
+      // For IN expressions like n.x IN [1, 2]
+      const leftName = expressionName(expr.left!);
+      const listName = expressionName(expr.list!);
+      return `${leftName} IN ${listName}`;
+    }
+    case "unary": {
+      // For unary expressions like NOT n.x
+      const operandName = expressionName(expr.operand!);
+      return `${expr.operator} ${operandName}`;
+    }
+    default:
+      return "expr";
+  }
+}
+
 // Convenience function
 export function translate(query: Query, params: Record<string, unknown> = {}): TranslationResult {
   return new Translator(params).translate(query);
@@ -1,5 +1,7 @@
 // LeanGraph - Shared Types
 
+import type { QueryPlan } from "./executor.js";
+
 // ============================================================================
 // Configuration Options
 // ============================================================================
@@ -43,6 +45,37 @@ export interface LeanGraphOptions {
    * @default LEANGRAPH_DATA_PATH env var or './data'
    */
   dataPath?: string;
+  
+  /**
+   * Directory LOAD CSV may read files from.
+   * Only used in local mode. LOAD CSV is disabled when not set.
+   * @default LEANGRAPH_IMPORT_PATH env var
+   */
+  importPath?: string;
+
+  /**
+   * Default time limit for each query, in milliseconds. No limit when not set,
+   * though a server may apply its own.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for a single query.
+ */
+export interface QueryOptions {
+  /**
+   * Time limit for this query in milliseconds, replacing the client's timeoutMs.
+   * A query that runs longer fails with error code QUERY_TIMEOUT and its writes are rolled back.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels the query when aborted; it then fails with error code QUERY_CANCELLED.
+   * A local query runs synchronously once started, so the signal is seen before it starts
+   * and while a stream is read.
+   */
+  signal?: AbortSignal;
 }
 
 // ============================================================================
@@ -59,11 +92,31 @@ export interface QueryResponse<T = Record<string, unknown>> {
     count: number;
     time_ms: number;
   };
+  /**
+   * Execution plan, present for EXPLAIN and PROFILE queries.
+   */
+  plan?: QueryPlan;
   error?: {
     message: string;
     position?: number;
     line?: number;
     column?: number;
+    code?: string;
+  };
+}
+
+/**
+ * Response from running a script of several statements.
+ */
+export interface ScriptResponse<T = Record<string, unknown>> {
+  success: boolean;
+  /**
+   * Result of each statement, in script order.
+   */
+  results: Array<Pick<QueryResponse<T>, "data" | "meta" | "plan">>;
+  meta: {
+    count: number;
+    time_ms: number;
   };
 }
 
@@ -85,6 +138,49 @@ export type NodeResult = Record<string, unknown>;
 // Client Interface
 // ============================================================================
 
+/**
+ * An open transaction. Its queries see each other's writes, which are kept only once it is
+ * committed. Like in Neo4j, a failing query rolls back the whole transaction.
+ */
+export interface Transaction {
+  /**
+   * Execute a Cypher query in the transaction and return the data array.
+   * @throws LeanGraphError if the query fails (the transaction is then rolled back)
+   */
+  query<T = Record<string, unknown>>(
+    cypher: string,
+    params?: Record<string, unknown>,
+    options?: QueryOptions
+  ): Promise<T[]>;
+
+  /**
+   * Execute a Cypher query in the transaction and return the full response including metadata.
+   * @throws LeanGraphError if the query fails (the transaction is then rolled back)
+   */
+  queryRaw<T = Record<string, unknown>>(
+    cypher: string,
+    params?: Record<string, unknown>,
+    options?: QueryOptions
+  ): Promise<QueryResponse<T>>;
+
+  /**
+   * Execute a mutating query in the transaction without expecting return data.
+   * @throws LeanGraphError if the query fails (the transaction is then rolled back)
+   */
+  execute(cypher: string, params?: Record<string, unknown>, options?: QueryOptions): Promise<void>;
+
+  /**
+   * Keep the transaction's writes.
+   * @throws LeanGraphError if the transaction is no longer open or the commit fails
+   */
+  commit(): Promise<void>;
+
+  /**
+   * Discard the transaction's writes. Does nothing if the transaction is no longer open.
+   */
+  rollback(): Promise<void>;
+}
+
 /**
  * GraphDB client interface.
  * Both local and remote clients implement this interface.
@@ -96,7 +192,8 @@ export interface LeanGraphClient {
    */
   query<T = Record<string, unknown>>(
     cypher: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options?: QueryOptions
   ): Promise<T[]>;
 
   /**
@@ -105,14 +202,52 @@ export interface LeanGraphClient {
    */
   queryRaw<T = Record<string, unknown>>(
     cypher: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options?: QueryOptions
   ): Promise<QueryResponse<T>>;
 
+  /**
+   * Execute a Cypher query and iterate its rows as they are read, without holding the whole
+   * result in memory. Other calls on the client wait until the iteration ends, so finish or
+   * break out of the loop before querying again.
+   * @throws LeanGraphError if the query fails
+   */
+  stream<T = Record<string, unknown>>(
+    cypher: string,
+    params?: Record<string, unknown>,
+    options?: QueryOptions
+  ): AsyncIterable<T>;
+
   /**
    * Execute a mutating query (CREATE, SET, DELETE, MERGE) without expecting return data.
    * @throws LeanGraphError if the query fails
    */
-  execute(cypher: string, params?: Record<string, unknown>): Promise<void>;
+  execute(cypher: string, params?: Record<string, unknown>, options?: QueryOptions): Promise<void>;
+
+  /**
+   * Execute a script of semicolon-separated statements in a single transaction.
+   * If a statement fails, none of the script's writes are kept.
+   * @throws LeanGraphError with the failing statement's index and location
+   */
+  executeScript<T = Record<string, unknown>>(
+    script: string,
+    params?: Record<string, unknown>,
+    options?: QueryOptions
+  ): Promise<ScriptResponse<T>>;
+
+  /**
+   * Run a function in a transaction, committed when the function resolves and rolled back
+   * when it throws. Other calls on the client wait until the transaction ends, so use the
+   * transaction passed to the function inside it.
+   * @returns What the function resolves to
+   */
+  transaction<R>(work: (tx: Transaction) => Promise<R>): Promise<R>;
+
+  /**
+   * Begin a transaction to commit or roll back explicitly.
+   * Other calls on the client wait until the transaction ends.
+   */
+  beginTransaction(): Promise<Transaction>;
 
   /**
    * Create a node with the given label and properties.
@@ -178,6 +313,10 @@ export class LeanGraphError extends Error {
   public readonly position?: number;
   public readonly line?: number;
   public readonly column?: number;
+  /** Index of the failing statement (0-based), for scripts */
+  public readonly statement?: number;
+  /** QUERY_TIMEOUT or QUERY_CANCELLED when the query was stopped by its time limit or signal */
+  public readonly code?: string;
 
   constructor(
     message: string,
@@ -185,6 +324,8 @@ export class LeanGraphError extends Error {
       position?: number;
       line?: number;
       column?: number;
+      statement?: number;
+      code?: string;
     }
   ) {
     super(message);
@@ -192,5 +333,7 @@ export class LeanGraphError extends Error {
     this.position = options?.position;
     this.line = options?.line;
     this.column = options?.column;
+    this.statement = options?.statement;
+    this.code = options?.code;
   }
 }
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as net from "net";
+import { AddressInfo } from "net";
+import { createBoltServer } from "../src/bolt";
+import { pack, unpack, Structure } from "../src/packstream";
+import { DatabaseManager } from "../src/db";
+import { ApiKeyStore } from "../src/auth";
+
+const HELLO = 0x01;
+const RESET = 0x0f;
+const RUN = 0x10;
+const BEGIN = 0x11;
+const COMMIT = 0x12;
+const ROLLBACK = 0x13;
+const PULL = 0x3f;
+const LOGON = 0x6a;
+const SUCCESS = 0x70;
+const RECORD = 0x71;
+const IGNORED = 0x7e;
+const FAILURE = 0x7f;
+
+/**
+ * Minimal Bolt client: handshake, chunked messages and replies in order
+ */
+class BoltClient {
+  private buffer = Buffer.alloc(0);
+  private chunks: Buffer[] = [];
+  private messages: Structure[] = [];
+  private waiting?: () => void;
+
+  constructor(private socket: net.Socket) {
+    socket.on("data", (data) => {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      this.waiting?.();
+    });
+  }
+
+  static async connect(port: number, versions: [number, number, number][]): Promise<{ client: BoltClient; version: number[] }> {
+    const socket = net.connect(port, "127.0.0.1");
+    await new Promise((resolve) => socket.once("connect", resolve));
+    const client = new BoltClient(socket);
+
+    const handshake = Buffer.alloc(20);
+    handshake.writeUInt32BE(0x6060b017);
+    versions.forEach(([major, minor, range], i) => handshake.set([0, range, minor, major], 4 + i * 4));
+    socket.write(handshake);
+
+    await client.until(() => client.buffer.length >= 4);
+    const version = [client.buffer[3], client.buffer[2]];
+    client.buffer = client.buffer.subarray(4);
+    return { client, version };
+  }
+
+  private async until(ready: () => boolean): Promise<void> {
+    while (!ready()) {
+      await new Promise<void>((resolve) => (this.waiting = resolve));
+    }
+  }
+
+  send(tag: number, ...fields: unknown[]): void {
+    const message = pack(new Structure(tag, fields));
+    const header = Buffer.alloc(2);
+    header.writeUInt16BE(message.length);
+    this.socket.write(Buffer.concat([header, message, Buffer.alloc(2)]));
+  }
+
+  async receive(): Promise<Structure> {
+    await this.until(() => {
+      while (this.buffer.length >= 2) {
+        const size = this.buffer.readUInt16BE(0);
+        if (this.buffer.length < 2 + size) break;
+        if (size > 0) {
+          this.chunks.push(this.buffer.subarray(2, 2 + size));
+        } else {
+          this.messages.push(unpack(Buffer.concat(this.chunks)) as Structure);
+          this.chunks = [];
+        }
+        this.buffer = this.buffer.subarray(2 + size);
+      }
+      return this.messages.length > 0;
+    });
+    return this.messages.shift()!;
+  }
+
+  /**
+   * Send a message and collect replies up to its SUCCESS, FAILURE or IGNORED
+   */
+  async request(tag: number, ...fields: unknown[]): Promise<{ records: unknown[][]; summary: Structure }> {
+    this.send(tag, ...fields);
+    const records: unknown[][] = [];
+    for (;;) {
+      const message = await this.receive();
+      if (message.tag !== RECORD) return { records, summary: message };
+      records.push(message.fields[0] as unknown[]);
+    }
+  }
+
+  async query(cypher: string, params: Record<string, unknown> = {}, extra: Record<string, unknown> = {}) {
+    const run = await this.request(RUN, cypher, params, extra);
+    if (run.summary.tag !== SUCCESS) return run;
+    return this.request(PULL, { n: -1 });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+describe("PackStream", () => {
+  it("round-trips values of every type", () => {
+    const value = {
+      nothing: null,
+      flags: [true, false],
+      integers: [0, -16, 127, -128, 1000, -40000, 2 ** 40],
+      float: 1.5,
+      text: "héllo".repeat(10),
+      nested: { list: [1, "two", [3]] },
+    };
+
+    expect(unpack(pack(value))).toEqual(value);
+    expect(unpack(pack(new Structure(0x4e, [1, ["Person"], {}])))).toEqual(new Structure(0x4e, [1, ["Person"], {}]));
+  });
+
+  it("uses the smallest integer encoding", () => {
+    expect([...pack(-16)]).toEqual([0xf0]);
+    expect([...pack(-17)]).toEqual([0xc8, 0xef]);
+    expect([...pack(200)]).toEqual([0xc9, 0x00, 0xc8]);
+    expect([...pack("a")]).toEqual([0x81, 0x61]);
+  });
+});
+
+describe("Bolt Server", () => {
+  let dbManager: DatabaseManager;
+  let server: net.Server;
+  let port: number;
+  let clients: BoltClient[];
+
+  async function start(apiKeyStore?: ApiKeyStore): Promise<void> {
+    server?.close();
+    server = createBoltServer({ dbManager, apiKeyStore });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  }
+
+  async function connect(version: [number, number, number] = [5, 8, 8], auth: Record<string, unknown> = { scheme: "none" }) {
+    const { client } = await BoltClient.connect(port, [version]);
+    clients.push(client);
+    if (version[0] === 5 && version[1] >= 1) {
+      expect((await client.request(HELLO, { user_agent: "test/1.0" })).summary.tag).toBe(SUCCESS);
+      const { summary } = await client.request(LOGON, auth);
+      return { client, summary };
+    }
+    const { summary } = await client.request(HELLO, { user_agent: "test/1.0", ...auth });
+    return { client, summary };
+  }
+
+  beforeEach(async () => {
+    dbManager = new DatabaseManager(":memory:");
+    clients = [];
+    await start();
+  });
+
+  afterEach(() => {
+    for (const client of clients) client.close();
+    server.close();
+    dbManager.closeAll();
+  });
+
+  it("negotiates the highest supported version in the client's ranges", async () => {
+    const { client, version } = await BoltClient.connect(port, [
+      [5, 8, 8],
+      [4, 4, 2],
+    ]);
+    clients.push(client);
+    expect(version).toEqual([5, 4]);
+
+    const legacy = await BoltClient.connect(port, [[4, 4, 0]]);
+    clients.push(legacy.client);
+    expect(legacy.version).toEqual([4, 4]);
+
+    const unsupported = await BoltClient.connect(port, [[3, 0, 0]]);
+    clients.push(unsupported.client);
+    expect(unsupported.version).toEqual([0, 0]);
+  });
+
+  it("returns nodes and relationships as structures", async () => {
+    const { client } = await connect();
+    await client.query("CREATE (:Person {name: 'Alice'})-[:KNOWS {since: 2020}]->(:Person:Dev {name: 'Bob'})");
+
+    const run = await client.request(RUN, "MATCH (a)-[r:KNOWS]->(b) RETURN a, r, b.name AS name", {}, {});
+    expect(run.summary.fields[0]).toMatchObject({ fields: ["a", "r", "name"] });
+
+    const { records, summary } = await client.request(PULL, { n: -1 });
+    expect(summary.fields[0]).toMatchObject({ type: "r", db: "neo4j" });
+    const [node, relationship, name] = records[0] as Structure[];
+    expect(node.tag).toBe(0x4e);
+    expect(node.fields.slice(1, 3)).toEqual([["Person"], { name: "Alice" }]);
+    expect(typeof node.fields[0]).toBe("number");
+    expect(typeof node.fields[3]).toBe("string");
+    expect(relationship.tag).toBe(0x52);
+    expect(relationship.fields[1]).toBe(node.fields[0]);
+    expect(relationship.fields.slice(3, 5)).toEqual(["KNOWS", { since: 2020 }]);
+    expect(relationship.fields[6]).toBe(node.fields[3]);
+    expect(name).toBe("Bob");
+  });
+
+  it("returns variable-length paths as path structures", async () => {
+    const { client } = await connect();
+    await client.query("CREATE (:Stop {name: 'A'})-[:NEXT]->(:Stop {name: 'B'})-[:NEXT]->(:Stop {name: 'C'})");
+
+    const { records } = await client.query("MATCH p = (:Stop {name: 'A'})-[:NEXT*]->(:Stop {name: 'C'}) RETURN p");
+    const path = records[0][0] as Structure;
+    expect(path.tag).toBe(0x50);
+    const [nodes, relationships, indices] = path.fields as [Structure[], Structure[], number[]];
+    expect(nodes.map((node) => (node.fields[2] as any).name)).toEqual(["A", "B", "C"]);
+    expect(relationships.map((relationship) => relationship.fields[1])).toEqual(["NEXT", "NEXT"]);
+    expect(indices).toEqual([1, 1, 2, 2]);
+  });
+
+  it("streams records in batches of the requested size", async () => {
+    const { client } = await connect();
+    await client.request(RUN, "UNWIND range(1, 5) AS i RETURN i", {}, {});
+
+    const first = await client.request(PULL, { n: 2 });
+    expect(first.records).toEqual([[1], [2]]);
+    expect(first.summary.fields[0]).toEqual({ has_more: true });
+
+    const rest = await client.request(PULL, { n: -1 });
+    expect(rest.records).toEqual([[3], [4], [5]]);
+    expect(rest.summary.fields[0]).not.toHaveProperty("has_more");
+  });
+
+  it("uses the 4.4 structures and authenticates with HELLO", async () => {
+    const { client, summary } = await connect([4, 4, 0]);
+    expect(summary.tag).toBe(SUCCESS);
+
+    const { records } = await client.query("CREATE (n:Person {name: $name}) RETURN n", { name: "Alice" });
+    const node = records[0][0] as Structure;
+    expect(node.fields).toHaveLength(3);
+    expect(node.fields[2]).toEqual({ name: "Alice" });
+  });
+
+  it("commits or rolls back explicit transactions", async () => {
+    const { client } = await connect();
+
+    await client.request(BEGIN, {});
+    await client.query("CREATE (:Person {name: 'Alice'})");
+    await client.request(ROLLBACK);
+
+    await client.request(BEGIN, { db: "neo4j" });
+    await client.query("CREATE (:Person {name: 'Bob'})");
+    expect((await client.request(COMMIT)).summary.tag).toBe(SUCCESS);
+
+    const { records } = await client.query("MATCH (n:Person) RETURN n.name AS name");
+    expect(records).toEqual([["Bob"]]);
+  });
+
+  it("ignores messages after a failure until the client resets", async () => {
+    const { client } = await connect();
+
+    client.send(RUN, "RETRUN 1", {}, {});
+    client.send(PULL, { n: -1 });
+    const failure = await client.receive();
+    expect(failure.tag).toBe(FAILURE);
+    expect(failure.fields[0]).toMatchObject({ code: "Neo.ClientError.Statement.SyntaxError" });
+    expect((await client.receive()).tag).toBe(IGNORED);
+
+    expect((await client.request(RESET)).summary.tag).toBe(SUCCESS);
+    expect((await client.query("RETURN 1 AS one")).records).toEqual([[1]]);
+  });
+
+  it("fails queries that run past the driver's transaction timeout", async () => {
+    const { client } = await connect();
+    await client.query("UNWIND range(1, 12) AS i CREATE (:N {i: i})");
+    await client.query("MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)");
+
+    const run = await client.request(RUN, "MATCH (:N {i: 1})-[*]->(b) RETURN count(*)", {}, { tx_timeout: 50 });
+    expect(run.summary.tag).toBe(FAILURE);
+    expect(run.summary.fields[0]).toMatchObject({ code: "Neo.ClientError.Transaction.TransactionTimedOut" });
+  });
+
+  it("authenticates with an API key as password", async () => {
+    const store = new ApiKeyStore();
+    store.addKey("test-api-key", { project: "myproject" });
+    await start(store);
+
+    const denied = await connect(undefined, { scheme: "basic", principal: "neo4j", credentials: "wrong" });
+    expect(denied.summary.tag).toBe(FAILURE);
+    expect(denied.summary.fields[0]).toMatchObject({ code: "Neo.ClientError.Security.Unauthorized" });
+
+    const { client, summary } = await connect(undefined, { scheme: "basic", principal: "neo4j", credentials: "test-api-key" });
+    expect(summary.tag).toBe(SUCCESS);
+    const { summary: pulled } = await client.query("RETURN 1 AS one");
+    expect(pulled.fields[0]).toMatchObject({ db: "myproject" });
+
+    const forbidden = await client.query("RETURN 1 AS one", {}, { db: "other" });
+    expect(forbidden.summary.fields[0]).toMatchObject({ code: "Neo.ClientError.Security.Forbidden" });
+  });
+});
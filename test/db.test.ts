@@ -247,6 +247,145 @@ describe("GraphDatabase", () => {
       expect(result).toBe(1);
     });
   });
+
+  describe("Property indexes", () => {
+    const userEmail = { name: "user_email", entityType: "NODE" as const, labelOrType: "User", properties: ["email"] };
+
+    it("creates a partial expression index and records it", () => {
+      expect(db.createPropertyIndex(userEmail)).toBe(true);
+
+      const result = db.execute("SELECT sql FROM sqlite_master WHERE type='index' AND name='propidx_user_email'");
+      expect(result.rows[0].sql).toContain("json_extract(properties, '$.email')");
+      expect(result.rows[0].sql).toContain(`WHERE instr(label, '"User"') > 0`);
+      expect(db.listPropertyIndexes()).toEqual([userEmail]);
+    });
+
+    it("rejects duplicate names and equivalent indexes", () => {
+      db.createPropertyIndex(userEmail);
+
+      expect(() => db.createPropertyIndex({ ...userEmail, properties: ["name"] })).toThrow(
+        "There already exists an index called 'user_email'"
+      );
+      expect(() => db.createPropertyIndex({ ...userEmail, name: "other" })).toThrow("equivalent index");
+      expect(db.createPropertyIndex({ ...userEmail, name: "other" }, true)).toBe(false);
+    });
+
+    it("drops an index", () => {
+      db.createPropertyIndex(userEmail);
+
+      expect(db.dropPropertyIndex("user_email")).toBe(true);
+      expect(db.listPropertyIndexes()).toEqual([]);
+      expect(() => db.dropPropertyIndex("user_email")).toThrow("no such index");
+      expect(db.dropPropertyIndex("user_email", true)).toBe(false);
+    });
+  });
+
+  describe("Full-text indexes", () => {
+    const search = (query: string) =>
+      db
+        .execute('SELECT rowid FROM "fulltext_products" WHERE "fulltext_products" MATCH ?', [query])
+        .rows.map((row) => row.rowid);
+
+    it("indexes existing nodes and follows later writes", () => {
+      db.insertNode("a", "Product", { title: "Red running shoes" });
+      db.insertNode("b", "Category", { title: "Running" });
+      db.createFulltextIndex({ name: "products", labels: ["Product"], properties: ["title"] });
+      expect(search("running")).toHaveLength(1);
+
+      db.insertNode("c", "Product", { title: "Running hat", price: 10 });
+      expect(search("running")).toHaveLength(2);
+
+      db.updateNodeProperties("c", { title: "Sun hat" });
+      expect(search("running")).toHaveLength(1);
+      expect(search("sun")).toHaveLength(1);
+
+      db.deleteNode("a");
+      expect(search("running")).toHaveLength(0);
+    });
+
+    it("keeps matching the right nodes when their rowids change", () => {
+      db.insertNode("a", "Product", { title: "Red running shoes" });
+      db.insertNode("b", "Product", { title: "Blue sun hat" });
+      db.createFulltextIndex({ name: "products", labels: ["Product"], properties: ["title"] });
+      db.deleteNode("a");
+      // VACUUM may renumber the rowids of nodes, which has a TEXT primary key
+      db.execute("UPDATE nodes SET rowid = rowid - 1");
+      db.insertNode("c", "Product", { title: "Green running shorts" });
+
+      const matches = (query: string) =>
+        db
+          .execute(
+            `SELECT k.node_id FROM "fulltext_products" JOIN "fulltext_products_keys" k ON k.key = "fulltext_products".rowid
+             WHERE "fulltext_products" MATCH ?`,
+            [query]
+          )
+          .rows.map((row) => row.node_id);
+      expect(matches("sun")).toEqual(["b"]);
+      expect(matches("running")).toEqual(["c"]);
+    });
+
+    it("only indexes string properties", () => {
+      db.createFulltextIndex({ name: "products", labels: ["Product"], properties: ["title"] });
+      db.insertNode("a", "Product", { title: 42 });
+
+      expect(search("42")).toHaveLength(0);
+    });
+
+    it("drops the index and its triggers", () => {
+      db.createFulltextIndex({ name: "products", labels: ["Product"], properties: ["title"] });
+      expect(() => db.createFulltextIndex({ name: "products", labels: ["Product"], properties: ["body"] })).toThrow(
+        "There already exists an index called 'products'"
+      );
+
+      expect(db.dropFulltextIndex("products")).toBe(true);
+      expect(db.listFulltextIndexes()).toEqual([]);
+      expect(db.execute("SELECT name FROM sqlite_master WHERE name LIKE 'fulltext_products%'").rows).toEqual([]);
+      db.insertNode("a", "Product", { title: "Still writable" });
+      expect(() => db.dropFulltextIndex("products")).toThrow("There is no such fulltext schema index: products");
+    });
+  });
+
+  describe("Constraints", () => {
+    const userEmail = {
+      name: "user_email",
+      kind: "UNIQUE" as const,
+      entityType: "NODE" as const,
+      labelOrType: "User",
+      properties: ["email"],
+    };
+
+    it("checks only the nodes written since the last check", () => {
+      db.createConstraint(userEmail);
+      db.checkConstraints();
+
+      db.insertNode("a", "User", { email: "a@example.com" });
+      db.checkConstraints();
+
+      db.insertNode("b", "User", { email: "a@example.com" });
+      expect(() => db.checkConstraints()).toThrow(
+        "Constraint 'user_email' violated: node with label `User` and property `email` = 'a@example.com' already exists"
+      );
+      // The pending writes are cleared after each check
+      expect(() => db.checkConstraints()).not.toThrow();
+    });
+
+    it("refuses to create a constraint that existing data violates", () => {
+      db.insertNode("a", "User", { email: "a@example.com" });
+      db.insertNode("b", "User", { email: "a@example.com" });
+
+      expect(() => db.createConstraint(userEmail)).toThrow("Unable to create constraint 'user_email'");
+      expect(db.listConstraints()).toEqual([]);
+    });
+
+    it("drops a constraint", () => {
+      db.createConstraint(userEmail);
+      expect(db.hasConstraints()).toBe(true);
+
+      expect(db.dropConstraint("user_email")).toBe(true);
+      expect(db.hasConstraints()).toBe(false);
+      expect(() => db.dropConstraint("user_email")).toThrow("no such constraint");
+    });
+  });
 });
 
 describe("DatabaseManager", () => {
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { ExecutionResult } from "../src/executor";
+import * as fs from "fs";
+import * as path from "path";
+import { GraphDatabase } from "../src/db";
+import { ExecutionResult, Executor } from "../src/executor";
 import { createTestClient, TestClient, expectSuccess } from "./utils";
 
 describe("Integration Tests", () => {
@@ -2529,6 +2532,106 @@ describe("Integration Tests", () => {
       expect(rand).toBeGreaterThanOrEqual(0);
       expect(rand).toBeLessThan(1);
     });
+
+    it("computes logarithms, exponentials and constants", async () => {
+      await client.execute("CREATE (s:Score {value: 1000})");
+
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (s:Score) RETURN log10(s.value) AS log10, log(e()) AS ln, exp(0) AS exp, pi() AS pi, sign(-s.value) AS sign"
+        )
+      );
+
+      expect(result.data).toEqual([{ log10: 3, ln: 1, exp: 1, pi: Math.PI, sign: -1 }]);
+    });
+
+    it("computes trigonometric functions and angle conversions", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "RETURN sin(pi() / 2) AS sin, cos(0) AS cos, tan(0) AS tan, asin(1) AS asin, acos(1) AS acos, atan(1) AS atan, atan2(1, 1) AS atan2, degrees(pi()) AS degrees, radians(180) AS radians"
+        )
+      );
+
+      expect(result.data).toEqual([
+        {
+          sin: 1,
+          cos: 1,
+          tan: 0,
+          asin: Math.PI / 2,
+          acos: 0,
+          atan: Math.PI / 4,
+          atan2: Math.PI / 4,
+          degrees: 180,
+          radians: Math.PI,
+        },
+      ]);
+    });
+
+    it("returns null for null and out-of-domain arguments", async () => {
+      const result = expectSuccess(
+        await client.execute("RETURN log(null) AS a, sin(null) AS b, atan2(null, 1) AS c, log(-1) AS d, asin(2) AS e")
+      );
+
+      expect(result.data).toEqual([{ a: null, b: null, c: null, d: null, e: null }]);
+    });
+
+    it("returns null for NaN results in SQL and in memory", async () => {
+      const expressions = "sqrt(-1) AS a, 0.0 / 0.0 AS b, log(-1) AS c, 1 / 0 AS d, acos(2) + 1 AS e";
+      const expected = [{ a: null, b: null, c: null, d: null, e: null }];
+
+      // Translated to SQL
+      expect(expectSuccess(await client.execute(`RETURN ${expressions}`)).data).toEqual(expected);
+      // Evaluated row by row after a CREATE
+      expect(expectSuccess(await client.execute(`CREATE (n:Temp) WITH n RETURN ${expressions}`)).data).toEqual(expected);
+      expect(
+        expectSuccess(await client.execute(`UNWIND [1] AS x CALL { WITH x RETURN ${expressions} } RETURN a, b, c, d, e`)).data
+      ).toEqual(expected);
+    });
+
+    it("computes sample and population standard deviation with stDev() and stDevP()", async () => {
+      await client.execute("UNWIND [2, 4, 4, 4, 5, 5, 7, 9] AS v CREATE (:Sample {v: v, group: v % 2})");
+
+      const all = expectSuccess(
+        await client.execute("MATCH (s:Sample) RETURN stDev(s.v) AS sample, stDevP(s.v) AS population")
+      );
+      expect(all.data[0].sample).toBeCloseTo(2.13809, 5);
+      expect(all.data[0].population).toBe(2);
+
+      const grouped = expectSuccess(
+        await client.execute("MATCH (s:Sample) RETURN s.group AS group, stDevP(s.v) AS sd ORDER BY group")
+      );
+      expect(grouped.data.map((row) => row.group)).toEqual([0, 1]);
+      expect(grouped.data[0].sd).toBeCloseTo(Math.sqrt(0.75), 10);
+
+      const single = expectSuccess(
+        await client.execute("MATCH (s:Sample {v: 2}) RETURN stDev(s.v) AS sd")
+      );
+      expect(single.data).toEqual([{ sd: 0 }]);
+    });
+
+    it("evaluates math functions in SET and after UNWIND", async () => {
+      await client.execute("CREATE (:Score {value: 100})");
+      expectSuccess(await client.execute("MATCH (s:Score) SET s.log = log10(s.value)"));
+
+      const stored = expectSuccess(await client.execute("MATCH (s:Score) RETURN s.log AS log"));
+      expect(stored.data).toEqual([{ log: 2 }]);
+
+      const unwound = expectSuccess(await client.execute("UNWIND [1, 2, 3] AS x RETURN stDev(x) AS sd"));
+      expect(unwound.data).toEqual([{ sd: 1 }]);
+    });
+
+    it("keeps stDev() accurate for large values with a small spread", async () => {
+      const values = "[1000000004, 1000000007, 1000000013, 1000000016]";
+      await client.execute(`UNWIND ${values} AS v CREATE (:Sample {v: v})`);
+
+      const sql = expectSuccess(await client.execute("MATCH (s:Sample) RETURN stDev(s.v) AS sd"));
+      expect(sql.data[0].sd).toBeCloseTo(Math.sqrt(30), 10);
+
+      const inMemory = expectSuccess(
+        await client.execute(`UNWIND ${values} AS v CALL { WITH v RETURN v AS x } RETURN stDev(x) AS sd`)
+      );
+      expect(inMemory.data[0].sd).toBeCloseTo(Math.sqrt(30), 10);
+    });
   });
 
   describe("List functions", () => {
@@ -2585,6 +2688,301 @@ describe("Integration Tests", () => {
     });
   });
 
+  describe("reduce() and map projections", () => {
+    beforeEach(async () => {
+      await client.execute(
+        "CREATE (a:User {name: 'Alice', age: 30, tags: ['dev', 'ops']})-[:FOLLOWS]->(:User {name: 'Bob', age: 25}), (a)-[:FOLLOWS]->(:User {name: 'Carol', age: 35})"
+      );
+    });
+
+    it("folds lists with reduce()", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User {name: 'Alice'}) RETURN reduce(total = 0, x IN [1, 2, 3] | total + x) AS sum, reduce(s = '', t IN u.tags | s + t + ';') AS tags, reduce(acc = [], x IN [1, 2] | acc + [x * 10]) AS list"
+        )
+      );
+      expect(result.data).toEqual([{ sum: 6, tags: "dev;ops;", list: [10, 20] }]);
+    });
+
+    it("reduces aggregated lists", async () => {
+      const result = expectSuccess(
+        await client.execute("MATCH (u:User)-[:FOLLOWS]->(f) RETURN u.name AS name, reduce(total = 0, a IN collect(f.age) | total + a) AS ages")
+      );
+      expect(result.data).toEqual([{ name: "Alice", ages: 60 }]);
+    });
+
+    it("returns null when reducing a null list", async () => {
+      const result = expectSuccess(
+        await client.execute("RETURN reduce(acc = 0, x IN null | acc + x) AS none, reduce(acc = 0, x IN [] | acc + x) AS empty")
+      );
+      expect(result.data).toEqual([{ none: null, empty: 0 }]);
+    });
+
+    it("filters and sorts with reduce()", async () => {
+      await client.execute("MATCH (u:User {name: 'Bob'}) SET u.tags = ['a', 'b', 'c']");
+
+      const where = expectSuccess(
+        await client.execute("MATCH (u:User) WHERE reduce(n = 0, t IN u.tags | n + 1) > 2 RETURN u.name AS name")
+      );
+      expect(where.data).toEqual([{ name: "Bob" }]);
+
+      const withWhere = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WITH u.name AS name, u.tags AS tags WHERE reduce(n = 0, t IN tags | n + 1) >= 2 RETURN name ORDER BY name"
+        )
+      );
+      expect(withWhere.data).toEqual([{ name: "Alice" }, { name: "Bob" }]);
+
+      const ordered = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WHERE u.tags IS NOT NULL RETURN u.name AS name ORDER BY reduce(n = 0, t IN u.tags | n + 1) DESC"
+        )
+      );
+      expect(ordered.data).toEqual([{ name: "Bob" }, { name: "Alice" }]);
+    });
+
+    it("projects properties, all properties and computed entries", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User {name: 'Alice'}) WITH u, size(u.tags) AS tagCount RETURN u {.name, .missing, tagCount, next: u.age + 1} AS picked, u {.*, age: 31} AS all"
+        )
+      );
+      expect(result.data).toEqual([
+        {
+          picked: { name: "Alice", missing: null, tagCount: 2, next: 31 },
+          all: { name: "Alice", age: 31, tags: ["dev", "ops"] },
+        },
+      ]);
+    });
+
+    it("keeps null entries in map projections", async () => {
+      const result = expectSuccess(
+        await client.execute("MATCH (u:User {name: 'Bob'}) RETURN u {.missing, k: null} AS picked, u {.*, .missing, k: null} AS all")
+      );
+      expect(result.data).toEqual([
+        {
+          picked: { missing: null, k: null },
+          all: { name: "Bob", age: 25, missing: null, k: null },
+        },
+      ]);
+    });
+
+    it("projects aggregates and nested map projections", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User {name: 'Alice'})-[:FOLLOWS]->(f) RETURN u {.name, follows: collect(f {.name, .age})} AS user"
+        )
+      );
+      const user = result.data[0].user as { name: string; follows: { name: string; age: number }[] };
+      expect(user.name).toBe("Alice");
+      expect(user.follows).toHaveLength(2);
+      expect(user.follows).toContainEqual({ name: "Bob", age: 25 });
+      expect(user.follows).toContainEqual({ name: "Carol", age: 35 });
+    });
+
+    it("returns null when projecting a missing optional match", async () => {
+      const result = expectSuccess(await client.execute("OPTIONAL MATCH (u:Missing) RETURN u {.name} AS user"));
+      expect(result.data).toEqual([{ user: null }]);
+    });
+
+    it("evaluates both forms after writes", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User {name: 'Bob'}) SET u.age = 26 RETURN u {.name, .age} AS user, reduce(s = 0, x IN [u.age] | s + x) AS total"
+        )
+      );
+      expect(result.data).toEqual([{ user: { name: "Bob", age: 26 }, total: 26 }]);
+    });
+  });
+
+  describe("EXISTS, COUNT and COLLECT subqueries", () => {
+    beforeEach(async () => {
+      await client.execute(
+        "CREATE (a:User {name: 'Alice', age: 30})-[:FOLLOWS]->(:User {name: 'Bob', age: 25}), (a)-[:FOLLOWS]->(c:User {name: 'Carol', age: 35}), (c)-[:BLOCKS]->(a)"
+      );
+    });
+
+    it("filters with EXISTS { } on outer variables", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WHERE EXISTS { MATCH (u)-[:FOLLOWS]->(f) WHERE f.age > 30 } RETURN u.name AS name"
+        )
+      );
+      expect(result.data).toEqual([{ name: "Alice" }]);
+
+      const none = expectSuccess(
+        await client.execute("MATCH (u:User) WHERE NOT EXISTS { (u)-->(:User) } RETURN u.name AS name")
+      );
+      expect(none.data).toEqual([{ name: "Bob" }]);
+    });
+
+    it("returns EXISTS { } as a boolean", async () => {
+      const returned = expectSuccess(
+        await client.execute("MATCH (u:User) RETURN u.name AS name, EXISTS { MATCH (u)-[:BLOCKS]->() } AS blocks ORDER BY name")
+      );
+      expect(returned.data).toEqual([
+        { name: "Alice", blocks: false },
+        { name: "Bob", blocks: false },
+        { name: "Carol", blocks: true },
+      ]);
+
+      const projected = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WITH u.name AS name, EXISTS { (u)-[:FOLLOWS]->() } AS follows RETURN name, follows ORDER BY name"
+        )
+      );
+      expect(projected.data).toEqual([
+        { name: "Alice", follows: true },
+        { name: "Bob", follows: false },
+        { name: "Carol", follows: false },
+      ]);
+    });
+
+    it("uses outer properties and variables in pattern properties", async () => {
+      const property = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WHERE EXISTS { MATCH (x:User {name: u.name})-[:FOLLOWS]->() } RETURN u.name AS name"
+        )
+      );
+      expect(property.data).toEqual([{ name: "Alice" }]);
+
+      const variable = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WITH u.name AS name RETURN name, COUNT { MATCH (:User {name: name})-[:FOLLOWS]->() } AS follows ORDER BY name"
+        )
+      );
+      expect(variable.data).toEqual([
+        { name: "Alice", follows: 2 },
+        { name: "Bob", follows: 0 },
+        { name: "Carol", follows: 0 },
+      ]);
+    });
+
+    it("counts pattern matches with COUNT { }", async () => {
+      const result = expectSuccess(
+        await client.execute("MATCH (u:User) RETURN u.name AS name, COUNT { (u)--() } AS degree ORDER BY name")
+      );
+      expect(result.data).toEqual([
+        { name: "Alice", degree: 3 },
+        { name: "Bob", degree: 1 },
+        { name: "Carol", degree: 2 },
+      ]);
+
+      const filtered = expectSuccess(
+        await client.execute("MATCH (u:User) WHERE COUNT { (u)-[:FOLLOWS]->() } >= 2 RETURN u.name AS name")
+      );
+      expect(filtered.data).toEqual([{ name: "Alice" }]);
+    });
+
+    it("collects values with COLLECT { }", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) RETURN u.name AS name, COLLECT { MATCH (u)-[:FOLLOWS]->(f) RETURN f.name } AS follows ORDER BY name"
+        )
+      );
+      expect(result.data).toEqual([
+        { name: "Alice", follows: expect.arrayContaining(["Bob", "Carol"]) },
+        { name: "Bob", follows: [] },
+        { name: "Carol", follows: [] },
+      ]);
+      expect(result.data[0].follows).toHaveLength(2);
+    });
+
+    it("uses subqueries in WITH", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (u:User) WITH u, COUNT { (u)<-[:FOLLOWS]-() } AS followers WHERE followers > 0 RETURN u.name AS name ORDER BY name"
+        )
+      );
+      expect(result.data).toEqual([{ name: "Bob" }, { name: "Carol" }]);
+    });
+
+    it("rejects clauses other than MATCH and RETURN", async () => {
+      const result = await client.execute("MATCH (u:User) RETURN COUNT { MATCH (u)-->(f) SET f.seen = true } AS c");
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("Label expressions", () => {
+    beforeEach(async () => {
+      await client.execute(
+        "CREATE (a:Person {name: 'Alice'})-[:FOLLOWS]->(:Person:Archived {name: 'Bob'}), (a)-[:WORKS_AT]->(:Company {name: 'Acme'}), ({name: 'Unlabelled'})"
+      );
+    });
+
+    async function names(query: string) {
+      const result = expectSuccess(await client.execute(query));
+      return result.data.map((row: Record<string, unknown>) => row.name);
+    }
+
+    it("matches nodes by label disjunction, negation and wildcard", async () => {
+      expect(await names("MATCH (n:Person|Company) RETURN n.name AS name ORDER BY name")).toEqual(["Acme", "Alice", "Bob"]);
+      expect(await names("MATCH (n:!Person) RETURN n.name AS name ORDER BY name")).toEqual(["Acme", "Unlabelled"]);
+      expect(await names("MATCH (n:%) RETURN n.name AS name ORDER BY name")).toEqual(["Acme", "Alice", "Bob"]);
+      expect(await names("MATCH (n:(Person&!Archived)|Company) RETURN n.name AS name ORDER BY name")).toEqual(["Acme", "Alice"]);
+    });
+
+    it("matches relationships by type expression", async () => {
+      expect(await names("MATCH (:Person)-[:!FOLLOWS]->(n) RETURN n.name AS name")).toEqual(["Acme"]);
+      expect(await names("MATCH (:Person)-[:%]->(n:!Archived) RETURN n.name AS name")).toEqual(["Acme"]);
+      expect(await names("MATCH (p:Person) WHERE (p)-[:!WORKS_AT]->(:Archived) RETURN p.name AS name")).toEqual(["Alice"]);
+    });
+
+    it("rejects type expressions on variable-length relationships", async () => {
+      const result = await client.execute("MATCH (a)-[:!FOLLOWS*]->(b) RETURN b");
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("Dynamic labels", () => {
+    it("creates nodes and relationships with labels and types from parameters", async () => {
+      await client.execute("CREATE (:$($labels) {name: 'Alice'}), (:$($label) {name: 'Acme'})", {
+        labels: ["Person", "Employee"],
+        label: "Company",
+      });
+      await client.execute("MATCH (p {name: 'Alice'}), (c {name: 'Acme'}) MERGE (p)-[:$($type)]->(c)", { type: "WORKS_AT" });
+
+      const result = expectSuccess(
+        await client.execute("MATCH (p:Person:Employee)-[r]->(c:Company) RETURN p.name AS person, type(r) AS type, c.name AS company")
+      );
+      expect(result.data).toEqual([{ person: "Alice", type: "WORKS_AT", company: "Acme" }]);
+    });
+
+    it("matches any or all of the labels in a parameter", async () => {
+      await client.execute("CREATE (:Person {name: 'Alice'}), (:Person:Admin {name: 'Bob'}), (:Company {name: 'Acme'})");
+
+      const any = expectSuccess(
+        await client.execute("MATCH (n:$any($labels)) RETURN n.name AS name ORDER BY name", { labels: ["Admin", "Company"] })
+      );
+      expect(any.data.map((row: Record<string, unknown>) => row.name)).toEqual(["Acme", "Bob"]);
+
+      const all = expectSuccess(
+        await client.execute("MATCH (n:$($labels)) RETURN n.name AS name", { labels: ["Person", "Admin"] })
+      );
+      expect(all.data.map((row: Record<string, unknown>) => row.name)).toEqual(["Bob"]);
+    });
+
+    it("sets labels from a parameter", async () => {
+      await client.execute("CREATE (:Person {name: 'Alice'})");
+      await client.execute("MATCH (n:Person) SET n:$($labels)", { labels: ["Admin", "Active"] });
+
+      const result = expectSuccess(await client.execute("MATCH (n:Admin:Active) RETURN n.name AS name"));
+      expect(result.data).toEqual([{ name: "Alice" }]);
+    });
+
+    it("rejects parameter values that are not valid labels", async () => {
+      const injected = await client.execute("CREATE (:$($label))", { label: "Person) DETACH DELETE (n" });
+      expect(injected.success).toBe(false);
+      expect(injected.error?.message).toContain("Invalid label or relationship type");
+
+      const notString = await client.execute("CREATE (:$($label))", { label: 42 });
+      expect(notString.success).toBe(false);
+
+      const severalTypes = await client.execute("CREATE ()-[:$($types)]->()", { types: ["A", "B"] });
+      expect(severalTypes.success).toBe(false);
+    });
+  });
+
   describe("CALL procedures", () => {
     it("returns all node labels with db.labels()", async () => {
       // Create nodes with different labels
@@ -2680,4 +3078,1526 @@ describe("Integration Tests", () => {
       expect(result.data).toHaveLength(2);
     });
   });
+
+  describe("FOREACH", () => {
+    it("runs MERGE for each list element without changing row cardinality", async () => {
+      await client.execute("CREATE (:Person {name: 'Alice'}), (:Person {name: 'Bob'})");
+
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (p:Person)
+          FOREACH (tag IN ['admin', 'staff'] | MERGE (t:Tag {name: tag}) MERGE (p)-[:TAGGED]->(t))
+          RETURN p.name AS name ORDER BY name
+        `)
+      );
+
+      expect(result.data).toEqual([{ name: "Alice" }, { name: "Bob" }]);
+
+      const tags = expectSuccess(await client.execute("MATCH (t:Tag) RETURN count(t) AS count"));
+      expect(tags.data[0].count).toBe(2);
+
+      const edges = expectSuccess(
+        await client.execute("MATCH (:Person)-[r:TAGGED]->(:Tag) RETURN count(r) AS count")
+      );
+      expect(edges.data[0].count).toBe(4);
+    });
+
+    it("returns the properties the body set", async () => {
+      await client.execute("CREATE (:N {v: 1}), (:N {v: 2})");
+
+      const result = expectSuccess(
+        await client.execute("MATCH (n:N) FOREACH (x IN [1] | SET n.done = true) RETURN n.v, n.done ORDER BY n.v")
+      );
+
+      expect(result.data).toEqual([
+        { "n.v": 1, "n.done": true },
+        { "n.v": 2, "n.done": true },
+      ]);
+    });
+
+    it("evaluates computed properties in CREATE and MERGE bodies", async () => {
+      expectSuccess(
+        await client.execute(
+          "FOREACH (a IN [1, 2] | CREATE (:T {n: a, plus: a + 1, twice: a * 2, label: toUpper('t' + a), pair: [a, {k: a}]}))"
+        )
+      );
+      expectSuccess(await client.execute("FOREACH (name IN ['x'] | MERGE (:M {name: toUpper(name)}))"));
+
+      const created = expectSuccess(
+        await client.execute("MATCH (t:T) RETURN t.plus AS plus, t.twice AS twice, t.label AS label, t.pair AS pair ORDER BY t.n")
+      );
+      expect(created.data).toEqual([
+        { plus: 2, twice: 2, label: "T1", pair: [1, { k: 1 }] },
+        { plus: 3, twice: 4, label: "T2", pair: [2, { k: 2 }] },
+      ]);
+      const merged = expectSuccess(await client.execute("MATCH (m:M) RETURN m.name AS name"));
+      expect(merged.data).toEqual([{ name: "X" }]);
+    });
+
+    it("does not run after a MATCH without results", async () => {
+      expectSuccess(await client.execute("MATCH (n:Missing) FOREACH (x IN [1] | CREATE (:Written))"));
+      expectSuccess(await client.execute("OPTIONAL MATCH (n:Missing) FOREACH (x IN [1] | CREATE (:Optional))"));
+
+      const result = expectSuccess(
+        await client.execute("OPTIONAL MATCH (w:Written) WITH count(w) AS written MATCH (o:Optional) RETURN written, count(o) AS optional")
+      );
+      expect(result.data).toEqual([{ written: 0, optional: 1 }]);
+    });
+
+    it("rejects property expressions it cannot evaluate", async () => {
+      const result = await client.execute("FOREACH (a IN [1] | CREATE (:T {v: noSuchFunction(a)}))");
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("Unknown function: NOSUCHFUNCTION");
+      }
+    });
+
+    it("sets properties from the loop variable", async () => {
+      await client.execute("CREATE (:Counter {name: 'c'})");
+
+      await client.execute("MATCH (c:Counter) FOREACH (i IN [1, 2, 3] | SET c.last = i)");
+
+      const result = expectSuccess(await client.execute("MATCH (c:Counter) RETURN c.last AS last"));
+      expect(result.data[0].last).toBe(3);
+    });
+
+    it("creates nodes from a parameter list", async () => {
+      await client.execute(
+        "FOREACH (item IN $items | CREATE (:Item {name: item.name, qty: item.qty}))",
+        { items: [{ name: "a", qty: 1 }, { name: "b", qty: 2 }] }
+      );
+
+      const result = expectSuccess(
+        await client.execute("MATCH (i:Item) RETURN i.name AS name, i.qty AS qty ORDER BY name")
+      );
+      expect(result.data).toEqual([
+        { name: "a", qty: 1 },
+        { name: "b", qty: 2 },
+      ]);
+    });
+
+    it("supports nested FOREACH", async () => {
+      await client.execute(
+        "FOREACH (x IN [1, 2] | CREATE (:Outer {v: x}) FOREACH (y IN [x, x * 10] | CREATE (:Inner {v: y})))"
+      );
+
+      const outer = expectSuccess(await client.execute("MATCH (n:Outer) RETURN count(n) AS count"));
+      expect(outer.data[0].count).toBe(2);
+
+      const inner = expectSuccess(await client.execute("MATCH (n:Inner) RETURN n.v AS v ORDER BY v"));
+      expect(inner.data.map((r: Record<string, unknown>) => r.v)).toEqual([1, 2, 10, 20]);
+    });
+
+    it("applies the body conditionally with the CASE idiom", async () => {
+      await client.execute("CREATE (:User {name: 'Alice', active: true}), (:User {name: 'Bob', active: false})");
+
+      await client.execute(`
+        MATCH (u:User)
+        FOREACH (_ IN CASE WHEN u.active = true THEN [1] ELSE [] END | SET u:Active REMOVE u.active)
+      `);
+
+      const result = expectSuccess(
+        await client.execute("MATCH (u:Active) RETURN u.name AS name, u.active AS active")
+      );
+      expect(result.data).toEqual([{ name: "Alice", active: null }]);
+    });
+
+    it("deletes nodes in the body", async () => {
+      await client.execute("CREATE (:Temp {v: 1})-[:LINK]->(:Temp {v: 2})");
+
+      await client.execute("MATCH (t:Temp) WITH collect(t) AS temps FOREACH (n IN temps | DETACH DELETE n)");
+
+      const result = expectSuccess(await client.execute("MATCH (t:Temp) RETURN count(t) AS count"));
+      expect(result.data[0].count).toBe(0);
+    });
+
+    it("skips the body for a null list", async () => {
+      await client.execute("FOREACH (x IN null | CREATE (:Never))");
+
+      const result = expectSuccess(await client.execute("MATCH (n:Never) RETURN count(n) AS count"));
+      expect(result.data[0].count).toBe(0);
+    });
+  });
+
+  describe("CALL subqueries", () => {
+    beforeEach(async () => {
+      await client.execute(`
+        CREATE (tools:Category {name: 'tools'}), (toys:Category {name: 'toys'}),
+               (:Product {name: 'hammer', score: 5})-[:IN]->(tools),
+               (:Product {name: 'saw', score: 3})-[:IN]->(tools),
+               (:Product {name: 'drill', score: 9})-[:IN]->(tools),
+               (:Product {name: 'ball', score: 2})-[:IN]->(toys),
+               (:Product {name: 'doll', score: 7})-[:IN]->(toys)
+      `);
+    });
+
+    it("returns the top N items per group", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL {
+            WITH c
+            MATCH (p:Product)-[:IN]->(c)
+            RETURN p.name AS product ORDER BY p.score DESC LIMIT 2
+          }
+          RETURN c.name AS category, product
+          ORDER BY category, product
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { category: "tools", product: "drill" },
+        { category: "tools", product: "hammer" },
+        { category: "toys", product: "ball" },
+        { category: "toys", product: "doll" },
+      ]);
+    });
+
+    it("aggregates per imported row", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL { WITH c MATCH (p:Product)-[:IN]->(c) RETURN count(p) AS products }
+          RETURN c.name AS category, products ORDER BY category
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { category: "tools", products: 3 },
+        { category: "toys", products: 2 },
+      ]);
+    });
+
+    it("compares against imported properties for the top N per row", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (p:Product)
+          CALL {
+            WITH p
+            MATCH (other:Product) WHERE other.score > p.score
+            RETURN other.name AS better ORDER BY other.score LIMIT 1
+          }
+          RETURN p.name, better ORDER BY p.name
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { "p.name": "ball", better: "saw" },
+        { "p.name": "doll", better: "drill" },
+        { "p.name": "hammer", better: "doll" },
+        { "p.name": "saw", better: "hammer" },
+      ]);
+    });
+
+    it("counts per group with OPTIONAL MATCH on an imported node", async () => {
+      await client.execute("CREATE (:Category {name: 'empty'})");
+
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL { WITH c OPTIONAL MATCH (p:Product)-[:IN]->(c) RETURN count(p) AS products }
+          RETURN c.name, products ORDER BY c.name
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { "c.name": "empty", products: 0 },
+        { "c.name": "tools", products: 3 },
+        { "c.name": "toys", products: 2 },
+      ]);
+    });
+
+    it("uses imported values in pattern properties", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          UNWIND ['saw', 'doll'] AS name
+          CALL { WITH name MATCH (p:Product {name: name})-[:IN]->(c) RETURN c.name AS category }
+          RETURN name, category
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { name: "saw", category: "tools" },
+        { name: "doll", category: "toys" },
+      ]);
+    });
+
+    it("drops outer rows for which the subquery returns nothing", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL { WITH c MATCH (p:Product {name: 'missing'}) RETURN p }
+          RETURN c.name AS category, p
+        `)
+      );
+      expect(result.data).toEqual([]);
+
+      const correlated = expectSuccess(
+        await client.execute(`
+          UNWIND ['saw', 'missing'] AS name
+          CALL { WITH name MATCH (p:Product {name: name}) RETURN p.name AS product }
+          RETURN name, product
+        `)
+      );
+      expect(correlated.data).toEqual([{ name: "saw", product: "saw" }]);
+    });
+
+    it("runs uncorrelated subqueries once per outer row", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL { MATCH (p:Product) RETURN count(p) AS total }
+          RETURN c.name AS category, total ORDER BY category
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { category: "tools", total: 5 },
+        { category: "toys", total: 5 },
+      ]);
+    });
+
+    it("combines UNION branches inside the subquery", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          CALL {
+            MATCH (p:Product) WHERE p.score > 6 RETURN p.name AS name
+            UNION
+            MATCH (c:Category) RETURN c.name AS name
+          }
+          RETURN name ORDER BY name
+        `)
+      );
+
+      expect(result.data.map((r: Record<string, unknown>) => r.name)).toEqual(["doll", "drill", "tools", "toys"]);
+    });
+
+    it("imports variables into each UNION branch", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          UNWIND [1, 2] AS x
+          CALL {
+            WITH x RETURN x * 10 AS y
+            UNION ALL
+            WITH x RETURN x * 100 AS y
+          }
+          RETURN x, y
+        `)
+      );
+
+      expect(result.data).toEqual([
+        { x: 1, y: 10 },
+        { x: 1, y: 100 },
+        { x: 2, y: 20 },
+        { x: 2, y: 200 },
+      ]);
+    });
+
+    it("keeps input rows for subqueries without RETURN", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          UNWIND [1, 2, 3] AS x
+          CALL { WITH x CREATE (:Log {value: x}) }
+          RETURN count(*) AS rows
+        `)
+      );
+      expect(result.data[0].rows).toBe(3);
+
+      const logs = expectSuccess(await client.execute("MATCH (l:Log) RETURN count(l) AS count"));
+      expect(logs.data[0].count).toBe(3);
+    });
+
+    it("drops outer rows with no subquery results", async () => {
+      await client.execute("CREATE (:Category {name: 'empty'})");
+
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (c:Category)
+          CALL { WITH c MATCH (p:Product)-[:IN]->(c) RETURN p.name AS product }
+          RETURN DISTINCT c.name AS category ORDER BY category
+        `)
+      );
+
+      expect(result.data.map((r: Record<string, unknown>) => r.category)).toEqual(["tools", "toys"]);
+    });
+
+    it("rejects returning a variable that shadows the outer scope", async () => {
+      const result = await client.execute("UNWIND [1] AS x CALL { WITH x RETURN x } RETURN x");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain("already declared");
+      }
+    });
+  });
+
+  describe("shortestPath and allShortestPaths", () => {
+    beforeEach(async () => {
+      // a -> b -> c -> d (weights 1), plus two 2-hop routes a -> x -> d and a -> y -> d
+      await client.execute(`
+        CREATE (a:Person {name: 'a'})-[:KNOWS {weight: 1}]->(b:Person {name: 'b'}),
+               (b)-[:KNOWS {weight: 1}]->(c:Person {name: 'c'}),
+               (c)-[:KNOWS {weight: 1}]->(d:Person {name: 'd'}),
+               (a)-[:KNOWS {weight: 5}]->(x:Person {name: 'x'})-[:KNOWS {weight: 5}]->(d),
+               (a)-[:KNOWS {weight: 9}]->(y:Person {name: 'y'})-[:KNOWS {weight: 9}]->(d),
+               (d)-[:BLOCKS]->(a)
+      `);
+    });
+
+    it("finds a single shortest path", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (a:Person {name: 'a'}), (d:Person {name: 'd'})
+          MATCH p = shortestPath((a)-[:KNOWS*..10]->(d))
+          RETURN length(p) AS hops, size(nodes(p)) AS nodeCount
+        `)
+      );
+
+      expect(result.data).toEqual([{ hops: 2, nodeCount: 3 }]);
+    });
+
+    it("finds all shortest paths", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH p = allShortestPaths((a:Person {name: 'a'})-[:KNOWS*]->(d:Person {name: 'd'}))
+          RETURN [n IN nodes(p) | n.name] AS names
+        `)
+      );
+
+      const routes = result.data.map((r: Record<string, unknown>) => (r.names as string[]).join(""));
+      expect(routes.sort()).toEqual(["axd", "ayd"]);
+    });
+
+    it("respects relationship direction", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH p = shortestPath((a:Person {name: 'a'})-[*]-(d:Person {name: 'd'}))
+          RETURN length(p) AS hops
+        `)
+      );
+      // Undirected search can use the d-[:BLOCKS]->a relationship
+      expect(result.data).toEqual([{ hops: 1 }]);
+
+      const reversed = expectSuccess(
+        await client.execute(`
+          MATCH p = shortestPath((d:Person {name: 'd'})-[:KNOWS*]->(a:Person {name: 'a'}))
+          RETURN p
+        `)
+      );
+      expect(reversed.data).toHaveLength(0);
+    });
+
+    it("respects the maximum length", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH p = shortestPath((a:Person {name: 'a'})-[:KNOWS*..1]->(d:Person {name: 'd'}))
+          RETURN p
+        `)
+      );
+
+      expect(result.data).toHaveLength(0);
+    });
+
+    it("applies WHERE predicates on the path", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH p = shortestPath((a:Person {name: 'a'})-[:KNOWS*]->(d:Person {name: 'd'}))
+          WHERE all(r IN relationships(p) WHERE r.weight < 5)
+          RETURN [n IN nodes(p) | n.name] AS names
+        `)
+      );
+
+      // Both 2-hop routes are rejected, so the 3-hop route is the shortest match
+      expect(result.data).toEqual([{ names: ["a", "b", "c", "d"] }]);
+    });
+
+    it("binds the relationship list variable", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH p = allShortestPaths((a:Person {name: 'a'})-[rels:KNOWS*]->(d:Person {name: 'd'}))
+          WHERE none(n IN nodes(p) WHERE n.name = 'x')
+          RETURN [r IN rels | r.weight] AS weights
+        `)
+      );
+
+      expect(result.data).toEqual([{ weights: [9, 9] }]);
+    });
+
+    it("returns null for OPTIONAL MATCH without a path", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (a:Person {name: 'a'})
+          OPTIONAL MATCH p = shortestPath((a)-[:BLOCKS*]->(b:Person {name: 'b'}))
+          RETURN a.name AS name, p
+        `)
+      );
+
+      expect(result.data).toEqual([{ name: "a", p: null }]);
+    });
+  });
+
+  describe("Regular expression match", () => {
+    beforeEach(async () => {
+      await client.execute(`
+        CREATE (:Person {name: 'Alice', email: 'alice@example.com'}),
+               (:Person {name: 'alina', email: 'alina@test.org'}),
+               (:Person {name: 'Bob'}),
+               (:Person {name: 'Mal\nice', email: 'mal@example.com'})
+      `);
+    });
+
+    it("matches the whole string", async () => {
+      const result = expectSuccess(
+        await client.execute("MATCH (p:Person) WHERE p.name =~ 'Ali' RETURN p.name AS name")
+      );
+      expect(result.data).toHaveLength(0);
+
+      const full = expectSuccess(
+        await client.execute("MATCH (p:Person) WHERE p.name =~ 'Ali.*' RETURN p.name AS name")
+      );
+      expect(full.data).toEqual([{ name: "Alice" }]);
+    });
+
+    it("supports inline flags", async () => {
+      const result = expectSuccess(
+        await client.execute("MATCH (p:Person) WHERE p.name =~ '(?i)ali.*' RETURN p.name AS name ORDER BY name")
+      );
+
+      expect(result.data.map((r: Record<string, unknown>) => r.name)).toEqual(["Alice", "alina"]);
+
+      const dotAll = expectSuccess(
+        await client.execute("MATCH (p:Person) WHERE p.name =~ '(?s)Mal.*' RETURN count(p) AS count")
+      );
+      expect(dotAll.data[0].count).toBe(1);
+    });
+
+    it("takes the pattern from a parameter", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (p:Person) WHERE p.email =~ $pattern RETURN p.name AS name",
+          { pattern: ".*@example\\.com" }
+        )
+      );
+
+      expect(result.data.map((r: Record<string, unknown>) => r.name).sort()).toEqual(["Alice", "Mal\nice"]);
+    });
+
+    it("propagates null", async () => {
+      const result = expectSuccess(
+        await client.execute(`
+          MATCH (p:Person {name: 'Bob'})
+          RETURN p.email =~ '.*' AS email, 'abc' =~ null AS pattern, 'abc' =~ 'a.c' AS matched
+        `)
+      );
+      expect(result.data).toEqual([{ email: null, pattern: null, matched: true }]);
+
+      const negated = expectSuccess(
+        await client.execute("MATCH (p:Person) WHERE NOT p.email =~ 'alice.*' RETURN p.name AS name ORDER BY name")
+      );
+      // Bob has no email, so the predicate is null rather than true
+      expect(negated.data.map((r: Record<string, unknown>) => r.name)).toEqual(["Mal\nice", "alina"]);
+    });
+
+    it("works in list comprehensions", async () => {
+      const result = expectSuccess(
+        await client.execute("RETURN [x IN ['a1', 'b2', 'a3'] WHERE x =~ 'a[0-9]'] AS matches")
+      );
+
+      expect(result.data).toEqual([{ matches: ["a1", "a3"] }]);
+    });
+
+    it("reports invalid patterns", async () => {
+      const result = await client.execute("MATCH (p:Person) WHERE p.name =~ '(unclosed' RETURN p");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain("Invalid Regex");
+      }
+    });
+  });
+
+  describe("EXPLAIN and PROFILE", () => {
+    it("EXPLAIN reports the plan without running the query", async () => {
+      const result = expectSuccess(await client.execute("EXPLAIN CREATE (n:Person {name: 'Alice'})"));
+
+      expect(result.data).toEqual([]);
+      expect(result.plan?.mode).toBe("EXPLAIN");
+      expect(result.plan?.statements[0].sql).toContain("INSERT INTO nodes");
+
+      const count = expectSuccess(await client.execute("MATCH (n:Person) RETURN count(n) AS c"));
+      expect(count.data).toEqual([{ c: 0 }]);
+    });
+
+    it("EXPLAIN includes the SQLite query plan", async () => {
+      const result = expectSuccess(
+        await client.execute("EXPLAIN MATCH (n:Person) WHERE n.name = $name RETURN n.name", { name: "Alice" })
+      );
+
+      expect(result.plan?.pattern).toBe("STANDARD");
+      const [statement] = result.plan!.statements;
+      expect(statement.sql).toMatch(/^SELECT/);
+      expect(statement.params).toContain("Alice");
+      expect(statement.queryPlan.length).toBeGreaterThan(0);
+      expect(statement.queryPlan[0].detail).toMatch(/SCAN|SEARCH/);
+      expect(statement.executions).toBeUndefined();
+    });
+
+    it("PROFILE runs the query and reports statement statistics", async () => {
+      await client.execute("CREATE (:Person {name: 'Alice'}), (:Person {name: 'Bob'})");
+
+      const result = expectSuccess(
+        await client.execute("PROFILE MATCH (n:Person) SET n.visits = 1 RETURN n.name AS name")
+      );
+
+      expect(result.data).toHaveLength(2);
+      expect(result.plan?.mode).toBe("PROFILE");
+      expect(result.plan?.pattern).toBe("MULTI_PHASE");
+
+      const update = result.plan!.statements.find((stmt) => stmt.sql.startsWith("UPDATE"));
+      expect(update?.executions).toBe(2);
+      expect(update?.rows).toBe(2);
+      expect(update?.time_ms).toBeGreaterThanOrEqual(0);
+
+      const check = expectSuccess(await client.execute("MATCH (n:Person) WHERE n.visits = 1 RETURN count(n) AS c"));
+      expect(check.data).toEqual([{ c: 2 }]);
+    });
+
+    it("does not add a plan to regular queries", async () => {
+      const result = expectSuccess(await client.execute("MATCH (n) RETURN n"));
+
+      expect(result.plan).toBeUndefined();
+    });
+  });
+
+  describe("Property indexes", () => {
+    const planDetails = (result: ExecutionResult) =>
+      result.plan!.statements.flatMap((stmt) => stmt.queryPlan.map((step) => step.detail)).join("\n");
+
+    beforeEach(async () => {
+      await client.execute(
+        "UNWIND $rows AS row CREATE (:User {email: row.email, name: row.name, age: row.age})",
+        {
+          rows: [
+            { email: "alice@example.com", name: "Alice", age: 30 },
+            { email: "bob@example.com", name: "Bob", age: 40 },
+          ],
+        }
+      );
+      await client.execute("CREATE (:Company {email: 'alice@example.com'})");
+    });
+
+    it("creates, lists and drops indexes", async () => {
+      expectSuccess(await client.execute("CREATE INDEX user_email FOR (u:User) ON (u.email)"));
+      expectSuccess(await client.execute("CREATE INDEX FOR ()-[r:WORKS_AT]-() ON (r.since)"));
+
+      const shown = expectSuccess(await client.execute("SHOW INDEXES"));
+      expect(shown.data).toEqual([
+        {
+          name: "index_rel_WORKS_AT_since",
+          state: "ONLINE",
+          type: "RANGE",
+          entityType: "RELATIONSHIP",
+          labelsOrTypes: ["WORKS_AT"],
+          properties: ["since"],
+        },
+        {
+          name: "user_email",
+          state: "ONLINE",
+          type: "RANGE",
+          entityType: "NODE",
+          labelsOrTypes: ["User"],
+          properties: ["email"],
+        },
+      ]);
+
+      expectSuccess(await client.execute("DROP INDEX user_email"));
+      const remaining = expectSuccess(await client.execute("SHOW INDEXES"));
+      expect(remaining.data.map((row) => row.name)).toEqual(["index_rel_WORKS_AT_since"]);
+    });
+
+    it("reports duplicate and missing indexes", async () => {
+      expectSuccess(await client.execute("CREATE INDEX user_email FOR (u:User) ON (u.email)"));
+
+      const duplicate = await client.execute("CREATE INDEX user_email FOR (u:User) ON (u.name)");
+      expect(duplicate.success).toBe(false);
+      expectSuccess(await client.execute("CREATE INDEX user_email IF NOT EXISTS FOR (u:User) ON (u.name)"));
+
+      const missing = await client.execute("DROP INDEX nope");
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.error.message).toContain("no such index");
+      }
+    });
+
+    it("serves label and property lookups from the index", async () => {
+      expectSuccess(await client.execute("CREATE INDEX user_email FOR (u:User) ON (u.email)"));
+
+      const inline = expectSuccess(
+        await client.execute("EXPLAIN MATCH (u:User {email: $email}) RETURN u.name", { email: "bob@example.com" })
+      );
+      expect(planDetails(inline)).toContain("USING INDEX propidx_user_email");
+
+      const where = expectSuccess(
+        await client.execute("EXPLAIN MATCH (u:User) WHERE u.email = $email RETURN u.name", { email: "bob@example.com" })
+      );
+      expect(planDetails(where)).toContain("USING INDEX propidx_user_email");
+
+      const merge = expectSuccess(
+        await client.execute("PROFILE MERGE (u:User {email: 'carol@example.com'}) RETURN u.email")
+      );
+      expect(planDetails(merge)).toContain("USING INDEX propidx_user_email");
+    });
+
+    it("returns the same results with an index", async () => {
+      expectSuccess(await client.execute("CREATE INDEX FOR (u:User) ON (u.email)"));
+
+      const result = expectSuccess(
+        await client.execute("MATCH (n:User {email: 'alice@example.com'}) RETURN n.name AS name")
+      );
+      expect(result.data).toEqual([{ name: "Alice" }]);
+
+      // The index is partial on User, so Company nodes are still found without it
+      const company = expectSuccess(
+        await client.execute("MATCH (c:Company {email: 'alice@example.com'}) RETURN count(c) AS c")
+      );
+      expect(company.data).toEqual([{ c: 1 }]);
+    });
+
+    it("serves relationship property lookups from the index", async () => {
+      expectSuccess(await client.execute("CREATE INDEX works_since FOR ()-[r:WORKS_AT]-() ON (r.since)"));
+      await client.execute(
+        "MATCH (u:User {name: 'Alice'}), (c:Company) CREATE (u)-[:WORKS_AT {since: 2020}]->(c)"
+      );
+
+      const result = expectSuccess(
+        await client.execute("PROFILE MATCH (u)-[r:WORKS_AT]->(c) WHERE r.since = 2020 RETURN u.name AS name")
+      );
+      expect(result.data).toEqual([{ name: "Alice" }]);
+      expect(planDetails(result)).toContain("USING INDEX propidx_works_since");
+    });
+  });
+
+  describe("Constraints", () => {
+    const expectViolation = (result: Awaited<ReturnType<TestClient["execute"]>>, constraint: string) => {
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain(`Constraint '${constraint}' violated`);
+      }
+    };
+
+    beforeEach(async () => {
+      expectSuccess(await client.execute("CREATE CONSTRAINT user_email FOR (u:User) REQUIRE u.email IS UNIQUE"));
+      expectSuccess(await client.execute("CREATE CONSTRAINT user_name FOR (u:User) REQUIRE u.name IS NOT NULL"));
+      await client.execute("CREATE (:User {email: 'alice@example.com', name: 'Alice'})");
+    });
+
+    it("rejects duplicates from CREATE", async () => {
+      const result = await client.execute("CREATE (:User {email: 'alice@example.com', name: 'Other'})");
+
+      expectViolation(result, "user_email");
+      if (!result.success) {
+        expect(result.error.message).toContain("property `email` = 'alice@example.com' already exists");
+      }
+    });
+
+    it("rolls back every write of a violating query", async () => {
+      const result = await client.execute("UNWIND $rows AS row CREATE (:User {email: row.email, name: row.name})", {
+        rows: [
+          { email: "bob@example.com", name: "Bob" },
+          { email: "bob@example.com", name: "Bobby" },
+        ],
+      });
+      expectViolation(result, "user_email");
+
+      const count = expectSuccess(await client.execute("MATCH (u:User) RETURN count(u) AS c"));
+      expect(count.data).toEqual([{ c: 1 }]);
+    });
+
+    it("rejects missing properties", async () => {
+      expectViolation(await client.execute("CREATE (:User {email: 'bob@example.com'})"), "user_name");
+      expectViolation(await client.execute("MATCH (u:User) SET u.name = null"), "user_name");
+      expectViolation(await client.execute("MATCH (u:User) REMOVE u.name"), "user_name");
+      expectViolation(await client.execute("CREATE (n:Guest {email: 'bob@example.com'}) SET n:User"), "user_name");
+    });
+
+    it("rejects duplicates from SET", async () => {
+      await client.execute("CREATE (:User {email: 'bob@example.com', name: 'Bob'})");
+
+      expectViolation(
+        await client.execute("MATCH (u:User {name: 'Bob'}) SET u.email = 'alice@example.com'"),
+        "user_email"
+      );
+    });
+
+    it("checks MERGE after ON CREATE SET has run", async () => {
+      const merged = expectSuccess(
+        await client.execute("MERGE (u:User {email: 'bob@example.com'}) ON CREATE SET u.name = 'Bob' RETURN u.name AS name")
+      );
+      expect(merged.data).toEqual([{ name: "Bob" }]);
+
+      expectViolation(await client.execute("MERGE (u:User {email: 'carol@example.com'}) RETURN u"), "user_name");
+    });
+
+    it("enforces node keys", async () => {
+      expectSuccess(
+        await client.execute("CREATE CONSTRAINT person_key FOR (p:Person) REQUIRE (p.first, p.last) IS NODE KEY")
+      );
+      expectSuccess(await client.execute("CREATE (:Person {first: 'Ada', last: 'Lovelace'})"));
+      expectSuccess(await client.execute("CREATE (:Person {first: 'Ada', last: 'Byron'})"));
+
+      expectViolation(await client.execute("CREATE (:Person {first: 'Ada'})"), "person_key");
+      expectViolation(await client.execute("CREATE (:Person {first: 'Ada', last: 'Lovelace'})"), "person_key");
+    });
+
+    it("enforces relationship constraints", async () => {
+      expectSuccess(await client.execute("CREATE CONSTRAINT knows_since FOR ()-[k:KNOWS]-() REQUIRE k.since IS NOT NULL"));
+      await client.execute("CREATE (:User {email: 'bob@example.com', name: 'Bob'})");
+
+      expectViolation(
+        await client.execute("MATCH (a:User {name: 'Alice'}), (b:User {name: 'Bob'}) CREATE (a)-[:KNOWS]->(b)"),
+        "knows_since"
+      );
+      expectSuccess(
+        await client.execute("MATCH (a:User {name: 'Alice'}), (b:User {name: 'Bob'}) CREATE (a)-[:KNOWS {since: 2020}]->(b)")
+      );
+    });
+
+    it("lists and drops constraints", async () => {
+      const shown = expectSuccess(await client.execute("SHOW CONSTRAINTS"));
+      expect(shown.data).toEqual([
+        { name: "user_email", type: "UNIQUENESS", entityType: "NODE", labelsOrTypes: ["User"], properties: ["email"] },
+        { name: "user_name", type: "NODE_PROPERTY_EXISTENCE", entityType: "NODE", labelsOrTypes: ["User"], properties: ["name"] },
+      ]);
+
+      expectSuccess(await client.execute("DROP CONSTRAINT user_email"));
+      expectSuccess(await client.execute("CREATE (:User {email: 'alice@example.com', name: 'Other'})"));
+    });
+
+    it("refuses constraints that existing data violates", async () => {
+      await client.execute("CREATE (:Account {number: 1}), (:Account {number: 1})");
+
+      const result = await client.execute("CREATE CONSTRAINT FOR (a:Account) REQUIRE a.number IS UNIQUE");
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain("Unable to create constraint");
+        expect(result.error.message).toContain("`number` = 1 already exists");
+      }
+    });
+  });
+
+  describe("Full-text indexes", () => {
+    beforeEach(async () => {
+      await client.execute("UNWIND $rows AS row CREATE (:Product {title: row.title, description: row.description, price: row.price})", {
+        rows: [
+          { title: "Trail running shoes", description: "Grippy soles for running off-road", price: 120 },
+          { title: "Running socks", description: "Merino wool", price: 15 },
+          { title: "Rain jacket", description: "Waterproof and breathable", price: 90 },
+        ],
+      });
+      expectSuccess(
+        await client.execute("CALL db.index.fulltext.createNodeIndex('products', ['Product'], ['title', 'description'])")
+      );
+    });
+
+    it("yields matching nodes with the best match first", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL db.index.fulltext.queryNodes('products', $q) YIELD node, score RETURN node.title AS title, score",
+          { q: "running" }
+        )
+      );
+
+      expect(result.data.map((row) => row.title)).toEqual(["Trail running shoes", "Running socks"]);
+      expect(result.data[0].score).toBeGreaterThan(result.data[1].score as number);
+    });
+
+    it("supports FTS5 query syntax", async () => {
+      const prefix = expectSuccess(
+        await client.execute("CALL db.index.fulltext.queryNodes('products', 'water*') YIELD node RETURN node.title AS title")
+      );
+      expect(prefix.data).toEqual([{ title: "Rain jacket" }]);
+
+      const column = expectSuccess(
+        await client.execute("CALL db.index.fulltext.queryNodes('products', 'title:merino') YIELD node RETURN node.title AS title")
+      );
+      expect(column.data).toEqual([]);
+    });
+
+    it("filters yielded nodes with WHERE", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL db.index.fulltext.queryNodes('products', 'running') YIELD node, score WHERE node.price < 50 RETURN node.title AS title"
+        )
+      );
+
+      expect(result.data).toEqual([{ title: "Running socks" }]);
+    });
+
+    it("stays in sync with writes", async () => {
+      await client.execute("MATCH (p:Product {title: 'Rain jacket'}) SET p.title = 'Running jacket'");
+      await client.execute("MATCH (p:Product {title: 'Running socks'}) DELETE p");
+      await client.execute("CREATE (:Product {title: 'Running cap'})");
+
+      const result = expectSuccess(
+        await client.execute(
+          "CALL db.index.fulltext.queryNodes('products', 'running') YIELD node RETURN node.title AS title ORDER BY title"
+        )
+      );
+      expect(result.data).toEqual([{ title: "Running cap" }, { title: "Running jacket" }, { title: "Trail running shoes" }]);
+    });
+
+    it("rejects queries after other clauses", async () => {
+      for (const query of [
+        "MATCH (p:Product) CALL db.index.fulltext.queryNodes('products', 'running') YIELD node RETURN p, node",
+        "WITH 'running' AS q CALL db.index.fulltext.queryNodes('products', q) YIELD node RETURN node",
+      ]) {
+        const result = await client.execute(query);
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.message).toBe("db.index.fulltext.queryNodes must be the first clause of the query");
+        }
+      }
+    });
+
+    it("lists and drops full-text indexes", async () => {
+      const shown = expectSuccess(await client.execute("SHOW INDEXES"));
+      expect(shown.data).toEqual([
+        {
+          name: "products",
+          state: "ONLINE",
+          type: "FULLTEXT",
+          entityType: "NODE",
+          labelsOrTypes: ["Product"],
+          properties: ["title", "description"],
+        },
+      ]);
+
+      expectSuccess(await client.execute("CALL db.index.fulltext.drop('products')"));
+      const result = await client.execute("CALL db.index.fulltext.queryNodes('products', 'running') YIELD node RETURN node");
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("There is no such fulltext schema index: products");
+      }
+    });
+  });
+
+  describe("Graph algorithms", () => {
+    beforeEach(async () => {
+      // b, c and d link to a; a links on to e; x is outside the Page projection
+      await client.execute(`
+        CREATE (a:Page {name: 'a'}), (b:Page {name: 'b'}), (c:Page {name: 'c'}), (d:Page {name: 'd'}), (e:Page {name: 'e'}),
+               (x:Draft {name: 'x'}),
+               (b)-[:LINKS {weight: 2}]->(a), (c)-[:LINKS {weight: 1}]->(a), (d)-[:LINKS {weight: 1}]->(a),
+               (a)-[:LINKS {weight: 1}]->(e), (x)-[:LINKS]->(a), (e)-[:MENTIONS]->(b)
+      `);
+    });
+
+    async function scores(query: string) {
+      const result = expectSuccess(await client.execute(query));
+      return Object.fromEntries(result.data.map((row) => [row.name, row.score]));
+    }
+
+    it("streams PageRank scores over the projected labels and types", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.pageRank.stream({nodeLabels: ['Page'], relationshipTypes: ['LINKS']}) YIELD node, score " +
+            "RETURN node.name AS name, score ORDER BY score DESC LIMIT 2"
+        )
+      );
+
+      expect(result.data.map((row) => row.name)).toEqual(["e", "a"]);
+      // a receives all of b, c and d's rank: 0.15 + 0.85 * 3 * 0.15
+      expect(result.data[1].score).toBeCloseTo(0.5325);
+    });
+
+    it("writes PageRank scores to a node property", async () => {
+      const summary = expectSuccess(
+        await client.execute(
+          "CALL gds.pageRank.write({nodeLabels: 'Page', relationshipTypes: 'LINKS', writeProperty: 'rank', dampingFactor: 0.5}) " +
+            "YIELD nodePropertiesWritten, ranIterations"
+        )
+      );
+      expect(summary.data).toEqual([{ nodePropertiesWritten: 5, ranIterations: 3 }]);
+
+      const ranks = await scores("MATCH (n) RETURN n.name AS name, n.rank AS score");
+      expect(ranks.a).toBeCloseTo(1.25);
+      expect(ranks.x).toBeNull();
+    });
+
+    it("streams degree centrality by orientation and weight", async () => {
+      expect(
+        await scores(
+          "CALL gds.degree.stream({nodeLabels: 'Page', relationshipTypes: 'LINKS', orientation: 'REVERSE', relationshipWeightProperty: 'weight'}) " +
+            "YIELD node, score RETURN node.name AS name, score"
+        )
+      ).toEqual({ a: 4, b: 0, c: 0, d: 0, e: 1 });
+    });
+
+    it("streams betweenness centrality", async () => {
+      expect(
+        await scores(
+          "CALL gds.betweenness.stream({nodeLabels: 'Page', relationshipTypes: 'LINKS'}) YIELD node, score RETURN node.name AS name, score"
+        )
+      ).toEqual({ a: 3, b: 0, c: 0, d: 0, e: 0 });
+    });
+
+    it("rejects unknown configuration keys", async () => {
+      const result = await client.execute("CALL gds.pageRank.stream({iterations: 5}) YIELD node, score RETURN node");
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("Unexpected configuration key: iterations");
+      }
+    });
+
+    it("keeps the results apart from the query parameters", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.pageRank.stream({nodeLabels: 'Page'}) YIELD node RETURN node.name AS name, $_algorithm_0 AS param ORDER BY name LIMIT 1",
+          { _algorithm_0: "mine" }
+        )
+      );
+      expect(result.data).toEqual([{ name: "a", param: "mine" }]);
+    });
+  });
+
+  describe("Community detection", () => {
+    beforeEach(async () => {
+      // Two triangles, a-b-c and d-e-f, joined by c->d; g is isolated
+      await client.execute(`
+        CREATE (a:User {name: 'a'}), (b:User {name: 'b'}), (c:User {name: 'c'}), (d:User {name: 'd'}),
+               (e:User {name: 'e'}), (f:User {name: 'f'}), (g:User {name: 'g'}),
+               (a)-[:KNOWS]->(b), (b)-[:KNOWS]->(c), (c)-[:KNOWS]->(a),
+               (d)-[:KNOWS]->(e), (e)-[:KNOWS]->(f), (f)-[:KNOWS]->(d), (c)-[:KNOWS]->(d)
+      `);
+    });
+
+    async function groups(query: string) {
+      const result = expectSuccess(await client.execute(query));
+      return Object.fromEntries(result.data.map((row) => [row.name, row.id]));
+    }
+
+    it("streams weakly connected components", async () => {
+      expect(
+        await groups("CALL gds.wcc.stream({relationshipTypes: 'KNOWS'}) YIELD node, componentId RETURN node.name AS name, componentId AS id")
+      ).toEqual({ a: 0, b: 0, c: 0, d: 0, e: 0, f: 0, g: 1 });
+    });
+
+    it("streams strongly connected components", async () => {
+      expect(
+        await groups("CALL gds.scc.stream({}) YIELD node, componentId RETURN node.name AS name, componentId AS id")
+      ).toEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 1, g: 2 });
+    });
+
+    it("writes label propagation communities", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.labelPropagation.write({writeProperty: 'community'}) YIELD communityCount, ranIterations, didConverge"
+        )
+      );
+      expect(result.data).toEqual([{ communityCount: 2, ranIterations: 2, didConverge: 1 }]);
+    });
+
+    it("writes Louvain communities to a node property", async () => {
+      const summary = expectSuccess(
+        await client.execute(
+          "CALL gds.louvain.write({nodeLabels: 'User', writeProperty: 'community'}) " +
+            "YIELD nodePropertiesWritten, communityCount, modularity"
+        )
+      );
+      expect(summary.data[0]).toMatchObject({ nodePropertiesWritten: 7, communityCount: 3 });
+      // Each triangle has 3 of the 7 relationships and a total degree of 7
+      expect(summary.data[0].modularity).toBeCloseTo(2 * (3 / 7 - 0.25));
+
+      expect(await groups("MATCH (n:User) RETURN n.name AS name, n.community AS id")).toEqual({
+        a: 0, b: 0, c: 0, d: 1, e: 1, f: 1, g: 2,
+      });
+    });
+  });
+
+  describe("Path finding procedures", () => {
+    let ids: Record<string, string>;
+
+    beforeEach(async () => {
+      // Stockholm to Oslo: direct is shortest, via Malmö and Gothenburg is cheapest
+      await client.execute(`
+        CREATE (sto:Hub {name: 'sto', lat: 59.33, lon: 18.07}), (got:Hub {name: 'got', lat: 57.71, lon: 11.97}),
+               (mmx:Hub {name: 'mmx', lat: 55.60, lon: 13.00}), (osl:Hub {name: 'osl', lat: 59.91, lon: 10.75}),
+               (sto)-[:ROAD {distance: 470, cost: 5}]->(got), (sto)-[:ROAD {distance: 610, cost: 3}]->(mmx),
+               (mmx)-[:ROAD {distance: 270, cost: 1}]->(got), (got)-[:ROAD {distance: 290, cost: 4}]->(osl),
+               (sto)-[:ROAD {distance: 520, cost: 20}]->(osl)
+      `);
+      const result = expectSuccess(await client.execute("MATCH (h:Hub) RETURN h.name AS name, id(h) AS id"));
+      ids = Object.fromEntries(result.data.map((row) => [row.name as string, row.id as string]));
+    });
+
+    it("finds the cheapest path between two nodes with Dijkstra", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.shortestPath.dijkstra.stream({sourceNode: $source, targetNode: $target, relationshipWeightProperty: 'cost'}) " +
+            "YIELD sourceNode, targetNode, totalCost, nodeIds, costs, path " +
+            "RETURN sourceNode, targetNode, totalCost, nodeIds, costs, path",
+          { source: ids.sto, target: ids.osl }
+        )
+      );
+
+      expect(result.data).toHaveLength(1);
+      const row = result.data[0];
+      expect(row).toMatchObject({ sourceNode: ids.sto, targetNode: ids.osl, totalCost: 8, costs: [0, 3, 4, 8] });
+      expect(row.nodeIds).toEqual([ids.sto, ids.mmx, ids.got, ids.osl]);
+      const path = row.path as { nodes: Record<string, unknown>[]; edges: Record<string, unknown>[] };
+      expect(path.nodes.map((node) => node.name)).toEqual(["sto", "mmx", "got", "osl"]);
+      expect(path.edges.map((edge) => [edge.type, edge.source_id, edge.target_id])).toEqual([
+        ["ROAD", ids.sto, ids.mmx],
+        ["ROAD", ids.mmx, ids.got],
+        ["ROAD", ids.got, ids.osl],
+      ]);
+      expect(path.edges[0].properties).toEqual({ distance: 610, cost: 3 });
+    });
+
+    it("finds the cheapest path to every reachable node", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.allShortestPaths.dijkstra.stream({sourceNode: $source, relationshipWeightProperty: 'distance'}) " +
+            "YIELD index, totalCost, path RETURN index, totalCost, [n IN path.nodes | n.name] AS names",
+          { source: ids.sto }
+        )
+      );
+      expect(result.data).toEqual([
+        { index: 0, totalCost: 0, names: ["sto"] },
+        { index: 1, totalCost: 470, names: ["sto", "got"] },
+        { index: 2, totalCost: 520, names: ["sto", "osl"] },
+        { index: 3, totalCost: 610, names: ["sto", "mmx"] },
+      ]);
+    });
+
+    it("finds the shortest path with A*", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.shortestPath.astar.stream({sourceNode: $source, targetNode: $target, relationshipWeightProperty: 'distance', " +
+            "latitudeProperty: 'lat', longitudeProperty: 'lon'}) YIELD totalCost, path RETURN totalCost, [n IN path.nodes | n.name] AS names",
+          { source: ids.mmx, target: ids.osl }
+        )
+      );
+      expect(result.data).toEqual([{ totalCost: 560, names: ["mmx", "got", "osl"] }]);
+    });
+
+    it("finds the k cheapest paths with Yen's algorithm", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.shortestPath.yens.stream({sourceNode: $source, targetNode: $target, relationshipWeightProperty: 'cost', k: 5}) " +
+            "YIELD index, totalCost, costs RETURN index, totalCost, costs",
+          { source: ids.sto, target: ids.osl }
+        )
+      );
+      expect(result.data).toEqual([
+        { index: 0, totalCost: 8, costs: [0, 3, 4, 8] },
+        { index: 1, totalCost: 9, costs: [0, 5, 9] },
+        { index: 2, totalCost: 20, costs: [0, 20] },
+      ]);
+    });
+
+    it("returns no rows when the target is unreachable", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "CALL gds.shortestPath.dijkstra.stream({sourceNode: $source, targetNode: $target}) YIELD totalCost RETURN totalCost",
+          { source: ids.osl, target: ids.sto }
+        )
+      );
+      expect(result.data).toEqual([]);
+    });
+
+    it("requires a target node", async () => {
+      const result = await client.execute("CALL gds.shortestPath.dijkstra.stream({sourceNode: $source}) YIELD path RETURN path", {
+        source: ids.sto,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("gds.shortestPath.dijkstra requires a targetNode");
+      }
+    });
+
+    it("takes the source and target from matched nodes", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (a:Hub {name: 'sto'}), (b:Hub {name: 'osl'}) " +
+            "CALL gds.shortestPath.dijkstra.stream({sourceNode: a, targetNode: b, relationshipWeightProperty: 'cost'}) " +
+            "YIELD totalCost, path RETURN a.name AS from, totalCost, [n IN path.nodes | n.name] AS names"
+        )
+      );
+      expect(result.data).toEqual([{ from: "sto", totalCost: 8, names: ["sto", "mmx", "got", "osl"] }]);
+    });
+
+    it("runs once per matched row with node ids", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (a:Hub), (b:Hub {name: 'osl'}) WHERE a <> b " +
+            "CALL gds.shortestPath.dijkstra.stream({sourceNode: id(a), targetNode: id(b), relationshipWeightProperty: 'cost'}) " +
+            "YIELD totalCost RETURN a.name AS from, totalCost ORDER BY from"
+        )
+      );
+      expect(result.data).toEqual([
+        { from: "got", totalCost: 4 },
+        { from: "mmx", totalCost: 5 },
+        { from: "sto", totalCost: 8 },
+      ]);
+    });
+
+    it("takes node ids from a configuration built in WITH", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (a:Hub {name: 'sto'}), (b:Hub {name: 'osl'}) " +
+            "WITH {sourceNode: id(a), targetNode: id(b), relationshipWeightProperty: 'cost'} AS config " +
+            "CALL gds.shortestPath.dijkstra.stream(config) YIELD totalCost RETURN totalCost"
+        )
+      );
+      expect(result.data).toEqual([{ totalCost: 8 }]);
+    });
+
+    it("does not run when the preceding MATCH finds nothing", async () => {
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (a:Hub {name: 'zz'}) CALL gds.shortestPath.dijkstra.stream({sourceNode: a, targetNode: a}) " +
+            "YIELD totalCost RETURN totalCost"
+        )
+      );
+      expect(result.data).toEqual([]);
+    });
+
+    it("applies path functions to the yielded path", async () => {
+      const expected = [{ hops: 3, names: ["sto", "mmx", "got", "osl"], types: ["ROAD", "ROAD", "ROAD"] }];
+      const returns = "RETURN length(path) AS hops, [n IN nodes(path) | n.name] AS names, [r IN relationships(path) | r.type] AS types";
+
+      const leading = expectSuccess(
+        await client.execute(
+          "CALL gds.shortestPath.dijkstra.stream({sourceNode: $source, targetNode: $target, relationshipWeightProperty: 'cost'}) " +
+            `YIELD path ${returns}`,
+          { source: ids.sto, target: ids.osl }
+        )
+      );
+      expect(leading.data).toEqual(expected);
+
+      const afterMatch = expectSuccess(
+        await client.execute(
+          "MATCH (a:Hub {name: 'sto'}), (b:Hub {name: 'osl'}) " +
+            "CALL gds.shortestPath.dijkstra.stream({sourceNode: a, targetNode: b, relationshipWeightProperty: 'cost'}) " +
+            `YIELD path ${returns}`
+        )
+      );
+      expect(afterMatch.data).toEqual(expected);
+    });
+
+    it("rejects a null source node", async () => {
+      const result = await client.execute(
+        "OPTIONAL MATCH (a:Missing) CALL gds.allShortestPaths.dijkstra.stream({sourceNode: a}) YIELD path RETURN path"
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("sourceNode must be a node or a node id, got null");
+      }
+    });
+  });
+
+  describe("Similarity and link prediction", () => {
+    beforeEach(async () => {
+      await client.execute(`
+        CREATE (alice:Person {name: 'alice'}), (bob:Person {name: 'bob'}), (carol:Person {name: 'carol'}), (dave:Person {name: 'dave'}),
+               (i1:Item), (i2:Item), (i3:Item), (i4:Item),
+               (alice)-[:LIKES]->(i1), (alice)-[:LIKES]->(i2), (alice)-[:LIKES]->(i3),
+               (bob)-[:LIKES]->(i1), (bob)-[:LIKES]->(i2), (carol)-[:LIKES]->(i3), (carol)-[:LIKES]->(i4),
+               (alice)-[:KNOWS]->(bob), (bob)-[:KNOWS]->(carol), (carol)-[:KNOWS]->(dave), (alice)-[:KNOWS]->(carol)
+      `);
+    });
+
+    async function pairs(query: string) {
+      const result = expectSuccess(await client.execute(query));
+      return result.data.map((row) => [row.a, row.b, row.value]);
+    }
+
+    it("streams Jaccard similarity over shared neighbors", async () => {
+      const result = await pairs(
+        "CALL gds.nodeSimilarity.stream({relationshipTypes: 'LIKES'}) YIELD node1, node2, similarity " +
+          "RETURN node1.name AS a, node2.name AS b, similarity AS value"
+      );
+      expect(result).toEqual([
+        ["alice", "bob", 2 / 3],
+        ["alice", "carol", 1 / 4],
+        ["bob", "alice", 2 / 3],
+        ["carol", "alice", 1 / 4],
+      ]);
+    });
+
+    it("applies the metric, topK and similarityCutoff", async () => {
+      expect(
+        await pairs(
+          "CALL gds.nodeSimilarity.stream({relationshipTypes: 'LIKES', similarityMetric: 'OVERLAP', topK: 1}) " +
+            "YIELD node1, node2, similarity RETURN node1.name AS a, node2.name AS b, similarity AS value"
+        )
+      ).toEqual([
+        ["alice", "bob", 1],
+        ["bob", "alice", 1],
+        ["carol", "alice", 0.5],
+      ]);
+
+      const cosine = await pairs(
+        "CALL gds.nodeSimilarity.stream({relationshipTypes: 'LIKES', similarityMetric: 'COSINE', similarityCutoff: 0.5}) " +
+          "YIELD node1, node2, similarity RETURN node1.name AS a, node2.name AS b, similarity AS value"
+      );
+      expect(cosine.map(([a, b]) => [a, b])).toEqual([
+        ["alice", "bob"],
+        ["bob", "alice"],
+      ]);
+      expect(cosine[0][2]).toBeCloseTo(2 / Math.sqrt(6));
+    });
+
+    it("predicts links between unconnected nodes", async () => {
+      const projection = "{nodeLabels: 'Person', relationshipTypes: 'KNOWS'}";
+      expect(
+        await pairs(
+          `CALL gds.linkPrediction.commonNeighbors.stream(${projection}) YIELD node1, node2, score ` +
+            "RETURN node1.name AS a, node2.name AS b, score AS value"
+        )
+      ).toEqual([
+        ["alice", "dave", 1],
+        ["bob", "dave", 1],
+        ["dave", "alice", 1],
+        ["dave", "bob", 1],
+      ]);
+
+      // carol, the only common neighbor, has three neighbors
+      const adamicAdar = await pairs(
+        `CALL gds.linkPrediction.adamicAdar.stream(${projection}) YIELD node1, node2, score ` +
+          "RETURN node1.name AS a, node2.name AS b, score AS value"
+      );
+      expect(adamicAdar[0][2]).toBeCloseTo(1 / Math.log(3));
+    });
+  });
+
+  describe("REMOVE on matched nodes", () => {
+    it("removes properties and labels", async () => {
+      await client.execute("CREATE (:Person:Admin {name: 'Alice', age: 30})");
+
+      expectSuccess(await client.execute("MATCH (p:Person {name: 'Alice'}) REMOVE p.age, p:Admin"));
+
+      const result = expectSuccess(
+        await client.execute("MATCH (p:Person) RETURN p.age AS age, labels(p) AS labels")
+      );
+      expect(result.data).toEqual([{ age: null, labels: ["Person"] }]);
+    });
+
+    it("returns the current labels after REMOVE", async () => {
+      await client.execute("CREATE (:Person:Admin {name: 'Alice', age: 30})");
+
+      const label = expectSuccess(await client.execute("MATCH (p:Person) REMOVE p:Admin RETURN labels(p) AS labels"));
+      expect(label.data).toEqual([{ labels: ["Person"] }]);
+
+      const property = expectSuccess(await client.execute("MATCH (p:Person) REMOVE p.age RETURN labels(p) AS labels, p.age AS age"));
+      expect(property.data).toEqual([{ labels: ["Person"], age: null }]);
+    });
+  });
+
+  describe("Spatial points", () => {
+    beforeEach(async () => {
+      await client.execute("UNWIND $rows AS row CREATE (:City {name: row.name, location: point({latitude: row.lat, longitude: row.lon})})", {
+        rows: [
+          { name: "Stockholm", lat: 59.3293, lon: 18.0686 },
+          { name: "Gothenburg", lat: 57.7089, lon: 11.9746 },
+          { name: "Oslo", lat: 59.9139, lon: 10.7522 },
+        ],
+      });
+    });
+
+    it("returns points in the Neo4j format", async () => {
+      const result = expectSuccess(await client.execute("RETURN point({x: 1, y: 2}) AS p"));
+      expect(result.data).toEqual([
+        {
+          p: {
+            type: "Point",
+            coordinates: [1, 2],
+            crs: {
+              srid: 7203,
+              name: "cartesian",
+              type: "link",
+              properties: { href: "http://spatialreference.org/ref/sr-org/7203/ogcwkt/", type: "ogcwkt" },
+            },
+          },
+        },
+      ]);
+    });
+
+    it("stores points as properties and reads their components", async () => {
+      expectSuccess(await client.execute("MATCH (c:City {name: 'Oslo'}) SET c.centre = point({x: 3, y: 4, z: 5})"));
+
+      const result = expectSuccess(
+        await client.execute(
+          "MATCH (c:City {name: 'Oslo'}) RETURN c.location.latitude AS lat, c.location.srid AS srid, c.centre.z AS z, c.centre.crs AS crs"
+        )
+      );
+      expect(result.data).toEqual([{ lat: 59.9139, srid: 4326, z: 5, crs: "cartesian-3d" }]);
+    });
+
+    it("computes cartesian and geographic distances", async () => {
+      const cartesian = expectSuccess(
+        await client.execute("RETURN point.distance(point({x: 0, y: 0}), point({x: 3, y: 4})) AS d")
+      );
+      expect(cartesian.data).toEqual([{ d: 5 }]);
+
+      const geographic = expectSuccess(
+        await client.execute(
+          "MATCH (a:City {name: 'Stockholm'}), (b:City {name: 'Gothenburg'}) RETURN round(point.distance(a.location, b.location) / 1000) AS km"
+        )
+      );
+      expect(geographic.data).toEqual([{ km: 397 }]);
+    });
+
+    it("filters by distance, bounding box and equality", async () => {
+      const near = expectSuccess(
+        await client.execute(
+          "MATCH (c:City) WHERE point.distance(c.location, $here) < 300000 RETURN c.name AS name ORDER BY name",
+          { here: { type: "Point", coordinates: [11.9746, 57.7089], crs: { srid: 4326, name: "wgs-84", type: "link", properties: { href: "http://spatialreference.org/ref/epsg/4326/ogcwkt/", type: "ogcwkt" } } } }
+        )
+      );
+      expect(near.data).toEqual([{ name: "Gothenburg" }, { name: "Oslo" }]);
+
+      const inBox = expectSuccess(
+        await client.execute(
+          "MATCH (c:City) WHERE point.withinBBox(c.location, point({latitude: 57, longitude: 10}), point({latitude: 60, longitude: 12})) RETURN c.name AS name ORDER BY name"
+        )
+      );
+      expect(inBox.data).toEqual([{ name: "Gothenburg" }, { name: "Oslo" }]);
+
+      const equal = expectSuccess(
+        await client.execute("MATCH (c:City) WHERE c.location = point({latitude: 59.3293, longitude: 18.0686}) RETURN c.name AS name")
+      );
+      expect(equal.data).toEqual([{ name: "Stockholm" }]);
+    });
+
+    it("returns null for points in different coordinate systems", async () => {
+      const result = expectSuccess(
+        await client.execute("RETURN point.distance(point({x: 0, y: 0}), point({latitude: 0, longitude: 0})) AS d")
+      );
+      expect(result.data).toEqual([{ d: null }]);
+    });
+
+    it("rejects invalid points", async () => {
+      const result = await client.execute("RETURN point({latitude: 100, longitude: 0}) AS p");
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe("Cannot create WGS84 point with invalid coordinate: [0, 100]");
+      }
+    });
+  });
+});
+
+describe("LOAD CSV", () => {
+  const importDir = path.join(process.cwd(), "test-import-data");
+  let db: GraphDatabase;
+  let executor: Executor;
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(importDir, "exports"), { recursive: true });
+    fs.writeFileSync(
+      path.join(importDir, "people.csv"),
+      'name,age,city\r\nAlice,30,Paris\r\n"Smith, Bob",,"Berlin"\r\nCarol,41,Paris\r\n'
+    );
+    fs.writeFileSync(path.join(importDir, "exports", "tags.csv"), "a;b|c\n\"x;y\";z\n");
+
+    db = new GraphDatabase(":memory:");
+    db.initialize();
+    executor = new Executor(db, { importDirectory: importDir });
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(importDir, { recursive: true, force: true });
+  });
+
+  it("creates nodes from rows WITH HEADERS", () => {
+    expectSuccess(
+      executor.execute(`
+        LOAD CSV WITH HEADERS FROM 'file:///people.csv' AS row
+        CREATE (:Person {name: row.name, age: toInteger(row.age)})
+      `)
+    );
+
+    const result = expectSuccess(
+      executor.execute("MATCH (p:Person) RETURN p.name AS name, p.age AS age ORDER BY name")
+    );
+    expect(result.data).toEqual([
+      { name: "Alice", age: 30 },
+      { name: "Carol", age: 41 },
+      { name: "Smith, Bob", age: null },
+    ]);
+  });
+
+  it("merges nodes from rows", () => {
+    expectSuccess(
+      executor.execute("LOAD CSV WITH HEADERS FROM 'file:///people.csv' AS row MERGE (:City {name: row.city})")
+    );
+
+    const result = expectSuccess(executor.execute("MATCH (c:City) RETURN c.name AS name ORDER BY name"));
+    expect(result.data).toEqual([{ name: "Berlin" }, { name: "Paris" }]);
+  });
+
+  it("returns lists without headers and honours FIELDTERMINATOR", () => {
+    const result = expectSuccess(
+      executor.execute("LOAD CSV FROM $url AS line FIELDTERMINATOR ';' RETURN line", {
+        url: "file:///exports/tags.csv",
+      })
+    );
+
+    expect(result.data).toEqual([{ line: ["a", "b|c"] }, { line: ["x;y", "z"] }]);
+  });
+
+  it("does not read the file under EXPLAIN", () => {
+    const result = expectSuccess(
+      executor.execute("EXPLAIN LOAD CSV WITH HEADERS FROM 'file:///missing.csv' AS row CREATE (:Person {name: row.name})")
+    );
+
+    expect(result.data).toEqual([]);
+    expect(result.plan?.mode).toBe("EXPLAIN");
+  });
+
+  it("keeps the loaded rows apart from the query parameters", () => {
+    const result = expectSuccess(
+      executor.execute("LOAD CSV WITH HEADERS FROM 'file:///people.csv' AS row RETURN row.name AS name, $_load_csv_0 AS param", {
+        _load_csv_0: "mine",
+      })
+    );
+
+    expect(result.data).toEqual([
+      { name: "Alice", param: "mine" },
+      { name: "Smith, Bob", param: "mine" },
+      { name: "Carol", param: "mine" },
+    ]);
+  });
+
+  it("rejects files outside the import directory", () => {
+    fs.writeFileSync(path.join(process.cwd(), "test-import-secret.csv"), "secret\n");
+    try {
+      for (const url of ["file:///../test-import-secret.csv", "file:///exports/%2E%2E/%2E%2E/test-import-secret.csv"]) {
+        const result = executor.execute("LOAD CSV FROM $url AS row RETURN row", { url });
+        expect(result.success).toBe(false);
+      }
+    } finally {
+      fs.rmSync(path.join(process.cwd(), "test-import-secret.csv"), { force: true });
+    }
+  });
+
+  it("rejects non-file URLs", () => {
+    const result = executor.execute("LOAD CSV FROM 'https://example.com/people.csv' AS row RETURN row");
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain("file:///");
+    }
+  });
+
+  it("is disabled without an import directory", () => {
+    const result = new Executor(db).execute("LOAD CSV FROM 'file:///people.csv' AS row RETURN row");
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain("no import directory");
+    }
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { LeanGraph, LeanGraphError } from "../src/index.js";
+import { LeanGraph, LeanGraphError, createServer } from "../src/index.js";
 import type { LeanGraphClient } from "../src/types.js";
 
 describe("LeanGraph Factory", () => {
@@ -78,10 +78,216 @@ describe("LeanGraph Factory", () => {
       expect(response.data).toHaveLength(1);
     });
 
+    it("should return the query plan via queryRaw for EXPLAIN", async () => {
+      const response = await db.queryRaw('EXPLAIN MATCH (n:User) RETURN n');
+
+      expect(response.data).toHaveLength(0);
+      expect(response.plan?.mode).toBe("EXPLAIN");
+      expect(response.plan?.statements.length).toBeGreaterThan(0);
+    });
+
     it("should throw LeanGraphError on invalid query", async () => {
       await expect(db.execute("INVALID CYPHER QUERY")).rejects.toThrow(LeanGraphError);
     });
 
+    it("should run scripts of several statements", async () => {
+      const response = await db.executeScript(`
+        // Seed data
+        CREATE (:User {name: 'Alice; the first'});
+        CREATE (:User {name: $name});
+        MATCH (n:User) RETURN n.name AS name ORDER BY name;
+      `, { name: "Bob" });
+
+      expect(response.meta.count).toBe(3);
+      expect(response.results[2].data).toEqual([{ name: "Alice; the first" }, { name: "Bob" }]);
+    });
+
+    it("should roll back a script and report the failing statement", async () => {
+      const error = await db
+        .executeScript("CREATE (:User {name: 'Alice'});\nCREATE (:User {name: 'Bob'});\nMATCH (n RETURN n")
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(LeanGraphError);
+      expect(error.statement).toBe(2);
+      expect(error.line).toBe(3);
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(0);
+    });
+
+    it("should roll back constraint changes made by a failed script", async () => {
+      await expect(
+        db.executeScript("CREATE CONSTRAINT c1 FOR (u:U) REQUIRE u.k IS UNIQUE; RETURN 1 +* 2")
+      ).rejects.toThrow(LeanGraphError);
+      expect(await db.query("SHOW CONSTRAINTS")).toHaveLength(0);
+      await db.execute("CREATE (:U {k: 1}), (:U {k: 1})");
+      await db.execute("MATCH (u:U) DELETE u");
+
+      await db.execute("CREATE CONSTRAINT c1 FOR (u:U) REQUIRE u.k IS UNIQUE");
+      await expect(db.executeScript("DROP CONSTRAINT c1; RETURN 1 +* 2")).rejects.toThrow(LeanGraphError);
+      await db.execute("CREATE (:U {k: 1})");
+      await expect(db.execute("CREATE (:U {k: 1})")).rejects.toThrow("Constraint 'c1' violated");
+    });
+
+    it("should commit a transaction when its function resolves", async () => {
+      const count = await db.transaction(async (tx) => {
+        await tx.execute("CREATE (:User {name: 'Alice'})");
+        await tx.execute("CREATE (:User {name: 'Bob'})");
+        const rows = await tx.query<{ count: number }>("MATCH (n:User) RETURN count(n) AS count");
+        return rows[0].count;
+      });
+
+      expect(count).toBe(2);
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(2);
+    });
+
+    it("should roll back a transaction when its function throws", async () => {
+      const error = await db
+        .transaction(async (tx) => {
+          await tx.execute("CREATE (:User {name: 'Alice'})");
+          throw new Error("abort");
+        })
+        .catch((e) => e);
+
+      expect(error.message).toBe("abort");
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(0);
+    });
+
+    it("should commit and roll back explicit transactions", async () => {
+      const first = await db.beginTransaction();
+      await first.execute("CREATE (:User {name: 'Alice'})");
+      await first.rollback();
+
+      const second = await db.beginTransaction();
+      await second.execute("CREATE (:User {name: 'Bob'})");
+      // Queries outside the transaction wait until it ends
+      const outside = db.query<{ name: string }>("MATCH (n:User) RETURN n.name AS name");
+      await second.commit();
+
+      expect(await outside).toEqual([{ name: "Bob" }]);
+      await expect(second.commit()).rejects.toThrow("Transaction is no longer open");
+    });
+
+    it("should roll back constraint changes made in a transaction", async () => {
+      const tx = await db.beginTransaction();
+      await tx.execute("CREATE CONSTRAINT c1 FOR (u:U) REQUIRE u.k IS UNIQUE");
+      await tx.rollback();
+
+      await db.execute("CREATE (:U {k: 1}), (:U {k: 1})");
+      expect(await db.query("SHOW CONSTRAINTS")).toHaveLength(0);
+    });
+
+        it("should roll back a transaction when one of its queries fails", async () => {
+      const tx = await db.beginTransaction();
+      await tx.execute("CREATE (:User {name: 'Alice'})");
+
+      await expect(tx.execute("RETURN nope")).rejects.toThrow(LeanGraphError);
+      await expect(tx.query("RETURN 1")).rejects.toThrow("Transaction is no longer open");
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(0);
+    });
+
+    it("should stream query results row by row", async () => {
+      await db.execute("UNWIND range(1, 5) AS i CREATE (:Item {i: i})");
+
+      const seen: number[] = [];
+      for await (const row of db.stream<{ i: number }>("MATCH (n:Item) RETURN n.i AS i ORDER BY i")) {
+        seen.push(row.i);
+      }
+      expect(seen).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should release the database when a stream stops early", async () => {
+      await db.execute("UNWIND range(1, 5) AS i CREATE (:Item {i: i})");
+
+      for await (const row of db.stream("MATCH (n:Item) RETURN n.i AS i")) {
+        expect(row).toBeDefined();
+        break;
+      }
+      await db.execute("CREATE (:Item {i: 6})");
+      expect(await db.query("MATCH (n:Item) RETURN n")).toHaveLength(6);
+    });
+
+    it("should throw LeanGraphError when a streamed query fails", async () => {
+      const rows = db.stream("MATCH (n RETURN n");
+      await expect(rows[Symbol.asyncIterator]().next()).rejects.toThrow(LeanGraphError);
+    });
+
+    it("should stop a query that runs past its timeout", async () => {
+      await db.execute("UNWIND range(1, 12) AS i CREATE (:N {i: i})");
+      await db.execute("MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)");
+
+      const error = await db
+        .query("MATCH (a:N {i: 1})-[*]->(b) RETURN count(*) AS paths", {}, { timeoutMs: 50 })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(LeanGraphError);
+      expect(error.code).toBe("QUERY_TIMEOUT");
+
+      // The client-wide default applies when a query sets none
+      const limited = await LeanGraph({ mode: "test", project: "limited", timeoutMs: 1 });
+      await limited.execute("UNWIND range(1, 12) AS i CREATE (:N {i: i})");
+      await limited.execute("MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)", {}, { timeoutMs: 5000 });
+      await expect(limited.query("MATCH (a:N {i: 1})-[*]->(b) RETURN count(*) AS paths")).rejects.toMatchObject({
+        code: "QUERY_TIMEOUT",
+      });
+      limited.close();
+    });
+
+    it("should stop a cross product that runs past its timeout", async () => {
+      await db.execute("UNWIND range(1, 60) AS i CREATE (:N {i: i})");
+
+      await expect(
+        db.query("MATCH (a:N), (b:N), (c:N), (d:N) RETURN count(*) AS combinations", {}, { timeoutMs: 50 })
+      ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+      await expect(
+        db.query("UNWIND range(1, 400) AS a UNWIND range(1, 400) AS b UNWIND range(1, 400) AS c RETURN count(*) AS n", {}, { timeoutMs: 50 })
+      ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+      expect(await db.query("MATCH (a:N), (b:N) RETURN count(*) AS pairs")).toEqual([{ pairs: 3600 }]);
+    });
+
+    it("should roll back the writes of a query that times out", async () => {
+      await db.execute("UNWIND range(1, 10) AS i CREATE (:N {i: i})");
+      await db.execute("MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)");
+
+      await expect(
+        db.execute("MATCH (a:N {i: 1})-[*]->(b) CREATE (:Reached)", {}, { timeoutMs: 50 })
+      ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+      expect(await db.query("MATCH (n:Reached) RETURN n")).toHaveLength(0);
+    });
+
+    it("should not run a query whose signal is aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(db.execute("CREATE (:User)", {}, { signal: controller.signal })).rejects.toMatchObject({
+        code: "QUERY_CANCELLED",
+      });
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(0);
+    });
+
+    it("should not count the time spent between streamed rows towards the timeout", async () => {
+      await db.execute("UNWIND range(1, 3) AS i CREATE (:Item {i: i})");
+
+      const seen: unknown[] = [];
+      for await (const row of db.stream("MATCH (n:Item) RETURN n.i AS i", {}, { timeoutMs: 50 })) {
+        seen.push(row);
+        await new Promise((resolve) => setTimeout(resolve, 40));
+      }
+      expect(seen).toHaveLength(3);
+    });
+
+    it("should cancel a stream when its signal is aborted", async () => {
+      await db.execute("UNWIND range(1, 5) AS i CREATE (:Item {i: i})");
+      const controller = new AbortController();
+
+      const seen: unknown[] = [];
+      const reading = (async () => {
+        for await (const row of db.stream("MATCH (n:Item) RETURN n.i AS i", {}, { signal: controller.signal })) {
+          seen.push(row);
+          controller.abort();
+        }
+      })();
+      await expect(reading).rejects.toMatchObject({ code: "QUERY_CANCELLED" });
+      expect(seen).toHaveLength(1);
+    });
+
     it("should return health status", async () => {
       const health = await db.health();
       
@@ -206,6 +412,72 @@ describe("LeanGraph Factory", () => {
     });
   });
 
+  describe("Remote Transactions", () => {
+    let server: ReturnType<typeof createServer>;
+
+    beforeEach(() => {
+      server = createServer();
+      // Route the remote client's requests to the in-process server
+      vi.stubGlobal("fetch", (input: string, init?: RequestInit) => server.app.fetch(new Request(input, init)));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      server.dbManager.closeAll();
+    });
+
+    it("should run queries in a server-side transaction", async () => {
+      const db = await LeanGraph({ mode: "remote", url: "http://localhost:3000", project: "remote" });
+
+      await db.transaction(async (tx) => {
+        await tx.execute("CREATE (:User {name: 'Alice'})");
+        expect(await tx.query("MATCH (n:User) RETURN n.name AS name")).toEqual([{ name: "Alice" }]);
+      });
+      expect(await db.query("MATCH (n:User) RETURN n.name AS name")).toEqual([{ name: "Alice" }]);
+
+      const tx = await db.beginTransaction();
+      await tx.execute("CREATE (:User {name: 'Bob'})");
+      await tx.rollback();
+      expect(await db.query("MATCH (n:User) RETURN n")).toHaveLength(1);
+
+      db.close();
+    });
+
+    it("should stream query results from the server", async () => {
+      const db = await LeanGraph({ mode: "remote", url: "http://localhost:3000", project: "remote" });
+      await db.execute("UNWIND range(1, 250) AS i CREATE (:Item {i: i})");
+
+      const seen: number[] = [];
+      for await (const row of db.stream<{ i: number }>("MATCH (n:Item) RETURN n.i AS i ORDER BY i")) {
+        seen.push(row.i);
+      }
+      expect(seen).toHaveLength(250);
+      expect(seen[249]).toBe(250);
+
+      await expect(db.stream("MATCH (n RETURN n")[Symbol.asyncIterator]().next()).rejects.toThrow(LeanGraphError);
+
+      db.close();
+    });
+
+    it("should send the query timeout to the server", async () => {
+      const db = await LeanGraph({ mode: "remote", url: "http://localhost:3000", project: "remote", timeoutMs: 50 });
+      await db.execute("UNWIND range(1, 12) AS i CREATE (:N {i: i})");
+      await db.execute("MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)", {}, { timeoutMs: 5000 });
+
+      await expect(db.query("MATCH (a:N {i: 1})-[*]->(b) RETURN count(*) AS paths")).rejects.toMatchObject({
+        code: "QUERY_TIMEOUT",
+      });
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(db.query("RETURN 1", {}, { signal: controller.signal })).rejects.toMatchObject({
+        code: "QUERY_CANCELLED",
+      });
+
+      db.close();
+    });
+  });
+
   describe("Mode Options", () => {
     it("should default to local mode", async () => {
       const db = await LeanGraph({
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import {
   parse,
+  splitStatements,
   Query,
   CreateClause,
   MatchClause,
@@ -8,7 +9,13 @@ import {
   SetClause,
   DeleteClause,
   ReturnClause,
+  CreateIndexClause,
+  CreateConstraintClause,
   WithClause,
+  ForeachClause,
+  LoadCsvClause,
+  CallSubqueryClause,
+  UnionClause,
   NodePattern,
   RelationshipPattern,
 } from "../src/parser";
@@ -1968,6 +1975,177 @@ describe("Parser", () => {
     });
   });
 
+  describe("reduce() and map projections", () => {
+    it("parses reduce with accumulator, variable and step expression", () => {
+      const query = expectSuccess("RETURN reduce(total = 0, x IN [1, 2, 3] | total + x) AS sum");
+      const expr = (query.clauses[0] as ReturnClause).items[0].expression;
+
+      expect(expr.type).toBe("reduce");
+      expect(expr.accumulator).toBe("total");
+      expect(expr.initialValue).toEqual({ type: "literal", value: 0, raw: "0", numberLiteralKind: "integer" });
+      expect(expr.variable).toBe("x");
+      expect(expr.listExpr!.type).toBe("literal");
+      expect(expr.mapExpr!.type).toBe("binary");
+    });
+
+    it("parses map projection items", () => {
+      const query = expectSuccess("MATCH (u:User) RETURN u {.name, .*, friends: size(u.friends), score} AS user");
+      const expr = (query.clauses[1] as ReturnClause).items[0].expression;
+
+      expect(expr.type).toBe("mapProjection");
+      expect(expr.variable).toBe("u");
+      expect(expr.projections).toEqual([
+        { type: "property", key: "name" },
+        { type: "allProperties" },
+        { type: "literal", key: "friends", value: expect.objectContaining({ type: "function", functionName: "SIZE" }) },
+        { type: "variable", key: "score" },
+      ]);
+    });
+
+    it("parses an empty map projection", () => {
+      const query = expectSuccess("MATCH (u:User) RETURN u {} AS user");
+      const expr = (query.clauses[1] as ReturnClause).items[0].expression;
+
+      expect(expr).toEqual({ type: "mapProjection", variable: "u", projections: [] });
+    });
+  });
+
+  describe("EXISTS, COUNT and COLLECT subqueries", () => {
+    it("parses a pattern body with WHERE into a MATCH clause", () => {
+      const query = expectSuccess("MATCH (a:Person) WHERE EXISTS { (a)-[:KNOWS]->(b) WHERE b.age > 30 } RETURN a");
+      const where = (query.clauses[0] as MatchClause).where!;
+
+      expect(where.type).toBe("expression");
+      expect(where.left!.type).toBe("subquery");
+      expect(where.left!.subqueryType).toBe("EXISTS");
+      const inner = where.left!.query!.clauses[0] as MatchClause;
+      expect(inner.type).toBe("MATCH");
+      expect((inner.patterns[0] as RelationshipPattern).edge.type).toBe("KNOWS");
+      expect(inner.where!.type).toBe("comparison");
+    });
+
+    it("parses COUNT and COLLECT with full query bodies", () => {
+      const query = expectSuccess(
+        "MATCH (a) RETURN COUNT { MATCH (a)-->(b) } > 1 AS busy, COLLECT { MATCH (a)-->(b) RETURN b.name } AS names"
+      );
+      const items = (query.clauses[1] as ReturnClause).items;
+
+      expect(items[0].expression.type).toBe("comparison");
+      expect(items[0].expression.left!.subqueryType).toBe("COUNT");
+      expect(items[1].expression.subqueryType).toBe("COLLECT");
+      expect(items[1].expression.query!.clauses.map((clause) => clause.type)).toEqual(["MATCH", "RETURN"]);
+    });
+
+    it("keeps the legacy exists() pattern form", () => {
+      const query = expectSuccess("MATCH (a) WHERE exists((a)-[:KNOWS]->()) RETURN a");
+      expect((query.clauses[0] as MatchClause).where!.type).toBe("exists");
+    });
+
+    it("requires COLLECT to return exactly one column", () => {
+      expectError("MATCH (a) RETURN COLLECT { MATCH (a)-->(b) } AS bs");
+      expectError("MATCH (a) RETURN COLLECT { MATCH (a)-->(b) RETURN b.x, b.y } AS bs");
+    });
+  });
+
+  describe("Label expressions", () => {
+    function nodeLabel(input: string) {
+      const query = expectSuccess(input);
+      return ((query.clauses[0] as MatchClause).patterns[0] as NodePattern).label;
+    }
+
+    it("keeps plain labels and conjunctions as label strings", () => {
+      expect(nodeLabel("MATCH (n:Person) RETURN n")).toBe("Person");
+      expect(nodeLabel("MATCH (n:Person:Admin) RETURN n")).toEqual(["Person", "Admin"]);
+      expect(nodeLabel("MATCH (n:Person&Admin) RETURN n")).toEqual(["Person", "Admin"]);
+    });
+
+    it("parses disjunction, negation, wildcard and grouping", () => {
+      expect(nodeLabel("MATCH (n:Person|Company) RETURN n")).toEqual({
+        type: "or",
+        operands: [
+          { type: "label", name: "Person" },
+          { type: "label", name: "Company" },
+        ],
+      });
+      expect(nodeLabel("MATCH (n:!Archived) RETURN n")).toEqual({ type: "not", operand: { type: "label", name: "Archived" } });
+      expect(nodeLabel("MATCH (n:%) RETURN n")).toEqual({ type: "wildcard" });
+      expect(nodeLabel("MATCH (n:(A&B)|!C) RETURN n")).toEqual({
+        type: "or",
+        operands: [
+          { type: "and", operands: [{ type: "label", name: "A" }, { type: "label", name: "B" }] },
+          { type: "not", operand: { type: "label", name: "C" } },
+        ],
+      });
+    });
+
+    it("parses relationship type expressions", () => {
+      const query = expectSuccess("MATCH (a)-[r:!FOLLOWS]->(b), (a)-[s:KNOWS|:LIKES]->(c) RETURN r");
+      const patterns = (query.clauses[0] as MatchClause).patterns as RelationshipPattern[];
+
+      expect(patterns[0].edge.type).toBeUndefined();
+      expect(patterns[0].edge.typeExpression).toEqual({ type: "not", operand: { type: "label", name: "FOLLOWS" } });
+      expect(patterns[1].edge.types).toEqual(["KNOWS", "LIKES"]);
+    });
+
+    it("rejects label expressions in CREATE and MERGE", () => {
+      expectError("CREATE (n:A|B)");
+      expectError("MERGE (n:!A)");
+      expectError("MATCH (a), (b) CREATE (a)-[:%]->(b)");
+    });
+  });
+
+  describe("splitStatements", () => {
+    it("splits on semicolons outside strings, identifiers and comments", () => {
+      const statements = splitStatements(
+        "CREATE (:A {s: 'a;b', t: \"c\\\";d\"});\n// comment; here\nMATCH (`x;y`) /* ; */ RETURN 1;\n;"
+      );
+
+      expect(statements.map((statement) => statement.cypher)).toEqual([
+        "CREATE (:A {s: 'a;b', t: \"c\\\";d\"})",
+        "MATCH (`x;y`) /* ; */ RETURN 1",
+      ]);
+      expect(statements[1]).toMatchObject({ line: 3, column: 1 });
+    });
+
+    it("returns no statements for an empty script", () => {
+      expect(splitStatements("  // nothing\n ; ")).toEqual([]);
+    });
+  });
+
+  describe("Dynamic labels", () => {
+    it("parses $(...), $all(...) and $any(...) in node patterns", () => {
+      const query = expectSuccess("MATCH (n:$($label)), (m:Person:$any($labels)) RETURN n");
+      const patterns = (query.clauses[0] as MatchClause).patterns as NodePattern[];
+
+      expect(patterns[0].label).toEqual({ type: "dynamic", mode: "all", expression: { type: "parameter", name: "label" } });
+      expect(patterns[1].label).toEqual({
+        type: "and",
+        operands: [
+          { type: "label", name: "Person" },
+          { type: "dynamic", mode: "any", expression: { type: "parameter", name: "labels" } },
+        ],
+      });
+    });
+
+    it("parses dynamic relationship types and SET labels", () => {
+      const query = expectSuccess("MATCH (a), (b) MERGE (a)-[r:$($type)]->(b) SET b:Seen:$($labels)");
+      const merge = query.clauses[1] as MergeClause;
+      const set = query.clauses[2] as SetClause;
+
+      expect((merge.patterns[0] as RelationshipPattern).edge.typeExpression).toEqual({
+        type: "dynamic",
+        mode: "all",
+        expression: { type: "parameter", name: "type" },
+      });
+      expect(set.assignments[0].labels).toEqual(["Seen"]);
+      expect(set.assignments[0].dynamicLabels).toEqual([{ type: "parameter", name: "labels" }]);
+    });
+
+    it("rejects $any(...) in CREATE", () => {
+      expectError("CREATE (n:$any($labels))");
+    });
+  });
+
   describe("List predicates (ALL, ANY, NONE, SINGLE)", () => {
     it("parses ALL(x IN list WHERE condition)", () => {
       const query = expectSuccess("RETURN ALL(x IN [1, 2, 3] WHERE x > 0) AS result");
@@ -2110,4 +2288,367 @@ describe("Parser", () => {
       expect(err.message).toContain("Unterminated block comment");
     });
   });
+
+  describe("FOREACH clause", () => {
+    it("parses FOREACH with a SET body", () => {
+      const query = expectSuccess("MATCH (n) FOREACH (x IN [1, 2] | SET n.value = x)");
+
+      expect(query.clauses).toHaveLength(2);
+      const clause = query.clauses[1] as ForeachClause;
+      expect(clause.type).toBe("FOREACH");
+      expect(clause.variable).toBe("x");
+      expect(clause.expression).toEqual({ type: "literal", value: [1, 2] });
+      expect(clause.clauses).toHaveLength(1);
+      expect(clause.clauses[0].type).toBe("SET");
+    });
+
+    it("parses multiple update clauses in the body", () => {
+      const query = expectSuccess(
+        "FOREACH (name IN $names | MERGE (p:Person {name: name}) SET p.seen = true REMOVE p.old)"
+      );
+
+      const clause = query.clauses[0] as ForeachClause;
+      expect(clause.clauses.map(c => c.type)).toEqual(["MERGE", "SET", "REMOVE"]);
+    });
+
+    it("parses nested FOREACH", () => {
+      const query = expectSuccess(
+        "FOREACH (x IN range(1, 3) | CREATE (:A {v: x}) FOREACH (y IN [x] | CREATE (:B {v: y})))"
+      );
+
+      const outer = query.clauses[0] as ForeachClause;
+      expect(outer.clauses).toHaveLength(2);
+      const inner = outer.clauses[1] as ForeachClause;
+      expect(inner.type).toBe("FOREACH");
+      expect(inner.variable).toBe("y");
+      expect(inner.clauses[0].type).toBe("CREATE");
+    });
+
+    it("parses DETACH DELETE in the body", () => {
+      const query = expectSuccess("MATCH (a) FOREACH (n IN [a] | DETACH DELETE n)");
+
+      const clause = query.clauses[1] as ForeachClause;
+      const del = clause.clauses[0] as DeleteClause;
+      expect(del.type).toBe("DELETE");
+      expect(del.detach).toBe(true);
+    });
+
+    it("rejects read clauses in the body", () => {
+      const err = expectError("FOREACH (x IN [1] | MATCH (n) RETURN n)");
+      expect(err.message).toContain("Invalid use of 'MATCH' inside FOREACH");
+    });
+
+    it("rejects an empty body", () => {
+      const err = expectError("FOREACH (x IN [1] | )");
+      expect(err.message).toContain("FOREACH requires at least one update clause");
+    });
+
+    it("requires the pipe separator", () => {
+      expectError("FOREACH (x IN [1] CREATE (:A))");
+    });
+  });
+
+  describe("CALL subqueries", () => {
+    it("parses a correlated subquery", () => {
+      const query = expectSuccess(
+        "MATCH (c:Category) CALL { WITH c MATCH (p)-[:IN]->(c) RETURN p LIMIT 3 } RETURN c, p"
+      );
+
+      expect(query.clauses).toHaveLength(3);
+      const clause = query.clauses[1] as CallSubqueryClause;
+      expect(clause.type).toBe("CALL_SUBQUERY");
+      expect(clause.query.clauses.map(c => c.type)).toEqual(["WITH", "MATCH", "RETURN"]);
+    });
+
+    it("parses a UNION inside a subquery", () => {
+      const query = expectSuccess(
+        "CALL { MATCH (a:A) RETURN a.name AS name UNION ALL MATCH (b:B) RETURN b.name AS name } RETURN name"
+      );
+
+      const clause = query.clauses[0] as CallSubqueryClause;
+      expect(clause.query.clauses).toHaveLength(1);
+      const union = clause.query.clauses[0] as UnionClause;
+      expect(union.type).toBe("UNION");
+      expect(union.all).toBe(true);
+      expect(query.clauses[1].type).toBe("RETURN");
+    });
+
+    it("parses nested subqueries", () => {
+      const query = expectSuccess("CALL { CALL { RETURN 1 AS x } RETURN x } RETURN x");
+
+      const outer = query.clauses[0] as CallSubqueryClause;
+      const inner = outer.query.clauses[0] as CallSubqueryClause;
+      expect(inner.type).toBe("CALL_SUBQUERY");
+      expect(inner.query.clauses[0].type).toBe("RETURN");
+    });
+
+    it("still parses procedure calls", () => {
+      const query = expectSuccess("CALL db.labels() YIELD label RETURN label");
+      expect(query.clauses[0].type).toBe("CALL");
+    });
+
+    it("rejects an empty subquery", () => {
+      const err = expectError("CALL { } RETURN 1");
+      expect(err.message).toContain("CALL subquery cannot be empty");
+    });
+
+    it("rejects an unclosed subquery", () => {
+      expectError("CALL { MATCH (n) RETURN n");
+    });
+  });
+
+  describe("shortestPath and allShortestPaths", () => {
+    it("parses a named shortestPath", () => {
+      const query = expectSuccess("MATCH p = shortestPath((a)-[:KNOWS*..10]-(b)) RETURN p");
+
+      const clause = query.clauses[0] as MatchClause;
+      expect(clause.pathExpressions).toHaveLength(1);
+      const path = clause.pathExpressions![0];
+      expect(path.variable).toBe("p");
+      expect(path.shortest).toBe("single");
+      const rel = path.patterns[0] as RelationshipPattern;
+      expect(rel.edge.type).toBe("KNOWS");
+      expect(rel.edge.direction).toBe("none");
+      expect(rel.edge.maxHops).toBe(10);
+    });
+
+    it("parses allShortestPaths", () => {
+      const query = expectSuccess("MATCH (a), (b), p = allShortestPaths((a)-[*]->(b)) RETURN p");
+
+      const clause = query.clauses[0] as MatchClause;
+      expect(clause.patterns).toHaveLength(2);
+      expect(clause.pathExpressions![0].shortest).toBe("all");
+    });
+
+    it("parses an unnamed shortestPath", () => {
+      const query = expectSuccess("MATCH shortestPath((a)-[:R*]->(b)) RETURN a");
+
+      const clause = query.clauses[0] as MatchClause;
+      expect(clause.pathExpressions![0].shortest).toBe("single");
+    });
+
+    it("rejects patterns with more than one relationship", () => {
+      const err = expectError("MATCH p = shortestPath((a)-[*]->(b)-[*]->(c)) RETURN p");
+      expect(err.message).toContain("single relationship");
+    });
+
+    it("rejects a minimum length above 1", () => {
+      const err = expectError("MATCH p = shortestPath((a)-[*2..5]->(b)) RETURN p");
+      expect(err.message).toContain("minimal length");
+    });
+  });
+
+  describe("regular expression match", () => {
+    it("parses =~ in WHERE", () => {
+      const query = expectSuccess("MATCH (n:Person) WHERE n.name =~ '(?i)ali.*' RETURN n");
+
+      const clause = query.clauses[0] as MatchClause;
+      expect(clause.where).toEqual({
+        type: "comparison",
+        operator: "=~",
+        left: { type: "property", variable: "n", property: "name" },
+        right: { type: "literal", value: "(?i)ali.*" },
+      });
+    });
+
+    it("parses =~ as a RETURN expression", () => {
+      const query = expectSuccess("RETURN 'abc' =~ $pattern AS matched");
+
+      const clause = query.clauses[0] as ReturnClause;
+      expect(clause.items[0].expression).toEqual({
+        type: "comparison",
+        comparisonOperator: "=~",
+        left: { type: "literal", value: "abc" },
+        right: { type: "parameter", name: "pattern" },
+      });
+    });
+
+    it("parses =~ without surrounding whitespace", () => {
+      const query = expectSuccess("MATCH (n) WHERE n.code=~'[A-Z]+' RETURN n");
+
+      const clause = query.clauses[0] as MatchClause;
+      expect(clause.where?.operator).toBe("=~");
+    });
+  });
+
+  describe("LOAD CSV", () => {
+    it("parses LOAD CSV WITH HEADERS", () => {
+      const query = expectSuccess(
+        "LOAD CSV WITH HEADERS FROM 'file:///people.csv' AS row CREATE (:Person {name: row.name})"
+      );
+
+      const clause = query.clauses[0] as LoadCsvClause;
+      expect(clause).toEqual({
+        type: "LOAD_CSV",
+        withHeaders: true,
+        url: { type: "literal", value: "file:///people.csv" },
+        variable: "row",
+      });
+      expect(query.clauses[1].type).toBe("CREATE");
+    });
+
+    it("parses a parameter URL and FIELDTERMINATOR", () => {
+      const query = expectSuccess("load csv from $url as line fieldterminator ';' RETURN line");
+
+      const clause = query.clauses[0] as LoadCsvClause;
+      expect(clause.withHeaders).toBe(false);
+      expect(clause.url).toEqual({ type: "parameter", name: "url" });
+      expect(clause.fieldTerminator).toBe(";");
+    });
+
+    it("rejects a multi-character FIELDTERMINATOR", () => {
+      const err = expectError("LOAD CSV FROM 'file:///a.csv' AS row FIELDTERMINATOR ';;' RETURN row");
+      expect(err.message).toContain("single character");
+    });
+
+    it("requires FROM", () => {
+      const err = expectError("LOAD CSV 'file:///a.csv' AS row RETURN row");
+      expect(err.message).toContain("FROM");
+    });
+  });
+
+  describe("EXPLAIN and PROFILE", () => {
+    it("parses the EXPLAIN prefix", () => {
+      const query = expectSuccess("EXPLAIN MATCH (n:Person) RETURN n");
+
+      expect(query.prefix).toBe("EXPLAIN");
+      expect(query.clauses[0].type).toBe("MATCH");
+    });
+
+    it("parses the PROFILE prefix case-insensitively", () => {
+      const query = expectSuccess("profile CREATE (n:Person)");
+
+      expect(query.prefix).toBe("PROFILE");
+      expect(query.clauses).toHaveLength(1);
+    });
+
+    it("leaves plain queries without a prefix", () => {
+      const query = expectSuccess("MATCH (n) RETURN n");
+
+      expect(query.prefix).toBeUndefined();
+    });
+
+    it("still allows explain and profile as identifiers", () => {
+      const query = expectSuccess("MATCH (explain) RETURN explain.name AS profile");
+
+      expect(query.prefix).toBeUndefined();
+      const ret = query.clauses[1] as ReturnClause;
+      expect(ret.items[0].alias).toBe("profile");
+    });
+  });
+
+  describe("CREATE INDEX, DROP INDEX and SHOW INDEXES", () => {
+    it("parses a named node index", () => {
+      const query = expectSuccess("CREATE INDEX user_email FOR (u:User) ON (u.email)");
+
+      expect(query.clauses[0]).toEqual({
+        type: "CREATE_INDEX",
+        name: "user_email",
+        ifNotExists: false,
+        entityType: "NODE",
+        variable: "u",
+        labelOrType: "User",
+        properties: ["email"],
+      });
+    });
+
+    it("parses an unnamed composite index with IF NOT EXISTS", () => {
+      const query = expectSuccess("CREATE INDEX IF NOT EXISTS FOR (p:Person) ON (p.name, p.age)");
+
+      const clause = query.clauses[0] as CreateIndexClause;
+      expect(clause.name).toBeUndefined();
+      expect(clause.ifNotExists).toBe(true);
+      expect(clause.properties).toEqual(["name", "age"]);
+    });
+
+    it("parses a relationship index", () => {
+      const query = expectSuccess("CREATE RANGE INDEX knows_since FOR ()-[k:KNOWS]->() ON (k.since)");
+
+      const clause = query.clauses[0] as CreateIndexClause;
+      expect(clause.entityType).toBe("RELATIONSHIP");
+      expect(clause.labelOrType).toBe("KNOWS");
+      expect(clause.properties).toEqual(["since"]);
+    });
+
+    it("rejects properties of another variable", () => {
+      const err = expectError("CREATE INDEX FOR (u:User) ON (x.email)");
+      expect(err.message).toContain("must belong to 'u'");
+    });
+
+    it("parses DROP INDEX and SHOW INDEXES", () => {
+      expect(expectSuccess("DROP INDEX user_email IF EXISTS").clauses[0]).toEqual({
+        type: "DROP_INDEX",
+        name: "user_email",
+        ifExists: true,
+      });
+      expect(expectSuccess("SHOW INDEXES").clauses[0]).toEqual({ type: "SHOW_INDEXES" });
+      expect(expectSuccess("show index").clauses[0]).toEqual({ type: "SHOW_INDEXES" });
+    });
+
+    it("rejects schema commands combined with other clauses", () => {
+      const err = expectError("CREATE INDEX FOR (u:User) ON (u.email) RETURN 1");
+      expect(err.message).toContain("cannot be combined");
+    });
+  });
+
+  describe("CREATE CONSTRAINT, DROP CONSTRAINT and SHOW CONSTRAINTS", () => {
+    it("parses a uniqueness constraint", () => {
+      const query = expectSuccess("CREATE CONSTRAINT user_email FOR (u:User) REQUIRE u.email IS UNIQUE");
+
+      expect(query.clauses[0]).toEqual({
+        type: "CREATE_CONSTRAINT",
+        name: "user_email",
+        ifNotExists: false,
+        kind: "UNIQUE",
+        entityType: "NODE",
+        variable: "u",
+        labelOrType: "User",
+        properties: ["email"],
+      });
+    });
+
+    it("parses existence and key constraints", () => {
+      const notNull = expectSuccess("CREATE CONSTRAINT IF NOT EXISTS FOR (u:User) REQUIRE u.name IS NOT NULL");
+      const notNullClause = notNull.clauses[0] as CreateConstraintClause;
+      expect(notNullClause.kind).toBe("NOT_NULL");
+      expect(notNullClause.name).toBeUndefined();
+      expect(notNullClause.ifNotExists).toBe(true);
+
+      const key = expectSuccess("CREATE CONSTRAINT FOR (p:Person) REQUIRE (p.first, p.last) IS NODE KEY");
+      const keyClause = key.clauses[0] as CreateConstraintClause;
+      expect(keyClause.kind).toBe("KEY");
+      expect(keyClause.properties).toEqual(["first", "last"]);
+    });
+
+    it("parses relationship constraints", () => {
+      const query = expectSuccess("CREATE CONSTRAINT FOR ()-[k:KNOWS]-() REQUIRE k.id IS RELATIONSHIP UNIQUE");
+
+      const clause = query.clauses[0] as CreateConstraintClause;
+      expect(clause.entityType).toBe("RELATIONSHIP");
+      expect(clause.labelOrType).toBe("KNOWS");
+      expect(clause.kind).toBe("UNIQUE");
+    });
+
+    it("rejects mismatched or invalid requirements", () => {
+      expect(expectError("CREATE CONSTRAINT FOR (u:User) REQUIRE u.id IS RELATIONSHIP KEY").message).toContain(
+        "does not match"
+      );
+      expect(expectError("CREATE CONSTRAINT FOR (u:User) REQUIRE (u.a, u.b) IS NOT NULL").message).toContain(
+        "single property"
+      );
+      expect(expectError("CREATE CONSTRAINT FOR (u:User) REQUIRE u.a IS INDEXED").message).toContain(
+        "Expected UNIQUE"
+      );
+    });
+
+    it("parses DROP CONSTRAINT and SHOW CONSTRAINTS", () => {
+      expect(expectSuccess("DROP CONSTRAINT user_email").clauses[0]).toEqual({
+        type: "DROP_CONSTRAINT",
+        name: "user_email",
+        ifExists: false,
+      });
+      expect(expectSuccess("SHOW CONSTRAINTS").clauses[0]).toEqual({ type: "SHOW_CONSTRAINTS" });
+      expect(expectSuccess("SHOW ALL CONSTRAINTS").clauses[0]).toEqual({ type: "SHOW_CONSTRAINTS" });
+    });
+  });
 });
@@ -146,6 +146,307 @@ describe("HTTP Routes", () => {
       expect(status).toBe(200);
       expect((json as any).data).toHaveLength(0);
     });
+
+    it("stops queries that run past the requested timeout", async () => {
+      await request("POST", "/query/myproject", { cypher: "UNWIND range(1, 12) AS i CREATE (:N {i: i})" });
+      await request("POST", "/query/myproject", {
+        cypher: "MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)",
+      });
+
+      const { status, json } = await request("POST", "/query/myproject", {
+        cypher: "MATCH (a:N {i: 1})-[*]->(b) RETURN count(*) AS paths",
+        timeoutMs: 50,
+      });
+
+      expect(status).toBe(400);
+      expect((json as any).error.code).toBe("QUERY_TIMEOUT");
+    });
+
+    it("does not let requests raise the server's query timeout", async () => {
+      const limited = createApp(dbManager, { queryTimeoutMs: 50 });
+      await request("POST", "/query/myproject", { cypher: "UNWIND range(1, 12) AS i CREATE (:N {i: i})" });
+      await request("POST", "/query/myproject", {
+        cypher: "MATCH (a:N), (b:N) WHERE a.i <> b.i CREATE (a)-[:R]->(b)",
+      });
+
+      const res = await limited.fetch(
+        new Request("http://localhost/query/myproject", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cypher: "MATCH (a:N {i: 1})-[*]->(b) RETURN count(*) AS paths", timeoutMs: 60_000 }),
+        })
+      );
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as any).error.code).toBe("QUERY_TIMEOUT");
+    });
+
+    it("returns 400 for an invalid timeout", async () => {
+      const { status } = await request("POST", "/query/myproject", { cypher: "RETURN 1", timeoutMs: "soon" });
+
+      expect(status).toBe(400);
+    });
+
+    it("returns the plan for PROFILE queries", async () => {
+      await request("POST", "/query/myproject", {
+        cypher: "CREATE (n:Person {name: 'Alice'})",
+      });
+
+      const { status, json } = await request("POST", "/query/myproject", {
+        cypher: "PROFILE MATCH (n:Person) RETURN n.name AS name",
+      });
+
+      expect(status).toBe(200);
+      expect((json as any).data).toEqual([{ name: "Alice" }]);
+      expect((json as any).plan.mode).toBe("PROFILE");
+      expect((json as any).plan.statements[0].rows).toBe(1);
+    });
+  });
+
+  describe("POST /query/:project/stream", () => {
+    it("streams each row as a line followed by a summary", async () => {
+      await request("POST", "/query/myproject", {
+        cypher: "UNWIND range(1, 150) AS i CREATE (:Item {i: i})",
+      });
+
+      const res = await app.fetch(
+        new Request("http://localhost/query/myproject/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cypher: "MATCH (n:Item) WHERE n.i <= $max RETURN n.i AS i", params: { max: 120 } }),
+        })
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toContain("application/x-ndjson");
+      const lines = (await res.text()).trim().split("\n").map((line) => JSON.parse(line));
+      expect(lines).toHaveLength(121);
+      expect(lines[0]).toEqual({ row: { i: 1 } });
+      expect(lines[120].summary.count).toBe(120);
+    });
+
+    it("returns 400 for invalid Cypher", async () => {
+      const { status, json } = await request("POST", "/query/myproject/stream", {
+        cypher: "MATCH (n RETURN n",
+      });
+
+      expect(status).toBe(400);
+      expect((json as any).success).toBe(false);
+    });
+  });
+
+  describe("POST /script/:project", () => {
+    it("runs every statement and returns their results", async () => {
+      const { status, json } = await request("POST", "/script/myproject", {
+        script: "CREATE (n:Person {name: $name}); MATCH (n:Person) RETURN n.name AS name;",
+        params: { name: "Alice" },
+      });
+
+      expect(status).toBe(200);
+      expect((json as any).success).toBe(true);
+      expect((json as any).meta.count).toBe(2);
+      expect((json as any).results[1].data).toEqual([{ name: "Alice" }]);
+    });
+
+    it("returns 400 with the failing statement and rolls back", async () => {
+      const { status, json } = await request("POST", "/script/myproject", {
+        script: "CREATE (n:Person {name: 'Alice'});\nRETURN nope",
+      });
+
+      expect(status).toBe(400);
+      expect((json as any).error.statement).toBe(1);
+      expect((json as any).error.line).toBe(2);
+
+      const { json: check } = await request("POST", "/query/myproject", {
+        cypher: "MATCH (n:Person) RETURN n",
+      });
+      expect((check as any).data).toHaveLength(0);
+    });
+
+    it("returns 400 for missing script", async () => {
+      const { status } = await request("POST", "/script/myproject", {});
+
+      expect(status).toBe(400);
+    });
+  });
+
+  describe("POST /tx/:project", () => {
+    async function begin(project = "myproject"): Promise<string> {
+      const { status, json } = await request("POST", `/tx/${project}`, {});
+      expect(status).toBe(200);
+      return (json as any).data.id;
+    }
+
+    async function countPeople(): Promise<number> {
+      const { json } = await request("POST", "/query/myproject", {
+        cypher: "MATCH (n:Person) RETURN count(n) AS count",
+      });
+      return (json as any).data[0].count;
+    }
+
+    it("keeps the writes of several queries once committed", async () => {
+      const id = await begin();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Alice'})" });
+      const { json } = await request("POST", `/tx/myproject/${id}/query`, {
+        cypher: "MATCH (n:Person) RETURN n.name AS name",
+      });
+      expect((json as any).data).toEqual([{ name: "Alice" }]);
+
+      const { status } = await request("POST", `/tx/myproject/${id}/commit`, {});
+      expect(status).toBe(200);
+      expect(await countPeople()).toBe(1);
+    });
+
+    it("discards the writes when rolled back", async () => {
+      const id = await begin();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Alice'})" });
+      await request("POST", `/tx/myproject/${id}/rollback`, {});
+
+      expect(await countPeople()).toBe(0);
+      const { status } = await request("POST", `/tx/myproject/${id}/commit`, {});
+      expect(status).toBe(404);
+    });
+
+    it("rolls back when a query fails", async () => {
+      const id = await begin();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Alice'})" });
+      const { status } = await request("POST", `/tx/myproject/${id}/query`, { cypher: "RETURN nope" });
+
+      expect(status).toBe(400);
+      expect(await countPeople()).toBe(0);
+      const { status: afterFailure } = await request("POST", `/tx/myproject/${id}/query`, { cypher: "RETURN 1" });
+      expect(afterFailure).toBe(404);
+    });
+
+    it("makes queries outside the transaction wait for it", async () => {
+      const id = await begin();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Alice'})" });
+
+      const outside = countPeople();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Bob'})" });
+      await request("POST", `/tx/myproject/${id}/commit`, {});
+
+      expect(await outside).toBe(2);
+    });
+
+    it("rolls back transactions that stay idle", async () => {
+      app = createApp(dbManager, { transactionTimeoutMs: 20 });
+      const id = await begin();
+      await request("POST", `/tx/myproject/${id}/query`, { cypher: "CREATE (:Person {name: 'Alice'})" });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const { status } = await request("POST", `/tx/myproject/${id}/commit`, {});
+      expect(status).toBe(404);
+      expect(await countPeople()).toBe(0);
+    });
+
+    it("undoes schema changes when a transaction is rolled back or times out", async () => {
+      app = createApp(dbManager, { transactionTimeoutMs: 20 });
+      const create = { cypher: "CREATE CONSTRAINT person_name FOR (p:Person) REQUIRE p.name IS UNIQUE" };
+      const rolledBack = await begin();
+      await request("POST", `/tx/myproject/${rolledBack}/query`, create);
+      await request("POST", `/tx/myproject/${rolledBack}/rollback`, {});
+      const idle = await begin();
+      await request("POST", `/tx/myproject/${idle}/query`, create);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const { status } = await request("POST", "/query/myproject", {
+        cypher: "CREATE (:Person {name: 'Alice'}), (:Person {name: 'Alice'})",
+      });
+      expect(status).toBe(200);
+      expect(await countPeople()).toBe(2);
+    });
+
+        it("returns 404 for a transaction of another project", async () => {
+      const id = await begin("other");
+      const { status } = await request("POST", `/tx/myproject/${id}/query`, { cypher: "RETURN 1" });
+
+      expect(status).toBe(404);
+      await request("POST", `/tx/other/${id}/rollback`, {});
+    });
+  });
+
+  describe("POST /db/:name/tx", () => {
+    it("runs statements and commits them in one request", async () => {
+      const { status, json } = await request("POST", "/db/myproject/tx/commit", {
+        statements: [
+          { statement: "CREATE (:Person {name: $name})-[:KNOWS]->(:Person:Dev {name: 'Bob'})", parameters: { name: "Alice" } },
+          { statement: "MATCH (a)-[r:KNOWS]->(b) RETURN a, b.name AS name", resultDataContents: ["row", "graph"] },
+        ],
+      });
+
+      expect(status).toBe(200);
+      const { results, errors } = json as any;
+      expect(errors).toEqual([]);
+      expect(results[0]).toEqual({ columns: [], data: [] });
+      expect(results[1].columns).toEqual(["a", "name"]);
+      expect(results[1].data[0].row).toEqual([{ name: "Alice" }, "Bob"]);
+      expect(results[1].data[0].meta[0]).toMatchObject({ type: "node", deleted: false });
+      expect(results[1].data[0].graph.nodes).toMatchObject([{ labels: ["Person"], properties: { name: "Alice" } }]);
+    });
+
+    it("returns the relationships of graph results with their end nodes", async () => {
+      await request("POST", "/query/myproject", { cypher: "CREATE (:Person {name: 'Alice'})-[:KNOWS {since: 2020}]->(:Person {name: 'Bob'})" });
+      const { json } = await request("POST", "/db/myproject/tx/commit", {
+        statements: [{ statement: "MATCH ()-[r:KNOWS]->() RETURN r", resultDataContents: ["graph"] }],
+      });
+
+      const { graph } = (json as any).results[0].data[0];
+      expect(graph.relationships).toMatchObject([{ type: "KNOWS", properties: { since: 2020 } }]);
+      expect(graph.nodes.map((n: any) => n.properties.name).sort()).toEqual(["Alice", "Bob"]);
+      expect(graph.nodes.map((n: any) => n.id)).toContain(graph.relationships[0].startNode);
+    });
+
+    it("reports a failing statement and rolls back the ones before it", async () => {
+      const { status, json } = await request("POST", "/db/myproject/tx/commit", {
+        statements: [{ statement: "CREATE (:Person {name: 'Alice'})" }, { statement: "RETRUN 1" }],
+      });
+
+      expect(status).toBe(200);
+      expect((json as any).errors).toMatchObject([{ code: "Neo.ClientError.Statement.SyntaxError" }]);
+      const { json: count } = await request("POST", "/query/myproject", { cypher: "MATCH (n) RETURN count(n) AS count" });
+      expect((count as any).data[0].count).toBe(0);
+    });
+
+    it("keeps a transaction open across requests until it is committed", async () => {
+      const res = await app.fetch(
+        new Request("http://localhost/db/myproject/tx", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ statements: [{ statement: "CREATE (:Person {name: 'Alice'})" }] }),
+        })
+      );
+      expect(res.status).toBe(201);
+      const body = (await res.json()) as any;
+      expect(res.headers.get("Location")).toBe(body.commit.replace(/\/commit$/, ""));
+      expect(body.transaction.expires).toBeDefined();
+      const id = res.headers.get("Location")!.split("/").pop();
+
+      const { json } = await request("POST", `/db/myproject/tx/${id}`, {
+        statements: [{ statement: "MATCH (n:Person) RETURN n.name AS name" }],
+      });
+      expect((json as any).results[0].data).toEqual([{ row: ["Alice"], meta: [null] }]);
+
+      const { status } = await request("POST", `/db/myproject/tx/${id}/commit`, {});
+      expect(status).toBe(200);
+      const { json: count } = await request("POST", "/query/myproject", { cypher: "MATCH (n) RETURN count(n) AS count" });
+      expect((count as any).data[0].count).toBe(1);
+    });
+
+    it("rolls back an open transaction on DELETE", async () => {
+      const res = await app.fetch(
+        new Request("http://localhost/db/myproject/tx", {
+          method: "POST",
+          body: JSON.stringify({ statements: [{ statement: "CREATE (:Person)" }] }),
+        })
+      );
+      const id = res.headers.get("Location")!.split("/").pop();
+
+      await request("DELETE", `/db/myproject/tx/${id}`);
+      const { status, json } = await request("POST", `/db/myproject/tx/${id}/commit`, {});
+      expect(status).toBe(404);
+      expect((json as any).errors[0].code).toBe("Neo.ClientError.Transaction.TransactionNotFound");
+    });
   });
 
   describe("GET /admin/list", () => {
@@ -244,7 +545,7 @@ describe("Backup Routes", () => {
 
     dbManager = new DatabaseManager(dataPath);
     backupManager = new BackupManager(backupPath);
-    app = createApp(dbManager, dataPath, backupManager);
+    app = createApp(dbManager, { dataPath, backupManager });
   });
 
   afterEach(() => {
@@ -278,7 +579,7 @@ describe("Backup Routes", () => {
     });
 
     it("returns 400 when backup not configured", async () => {
-      const noBackupApp = createApp(dbManager, dataPath, undefined);
+      const noBackupApp = createApp(dbManager, { dataPath });
       const req = new Request("http://localhost/admin/backup", { method: "GET" });
       const res = await noBackupApp.fetch(req);
       const json = await res.json();
@@ -329,7 +630,7 @@ describe("Backup Routes", () => {
     });
 
     it("returns 400 when backup not configured", async () => {
-      const noBackupApp = createApp(dbManager, dataPath, undefined);
+      const noBackupApp = createApp(dbManager, { dataPath });
       const req = new Request("http://localhost/admin/backup", { method: "POST" });
       const res = await noBackupApp.fetch(req);
       const json = await res.json();
@@ -373,6 +674,28 @@ describe("API Key Authentication", () => {
     server.dbManager.closeAll();
   });
 
+  it("accepts the API key as Basic auth password on the Neo4j endpoint", async () => {
+    const server = createServer({
+      dataPath: ":memory:",
+      apiKeys: {
+        "test-api-key": { project: "myproject" },
+      },
+    });
+
+    const credentials = Buffer.from("neo4j:test-api-key").toString("base64");
+    const request = (name: string) =>
+      new Request(`http://localhost/db/${name}/tx/commit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Basic ${credentials}` },
+        body: JSON.stringify({ statements: [{ statement: "RETURN 1 AS one" }] }),
+      });
+
+    expect((await server.app.fetch(request("myproject"))).status).toBe(200);
+    expect((await server.app.fetch(request("other"))).status).toBe(403);
+
+    server.dbManager.closeAll();
+  });
+
   it("allows all requests when no API keys are configured", async () => {
     const server = createServer({ dataPath: ":memory:" });
 